@@ -1,6 +1,7 @@
 import { StatusBar } from 'expo-status-bar';
 import { useState, useEffect, useRef, useCallback } from 'react';
 import {
+	AppState,
 	type NativeSyntheticEvent,
 	type NativeScrollEvent,
 	useColorScheme,
@@ -11,7 +12,8 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { KeyboardProvider } from 'react-native-keyboard-controller';
-import * as SecureStore from 'expo-secure-store';
+import Constants from 'expo-constants';
+import * as Sharing from 'expo-sharing';
 import {
 	fetchSessions,
 	fetchModels,
@@ -19,45 +21,190 @@ import {
 	saveSettings as apiSaveSettings,
 	updateSession as apiUpdateSession,
 	deleteSession as apiDeleteSession,
+	downloadSessionExport,
+	forkSession as apiForkSession,
+	importSessions as apiImportSessions,
 	removeProject as apiRemoveProject,
+	saveProjectProfile as apiSaveProjectProfile,
 	fetchProjects,
 	createSession,
 	sendChat,
+	retrySession,
+	branchSession as apiBranchSession,
+	followRun,
+	fetchActiveRuns,
+	editQueuedRun,
+	dropQueuedRun,
+	RunDisconnectedError,
+	cancelRun as apiCancelRun,
+	respondToPermission as apiRespondToPermission,
 	fetchSessionMessages,
+	pairDevice,
+	revokeDevice as apiRevokeDevice,
 	SERVER_URL,
+	setAuthToken,
+	setCertificateFingerprint,
 	setServerUrl,
+	UnauthorizedError,
 } from './api';
-
-const STORAGE_KEY_SERVER_URL = 'serverUrl';
 import { AppContext } from './AppContext';
 import type { ScrollHandle } from './AppContext';
+import type { PairingLink } from './pairing';
 import { SessionsScreen } from './screens/SessionsScreen';
 import { SettingsScreen } from './screens/SettingsScreen';
-import type { Message, PermissionMode, Project, Session } from './types';
+import {
+	forgetServerToken,
+	loadServerProfiles,
+	newServerProfile,
+	saveActiveServerId,
+	saveServerProfiles,
+	type ServerProfile,
+} from './servers';
+import type {
+	BranchPoint,
+	Device,
+	ExportFormat,
+	Message,
+	PendingPermission,
+	PermissionDecision,
+	PermissionMode,
+	Project,
+	ProjectProfile,
+	Run,
+	RunFailure,
+	SearchHit,
+	Session,
+	TokenUsage,
+	ToolRules,
+	TurnEvent,
+} from './types';
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+	md: 'text/markdown',
+	json: 'application/json',
+	html: 'text/html',
+};
 
 const Tab = createBottomTabNavigator();
 
-function AppStateProvider({ children }: { children: React.ReactNode }) {
-	const [sessions, setSessions] = useState<Session[]>([]);
-	const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-	const [messagesBySession, setMessagesBySession] = useState<Map<string, Message[]>>(new Map());
-	const [selectedModel, setSelectedModel] = useState<string>('haiku');
-	const [availableModels, setAvailableModels] = useState<string[]>(['haiku', 'sonnet']);
+// Streamed text extends the current text step; text after a tool call starts a new one
+function appendTextEvent(events: TurnEvent[], text: string): TurnEvent[] {
+	const last = events[events.length - 1];
+	if (last?.kind === 'text') return [...events.slice(0, -1), { kind: 'text', text: last.text + text }];
+	return [...events, { kind: 'text', text: text.replace(/^\n+/, '') }];
+}
+
+function addUsage(total: TokenUsage | undefined, turn: TokenUsage): TokenUsage {
+	return {
+		inputTokens: (total?.inputTokens ?? 0) + turn.inputTokens,
+		outputTokens: (total?.outputTokens ?? 0) + turn.outputTokens,
+		cacheReadTokens: (total?.cacheReadTokens ?? 0) + turn.cacheReadTokens,
+		cacheCreationTokens: (total?.cacheCreationTokens ?? 0) + turn.cacheCreationTokens,
+		costUsd: (total?.costUsd ?? 0) + turn.costUsd,
+	};
+}
+
+// What a server's provider had loaded, so switching back to it shows its data straight away
+type ServerSnapshot = {
+	sessions: Session[];
+	currentSessionId: string | null;
+	messagesBySession: Map<string, Message[]>;
+	branchesBySession: Map<string, BranchPoint[]>;
+	selectedModel: string;
+	availableModels: string[];
+	baseDir: string | null;
+	projects: Project[];
+	currentProjectId: string | null;
+};
+
+interface AppStateProviderProps {
+	server: ServerProfile;
+	servers: ServerProfile[];
+	/** Snapshots by server id, kept for the app's lifetime */
+	snapshots: Map<string, ServerSnapshot>;
+	onSwitchServer: (id: string) => void;
+	onSaveServer: (profile: ServerProfile) => Promise<void>;
+	onRemoveServer: (id: string) => Promise<void>;
+	children: React.ReactNode;
+}
+
+// Mounted once per server (keyed by its id), so nothing of one server's state leaks into another's
+function AppStateProvider({
+	server,
+	servers,
+	snapshots,
+	onSwitchServer,
+	onSaveServer,
+	onRemoveServer,
+	children,
+}: AppStateProviderProps) {
+	const snapshot = snapshots.get(server.id);
+	const [sessions, setSessions] = useState<Session[]>(snapshot?.sessions ?? []);
+	const [currentSessionId, setCurrentSessionId] = useState<string | null>(
+		snapshot?.currentSessionId ?? null,
+	);
+	const [messagesBySession, setMessagesBySession] = useState<Map<string, Message[]>>(
+		snapshot?.messagesBySession ?? new Map(),
+	);
+	// Edited or regenerated prompts of each loaded session, for switching between their versions
+	const [branchesBySession, setBranchesBySession] = useState<Map<string, BranchPoint[]>>(
+		snapshot?.branchesBySession ?? new Map(),
+	);
+	const [selectedModel, setSelectedModel] = useState<string>(snapshot?.selectedModel ?? 'haiku');
+	const [availableModels, setAvailableModels] = useState<string[]>(
+		snapshot?.availableModels ?? ['haiku', 'sonnet'],
+	);
 	const [input, setInput] = useState('');
-	const [loading, setLoading] = useState(false);
+	// Session id → id of its unfinished run on the server (attached or not)
+	const [activeRunBySession, setActiveRunBySession] = useState<Map<string, string>>(new Map());
+	const [sending, setSending] = useState(false);
+	// Follow-ups waiting behind the running prompt, per session, in server order
+	const [queuedBySession, setQueuedBySession] = useState<Map<string, Run[]>>(new Map());
+	const [activityBySession, setActivityBySession] = useState<Map<string, string>>(new Map());
+	// Tool calls each session's run is holding for approval (askApproval mode)
+	const [permissionsBySession, setPermissionsBySession] = useState<
+		Map<string, PendingPermission[]>
+	>(new Map());
 	const [error, setError] = useState<string | null>(null);
 	const [connected, setConnected] = useState(false);
+	// The server turned this phone away — it has to scan the server's pairing QR code
+	const [needsPairing, setNeedsPairing] = useState(false);
 	const [showScrollButton, setShowScrollButton] = useState(false);
 	const [loadingMessages, setLoadingMessages] = useState(false);
 
-	const [baseDir, setBaseDir] = useState<string | null>(null);
-	const [projects, setProjects] = useState<Project[]>([]);
-	const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
-	const [serverUrl, setServerUrlState] = useState(SERVER_URL);
+	const [baseDir, setBaseDir] = useState<string | null>(snapshot?.baseDir ?? null);
+	const [projects, setProjects] = useState<Project[]>(snapshot?.projects ?? []);
+	const [currentProjectId, setCurrentProjectId] = useState<string | null>(
+		snapshot?.currentProjectId ?? null,
+	);
+	// Message to scroll to and highlight once its session's history has loaded (opened from search)
+	const [focusedMessage, setFocusedMessage] = useState<{ sessionId: string; index: number } | null>(
+		null,
+	);
 
 	const scrollRef = useRef<ScrollHandle>(null);
 	const fetchedSessionsRef = useRef<Set<string>>(new Set());
 	const isNearBottomRef = useRef(true);
+	// Runs this client is currently following, so reattaching never opens a second stream
+	const attachedRunsRef = useRef<Set<string>>(new Set());
+	// Aborted on unmount, i.e. on switching servers, so no stream or reattach outlives its server
+	const [follows] = useState(() => new AbortController());
+	useEffect(() => () => follows.abort(), [follows]);
+	const activeRunsRef = useRef(activeRunBySession);
+	activeRunsRef.current = activeRunBySession;
+	const queuedRef = useRef(queuedBySession);
+	queuedRef.current = queuedBySession;
+	const currentSessionIdRef = useRef(currentSessionId);
+	currentSessionIdRef.current = currentSessionId;
+
+	const loading =
+		currentSessionId !== null && (sending || activeRunBySession.has(currentSessionId));
+	const activity = currentSessionId ? (activityBySession.get(currentSessionId) ?? null) : null;
+	const queuedRuns = currentSessionId ? (queuedBySession.get(currentSessionId) ?? []) : [];
+	const pendingPermissions = currentSessionId
+		? (permissionsBySession.get(currentSessionId) ?? [])
+		: [];
+	const branches = currentSessionId ? (branchesBySession.get(currentSessionId) ?? []) : [];
 
 	const appendMessage = (sessionId: string, message: Message) => {
 		setMessagesBySession((prev) => {
@@ -67,6 +214,211 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 		});
 	};
 
+	// Mutate the newest message of a session in place (used while an assistant reply streams in)
+	const updateLastMessage = (sessionId: string, update: (message: Message) => Message) => {
+		setMessagesBySession((prev) => {
+			const messages = prev.get(sessionId) ?? [];
+			const last = messages[messages.length - 1];
+			if (!last) return prev;
+			const next = new Map(prev);
+			next.set(sessionId, [...messages.slice(0, -1), update(last)]);
+			return next;
+		});
+	};
+
+	const setSessionActivity = (sessionId: string, value: string | null) => {
+		setActivityBySession((prev) => {
+			const next = new Map(prev);
+			if (value === null) next.delete(sessionId);
+			else next.set(sessionId, value);
+			return next;
+		});
+	};
+
+	// Keep the header's running cost current without refetching the session list
+	const addSessionUsage = (sessionId: string, usage: TokenUsage) => {
+		setSessions((prev) =>
+			prev.map((s) => (s.id === sessionId ? { ...s, usage: addUsage(s.usage, usage) } : s)),
+		);
+	};
+
+	const setActiveRun = (sessionId: string, runId: string | null) => {
+		setActiveRunBySession((prev) => {
+			const next = new Map(prev);
+			if (runId === null) next.delete(sessionId);
+			else next.set(sessionId, runId);
+			return next;
+		});
+	};
+
+	const setQueued = (sessionId: string, update: (runs: Run[]) => Run[]) => {
+		setQueuedBySession((prev) => {
+			const next = new Map(prev);
+			next.set(sessionId, update(prev.get(sessionId) ?? []));
+			return next;
+		});
+	};
+
+	const setPermissions = (
+		sessionId: string,
+		update: (requests: PendingPermission[]) => PendingPermission[],
+	) => {
+		setPermissionsBySession((prev) => {
+			const next = new Map(prev);
+			next.set(sessionId, update(prev.get(sessionId) ?? []));
+			return next;
+		});
+	};
+
+	const replaceMessages = (sessionId: string, messages: Message[]) => {
+		setMessagesBySession((prev) => {
+			const next = new Map(prev);
+			next.set(sessionId, messages);
+			return next;
+		});
+	};
+
+	const setBranches = (sessionId: string, branches: BranchPoint[] = []) => {
+		setBranchesBySession((prev) => {
+			const next = new Map(prev);
+			next.set(sessionId, branches);
+			return next;
+		});
+	};
+
+	// Follow a run's event stream, growing the assistant bubble as deltas arrive.
+	// `prompt` is shown as the user bubble when the run's message isn't in the history yet.
+	const attachRun = async (sessionId: string, runId: string, prompt?: string) => {
+		if (attachedRunsRef.current.has(runId)) return;
+		attachedRunsRef.current.add(runId);
+		setActiveRun(sessionId, runId);
+		if (prompt !== undefined) appendMessage(sessionId, { role: 'user', content: prompt });
+
+		// The server replays the run from its first event, so drop any bubble from an earlier attachment
+		setMessagesBySession((prev) => {
+			const messages = prev.get(sessionId) ?? [];
+			if (!messages[messages.length - 1]?.streaming) return prev;
+			const next = new Map(prev);
+			next.set(sessionId, messages.slice(0, -1));
+			return next;
+		});
+
+		const isCurrent = () => currentSessionIdRef.current === sessionId;
+		let bubbleAdded = false;
+		let disconnected = false;
+		// Steps of the turn so far; the done event replaces them with the server's authoritative list
+		let events: TurnEvent[] = [];
+		// Set when the CLI failed — the server recorded it in the history in place of a reply
+		let failure: RunFailure | undefined;
+		const renderBubble = (text: string) => {
+			if (!bubbleAdded) {
+				bubbleAdded = true;
+				appendMessage(sessionId, { role: 'assistant', content: text, events, streaming: true });
+			} else {
+				updateLastMessage(sessionId, (m) => ({ ...m, content: m.content + text, events }));
+			}
+		};
+		try {
+			const response = await followRun(
+				runId,
+				(event) => {
+					if (event.type === 'tool') setSessionActivity(sessionId, `Using ${event.name}…`);
+					if (event.type === 'done' && event.events) events = event.events;
+					if (event.type === 'done' && event.usage) addSessionUsage(sessionId, event.usage);
+					if (event.type === 'error') failure = event.failure;
+					if (event.type === 'permission_resolved') {
+						setPermissions(sessionId, (requests) => requests.filter((r) => r.id !== event.id));
+					}
+					if (event.type === 'permission_request') {
+						setPermissions(sessionId, (requests) => [...requests, event.request]);
+					} else if (event.type === 'turn_event') {
+						events = [...events, event.event];
+						renderBubble('');
+					} else if (event.type === 'delta') {
+						setSessionActivity(sessionId, null);
+						events = appendTextEvent(events, event.text);
+						renderBubble(event.text);
+					} else {
+						return;
+					}
+					if (isCurrent() && isNearBottomRef.current) {
+						scrollRef.current?.scrollToEnd({ animated: false });
+					}
+				},
+				follows.signal,
+			);
+			if (response === null) {
+				// Cancelled — the server recorded whatever had streamed in as an interrupted reply
+				if (bubbleAdded) {
+					updateLastMessage(sessionId, (m) => ({ ...m, streaming: false, interrupted: true }));
+				} else {
+					appendMessage(sessionId, { role: 'assistant', content: '', interrupted: true });
+				}
+			} else if (bubbleAdded) {
+				// The final text is authoritative — streamed text may include intermediate tool-use turns
+				updateLastMessage(sessionId, () => ({ role: 'assistant', content: response, events }));
+			} else {
+				appendMessage(sessionId, { role: 'assistant', content: response, events });
+			}
+		} catch (e) {
+			if (failure) {
+				// Mirror the server's history: the failure replaces whatever had streamed in
+				const entry: Message = { role: 'assistant', content: '', failure };
+				if (bubbleAdded) updateLastMessage(sessionId, () => entry);
+				else appendMessage(sessionId, entry);
+				return;
+			}
+			if (bubbleAdded) updateLastMessage(sessionId, (m) => ({ ...m, streaming: false }));
+			// A dropped stream leaves the run going server-side; reattach() picks it up again later.
+			// Aborting on unmount lands here too: no error to show and nothing to reattach
+			disconnected = e instanceof RunDisconnectedError;
+			if (!disconnected) setError(`Error: ${e instanceof Error ? e.message : 'Unknown error'}`);
+		} finally {
+			attachedRunsRef.current.delete(runId);
+			setSessionActivity(sessionId, null);
+			// Replayed on reattach, so start from scratch rather than keep cards that may be stale
+			setPermissions(sessionId, () => []);
+			if (!disconnected) {
+				setActiveRun(sessionId, null);
+				// The server starts the next queued follow-up on its own — pick it up
+				if ((queuedRef.current.get(sessionId) ?? []).length > 0) void reattach(sessionId);
+			}
+			if (isCurrent()) {
+				if (isNearBottomRef.current) {
+					setTimeout(() => scrollRef.current?.scrollToEnd({ animated: true }), 100);
+				} else {
+					setShowScrollButton(true);
+				}
+			}
+		}
+	};
+
+	// Attach to the session's unfinished run and refresh its queue; refresh history if a run finished while detached
+	const reattach = async (sessionId: string) => {
+		if (follows.signal.aborted) return;
+		try {
+			const runs = await fetchActiveRuns(sessionId);
+			if (follows.signal.aborted) return;
+			const knownQueued = queuedRef.current.get(sessionId) ?? [];
+			setQueued(sessionId, () => runs.filter((r) => r.status === 'queued'));
+			const running = runs.find((r) => r.status === 'running');
+			if (running) {
+				// A follow-up we showed as queued has started — its prompt moves into the conversation
+				const wasQueued = knownQueued.some((r) => r.id === running.id);
+				void attachRun(sessionId, running.id, wasQueued ? running.message : undefined);
+				return;
+			}
+			if (activeRunsRef.current.has(sessionId)) {
+				setActiveRun(sessionId, null);
+				const { messages, branches } = await fetchSessionMessages(sessionId);
+				replaceMessages(sessionId, messages);
+				setBranches(sessionId, branches);
+			}
+		} catch {
+			// Still offline — the next foreground or session switch tries again
+		}
+	};
+
 	const handleSelectProject = useCallback((id: string) => {
 		setCurrentProjectId(id);
 		setCurrentSessionId(null);
@@ -75,14 +427,52 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 	const handleNewSession = useCallback(async () => {
 		if (!currentProjectId) return;
 		try {
-			const session = await createSession(selectedModel, currentProjectId);
+			// A profile's model beats the global picker; the server applies the rest of the profile
+			const profile = projects.find((p) => p.id === currentProjectId)?.profile;
+			const session = await createSession(
+				profile?.model ? undefined : selectedModel,
+				currentProjectId,
+			);
 			setSessions((prev) => [session, ...prev]);
 			setCurrentSessionId(session.id);
 			setError(null);
 		} catch (e) {
 			setError(`Failed to create session: ${e instanceof Error ? e.message : 'Unknown error'}`);
 		}
-	}, [selectedModel, currentProjectId]);
+	}, [selectedModel, currentProjectId, projects]);
+
+	const handleForkSession = useCallback(
+		async (messageIndex: number) => {
+			if (!currentSessionId) return;
+			try {
+				const session = await apiForkSession(currentSessionId, messageIndex);
+				setSessions((prev) => [session, ...prev]);
+				setCurrentSessionId(session.id);
+				setError(null);
+			} catch (e) {
+				setError(`Failed to fork session: ${e instanceof Error ? e.message : 'Unknown error'}`);
+			}
+		},
+		[currentSessionId],
+	);
+
+	const handleImportSessions = useCallback(
+		async (sessionIds: string[]) => {
+			if (!currentProjectId) return;
+			const imported = await apiImportSessions(currentProjectId, sessionIds);
+			setSessions((prev) => [...imported, ...prev]);
+			if (imported[0]) setCurrentSessionId(imported[0].id);
+		},
+		[currentProjectId],
+	);
+
+	const handleOpenSearchHit = useCallback((hit: SearchHit) => {
+		setCurrentProjectId(hit.projectPath);
+		setCurrentSessionId(hit.sessionId);
+		setFocusedMessage(
+			hit.messageIndex !== undefined ? { sessionId: hit.sessionId, index: hit.messageIndex } : null,
+		);
+	}, []);
 
 	const handleSaveBaseDir = useCallback(async (value: string) => {
 		const settings = await apiSaveSettings(value);
@@ -93,14 +483,29 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 		}
 	}, []);
 
-	const handleSaveServerUrl = useCallback(async (url: string) => {
-		await SecureStore.setItemAsync(STORAGE_KEY_SERVER_URL, url);
-		setServerUrl(url);
-		setServerUrlState(url);
-		const modelsData = await fetchModels();
-		setAvailableModels(modelsData.models);
-		setSelectedModel((prev) => (modelsData.models.includes(prev) ? prev : modelsData.default));
-	}, []);
+	// Keep the token and any certificate fingerprint in the paired server's profile — a new one if
+	// it's a server we didn't know — and switch to it; its provider connects again from scratch
+	const handlePair = useCallback(
+		async ({ serverUrl: url, code, fingerprint }: PairingLink) => {
+			const { token } = await pairDevice(url, code, Constants.deviceName ?? 'Phone', fingerprint);
+			const profile = servers.find((p) => p.url === url) ?? newServerProfile(url, servers);
+			await onSaveServer({ ...profile, token, fingerprint });
+			setError(null);
+			onSwitchServer(profile.id);
+		},
+		[servers, onSaveServer, onSwitchServer],
+	);
+
+	const handleRevokeDevice = useCallback(
+		async (device: Device) => {
+			await apiRevokeDevice(device.id);
+			if (!device.current) return;
+			setNeedsPairing(true);
+			setConnected(false);
+			await onSaveServer({ ...server, token: undefined });
+		},
+		[server, onSaveServer],
+	);
 
 	const handleSetSessionPermissionMode = useCallback(
 		async (mode: PermissionMode) => {
@@ -111,6 +516,15 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 		[currentSessionId],
 	);
 
+	const handleSetSessionToolRules = useCallback(
+		async (rules: Partial<ToolRules>) => {
+			if (!currentSessionId) return;
+			const updated = await apiUpdateSession(currentSessionId, rules);
+			setSessions((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+		},
+		[currentSessionId],
+	);
+
 	const handleRenameSession = useCallback(async (id: string, name: string) => {
 		const updated = await apiUpdateSession(id, { name });
 		setSessions((prev) => prev.map((s) => (s.id === id ? updated : s)));
@@ -125,6 +539,14 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 		[currentSessionId],
 	);
 
+	const handleExportSession = useCallback(async (id: string, format: ExportFormat) => {
+		const uri = await downloadSessionExport(id, format);
+		await Sharing.shareAsync(uri, {
+			mimeType: EXPORT_MIME_TYPES[format],
+			dialogTitle: 'Share conversation',
+		});
+	}, []);
+
 	const handleRemoveProject = useCallback(
 		async (id: string) => {
 			await apiRemoveProject(id);
@@ -137,17 +559,18 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 		[currentProjectId],
 	);
 
-	// On mount: load models + settings in parallel; if baseDir set, also load projects + sessions
+	const handleSaveProjectProfile = useCallback(async (id: string, profile: ProjectProfile) => {
+		const saved = await apiSaveProjectProfile(id, profile);
+		setProjects((prev) => prev.map((p) => (p.id === id ? { ...p, profile: saved } : p)));
+	}, []);
+
+	// On mount (and when the server's URL or pairing changes): load models + settings in parallel; if
+	// baseDir set, also load projects + sessions
 	useEffect(() => {
 		let cancelled = false;
 
 		async function init() {
-			const savedUrl = await SecureStore.getItemAsync(STORAGE_KEY_SERVER_URL);
-			if (savedUrl) {
-				setServerUrl(savedUrl);
-				setServerUrlState(savedUrl);
-			}
-			if (__DEV__) console.log('[init] connecting to', savedUrl ?? SERVER_URL);
+			if (__DEV__) console.log('[init] connecting to', server.url);
 			try {
 				const [modelsData, settings] = await Promise.all([fetchModels(), fetchSettings()]);
 
@@ -155,27 +578,37 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 
 				if (__DEV__) console.log('[init] connected ok');
 				setAvailableModels(modelsData.models);
-			setSelectedModel(modelsData.default);
+				setSelectedModel(modelsData.default);
 				setConnected(true);
+				setNeedsPairing(false);
 				setBaseDir(settings.baseDir);
 
 				if (settings.baseDir) {
-					const [discovered, existingSessions] = await Promise.all([
+					const [discovered, existingSessions, activeRuns] = await Promise.all([
 						fetchProjects(),
 						fetchSessions(),
+						fetchActiveRuns(),
 					]);
 
 					if (cancelled) return;
 
 					setProjects(discovered);
 					setSessions(existingSessions);
+					// Remember unfinished runs; each is attached when its session is opened
+					setActiveRunBySession(new Map(activeRuns.map((r) => [r.sessionId, r.id])));
 				}
 			} catch (e) {
 				if (!cancelled) {
 					if (__DEV__) console.error('[init] connection failed:', e);
-					setError(
-						`Failed to connect to ${SERVER_URL}: ${e instanceof Error ? e.message : 'Unknown error'}`,
-					);
+					const url = server.url;
+					if (e instanceof UnauthorizedError) {
+						setNeedsPairing(true);
+						setError(`Not paired with ${url} — scan its QR code under Settings → Server`);
+					} else {
+						setError(
+							`Failed to connect to ${url}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+						);
+					}
 					setConnected(false);
 					// No toast here — the persistent error banner handles this
 				}
@@ -186,7 +619,33 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 		return () => {
 			cancelled = true;
 		};
-	}, []);
+	}, [server.url, server.token, server.fingerprint]);
+
+	useEffect(() => {
+		snapshots.set(server.id, {
+			sessions,
+			currentSessionId,
+			messagesBySession,
+			branchesBySession,
+			selectedModel,
+			availableModels,
+			baseDir,
+			projects,
+			currentProjectId,
+		});
+	}, [
+		snapshots,
+		server.id,
+		sessions,
+		currentSessionId,
+		messagesBySession,
+		branchesBySession,
+		selectedModel,
+		availableModels,
+		baseDir,
+		projects,
+		currentProjectId,
+	]);
 
 	// Scroll to bottom when switching sessions
 	useEffect(() => {
@@ -197,31 +656,80 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 		return () => clearTimeout(timer);
 	}, [currentSessionId]);
 
-	// Fetch message history when switching to a session we haven't loaded yet
+	// Jump to a search hit once its message is loaded — after the scroll to bottom on session switch
+	const focusedLoaded =
+		focusedMessage !== null &&
+		(messagesBySession.get(focusedMessage.sessionId)?.length ?? 0) > focusedMessage.index;
+	useEffect(() => {
+		if (!focusedMessage || !focusedLoaded || focusedMessage.sessionId !== currentSessionId) return;
+		const scrollTimer = setTimeout(() => {
+			scrollRef.current?.scrollToIndex({
+				index: focusedMessage.index,
+				animated: true,
+				viewPosition: 0.3,
+			});
+		}, 300);
+		const clearTimer = setTimeout(() => setFocusedMessage(null), 3000);
+		return () => {
+			clearTimeout(scrollTimer);
+			clearTimeout(clearTimer);
+		};
+	}, [focusedMessage, focusedLoaded, currentSessionId]);
+
+	// Fetch message history when switching to a session we haven't loaded yet, then reattach to its run
 	useEffect(() => {
 		if (!currentSessionId) return;
-		if (fetchedSessionsRef.current.has(currentSessionId)) return;
+		const sessionId = currentSessionId;
+		if (fetchedSessionsRef.current.has(sessionId)) {
+			// The session may have been continued on the desktop since we loaded it
+			if (!activeRunsRef.current.has(sessionId)) {
+				fetchSessionMessages(sessionId)
+					.then(({ messages, sync, branches }) => {
+						if (sync?.status === 'synced') replaceMessages(sessionId, messages);
+						// Another version of a prompt may have been sent from elsewhere
+						setBranches(sessionId, branches);
+					})
+					.catch(() => {
+						// Offline — keep what we have
+					});
+			}
+			void reattach(sessionId);
+			return;
+		}
 
-		fetchedSessionsRef.current.add(currentSessionId);
+		fetchedSessionsRef.current.add(sessionId);
 		setLoadingMessages(true);
 
-		fetchSessionMessages(currentSessionId)
-			.then((messages) => {
+		fetchSessionMessages(sessionId)
+			.then(({ messages, sync, branches }) => {
+				setBranches(sessionId, branches);
 				if (messages.length > 0) {
-					setMessagesBySession((prev) => {
-						const next = new Map(prev);
-						next.set(currentSessionId, messages);
-						return next;
-					});
+					replaceMessages(sessionId, messages);
 					setTimeout(() => scrollRef.current?.scrollToEnd({ animated: false }), 50);
 				}
+				if (sync?.status === 'diverged') {
+					setError(`History differs from the Claude CLI transcript: ${sync.reason}`);
+				}
 			})
 			.catch(() => {
 				// Silently ignore — server may not have history yet
 			})
-			.finally(() => setLoadingMessages(false));
+			.finally(() => {
+				setLoadingMessages(false);
+				void reattach(sessionId);
+			});
 	}, [currentSessionId]);
 
+	// Coming back to the foreground: the event stream likely died while the phone was locked
+	useEffect(() => {
+		const subscription = AppState.addEventListener('change', (state) => {
+			if (state === 'active' && currentSessionIdRef.current) {
+				void reattach(currentSessionIdRef.current);
+			}
+		});
+		return () => subscription.remove();
+	}, []);
+
 	const onScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
 		const { contentOffset, contentSize, layoutMeasurement } = e.nativeEvent;
 		const distanceFromBottom = contentSize.height - layoutMeasurement.height - contentOffset.y;
@@ -230,28 +738,123 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 		if (near) setShowScrollButton(false);
 	};
 
+	// While a run is in flight, sending queues the message server-side as a follow-up
 	const send = async () => {
-		if (!input.trim() || !currentSessionId || loading) return;
+		if (!input.trim() || !currentSessionId || sending) return;
 
+		const sessionId = currentSessionId;
 		const userMessage = input.trim();
 		setInput('');
-		appendMessage(currentSessionId, { role: 'user', content: userMessage });
 		isNearBottomRef.current = true;
-		setLoading(true);
+		setSending(true);
 		setError(null);
 
 		try {
-			const response = await sendChat(currentSessionId, userMessage);
-			appendMessage(currentSessionId, { role: 'assistant', content: response });
+			const run = await sendChat(sessionId, userMessage);
+			if (run.status === 'queued') {
+				setQueued(sessionId, (runs) => [...runs, run]);
+			} else {
+				void attachRun(sessionId, run.id, userMessage);
+			}
 		} catch (e) {
+			setInput(userMessage);
 			setError(`Error: ${e instanceof Error ? e.message : 'Unknown error'}`);
 		} finally {
-			setLoading(false);
-			if (isNearBottomRef.current) {
-				setTimeout(() => scrollRef.current?.scrollToEnd({ animated: true }), 100);
-			} else {
-				setShowScrollButton(true);
-			}
+			setSending(false);
+		}
+	};
+
+	// The prompt is already in the history, above the failure, so attach without a new user bubble
+	const handleRetry = async () => {
+		if (!currentSessionId || loading) return;
+		const sessionId = currentSessionId;
+		isNearBottomRef.current = true;
+		setError(null);
+		try {
+			const run = await retrySession(sessionId);
+			void attachRun(sessionId, run.id);
+		} catch (e) {
+			setError(`Failed to retry: ${e instanceof Error ? e.message : 'Unknown error'}`);
+		}
+	};
+
+	const refreshBranches = async (sessionId: string) => {
+		try {
+			setBranches(sessionId, (await fetchSessionMessages(sessionId)).branches);
+		} catch {
+			// Offline — the arrows catch up the next time the session is opened
+		}
+	};
+
+	// Send the prompt again in a new branch, which the app switches to; the original stays reachable
+	const resendInBranch = async (messageIndex: number, message?: string) => {
+		if (!currentSessionId) return;
+		const sourceId = currentSessionId;
+		const history = messagesBySession.get(sourceId) ?? [];
+		const prompt = message ?? history[messageIndex]?.content ?? '';
+		const { session, run } = await apiBranchSession(sourceId, messageIndex, message);
+		setSessions((prev) => [session, ...prev]);
+		// The branch starts with the history before the prompt; attaching adds the prompt and reply
+		fetchedSessionsRef.current.add(session.id);
+		replaceMessages(session.id, history.slice(0, messageIndex));
+		isNearBottomRef.current = true;
+		setCurrentSessionId(session.id);
+		void attachRun(session.id, run.id, prompt);
+		void refreshBranches(session.id);
+		void refreshBranches(sourceId);
+	};
+
+	const handleEditMessage = (messageIndex: number, message: string) =>
+		resendInBranch(messageIndex, message);
+
+	const handleRegenerate = async (messageIndex: number) => {
+		setError(null);
+		try {
+			await resendInBranch(messageIndex);
+		} catch (e) {
+			setError(`Failed to regenerate: ${e instanceof Error ? e.message : 'Unknown error'}`);
+		}
+	};
+
+	const handleSelectBranch = (point: BranchPoint, offset: -1 | 1) => {
+		const sessionId = point.sessionIds[point.current + offset];
+		if (!sessionId) return;
+		setCurrentSessionId(sessionId);
+		// Land on the same prompt in the other version rather than at the bottom
+		setFocusedMessage({ sessionId, index: point.messageIndex });
+	};
+
+	const handleEditQueued = async (runId: string, message: string) => {
+		if (!currentSessionId) return;
+		const updated = await editQueuedRun(runId, message);
+		setQueued(currentSessionId, (runs) => runs.map((r) => (r.id === runId ? updated : r)));
+	};
+
+	const handleDropQueued = async (runId: string) => {
+		if (!currentSessionId) return;
+		await dropQueuedRun(runId);
+		setQueued(currentSessionId, (runs) => runs.filter((r) => r.id !== runId));
+	};
+
+	const handleRespondToPermission = async (id: string, decision: PermissionDecision) => {
+		if (!currentSessionId) return;
+		const sessionId = currentSessionId;
+		try {
+			await apiRespondToPermission(id, decision);
+		} catch (e) {
+			// 404: already answered elsewhere or timed out — the stream removes the card either way
+			setError(`Failed to respond: ${e instanceof Error ? e.message : 'Unknown error'}`);
+			return;
+		}
+		setPermissions(sessionId, (requests) => requests.filter((r) => r.id !== id));
+	};
+
+	const cancel = async () => {
+		if (!currentSessionId || !loading) return;
+		try {
+			await apiCancelRun(currentSessionId);
+		} catch (e) {
+			setError(`Failed to stop: ${e instanceof Error ? e.message : 'Unknown error'}`);
 		}
 	};
 
@@ -265,10 +868,16 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 				availableModels,
 				input,
 				loading,
+				activity,
+				queuedRuns,
+				pendingPermissions,
+				branches,
 				error,
 				connected,
 				showScrollButton,
 				loadingMessages,
+				focusedMessageIndex:
+					focusedMessage?.sessionId === currentSessionId ? focusedMessage.index : null,
 				baseDir,
 				projects,
 				currentProjectId,
@@ -278,14 +887,34 @@ function AppStateProvider({ children }: { children: React.ReactNode }) {
 				setSelectedModel,
 				handleSelectProject,
 				handleNewSession,
+				handleForkSession,
+				handleImportSessions,
+				handleOpenSearchHit,
 				handleSaveBaseDir,
-				handleSaveServerUrl,
-				serverUrl,
+				server,
+				servers,
+				handleSwitchServer: onSwitchServer,
+				handleSaveServer: onSaveServer,
+				handleRemoveServer: onRemoveServer,
+				needsPairing,
+				handlePair,
+				handleRevokeDevice,
 				handleSetSessionPermissionMode,
+				handleSetSessionToolRules,
 				handleRenameSession,
 				handleDeleteSession,
+				handleExportSession,
 				handleRemoveProject,
+				handleSaveProjectProfile,
 				send,
+				cancel,
+				handleRetry,
+				handleEditMessage,
+				handleRegenerate,
+				handleSelectBranch,
+				handleEditQueued,
+				handleDropQueued,
+				handleRespondToPermission,
 				scrollRef,
 				setShowScrollButton,
 				onScroll,
@@ -339,17 +968,89 @@ function TabBar() {
 
 export default function App() {
 	const colorScheme = useColorScheme();
+	const [servers, setServers] = useState<ServerProfile[]>([]);
+	const [activeServerId, setActiveServerId] = useState<string | null>(null);
+	const serversRef = useRef(servers);
+	serversRef.current = servers;
+	const activeServerIdRef = useRef(activeServerId);
+	activeServerIdRef.current = activeServerId;
+	const snapshotsRef = useRef(new Map<string, ServerSnapshot>());
+
+	useEffect(() => {
+		loadServerProfiles(SERVER_URL)
+			.then(({ profiles, activeId }) => {
+				setServers(profiles);
+				setActiveServerId(activeId);
+			})
+			.catch((e) => {
+				if (__DEV__) console.error('[servers] failed to load profiles:', e);
+				const profile = newServerProfile(SERVER_URL, []);
+				setServers([profile]);
+				setActiveServerId(profile.id);
+			});
+	}, []);
+
+	const handleSwitchServer = useCallback((id: string) => {
+		if (id === activeServerIdRef.current) return;
+		setActiveServerId(id);
+		void saveActiveServerId(id);
+	}, []);
+
+	// Adds the profile, or replaces the saved one with its id
+	const handleSaveServer = useCallback(async (profile: ServerProfile) => {
+		const current = serversRef.current;
+		const next = current.some((p) => p.id === profile.id)
+			? current.map((p) => (p.id === profile.id ? profile : p))
+			: [...current, profile];
+		await saveServerProfiles(next);
+		serversRef.current = next;
+		setServers(next);
+	}, []);
+
+	// Removing the active server switches to the first one left
+	const handleRemoveServer = useCallback(
+		async (id: string) => {
+			const next = serversRef.current.filter((p) => p.id !== id);
+			if (!next[0]) throw new Error("The only server can't be removed");
+			await saveServerProfiles(next);
+			await forgetServerToken(id);
+			snapshotsRef.current.delete(id);
+			serversRef.current = next;
+			setServers(next);
+			if (activeServerIdRef.current === id) handleSwitchServer(next[0].id);
+		},
+		[handleSwitchServer],
+	);
+
+	const server = servers.find((p) => p.id === activeServerId);
+	// Point the api at the active server while rendering: the provider's children make requests in
+	// their mount effects, which run before any effect of the provider or of App
+	if (server) {
+		setServerUrl(server.url);
+		setAuthToken(server.token ?? null);
+		setCertificateFingerprint(server.fingerprint ?? null);
+	}
 
 	return (
 		<SafeAreaProvider>
-			<AppStateProvider>
-				<KeyboardProvider>
-					<NavigationContainer>
-						<StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
-						<TabBar />
-					</NavigationContainer>
-				</KeyboardProvider>
-			</AppStateProvider>
+			{server ? (
+				<AppStateProvider
+					key={server.id}
+					server={server}
+					servers={servers}
+					snapshots={snapshotsRef.current}
+					onSwitchServer={handleSwitchServer}
+					onSaveServer={handleSaveServer}
+					onRemoveServer={handleRemoveServer}
+				>
+					<KeyboardProvider>
+						<NavigationContainer>
+							<StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+							<TabBar />
+						</NavigationContainer>
+					</KeyboardProvider>
+				</AppStateProvider>
+			) : null}
 		</SafeAreaProvider>
 	);
 }
@@ -1,10 +1,27 @@
 import { createContext, useContext } from 'react';
 import type { RefObject } from 'react';
 import type { NativeSyntheticEvent, NativeScrollEvent } from 'react-native';
-import type { Message, PermissionMode, Project, Session } from './types';
+import type { PairingLink } from './pairing';
+import type { ServerProfile } from './servers';
+import type {
+	BranchPoint,
+	Device,
+	ExportFormat,
+	Message,
+	PendingPermission,
+	PermissionDecision,
+	PermissionMode,
+	Project,
+	ProjectProfile,
+	Run,
+	SearchHit,
+	Session,
+	ToolRules,
+} from './types';
 
 export type ScrollHandle = {
 	scrollToEnd: (params?: { animated?: boolean }) => void;
+	scrollToIndex: (params: { index: number; animated?: boolean; viewPosition?: number }) => void;
 };
 
 export interface AppState {
@@ -16,14 +33,29 @@ export interface AppState {
 	availableModels: string[];
 	input: string;
 	loading: boolean;
+	/** Live status of the in-flight run (e.g. "Using Bash…"), null when just thinking */
+	activity: string | null;
+	/** Follow-ups waiting behind the current session's running prompt */
+	queuedRuns: Run[];
+	/** Tool calls the current session's run is waiting on the user to approve */
+	pendingPermissions: PendingPermission[];
+	/** Prompts of the current session that were edited or regenerated */
+	branches: BranchPoint[];
 	error: string | null;
 	connected: boolean;
 	showScrollButton: boolean;
 	loadingMessages: boolean;
+	/** Message of the current session just opened from search, highlighted for a moment */
+	focusedMessageIndex: number | null;
 	baseDir: string | null;
 	projects: Project[];
 	currentProjectId: string | null;
-	serverUrl: string;
+	/** The server this state belongs to; switching to another one remounts the whole app state */
+	server: ServerProfile;
+	/** Every saved server, in the order they were added */
+	servers: ServerProfile[];
+	/** The server answered 401: this phone isn't paired with it, or was revoked */
+	needsPairing: boolean;
 	// Handlers
 	dismissError: () => void;
 	setInput: (v: string) => void;
@@ -31,13 +63,33 @@ export interface AppState {
 	setSelectedModel: (m: string) => void;
 	handleSelectProject: (id: string) => void;
 	handleNewSession: () => Promise<void>;
+	handleForkSession: (messageIndex: number) => Promise<void>;
+	handleImportSessions: (sessionIds: string[]) => Promise<void>;
+	handleOpenSearchHit: (hit: SearchHit) => void;
 	handleSaveBaseDir: (value: string) => Promise<void>;
-	handleSaveServerUrl: (url: string) => Promise<void>;
+	handleSwitchServer: (id: string) => void;
+	/** Adds the profile, or replaces the saved one with its id */
+	handleSaveServer: (profile: ServerProfile) => Promise<void>;
+	handleRemoveServer: (id: string) => Promise<void>;
+	handlePair: (link: PairingLink) => Promise<void>;
+	handleRevokeDevice: (device: Device) => Promise<void>;
 	handleSetSessionPermissionMode: (mode: PermissionMode) => Promise<void>;
+	handleSetSessionToolRules: (rules: Partial<ToolRules>) => Promise<void>;
 	handleRenameSession: (id: string, name: string) => Promise<void>;
 	handleDeleteSession: (id: string) => Promise<void>;
+	handleExportSession: (id: string, format: ExportFormat) => Promise<void>;
 	handleRemoveProject: (id: string) => Promise<void>;
+	handleSaveProjectProfile: (id: string, profile: ProjectProfile) => Promise<void>;
 	send: () => Promise<void>;
+	cancel: () => Promise<void>;
+	handleRetry: () => Promise<void>;
+	/** Both send the prompt again in a new branch of the session, which becomes the current one */
+	handleEditMessage: (messageIndex: number, message: string) => Promise<void>;
+	handleRegenerate: (messageIndex: number) => Promise<void>;
+	handleSelectBranch: (point: BranchPoint, offset: -1 | 1) => void;
+	handleEditQueued: (runId: string, message: string) => Promise<void>;
+	handleDropQueued: (runId: string) => Promise<void>;
+	handleRespondToPermission: (id: string, decision: PermissionDecision) => Promise<void>;
 	scrollRef: RefObject<ScrollHandle | null>;
 	setShowScrollButton: (v: boolean) => void;
 	onScroll: (e: NativeSyntheticEvent<NativeScrollEvent>) => void;
@@ -51,27 +103,52 @@ const defaultState: AppState = {
 	availableModels: ['haiku', 'sonnet'],
 	input: '',
 	loading: false,
+	activity: null,
+	queuedRuns: [],
+	pendingPermissions: [],
+	branches: [],
 	error: null,
 	connected: false,
 	showScrollButton: false,
 	loadingMessages: false,
+	focusedMessageIndex: null,
 	baseDir: null,
 	projects: [],
 	currentProjectId: null,
-	serverUrl: '',
+	server: { id: '', name: '', url: '', color: '#007AFF' },
+	servers: [],
+	needsPairing: false,
 	dismissError: () => {},
 	setInput: () => {},
 	setCurrentSessionId: () => {},
 	setSelectedModel: () => {},
 	handleSelectProject: () => {},
 	handleNewSession: async () => {},
+	handleForkSession: async () => {},
+	handleImportSessions: async () => {},
+	handleOpenSearchHit: () => {},
 	handleSaveBaseDir: async () => {},
-	handleSaveServerUrl: async () => {},
+	handleSwitchServer: () => {},
+	handleSaveServer: async () => {},
+	handleRemoveServer: async () => {},
+	handlePair: async () => {},
+	handleRevokeDevice: async () => {},
 	handleSetSessionPermissionMode: async () => {},
+	handleSetSessionToolRules: async () => {},
 	handleRenameSession: async () => {},
 	handleDeleteSession: async () => {},
+	handleExportSession: async () => {},
 	handleRemoveProject: async () => {},
+	handleSaveProjectProfile: async () => {},
 	send: async () => {},
+	cancel: async () => {},
+	handleRetry: async () => {},
+	handleEditMessage: async () => {},
+	handleRegenerate: async () => {},
+	handleSelectBranch: () => {},
+	handleEditQueued: async () => {},
+	handleDropQueued: async () => {},
+	handleRespondToPermission: async () => {},
 	scrollRef: { current: null },
 	setShowScrollButton: () => {},
 	onScroll: () => {},
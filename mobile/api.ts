@@ -1,5 +1,29 @@
 import Constants from 'expo-constants';
-import type { Message, PermissionMode, Project, Session, Settings } from './types';
+import { Directory, File, Paths } from 'expo-file-system';
+import PinnedFetch, { type PinnedResponse, type UploadFile } from './modules/pinned-fetch';
+import type {
+	BranchPoint,
+	ChatStreamEvent,
+	Device,
+	DeviceRole,
+	ExportFormat,
+	ImportableSession,
+	Message,
+	PermissionDecision,
+	PermissionMode,
+	Project,
+	ProjectProfile,
+	Run,
+	SearchHit,
+	Session,
+	Settings,
+	SyncResult,
+	ToolRules,
+	TranscriptionSettings,
+	TranscriptionStatus,
+	UsageGroupBy,
+	UsageSummary,
+} from './types';
 
 function getServerUrl(): string {
 	const hostUri =
@@ -18,11 +42,141 @@ export function setServerUrl(url: string) {
 	activeServerUrl = url;
 }
 
-async function apiFetch<T>(path: string, options?: RequestInit): Promise<T> {
-	const res = await fetch(`${activeServerUrl}${path}`, options);
-	const data = (await res.json()) as T & { error?: string };
-	if (!res.ok) throw new Error((data as { error?: string }).error ?? `HTTP ${res.status}`);
-	return data;
+// The device token from pairing, sent with every request
+let authToken: string | null = null;
+export function setAuthToken(token: string | null) {
+	authToken = token;
+}
+
+// SHA-256 of a TLS server's self-signed certificate, from pairing: HTTPS requests trust that one
+// certificate instead of the system's CAs
+let certFingerprint: string | null = null;
+export function setCertificateFingerprint(fingerprint: string | null) {
+	certFingerprint = fingerprint;
+}
+
+function authHeaders(headers?: Record<string, string>): Record<string, string> {
+	return {
+		...headers,
+		...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+	};
+}
+
+/** The server turned the request away: this phone isn't paired with it, or was revoked */
+export class UnauthorizedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UnauthorizedError';
+	}
+}
+
+type ApiRequest = {
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string;
+	/** Sent as the request's only multipart/form-data field, in place of a body */
+	file?: UploadFile;
+};
+
+function isOk(res: PinnedResponse): boolean {
+	return res.status >= 200 && res.status < 300;
+}
+
+function errorMessage(res: PinnedResponse): string {
+	try {
+		return (JSON.parse(res.body) as { error?: string }).error ?? `HTTP ${res.status}`;
+	} catch {
+		return `HTTP ${res.status}`;
+	}
+}
+
+function pinnedFetch() {
+	if (!PinnedFetch) {
+		throw new Error(
+			"HTTPS servers need a development build of the app; Expo Go can't pin certificates",
+		);
+	}
+	return PinnedFetch;
+}
+
+/**
+ * Make one request. HTTPS with a pinned fingerprint goes through the PinnedFetch native module,
+ * since fetch only trusts the system's CAs; plain HTTP (local dev) uses fetch.
+ */
+async function send(
+	url: string,
+	request: ApiRequest = {},
+	fingerprint = certFingerprint,
+): Promise<PinnedResponse> {
+	if (fingerprint && url.startsWith('https:')) {
+		return pinnedFetch().request({ url, ...request, fingerprint });
+	}
+	let body: string | FormData | undefined = request.body;
+	if (request.file) {
+		const { field, ...file } = request.file;
+		body = new FormData();
+		// React Native's FormData takes a file by uri; the DOM typings only know Blobs
+		body.append(field, file as unknown as Blob);
+	}
+	const res = await fetch(url, { method: request.method, headers: request.headers, body });
+	const headers: Record<string, string> = {};
+	res.headers.forEach((value, name) => {
+		headers[name] = value;
+	});
+	return { status: res.status, headers, body: await res.text() };
+}
+
+async function apiFetch<T>(path: string, request: ApiRequest = {}): Promise<T> {
+	const res = await send(`${activeServerUrl}${path}`, {
+		...request,
+		headers: authHeaders(request.headers),
+	});
+	if (!isOk(res)) {
+		const message = errorMessage(res);
+		throw res.status === 401 ? new UnauthorizedError(message) : new Error(message);
+	}
+	return JSON.parse(res.body) as T;
+}
+
+/**
+ * Trade the one-time code from the server's QR for this phone's device token. A TLS server's
+ * QR also has its certificate fingerprint, which this request already pins.
+ */
+export async function pairDevice(
+	serverUrl: string,
+	code: string,
+	name: string,
+	fingerprint?: string,
+): Promise<{ token: string; device: Device }> {
+	const res = await send(
+		`${serverUrl}/api/pair`,
+		{
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ code, name }),
+		},
+		fingerprint ?? null,
+	);
+	if (!isOk(res)) throw new Error(errorMessage(res));
+	return JSON.parse(res.body) as { token: string; device: Device };
+}
+
+export async function fetchDevices(): Promise<Device[]> {
+	const data = await apiFetch<{ devices: Device[] }>('/api/devices');
+	return data.devices;
+}
+
+/** Only a full-access device can change roles, and not its own */
+export async function setDeviceRole(id: string, role: DeviceRole): Promise<void> {
+	await apiFetch<{ success: boolean }>(`/api/devices/${id}`, {
+		method: 'PATCH',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ role }),
+	});
+}
+
+export async function revokeDevice(id: string): Promise<void> {
+	await apiFetch<{ success: boolean }>(`/api/devices/${id}`, { method: 'DELETE' });
 }
 
 export async function fetchSettings(): Promise<Settings> {
@@ -39,7 +193,7 @@ export async function saveSettings(baseDir: string): Promise<Settings> {
 
 export async function updateSession(
 	sessionId: string,
-	updates: { permissionMode?: PermissionMode; name?: string },
+	updates: { permissionMode?: PermissionMode; name?: string } & Partial<ToolRules>,
 ): Promise<Session> {
 	return apiFetch<Session>(`/api/sessions/${sessionId}`, {
 		method: 'PATCH',
@@ -48,9 +202,21 @@ export async function updateSession(
 	});
 }
 
+/** New session with the history up to and including messageIndex */
+export async function forkSession(sessionId: string, messageIndex: number): Promise<Session> {
+	return apiFetch<Session>(`/api/sessions/${sessionId}/fork`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ messageIndex }),
+	});
+}
+
 export async function deleteSession(id: string): Promise<void> {
-	const res = await fetch(`${SERVER_URL}/api/sessions/${id}`, { method: 'DELETE' });
-	if (!res.ok) throw new Error(`Failed to delete session: ${res.status}`);
+	const res = await send(`${activeServerUrl}/api/sessions/${id}`, {
+		method: 'DELETE',
+		headers: authHeaders(),
+	});
+	if (!isOk(res)) throw new Error(`Failed to delete session: ${res.status}`);
 }
 
 export async function fetchProjects(): Promise<Project[]> {
@@ -58,6 +224,18 @@ export async function fetchProjects(): Promise<Project[]> {
 	return data.projects;
 }
 
+export async function saveProjectProfile(
+	id: string,
+	profile: ProjectProfile,
+): Promise<ProjectProfile> {
+	const data = await apiFetch<{ id: string; profile: ProjectProfile }>('/api/projects/profile', {
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ id, profile }),
+	});
+	return data.profile;
+}
+
 export async function removeProject(id: string): Promise<void> {
 	await apiFetch<{ success: boolean }>('/api/projects', {
 		method: 'DELETE',
@@ -72,11 +250,39 @@ export async function fetchSessions(projectPath?: string): Promise<Session[]> {
 	return data.sessions;
 }
 
+export async function fetchImportableSessions(projectPath: string): Promise<ImportableSession[]> {
+	const data = await apiFetch<{ sessions: ImportableSession[] }>(
+		`/api/sessions/importable?projectPath=${encodeURIComponent(projectPath)}`,
+	);
+	return data.sessions;
+}
+
+/** Bring desktop CLI sessions into claudet; the next message resumes them */
+export async function importSessions(projectPath: string, sessionIds: string[]): Promise<Session[]> {
+	const data = await apiFetch<{ sessions: Session[] }>('/api/sessions/import', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ projectPath, sessionIds }),
+	});
+	return data.sessions;
+}
+
+export async function searchSessions(q: string, projectPath?: string): Promise<SearchHit[]> {
+	const params = new URLSearchParams({ q });
+	if (projectPath) params.set('projectPath', projectPath);
+	const data = await apiFetch<{ hits: SearchHit[] }>(`/api/search?${params}`);
+	return data.hits;
+}
+
 export async function fetchModels(): Promise<{ models: string[]; default: string }> {
 	return apiFetch<{ models: string[]; default: string }>('/api/models');
 }
 
-export async function createSession(model: string, projectPath: string): Promise<Session> {
+/** Omit the model to let the project's profile (or the server default) choose */
+export async function createSession(
+	model: string | undefined,
+	projectPath: string,
+): Promise<Session> {
 	return apiFetch<Session>('/api/sessions', {
 		method: 'POST',
 		headers: { 'Content-Type': 'application/json' },
@@ -84,16 +290,246 @@ export async function createSession(model: string, projectPath: string): Promise
 	});
 }
 
-export async function sendChat(sessionId: string, message: string): Promise<string> {
-	const data = await apiFetch<{ response: string }>('/api/chat', {
+/** Start a run; the server answers immediately and the reply is followed via followRun */
+export async function sendChat(sessionId: string, message: string): Promise<Run> {
+	return apiFetch<Run>('/api/chat', {
 		method: 'POST',
 		headers: { 'Content-Type': 'application/json' },
 		body: JSON.stringify({ sessionId, message }),
 	});
-	return data.response;
 }
 
-export async function fetchSessionMessages(sessionId: string): Promise<Message[]> {
-	const data = await apiFetch<{ messages: Message[] }>(`/api/sessions/${sessionId}/messages`);
-	return data.messages;
+/** Re-run the prompt whose run failed; its failure stays in the history */
+export async function retrySession(sessionId: string): Promise<Run> {
+	return apiFetch<Run>(`/api/sessions/${sessionId}/retry`, { method: 'POST' });
+}
+
+export async function fetchRun(runId: string): Promise<Run> {
+	return apiFetch<Run>(`/api/runs/${runId}`);
+}
+
+/** Replace the prompt of a run still waiting in its session's queue */
+export async function editQueuedRun(runId: string, message: string): Promise<Run> {
+	return apiFetch<Run>(`/api/runs/${runId}`, {
+		method: 'PATCH',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ message }),
+	});
+}
+
+export async function dropQueuedRun(runId: string): Promise<void> {
+	await apiFetch<{ success: boolean }>(`/api/runs/${runId}`, { method: 'DELETE' });
+}
+
+/** Token and cost totals; from/to are YYYY-MM-DD or ISO timestamps (to is inclusive for a bare day) */
+export async function fetchUsage(
+	groupBy: UsageGroupBy,
+	range: { from?: string; to?: string } = {},
+): Promise<UsageSummary> {
+	const params = [`groupBy=${groupBy}`];
+	if (range.from) params.push(`from=${encodeURIComponent(range.from)}`);
+	if (range.to) params.push(`to=${encodeURIComponent(range.to)}`);
+	return apiFetch<UsageSummary>(`/api/usage?${params.join('&')}`);
+}
+
+/** Unfinished runs, optionally for one session — used to reattach after launch or a dropped connection */
+export async function fetchActiveRuns(sessionId?: string): Promise<Run[]> {
+	const query = sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : '';
+	const data = await apiFetch<{ runs: Run[] }>(`/api/runs${query}`);
+	return data.runs;
+}
+
+/** Feeds `onLine` each complete, non-blank line of text that arrives in pieces */
+function lineReader(onLine: (line: string) => void): (text: string) => void {
+	let pending = '';
+	return (text) => {
+		const lines = (pending + text).split('\n');
+		pending = lines.pop() ?? '';
+		for (const line of lines) {
+			if (line.trim()) onLine(line.trim());
+		}
+	};
+}
+
+/**
+ * GET /api/runs/:id/events and invoke onEvent for each NDJSON line as it arrives.
+ * The server replays earlier events first, so attaching mid-run rebuilds the whole reply.
+ * RN's fetch can't read a response body incrementally, but XHR exposes partial responseText;
+ * a pinned HTTPS server streams through PinnedFetch's chunk events instead.
+ * Resolves with the final response, or null if the run was cancelled. Aborting `signal` stops
+ * following and rejects with RunDisconnectedError, since the run itself goes on.
+ */
+export function followRun(
+	runId: string,
+	onEvent: (event: ChatStreamEvent) => void,
+	signal?: AbortSignal,
+): Promise<string | null> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new RunDisconnectedError());
+			return;
+		}
+		const url = `${activeServerUrl}/api/runs/${runId}/events`;
+		let response: string | null = null;
+		let cancelled = false;
+		let streamError: string | null = null;
+
+		const read = lineReader((line) => {
+			const event = JSON.parse(line) as ChatStreamEvent;
+			if (event.type === 'done') response = event.response;
+			if (event.type === 'cancelled') cancelled = true;
+			if (event.type === 'error') streamError = event.error;
+			onEvent(event);
+		});
+
+		const finish = (res: PinnedResponse) => {
+			if (!isOk(res)) {
+				reject(new Error(errorMessage(res)));
+				return;
+			}
+			if (streamError !== null) reject(new Error(streamError));
+			else if (cancelled) resolve(null);
+			else if (response === null) reject(new Error('Stream ended without a response'));
+			else resolve(response);
+		};
+
+		if (certFingerprint && url.startsWith('https:')) {
+			const pinned = pinnedFetch();
+			const streamId = `${runId}-${Date.now()}`;
+			const subscription = pinned.addListener('onChunk', (chunk) => {
+				if (chunk.streamId === streamId) read(chunk.text);
+			});
+			// The native request can't be cancelled; an abort just stops listening for its chunks
+			const stop = () => {
+				subscription.remove();
+				reject(new RunDisconnectedError());
+			};
+			signal?.addEventListener('abort', stop);
+			pinned
+				.request({ url, headers: authHeaders(), fingerprint: certFingerprint, streamId })
+				.then(finish, () => reject(new RunDisconnectedError()))
+				.finally(() => {
+					subscription.remove();
+					signal?.removeEventListener('abort', stop);
+				});
+			return;
+		}
+
+		const xhr = new XMLHttpRequest();
+		let consumed = 0;
+		const drain = () => {
+			read(xhr.responseText.slice(consumed));
+			consumed = xhr.responseText.length;
+		};
+
+		xhr.open('GET', url);
+		for (const [name, value] of Object.entries(authHeaders())) xhr.setRequestHeader(name, value);
+		xhr.onprogress = drain;
+		xhr.onload = () => {
+			if (xhr.status >= 200 && xhr.status < 300) drain();
+			finish({ status: xhr.status, headers: {}, body: xhr.responseText });
+		};
+		xhr.onerror = () => reject(new RunDisconnectedError());
+		xhr.onabort = () => reject(new RunDisconnectedError());
+		const stop = () => xhr.abort();
+		signal?.addEventListener('abort', stop);
+		xhr.onloadend = () => signal?.removeEventListener('abort', stop);
+		xhr.send();
+	});
+}
+
+/** The event stream dropped (locked phone, Wi-Fi change) — the run itself is still going on the server */
+export class RunDisconnectedError extends Error {
+	constructor() {
+		super('Lost connection to the run');
+		this.name = 'RunDisconnectedError';
+	}
+}
+
+export async function respondToPermission(id: string, decision: PermissionDecision): Promise<void> {
+	await apiFetch<{ success: boolean }>(`/api/permissions/${id}`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ decision }),
+	});
+}
+
+export async function cancelRun(sessionId: string): Promise<void> {
+	await apiFetch<{ success: boolean }>(`/api/sessions/${sessionId}/cancel`, { method: 'POST' });
+}
+
+/** The server syncs with the CLI transcript first, so this includes turns taken on the desktop */
+export async function fetchSessionMessages(
+	sessionId: string,
+): Promise<{ messages: Message[]; sync?: SyncResult; branches?: BranchPoint[] }> {
+	return apiFetch<{ messages: Message[]; sync?: SyncResult; branches?: BranchPoint[] }>(
+		`/api/sessions/${sessionId}/messages`,
+	);
+}
+
+/**
+ * Send the prompt at `messageIndex` again in a new branch of the session — edited to `message`,
+ * or as it was to regenerate the reply. The run starts right away in the branch.
+ */
+export async function branchSession(
+	sessionId: string,
+	messageIndex: number,
+	message?: string,
+): Promise<{ session: Session; run: Run }> {
+	return apiFetch<{ session: Session; run: Run }>(`/api/sessions/${sessionId}/branch`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ messageIndex, message }),
+	});
+}
+
+/** Upload a recorded voice clip (m4a from the recorder) and return its transcript */
+export async function transcribeAudio(uri: string): Promise<string> {
+	const { text } = await apiFetch<{ text: string }>('/api/transcribe', {
+		method: 'POST',
+		file: { uri, field: 'audio', name: 'prompt.m4a', type: 'audio/mp4' },
+	});
+	return text;
+}
+
+export async function fetchTranscriptionStatus(): Promise<TranscriptionStatus> {
+	return apiFetch<TranscriptionStatus>('/api/settings/transcription');
+}
+
+/** Fields left out keep their value */
+export async function saveTranscriptionSettings(
+	updates: Partial<TranscriptionSettings>,
+): Promise<TranscriptionStatus> {
+	return apiFetch<TranscriptionStatus>('/api/settings/transcription', {
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(updates),
+	});
+}
+
+/**
+ * Download a session export into the cache directory and return its local uri. The server's
+ * Content-Disposition header names the file, so re-exporting a session overwrites the last copy.
+ */
+export async function downloadSessionExport(sessionId: string, format: ExportFormat): Promise<string> {
+	const url = `${activeServerUrl}/api/sessions/${sessionId}/export?format=${format}`;
+	const dir = new Directory(Paths.cache, 'exports');
+	dir.create({ idempotent: true });
+	if (!certFingerprint || !url.startsWith('https:')) {
+		const file = await File.downloadFileAsync(url, dir, {
+			idempotent: true,
+			headers: authHeaders(),
+		});
+		return file.uri;
+	}
+	// The downloader can't pin a certificate; every export format is text, so write it out here
+	const res = await send(url, { headers: authHeaders() });
+	if (!isOk(res)) throw new Error(errorMessage(res));
+	const disposition = Object.entries(res.headers).find(
+		([name]) => name.toLowerCase() === 'content-disposition',
+	)?.[1];
+	const name = disposition?.match(/filename="([^"]+)"/)?.[1] ?? `${sessionId}.${format}`;
+	const file = new File(dir, name);
+	file.write(res.body);
+	return file.uri;
 }
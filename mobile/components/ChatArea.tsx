@@ -1,5 +1,6 @@
 import { useRef, useEffect } from 'react';
 import {
+  Alert,
   Animated,
   View,
   Pressable,
@@ -10,8 +11,11 @@ import {
   type NativeScrollEvent,
 } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
+import * as Haptics from 'expo-haptics';
 import { ChatMessage } from './ChatMessage';
-import type { Message } from '../types';
+import { FailureCard } from './FailureCard';
+import { PermissionCard } from './PermissionCard';
+import type { BranchPoint, Message, PendingPermission, PermissionDecision, Run } from '../types';
 import type { ScrollHandle } from '../AppContext';
 
 function friendlyError(raw: string): string {
@@ -26,6 +30,22 @@ function friendlyError(raw: string): string {
 interface Props {
   messages: Message[];
   loading: boolean;
+  activity: string | null;
+  queued: Run[];
+  onPressQueued: (run: Run) => void;
+  onForkFromMessage: (index: number) => void;
+  /** Prompts: open the editor, or send again as is — either way in a new branch */
+  onEditMessage: (index: number) => void;
+  onRegenerate: (index: number) => void;
+  /** Prompts with more than one version, and switching to a neighbouring version */
+  branches: BranchPoint[];
+  onSelectBranch: (point: BranchPoint, offset: -1 | 1) => void;
+  /** Re-run the prompt of the failed run at the end of the history */
+  onRetry: () => Promise<void>;
+  /** Message to draw attention to, e.g. one just opened from search */
+  highlightIndex?: number | null;
+  permissions: PendingPermission[];
+  onRespondToPermission: (id: string, decision: PermissionDecision) => Promise<void>;
   loadingMessages: boolean;
   error: string | null;
   onDismissError: () => void;
@@ -39,6 +59,18 @@ interface Props {
 export function ChatArea({
   messages,
   loading,
+  activity,
+  queued,
+  onPressQueued,
+  onForkFromMessage,
+  onEditMessage,
+  onRegenerate,
+  branches,
+  onSelectBranch,
+  onRetry,
+  highlightIndex,
+  permissions,
+  onRespondToPermission,
   loadingMessages,
   error,
   onDismissError,
@@ -50,6 +82,9 @@ export function ChatArea({
 }: Props) {
   const isDark = useColorScheme() === 'dark';
   const bounceAnim = useRef(new Animated.Value(0)).current;
+  // Once the reply bubble is streaming, the bubble itself shows progress — only keep the tool status
+  const streaming = messages[messages.length - 1]?.streaming === true;
+  const showFooter = loading && (!streaming || activity !== null);
 
   useEffect(() => {
     if (!showScrollButton) return;
@@ -62,6 +97,30 @@ export function ChatArea({
     ]).start();
   }, [showScrollButton, bounceAnim]);
 
+  const showMessageActions = (index: number) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const prompt = messages[index]?.role === 'user';
+    Alert.alert('Message', undefined, [
+      ...(prompt
+        ? [
+            { text: 'Edit and resend', onPress: () => onEditMessage(index) },
+            { text: 'Regenerate reply', onPress: () => onRegenerate(index) },
+          ]
+        : []),
+      { text: 'Fork from here', onPress: () => onForkFromMessage(index) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const branchProps = (index: number) => {
+    const point = branches.find((b) => b.messageIndex === index);
+    if (!point) return {};
+    return {
+      branch: { current: point.current, total: point.sessionIds.length },
+      onSelectBranch: (offset: -1 | 1) => onSelectBranch(point, offset),
+    };
+  };
+
   return (
     <>
       {error ? (
@@ -82,9 +141,27 @@ export function ChatArea({
             (scrollRef as React.RefObject<any>).current = ref;
           }}
           data={messages}
-          renderItem={({ item, index }) => (
-            <ChatMessage key={index} message={item} />
-          )}
+          renderItem={({ item, index }) =>
+            item.failure ? (
+              <FailureCard
+                failure={item.failure}
+                onRetry={index === messages.length - 1 && !loading ? onRetry : undefined}
+              />
+            ) : (
+              <Pressable
+                onLongPress={() => showMessageActions(index)}
+                // A reply still streaming isn't on the server yet, so there is nothing to fork
+                disabled={item.streaming === true}
+                className={
+                  index === highlightIndex
+                    ? `rounded-2xl -mx-2 px-2 ${isDark ? 'bg-yellow-500/20' : 'bg-yellow-200/60'}`
+                    : undefined
+                }
+              >
+                <ChatMessage key={index} message={item} {...branchProps(index)} />
+              </Pressable>
+            )
+          }
           keyExtractor={(_, index) => String(index)}
           contentContainerStyle={{ padding: 16 }}
           ItemSeparatorComponent={() => <View style={{ height: 4 }} />}
@@ -102,12 +179,39 @@ export function ChatArea({
             ) : null
           }
           ListFooterComponent={
-            loading ? (
-              <View className="flex-row items-center gap-2 py-1 self-start">
-                <ActivityIndicator size="small" color={isDark ? '#8e8e93' : '#666'} />
-                <Text className={`text-[14px] ${isDark ? 'text-zinc-500' : 'text-gray-400'}`}>
-                  Thinking...
-                </Text>
+            showFooter || queued.length > 0 || permissions.length > 0 ? (
+              <View>
+                {permissions.map((request) => (
+                  <PermissionCard key={request.id} request={request} onRespond={onRespondToPermission} />
+                ))}
+                {showFooter ? (
+                  <View className="flex-row items-center gap-2 py-1 self-start">
+                    <ActivityIndicator size="small" color={isDark ? '#8e8e93' : '#666'} />
+                    <Text className={`text-[14px] ${isDark ? 'text-zinc-500' : 'text-gray-400'}`}>
+                      {activity ?? 'Thinking...'}
+                    </Text>
+                  </View>
+                ) : null}
+                {queued.map((run) => (
+                  <Pressable
+                    key={run.id}
+                    onPress={() => onPressQueued(run)}
+                    className="flex-row justify-end my-1"
+                  >
+                    <View
+                      className={`max-w-[95%] px-[14px] py-[10px] rounded-[18px] rounded-br-[4px] border border-dashed ${
+                        isDark ? 'border-zinc-600' : 'border-gray-300'
+                      }`}
+                    >
+                      <Text className={`text-[15px] leading-[22px] ${isDark ? 'text-zinc-300' : 'text-gray-600'}`}>
+                        {run.message}
+                      </Text>
+                      <Text className={`text-[11px] mt-1 text-right ${isDark ? 'text-zinc-500' : 'text-gray-400'}`}>
+                        Queued · tap to edit
+                      </Text>
+                    </View>
+                  </Pressable>
+                ))}
               </View>
             ) : null
           }
@@ -1,13 +1,19 @@
-import { View } from 'react-native';
+import { View, Text, Pressable } from 'react-native';
 import Markdown from 'react-native-markdown-display';
 import { useColorScheme } from 'react-native';
-import type { Message } from '../types';
+import type { Message, TurnEvent } from '../types';
+import { ToolCard } from './ToolCard';
 
 interface Props {
   message: Message;
+  /** Set on prompts that were edited or regenerated: which version this is, of how many */
+  branch?: { current: number; total: number };
+  onSelectBranch?: (offset: -1 | 1) => void;
 }
 
-export function ChatMessage({ message }: Props) {
+type ToolResult = Extract<TurnEvent, { kind: 'tool_result' }>;
+
+export function ChatMessage({ message, branch, onSelectBranch }: Props) {
   const isDark = useColorScheme() === 'dark';
   const isUser = message.role === 'user';
 
@@ -29,21 +35,86 @@ export function ChatMessage({ message }: Props) {
     link: { color: isDark ? '#64b5f6' : '#007AFF' },
   };
 
-  return (
-    <View className={`flex-row my-1 ${isUser ? 'justify-end' : 'justify-start'}`}>
-      <View
-        className={[
-          'max-w-[95%] px-[14px] py-[10px] shrink',
-          isUser
-            ? 'bg-[#007AFF] rounded-[18px] rounded-br-[4px]'
-            : isDark
-              ? 'bg-zinc-800 border border-zinc-700 rounded-[18px] rounded-bl-[4px]'
-              : 'bg-white border border-gray-200 rounded-[18px] rounded-bl-[4px]',
-        ].join(' ')}
-      >
+  // Turns that used tools render step by step; plain replies keep the single markdown body
+  const events = message.events ?? [];
+  const hasToolCalls = events.some((e) => e.kind === 'tool_use');
+
+  const renderEvents = (steps: TurnEvent[]) => {
+    const results = new Map<string, ToolResult>();
+    for (const e of steps) if (e.kind === 'tool_result') results.set(e.toolUseId, e);
+    const lastIndex = steps.length - 1;
+
+    return steps.map((e, i) => {
+      switch (e.kind) {
+        case 'text':
+          return (
+            <Markdown key={i} style={assistantMarkdownStyles}>
+              {message.streaming && i === lastIndex ? `${e.text} ▍` : e.text}
+            </Markdown>
+          );
+        case 'tool_use':
+          return <ToolCard key={i} name={e.name} input={e.input} result={results.get(e.toolUseId)} />;
+        case 'error':
+          return (
+            <Text key={i} className="text-red-500 text-[13px] my-1">
+              {e.message}
+            </Text>
+          );
+        default:
+          // Results are shown inside their tool's card
+          return null;
+      }
+    });
+  };
+
+  const bubble = (
+    <View
+      className={[
+        'max-w-[95%] px-[14px] py-[10px] shrink',
+        isUser
+          ? 'bg-[#007AFF] rounded-[18px] rounded-br-[4px]'
+          : isDark
+            ? 'bg-zinc-800 border border-zinc-700 rounded-[18px] rounded-bl-[4px]'
+            : 'bg-white border border-gray-200 rounded-[18px] rounded-bl-[4px]',
+      ].join(' ')}
+    >
+      {hasToolCalls ? (
+        renderEvents(events)
+      ) : message.content || message.streaming ? (
         <Markdown style={isUser ? userMarkdownStyles : assistantMarkdownStyles}>
-          {message.content}
+          {message.streaming ? `${message.content} ▍` : message.content}
         </Markdown>
+      ) : null}
+      {message.interrupted ? (
+        <Text className={`text-[12px] italic ${message.content ? 'mt-1' : ''} ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+          ⏹ Interrupted
+        </Text>
+      ) : null}
+    </View>
+  );
+
+  if (!branch) {
+    return <View className={`flex-row my-1 ${isUser ? 'justify-end' : 'justify-start'}`}>{bubble}</View>;
+  }
+
+  const arrowClass = (enabled: boolean) =>
+    `text-[17px] font-semibold px-1 ${enabled ? 'text-[#007AFF]' : isDark ? 'text-zinc-700' : 'text-gray-300'}`;
+  const hasPrevious = branch.current > 0;
+  const hasNext = branch.current < branch.total - 1;
+
+  return (
+    <View className="my-1">
+      <View className={`flex-row ${isUser ? 'justify-end' : 'justify-start'}`}>{bubble}</View>
+      <View className={`flex-row items-center gap-2 mt-1 ${isUser ? 'self-end' : 'self-start'}`}>
+        <Pressable onPress={() => onSelectBranch?.(-1)} disabled={!hasPrevious} hitSlop={8}>
+          <Text className={arrowClass(hasPrevious)}>‹</Text>
+        </Pressable>
+        <Text className={`text-[12px] ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+          {branch.current + 1}/{branch.total}
+        </Text>
+        <Pressable onPress={() => onSelectBranch?.(1)} disabled={!hasNext} hitSlop={8}>
+          <Text className={arrowClass(hasNext)}>›</Text>
+        </Pressable>
       </View>
     </View>
   );
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+  Keyboard,
+  useColorScheme,
+} from 'react-native';
+
+interface Props {
+  /** The prompt being edited, by its index in the session's history */
+  prompt: { index: number; content: string } | null;
+  onClose: () => void;
+  onResend: (index: number, message: string) => Promise<void>;
+}
+
+export function EditMessageModal({ prompt, onClose, onResend }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [messageInput, setMessageInput] = useState('');
+  const [sending, setSending] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (prompt) {
+      setMessageInput(prompt.content);
+      setActionError(null);
+    }
+  }, [prompt]);
+
+  const trimmed = messageInput.trim();
+  const sendDisabled = !trimmed || trimmed === prompt?.content.trim() || sending;
+
+  const handleSend = async () => {
+    if (!prompt || sendDisabled) return;
+    setSending(true);
+    setActionError(null);
+    try {
+      await onResend(prompt.index, trimmed);
+      onClose();
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={prompt !== null}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <Pressable
+          className="flex-1 bg-black/50 justify-end"
+          onPress={Keyboard.dismiss}
+        >
+          {/* Sheet */}
+          <Pressable
+            className={`rounded-t-3xl px-6 pt-2 pb-10 ${isDark ? 'bg-zinc-900' : 'bg-white'}`}
+            onPress={() => {}}
+          >
+            {/* Handle */}
+            <View className="w-9 h-1 rounded-full bg-gray-300 dark:bg-zinc-600 self-center mb-6" />
+
+            <Text className={`text-[17px] font-semibold mb-1 ${isDark ? 'text-white' : 'text-black'}`}>
+              Edit Message
+            </Text>
+            <Text className={`text-[13px] mb-5 ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+              Sent in a new branch of the conversation. The original stays available with ‹ ›.
+            </Text>
+
+            <TextInput
+              className={`rounded-xl px-4 py-3 text-[15px] mb-3 border max-h-[160px] ${
+                isDark
+                  ? 'bg-zinc-800 text-white border-zinc-700'
+                  : 'bg-gray-50 text-black border-gray-200'
+              }`}
+              placeholder="Message"
+              placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+              value={messageInput}
+              onChangeText={setMessageInput}
+              multiline
+              autoFocus
+            />
+
+            {actionError ? (
+              <Text className="text-red-500 text-[12px] mb-3">{actionError}</Text>
+            ) : null}
+
+            <View className="flex-row gap-3 mt-2">
+              <Pressable
+                onPress={onClose}
+                className={`flex-1 rounded-xl py-3 items-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}`}
+              >
+                <Text className={`text-[15px] font-semibold ${isDark ? 'text-white' : 'text-black'}`}>
+                  Cancel
+                </Text>
+              </Pressable>
+
+              <Pressable
+                onPress={() => void handleSend()}
+                disabled={sendDisabled}
+                className={`flex-1 rounded-xl py-3 items-center ${
+                  sendDisabled
+                    ? isDark ? 'bg-zinc-700' : 'bg-gray-200'
+                    : 'bg-[#007AFF]'
+                }`}
+              >
+                <Text className={`text-[15px] font-semibold ${sendDisabled ? isDark ? 'text-zinc-500' : 'text-gray-400' : 'text-white'}`}>
+                  {sending ? 'Sending…' : 'Send'}
+                </Text>
+              </Pressable>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { View, Text, Pressable, ActivityIndicator, useColorScheme } from 'react-native';
+import type { FailureKind, RunFailure } from '../types';
+
+interface Props {
+  failure: RunFailure;
+  /** Only the latest failure can be retried; omitted for older ones */
+  onRetry?: () => Promise<void>;
+}
+
+const SUMMARIES: Record<FailureKind, string> = {
+  rate_limit: 'Rate limit reached — wait a moment, then retry.',
+  auth: 'Claude is not signed in on the server. Run `claude` there to log in, then retry.',
+  cli_missing: 'The Claude CLI was not found on the server. Install it or fix PATH, then retry.',
+  crash: 'Claude exited unexpectedly.',
+};
+
+// A crash can dump a whole stack — the tail is where the cause usually is
+const PREVIEW_LINES = 30;
+
+function tail(text: string): string {
+  const lines = text.split('\n');
+  if (lines.length <= PREVIEW_LINES) return text;
+  return `… ${lines.length - PREVIEW_LINES} earlier lines\n${lines.slice(-PREVIEW_LINES).join('\n')}`;
+}
+
+/** A run that failed, as recorded in the session's history */
+export function FailureCard({ failure, onRetry }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [expanded, setExpanded] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const failedAt = new Date(failure.failedAt);
+  const details = [
+    failure.exitCode === null ? 'CLI did not start' : `Exit code ${failure.exitCode}`,
+    failedAt.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }),
+  ].join(' · ');
+
+  const retry = async () => {
+    if (!onRetry) return;
+    setRetrying(true);
+    try {
+      await onRetry();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <View
+      className={`rounded-xl border my-1 overflow-hidden ${
+        isDark ? 'bg-red-950/40 border-red-900' : 'bg-red-50 border-red-200'
+      }`}
+    >
+      <Pressable
+        onPress={() => setExpanded((v) => !v)}
+        disabled={!failure.stderr}
+        className="px-3 py-2"
+      >
+        <Text className="text-[14px] font-semibold text-red-500">⚠ {SUMMARIES[failure.kind]}</Text>
+        <Text className={`text-[12px] mt-1 ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+          {details}
+          {failure.stderr ? `  ${expanded ? '▾ Hide output' : '▸ Show output'}` : ''}
+        </Text>
+      </Pressable>
+
+      {expanded ? (
+        <View className={`px-3 pb-3 border-t ${isDark ? 'border-red-900' : 'border-red-200'}`}>
+          <Text
+            selectable
+            className={`text-[12px] font-mono mt-2 ${isDark ? 'text-zinc-200' : 'text-gray-800'}`}
+          >
+            {tail(failure.stderr)}
+          </Text>
+        </View>
+      ) : null}
+
+      {onRetry ? (
+        <Pressable
+          onPress={() => void retry()}
+          disabled={retrying}
+          className={`flex-row items-center justify-center gap-2 py-2 border-t ${
+            isDark ? 'border-red-900' : 'border-red-200'
+          }`}
+        >
+          {retrying ? <ActivityIndicator size="small" color="#007AFF" /> : null}
+          <Text className="text-[15px] font-semibold text-[#007AFF]">Retry</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
@@ -1,14 +1,31 @@
 import { View, Text, Pressable, useColorScheme } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { formatCost } from '../format';
 
 interface Props {
   greeting: string;
   onOpenSettings?: () => void;
   onNewSession: () => void;
+  onSearch?: () => void;
   dangerousMode?: boolean;
+  /** Running cost of the open session, shown under the greeting */
+  sessionCostUsd?: number;
+  /** The server everything on screen comes from, shown under the greeting in its colour */
+  server?: { name: string; color: string };
+  onSwitchServer?: () => void;
 }
 
-export function Header({ greeting, onOpenSettings, onNewSession, dangerousMode }: Props) {
+export function Header({
+  greeting,
+  onOpenSettings,
+  onNewSession,
+  onSearch,
+  dangerousMode,
+  sessionCostUsd,
+  server,
+  onSwitchServer,
+}: Props) {
   const isDark = useColorScheme() === 'dark';
   const insets = useSafeAreaInsets();
 
@@ -30,20 +47,55 @@ export function Header({ greeting, onOpenSettings, onNewSession, dangerousMode }
           <View className="min-w-[36px]" />
         )}
 
-        <Text
-          className={`flex-1 text-[17px] font-semibold text-center mx-2 ${isDark ? 'text-white' : 'text-black'}`}
-          numberOfLines={1}
-        >
-          {greeting}
-        </Text>
+        <View className="flex-1 items-center mx-2">
+          <Text
+            className={`text-[17px] font-semibold text-center ${isDark ? 'text-white' : 'text-black'}`}
+            numberOfLines={1}
+          >
+            {greeting}
+          </Text>
+          {server || sessionCostUsd !== undefined ? (
+            <View className="flex-row items-center mt-0.5">
+              {server ? (
+                <Pressable
+                  onPress={onSwitchServer}
+                  disabled={!onSwitchServer}
+                  hitSlop={8}
+                  className="flex-row items-center rounded-full px-2 py-0.5"
+                  style={{ backgroundColor: `${server.color}26` }}
+                >
+                  <View className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: server.color }} />
+                  <Text className="text-[12px] font-semibold" style={{ color: server.color }} numberOfLines={1}>
+                    {server.name}
+                  </Text>
+                  {onSwitchServer ? (
+                    <MaterialCommunityIcons name="chevron-down" size={14} color={server.color} />
+                  ) : null}
+                </Pressable>
+              ) : null}
+              {sessionCostUsd !== undefined ? (
+                <Text className={`text-[12px] ml-1.5 ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+                  {formatCost(sessionCostUsd)} this session
+                </Text>
+              ) : null}
+            </View>
+          ) : null}
+        </View>
 
-        <Pressable
-          onPress={onNewSession}
-          hitSlop={12}
-          className="min-w-[36px] items-center"
-        >
-          <Text className={`text-[26px] leading-[30px] ${isDark ? 'text-[#0a84ff]' : 'text-[#007AFF]'}`}>+</Text>
-        </Pressable>
+        <View className="flex-row items-center gap-3">
+          {onSearch ? (
+            <Pressable onPress={onSearch} hitSlop={12} className="items-center">
+              <MaterialCommunityIcons name="magnify" size={24} color={isDark ? '#0a84ff' : '#007AFF'} />
+            </Pressable>
+          ) : null}
+          <Pressable
+            onPress={onNewSession}
+            hitSlop={12}
+            className="min-w-[36px] items-center"
+          >
+            <Text className={`text-[26px] leading-[30px] ${isDark ? 'text-[#0a84ff]' : 'text-[#007AFF]'}`}>+</Text>
+          </Pressable>
+        </View>
       </View>
 
       {dangerousMode ? (
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import type { ImportableSession } from '../types';
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  onLoad: () => Promise<ImportableSession[]>;
+  onImport: (sessionIds: string[]) => Promise<void>;
+}
+
+function updatedLabel(iso: string): string {
+  const d = new Date(iso);
+  if (d.toDateString() === new Date().toDateString()) {
+    return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return d.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function ImportSessionsModal({ visible, onClose, onLoad, onImport }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [sessions, setSessions] = useState<ImportableSession[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setSessions(null);
+    setSelected(new Set());
+    setError(null);
+    onLoad()
+      .then(setSessions)
+      .catch((e) => {
+        setSessions([]);
+        setError(e instanceof Error ? e.message : 'Failed to load sessions');
+      });
+  }, [visible, onLoad]);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (selected.size === 0 || importing) return;
+    setImporting(true);
+    setError(null);
+    try {
+      await onImport([...selected]);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to import');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const textSecondary = isDark ? 'text-zinc-400' : 'text-gray-500';
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 bg-black/50 justify-end">
+        {/* Sheet */}
+        <View className={`rounded-t-3xl pt-2 pb-10 max-h-[80%] ${isDark ? 'bg-zinc-900' : 'bg-white'}`}>
+          {/* Handle */}
+          <View className="w-9 h-1 rounded-full bg-gray-300 dark:bg-zinc-600 self-center mb-6" />
+
+          <View className="px-6">
+            <Text className={`text-[17px] font-semibold mb-1 ${isDark ? 'text-white' : 'text-black'}`}>
+              Import from Desktop
+            </Text>
+            <Text className={`text-[13px] mb-4 ${textSecondary}`}>
+              Claude CLI sessions in this project. Imported sessions continue where the terminal left off.
+            </Text>
+          </View>
+
+          {sessions === null ? (
+            <ActivityIndicator className="my-6" />
+          ) : sessions.length === 0 && !error ? (
+            <Text className={`text-[13px] italic px-6 py-4 ${textSecondary}`}>
+              No sessions to import
+            </Text>
+          ) : (
+            <ScrollView className="px-6 mb-4">
+              {sessions.map((session) => {
+                const checked = selected.has(session.id);
+                return (
+                  <Pressable
+                    key={session.id}
+                    onPress={() => toggle(session.id)}
+                    className={`flex-row items-center py-3 border-b ${isDark ? 'border-zinc-800' : 'border-gray-100'}`}
+                  >
+                    <View
+                      className={`w-5 h-5 rounded-md border mr-3 items-center justify-center ${
+                        checked
+                          ? 'bg-[#007AFF] border-[#007AFF]'
+                          : isDark
+                            ? 'border-zinc-600'
+                            : 'border-gray-300'
+                      }`}
+                    >
+                      {checked ? <Text className="text-white text-[12px] font-bold">✓</Text> : null}
+                    </View>
+                    <View className="flex-1">
+                      <Text
+                        className={`text-[15px] ${isDark ? 'text-white' : 'text-black'}`}
+                        numberOfLines={2}
+                      >
+                        {session.title || 'Untitled session'}
+                      </Text>
+                      <Text className={`text-[12px] mt-0.5 ${textSecondary}`}>
+                        {session.messageCount} messages · {updatedLabel(session.updatedAt)}
+                      </Text>
+                    </View>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          <View className="px-6">
+            {error ? <Text className="text-red-500 text-[12px] mb-3">{error}</Text> : null}
+
+            <View className="flex-row gap-3">
+              <Pressable
+                onPress={onClose}
+                className={`flex-1 rounded-xl py-3 items-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}`}
+              >
+                <Text className={`text-[15px] font-semibold ${isDark ? 'text-white' : 'text-black'}`}>
+                  Cancel
+                </Text>
+              </Pressable>
+              <Pressable
+                onPress={() => void handleImport()}
+                disabled={selected.size === 0 || importing}
+                className={`flex-1 rounded-xl py-3 items-center bg-[#007AFF] ${
+                  selected.size === 0 || importing ? 'opacity-50' : ''
+                }`}
+              >
+                <Text className="text-white text-[15px] font-semibold">
+                  {importing
+                    ? 'Importing…'
+                    : selected.size > 0
+                      ? `Import ${selected.size}`
+                      : 'Import'}
+                </Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
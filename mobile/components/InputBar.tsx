@@ -1,17 +1,35 @@
 import { View, TextInput, Pressable, Text, useColorScheme } from 'react-native';
 import * as Haptics from 'expo-haptics';
+import { MicButton } from './MicButton';
 
 interface Props {
   input: string;
   onChangeInput: (text: string) => void;
   onSend: () => void;
+  onStop: () => void;
+  loading: boolean;
   editable: boolean;
   canSend: boolean;
+  /** Upload a voice clip and resolve with its transcript, which is added to the input for review */
+  transcribe: (uri: string) => Promise<string>;
   bottomInset: number;
 }
 
-export function InputBar({ input, onChangeInput, onSend, editable, canSend, bottomInset }: Props) {
+export function InputBar({
+  input,
+  onChangeInput,
+  onSend,
+  onStop,
+  loading,
+  editable,
+  canSend,
+  transcribe,
+  bottomInset,
+}: Props) {
   const isDark = useColorScheme() === 'dark';
+  // While a run is in flight the button stops it — unless there's text, which is queued as a follow-up
+  const showStop = loading && !canSend;
+  const active = showStop || canSend;
 
   return (
     <View
@@ -22,13 +40,18 @@ export function InputBar({ input, onChangeInput, onSend, editable, canSend, bott
       }`}
       style={{ paddingBottom: 12 + bottomInset }}
     >
+      <MicButton
+        transcribe={transcribe}
+        onTranscript={(text) => onChangeInput(input.trim() ? `${input.trimEnd()} ${text}` : text)}
+        disabled={!editable}
+      />
       <TextInput
         className={`flex-1 min-h-[40px] max-h-[120px] rounded-full px-4 py-[10px] text-[15px] ${
           isDark ? 'bg-zinc-800 text-white' : 'bg-gray-100 text-black'
         }`}
         value={input}
         onChangeText={onChangeInput}
-        placeholder="Message..."
+        placeholder={loading ? 'Queue a follow-up...' : 'Message...'}
         placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
         multiline
         editable={editable}
@@ -36,15 +59,17 @@ export function InputBar({ input, onChangeInput, onSend, editable, canSend, bott
       <Pressable
         onPress={() => {
           void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-          onSend();
+          if (showStop) onStop();
+          else onSend();
         }}
-        disabled={!canSend}
+        disabled={!active}
+        accessibilityLabel={showStop ? 'Stop' : loading ? 'Queue' : 'Send'}
         className={`w-[36px] h-[36px] rounded-full items-center justify-center mb-[2px] ${
-          canSend ? 'bg-[#007AFF]' : isDark ? 'bg-zinc-700' : 'bg-gray-200'
+          showStop ? 'bg-red-500' : canSend ? 'bg-[#007AFF]' : isDark ? 'bg-zinc-700' : 'bg-gray-200'
         }`}
       >
-        <Text className={`text-[18px] font-bold ${canSend ? 'text-white' : isDark ? 'text-zinc-500' : 'text-gray-400'}`}>
-          ↑
+        <Text className={`text-[18px] font-bold ${active ? 'text-white' : isDark ? 'text-zinc-500' : 'text-gray-400'}`}>
+          {showStop ? '■' : '↑'}
         </Text>
       </Pressable>
     </View>
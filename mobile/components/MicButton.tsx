@@ -0,0 +1,92 @@
+import { useRef, useState } from 'react';
+import { Alert, ActivityIndicator, Pressable, Text, useColorScheme } from 'react-native';
+import {
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioRecorder,
+} from 'expo-audio';
+import * as Haptics from 'expo-haptics';
+
+interface Props {
+  /** Upload a finished clip and resolve with its transcript */
+  transcribe: (uri: string) => Promise<string>;
+  onTranscript: (text: string) => void;
+  disabled: boolean;
+}
+
+// Shorter than this is a tap, not a recording — explain instead of uploading a click
+const MIN_RECORDING_MS = 500;
+
+type MicState = 'idle' | 'recording' | 'transcribing';
+
+/** Hold to record, release to transcribe */
+export function MicButton({ transcribe, onTranscript, disabled }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const [state, setState] = useState<MicState>('idle');
+  // The finger can lift before recording has started, so track the hold separately
+  const holdingRef = useRef(false);
+  const startedAtRef = useRef<number | null>(null);
+
+  const start = async () => {
+    holdingRef.current = true;
+    const { granted } = await requestRecordingPermissionsAsync();
+    if (!granted) {
+      holdingRef.current = false;
+      Alert.alert('Microphone access needed', 'Allow microphone access in Settings to dictate prompts.');
+      return;
+    }
+    await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+    await recorder.prepareToRecordAsync();
+    if (!holdingRef.current) return;
+    recorder.record();
+    startedAtRef.current = Date.now();
+    setState('recording');
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+  };
+
+  const finish = async () => {
+    holdingRef.current = false;
+    const startedAt = startedAtRef.current;
+    if (startedAt === null) return;
+    startedAtRef.current = null;
+    await recorder.stop();
+    await setAudioModeAsync({ allowsRecording: false });
+    const uri = recorder.uri;
+    if (Date.now() - startedAt < MIN_RECORDING_MS || !uri) {
+      setState('idle');
+      Alert.alert('Hold to record', 'Keep the mic pressed while you speak, then let go.');
+      return;
+    }
+    setState('transcribing');
+    try {
+      const text = await transcribe(uri);
+      if (text) onTranscript(text);
+    } catch (e) {
+      Alert.alert('Transcription failed', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setState('idle');
+    }
+  };
+
+  const recording = state === 'recording';
+
+  return (
+    <Pressable
+      onPressIn={() => void start().catch(() => setState('idle'))}
+      onPressOut={() => void finish().catch(() => setState('idle'))}
+      disabled={disabled || state === 'transcribing'}
+      accessibilityLabel={recording ? 'Recording — release to transcribe' : 'Hold to dictate'}
+      className={`w-[36px] h-[36px] rounded-full items-center justify-center mb-[2px] ${
+        recording ? 'bg-red-500' : isDark ? 'bg-zinc-800' : 'bg-gray-100'
+      }`}
+    >
+      {state === 'transcribing' ? (
+        <ActivityIndicator size="small" color={isDark ? '#8e8e93' : '#666'} />
+      ) : (
+        <Text className={`text-[17px] ${disabled ? 'opacity-40' : ''}`}>🎙</Text>
+      )}
+    </Pressable>
+  );
+}
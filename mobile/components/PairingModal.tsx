@@ -0,0 +1,208 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+  Keyboard,
+  useColorScheme,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
+import { normalizeFingerprint, type PairingLink, parsePairingLink } from '../pairing';
+
+interface Props {
+  visible: boolean;
+  /** Prefills the manual form */
+  serverUrl: string;
+  onClose: () => void;
+  onPair: (link: PairingLink) => Promise<void>;
+}
+
+export function PairingModal({ visible, serverUrl, onClose, onPair }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [permission, requestPermission] = useCameraPermissions();
+  const [urlInput, setUrlInput] = useState('');
+  const [codeInput, setCodeInput] = useState('');
+  const [fingerprintInput, setFingerprintInput] = useState('');
+  const [pairing, setPairing] = useState(false);
+  const [pairError, setPairError] = useState<string | null>(null);
+  // The camera reports the same code many times a second; only the first one counts
+  const scanningRef = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      setUrlInput(serverUrl);
+      setCodeInput('');
+      setFingerprintInput('');
+      setPairError(null);
+      scanningRef.current = false;
+    }
+  }, [visible, serverUrl]);
+
+  const pair = async (link: PairingLink) => {
+    setPairing(true);
+    setPairError(null);
+    try {
+      await onPair(link);
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (e) {
+      setPairError(e instanceof Error ? e.message : 'Pairing failed');
+    } finally {
+      setPairing(false);
+      scanningRef.current = false;
+    }
+  };
+
+  const handleScan = ({ data }: { data: string }) => {
+    if (scanningRef.current) return;
+    const link = parsePairingLink(data);
+    if (!link) {
+      setPairError('That QR code is not a claudet pairing code');
+      return;
+    }
+    scanningRef.current = true;
+    void pair(link);
+  };
+
+  // A TLS server's self-signed certificate is trusted by the fingerprint it prints
+  const isHttps = urlInput.trim().startsWith('https:');
+  const fingerprint = normalizeFingerprint(fingerprintInput);
+  const manualDisabled =
+    !urlInput.trim() || !codeInput.trim() || (isHttps && !fingerprint) || pairing;
+
+  const handleManualPair = () => {
+    if (manualDisabled) return;
+    void pair({
+      serverUrl: urlInput.trim().replace(/\/+$/, ''),
+      code: codeInput.trim(),
+      fingerprint: isHttps ? (fingerprint ?? undefined) : undefined,
+    });
+  };
+
+  const mutedClass = `text-[13px] ${isDark ? 'text-zinc-400' : 'text-gray-500'}`;
+  const inputClass = `rounded-xl px-4 py-3 text-[15px] mb-3 border ${
+    isDark ? 'bg-zinc-800 text-white border-zinc-700' : 'bg-gray-50 text-black border-gray-200'
+  }`;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <Pressable
+          className="flex-1 bg-black/50 justify-end"
+          onPress={Keyboard.dismiss}
+        >
+          {/* Sheet */}
+          <Pressable
+            className={`rounded-t-3xl px-6 pt-2 pb-10 ${isDark ? 'bg-zinc-900' : 'bg-white'}`}
+            onPress={() => {}}
+          >
+            {/* Handle */}
+            <View className="w-9 h-1 rounded-full bg-gray-300 dark:bg-zinc-600 self-center mb-6" />
+
+            <Text className={`text-[17px] font-semibold mb-1 ${isDark ? 'text-white' : 'text-black'}`}>
+              Pair with Server
+            </Text>
+            <Text className={`${mutedClass} mb-4`}>
+              Scan the QR code the server prints when it starts.
+            </Text>
+
+            {/* Scanner */}
+            <View className={`h-[220px] rounded-xl overflow-hidden mb-4 items-center justify-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}`}>
+              {visible && permission?.granted ? (
+                <CameraView
+                  style={{ width: '100%', height: '100%' }}
+                  facing="back"
+                  barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                  onBarcodeScanned={pairing ? undefined : handleScan}
+                />
+              ) : (
+                <Pressable
+                  onPress={() => void requestPermission()}
+                  className="rounded-lg px-4 py-2 bg-[#007AFF]"
+                >
+                  <Text className="text-white text-[14px] font-semibold">
+                    {permission?.canAskAgain === false ? 'Camera access is off in Settings' : 'Scan QR Code'}
+                  </Text>
+                </Pressable>
+              )}
+            </View>
+
+            <Text className={`${mutedClass} mb-2`}>Or enter them by hand:</Text>
+            <TextInput
+              className={inputClass}
+              placeholder="http://192.168.1.10:3001"
+              placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+              value={urlInput}
+              onChangeText={setUrlInput}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <TextInput
+              className={`${inputClass} font-mono`}
+              placeholder="Pairing code"
+              placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+              value={codeInput}
+              onChangeText={setCodeInput}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+            {isHttps ? (
+              <TextInput
+                className={`${inputClass} font-mono`}
+                placeholder="Certificate fingerprint"
+                placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+                value={fingerprintInput}
+                onChangeText={setFingerprintInput}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            ) : null}
+
+            {pairError ? (
+              <Text className="text-red-500 text-[12px] mb-3">{pairError}</Text>
+            ) : null}
+
+            <View className="flex-row gap-3 mt-2">
+              <Pressable
+                onPress={onClose}
+                className={`flex-1 rounded-xl py-3 items-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}`}
+              >
+                <Text className={`text-[15px] font-semibold ${isDark ? 'text-white' : 'text-black'}`}>
+                  Cancel
+                </Text>
+              </Pressable>
+
+              <Pressable
+                onPress={handleManualPair}
+                disabled={manualDisabled}
+                className={`flex-1 rounded-xl py-3 items-center ${
+                  manualDisabled
+                    ? isDark ? 'bg-zinc-700' : 'bg-gray-200'
+                    : 'bg-[#007AFF]'
+                }`}
+              >
+                <Text className={`text-[15px] font-semibold ${manualDisabled ? isDark ? 'text-zinc-500' : 'text-gray-400' : 'text-white'}`}>
+                  {pairing ? 'Pairing…' : 'Pair'}
+                </Text>
+              </Pressable>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
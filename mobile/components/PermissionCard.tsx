@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { View, Text, Pressable, useColorScheme } from 'react-native';
+import { summarizeToolInput, type ToolInput } from './ToolCard';
+import type { PendingPermission, PermissionDecision } from '../types';
+
+interface Props {
+  request: PendingPermission;
+  onRespond: (id: string, decision: PermissionDecision) => Promise<void>;
+}
+
+export function PermissionCard({ request, onRespond }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [responding, setResponding] = useState<PermissionDecision | null>(null);
+  const args = (request.input && typeof request.input === 'object' ? request.input : {}) as ToolInput;
+  const summary = summarizeToolInput(request.toolName, args) || JSON.stringify(request.input);
+
+  const respond = async (decision: PermissionDecision) => {
+    if (responding) return;
+    setResponding(decision);
+    try {
+      await onRespond(request.id, decision);
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  const secondaryClass = `flex-1 rounded-xl py-2 items-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}`;
+  const secondaryText = `text-[13px] font-semibold ${isDark ? 'text-white' : 'text-black'}`;
+
+  return (
+    <View
+      className={`rounded-2xl border px-4 py-3 my-1 ${
+        isDark ? 'bg-zinc-900 border-orange-500/60' : 'bg-orange-50 border-orange-300'
+      }`}
+    >
+      <Text className={`text-[13px] font-semibold mb-1 ${isDark ? 'text-orange-300' : 'text-orange-700'}`}>
+        Approve {request.toolName}?
+      </Text>
+      <Text
+        className={`text-[12px] font-mono mb-3 ${isDark ? 'text-zinc-300' : 'text-gray-700'}`}
+        numberOfLines={6}
+      >
+        {summary}
+      </Text>
+
+      <View className="flex-row gap-2 mb-2">
+        <Pressable
+          onPress={() => void respond('allowOnce')}
+          disabled={responding !== null}
+          className={`flex-1 rounded-xl py-2 items-center bg-[#007AFF] ${responding ? 'opacity-50' : ''}`}
+        >
+          <Text className="text-white text-[13px] font-semibold">
+            {responding === 'allowOnce' ? '…' : 'Allow once'}
+          </Text>
+        </Pressable>
+        <Pressable
+          onPress={() => void respond('deny')}
+          disabled={responding !== null}
+          className={`flex-1 rounded-xl py-2 items-center bg-red-500 ${responding ? 'opacity-50' : ''}`}
+        >
+          <Text className="text-white text-[13px] font-semibold">
+            {responding === 'deny' ? '…' : 'Deny'}
+          </Text>
+        </Pressable>
+      </View>
+      <Pressable
+        onPress={() => void respond('allowSession')}
+        disabled={responding !== null}
+        className={`${secondaryClass} ${responding ? 'opacity-50' : ''}`}
+      >
+        <Text className={secondaryText}>
+          {responding === 'allowSession' ? '…' : `Always allow ${request.toolName} for this session`}
+        </Text>
+      </Pressable>
+    </View>
+  );
+}
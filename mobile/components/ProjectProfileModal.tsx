@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  useColorScheme,
+} from 'react-native';
+import { ToolRulesEditor } from './ToolRulesEditor';
+import { PERMISSION_MODE_OPTIONS } from '../permissionModes';
+import type { PermissionMode, Project, ProjectProfile } from '../types';
+
+interface Props {
+  project: Project | null;
+  models: string[];
+  onClose: () => void;
+  onSave: (projectId: string, profile: ProjectProfile) => Promise<void>;
+}
+
+function OptionChips<T extends string>({
+  options,
+  selected,
+  onSelect,
+}: {
+  options: { value: T | undefined; label: string }[];
+  selected: T | undefined;
+  onSelect: (value: T | undefined) => void;
+}) {
+  const isDark = useColorScheme() === 'dark';
+  return (
+    <View className="flex-row flex-wrap gap-2 mb-5">
+      {options.map((option) => {
+        const active = option.value === selected;
+        return (
+          <Pressable
+            key={option.label}
+            onPress={() => onSelect(option.value)}
+            className={`rounded-full border px-3 py-1.5 ${
+              active
+                ? 'bg-[#007AFF] border-[#007AFF]'
+                : isDark
+                  ? 'bg-zinc-800 border-zinc-700'
+                  : 'bg-gray-50 border-gray-200'
+            }`}
+          >
+            <Text
+              className={`text-[13px] font-medium ${active ? 'text-white' : isDark ? 'text-zinc-200' : 'text-gray-800'}`}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+// Free text, split on whitespace: quoting isn't supported, so values can't contain spaces
+function parseExtraArgs(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+export function ProjectProfileModal({ project, models, onClose, onSave }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [model, setModel] = useState<string | undefined>();
+  const [permissionMode, setPermissionMode] = useState<PermissionMode | undefined>();
+  const [allowedTools, setAllowedTools] = useState<string[]>([]);
+  const [disallowedTools, setDisallowedTools] = useState<string[]>([]);
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [extraArgs, setExtraArgs] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!project) return;
+    const profile = project.profile ?? {};
+    setModel(profile.model);
+    setPermissionMode(profile.permissionMode);
+    setAllowedTools(profile.allowedTools ?? []);
+    setDisallowedTools(profile.disallowedTools ?? []);
+    setSystemPrompt(profile.appendSystemPrompt ?? '');
+    setExtraArgs((profile.extraArgs ?? []).join(' '));
+    setSaveError(null);
+  }, [project]);
+
+  const handleSave = async () => {
+    if (!project || saving) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(project.id, {
+        model,
+        permissionMode,
+        allowedTools,
+        disallowedTools,
+        appendSystemPrompt: systemPrompt,
+        extraArgs: parseExtraArgs(extraArgs),
+      });
+      onClose();
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const labelClass = `text-[13px] font-semibold mb-2 ${isDark ? 'text-zinc-300' : 'text-gray-600'}`;
+  const inputClass = `rounded-xl px-4 py-3 text-[14px] mb-5 border ${
+    isDark ? 'bg-zinc-800 text-white border-zinc-700' : 'bg-gray-50 text-black border-gray-200'
+  }`;
+
+  return (
+    <Modal visible={project !== null} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View className="flex-1 bg-black/50 justify-end">
+          {/* Sheet */}
+          <View className={`rounded-t-3xl pt-2 pb-10 max-h-[90%] ${isDark ? 'bg-zinc-900' : 'bg-white'}`}>
+            {/* Handle */}
+            <View className="w-9 h-1 rounded-full bg-gray-300 dark:bg-zinc-600 self-center mb-6" />
+
+            <ScrollView className="px-6" keyboardShouldPersistTaps="handled">
+              <Text className={`text-[17px] font-semibold mb-1 ${isDark ? 'text-white' : 'text-black'}`}>
+                {project?.name} Profile
+              </Text>
+              <Text className={`text-[13px] mb-5 ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+                Defaults for new sessions in this project. Existing sessions keep their settings.
+              </Text>
+
+              <Text className={labelClass}>Model</Text>
+              <OptionChips
+                options={[
+                  { value: undefined, label: 'Global default' },
+                  ...models.map((m) => ({ value: m, label: m.charAt(0).toUpperCase() + m.slice(1) })),
+                ]}
+                selected={model}
+                onSelect={setModel}
+              />
+
+              <Text className={labelClass}>Permission Mode</Text>
+              <OptionChips
+                options={[
+                  { value: undefined, label: 'Global default' },
+                  ...PERMISSION_MODE_OPTIONS.map((o) => ({ value: o.mode, label: o.title })),
+                ]}
+                selected={permissionMode}
+                onSelect={setPermissionMode}
+              />
+
+              <View className={`rounded-xl border mb-5 ${isDark ? 'border-zinc-800' : 'border-gray-200'}`}>
+                <ToolRulesEditor
+                  title="Always allow"
+                  hint="Runs without asking, in any mode"
+                  patterns={allowedTools}
+                  onChange={async (patterns) => setAllowedTools(patterns)}
+                />
+                <View className={`border-t ${isDark ? 'border-zinc-800' : 'border-gray-100'}`} />
+                <ToolRulesEditor
+                  title="Never allow"
+                  hint="Blocked even when bypassing permissions"
+                  patterns={disallowedTools}
+                  onChange={async (patterns) => setDisallowedTools(patterns)}
+                  destructive
+                />
+              </View>
+
+              <Text className={labelClass}>Appended System Prompt</Text>
+              <TextInput
+                className={`${inputClass} min-h-[88px]`}
+                placeholder="e.g. This is an infra repo: never run terraform apply."
+                placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+                value={systemPrompt}
+                onChangeText={setSystemPrompt}
+                multiline
+                textAlignVertical="top"
+              />
+
+              <Text className={labelClass}>Extra CLI Flags</Text>
+              <TextInput
+                className={`${inputClass} font-mono`}
+                placeholder="e.g. --max-turns 20"
+                placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+                value={extraArgs}
+                onChangeText={setExtraArgs}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              {saveError ? <Text className="text-red-500 text-[12px] mb-3">{saveError}</Text> : null}
+
+              <View className="flex-row gap-3 mt-1">
+                <Pressable
+                  onPress={onClose}
+                  className={`flex-1 rounded-xl py-3 items-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}`}
+                >
+                  <Text className={`text-[15px] font-semibold ${isDark ? 'text-white' : 'text-black'}`}>
+                    Cancel
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => void handleSave()}
+                  disabled={saving}
+                  className={`flex-1 rounded-xl py-3 items-center bg-[#007AFF] ${saving ? 'opacity-50' : ''}`}
+                >
+                  <Text className="text-white text-[15px] font-semibold">{saving ? 'Saving…' : 'Save'}</Text>
+                </Pressable>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+  Keyboard,
+  useColorScheme,
+} from 'react-native';
+import type { Run } from '../types';
+
+interface Props {
+  run: Run | null;
+  onClose: () => void;
+  onSave: (runId: string, message: string) => Promise<void>;
+  onDrop: (runId: string) => Promise<void>;
+}
+
+export function QueuedMessageModal({ run, onClose, onSave, onDrop }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [messageInput, setMessageInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [dropping, setDropping] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (run) {
+      setMessageInput(run.message);
+      setActionError(null);
+    }
+  }, [run]);
+
+  const trimmed = messageInput.trim();
+  const saveDisabled = !trimmed || trimmed === run?.message || saving || dropping;
+
+  // Both actions fail with 409 once the run has started — surface that instead of closing
+  const attempt = async (action: () => Promise<void>, setBusy: (v: boolean) => void) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await action();
+      onClose();
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!run || saveDisabled) return;
+    void attempt(() => onSave(run.id, trimmed), setSaving);
+  };
+
+  const handleDrop = () => {
+    if (!run || dropping) return;
+    void attempt(() => onDrop(run.id), setDropping);
+  };
+
+  return (
+    <Modal
+      visible={run !== null}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <Pressable
+          className="flex-1 bg-black/50 justify-end"
+          onPress={Keyboard.dismiss}
+        >
+          {/* Sheet */}
+          <Pressable
+            className={`rounded-t-3xl px-6 pt-2 pb-10 ${isDark ? 'bg-zinc-900' : 'bg-white'}`}
+            onPress={() => {}}
+          >
+            {/* Handle */}
+            <View className="w-9 h-1 rounded-full bg-gray-300 dark:bg-zinc-600 self-center mb-6" />
+
+            <Text className={`text-[17px] font-semibold mb-1 ${isDark ? 'text-white' : 'text-black'}`}>
+              Queued Message
+            </Text>
+            <Text className={`text-[13px] mb-5 ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+              Sent automatically once Claude finishes the current run.
+            </Text>
+
+            <TextInput
+              className={`rounded-xl px-4 py-3 text-[15px] mb-3 border max-h-[160px] ${
+                isDark
+                  ? 'bg-zinc-800 text-white border-zinc-700'
+                  : 'bg-gray-50 text-black border-gray-200'
+              }`}
+              placeholder="Message"
+              placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+              value={messageInput}
+              onChangeText={setMessageInput}
+              multiline
+              autoFocus
+            />
+
+            {actionError ? (
+              <Text className="text-red-500 text-[12px] mb-3">{actionError}</Text>
+            ) : null}
+
+            <View className="flex-row gap-3 mb-4 mt-2">
+              <Pressable
+                onPress={onClose}
+                className={`flex-1 rounded-xl py-3 items-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}`}
+              >
+                <Text className={`text-[15px] font-semibold ${isDark ? 'text-white' : 'text-black'}`}>
+                  Cancel
+                </Text>
+              </Pressable>
+
+              <Pressable
+                onPress={handleSave}
+                disabled={saveDisabled}
+                className={`flex-1 rounded-xl py-3 items-center ${
+                  saveDisabled
+                    ? isDark ? 'bg-zinc-700' : 'bg-gray-200'
+                    : 'bg-[#007AFF]'
+                }`}
+              >
+                <Text className={`text-[15px] font-semibold ${saveDisabled ? isDark ? 'text-zinc-500' : 'text-gray-400' : 'text-white'}`}>
+                  {saving ? 'Saving…' : 'Save'}
+                </Text>
+              </Pressable>
+            </View>
+
+            <View className={`h-[0.5px] mb-4 ${isDark ? 'bg-zinc-700' : 'bg-gray-200'}`} />
+
+            <Pressable
+              onPress={handleDrop}
+              disabled={dropping}
+              className={`rounded-xl py-3 items-center bg-red-500 ${dropping ? 'opacity-50' : ''}`}
+            >
+              <Text className="text-white text-[15px] font-semibold">
+                {dropping ? 'Dropping…' : 'Drop from Queue'}
+              </Text>
+            </Pressable>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
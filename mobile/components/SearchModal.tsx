@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { Project, SearchHit } from '../types';
+
+// Wait for a pause in typing before hitting the server
+const DEBOUNCE_MS = 250;
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  /** Current project; results can be narrowed to it */
+  projectPath: string | null;
+  projects: Project[];
+  onSearch: (q: string, projectPath?: string) => Promise<SearchHit[]>;
+  onSelect: (hit: SearchHit) => void;
+}
+
+// The server wraps matched terms in <mark></mark>
+function Snippet({ text, className }: { text: string; className: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <Text className={className} numberOfLines={3}>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <Text key={i} className="font-semibold text-[#007AFF]">
+            {part}
+          </Text>
+        ) : (
+          part
+        ),
+      )}
+    </Text>
+  );
+}
+
+export function SearchModal({ visible, onClose, projectPath, projects, onSearch, onSelect }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const insets = useSafeAreaInsets();
+  const [query, setQuery] = useState('');
+  const [thisProjectOnly, setThisProjectOnly] = useState(true);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update results — earlier ones can finish later
+  const requestRef = useRef(0);
+
+  const scope = thisProjectOnly && projectPath ? projectPath : undefined;
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    const request = ++requestRef.current;
+    if (!visible || !trimmed) {
+      setHits([]);
+      setSearching(false);
+      return;
+    }
+    setSearching(true);
+    const timer = setTimeout(() => {
+      onSearch(trimmed, scope)
+        .then((results) => {
+          if (request !== requestRef.current) return;
+          setHits(results);
+          setError(null);
+        })
+        .catch((e) => {
+          if (request !== requestRef.current) return;
+          setHits([]);
+          setError(e instanceof Error ? e.message : 'Search failed');
+        })
+        .finally(() => {
+          if (request === requestRef.current) setSearching(false);
+        });
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, scope, visible, onSearch]);
+
+  const projectName = (path: string) => projects.find((p) => p.path === path)?.name ?? path;
+  const textSecondary = isDark ? 'text-zinc-400' : 'text-gray-500';
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      onPress={onPress}
+      className={`rounded-full border px-3 py-1.5 ${
+        active
+          ? 'bg-[#007AFF] border-[#007AFF]'
+          : isDark
+            ? 'bg-zinc-800 border-zinc-700'
+            : 'bg-gray-50 border-gray-200'
+      }`}
+    >
+      <Text
+        className={`text-[13px] font-medium ${active ? 'text-white' : isDark ? 'text-zinc-200' : 'text-gray-800'}`}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View className={`flex-1 ${isDark ? 'bg-black' : 'bg-gray-50'}`} style={{ paddingTop: insets.top + 8 }}>
+        <View className="flex-row items-center px-4 gap-3 mb-3">
+          <TextInput
+            className={`flex-1 rounded-xl px-4 py-2.5 text-[16px] ${
+              isDark ? 'bg-zinc-800 text-white' : 'bg-white text-black border border-gray-200'
+            }`}
+            placeholder="Search all conversations"
+            placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+            value={query}
+            onChangeText={setQuery}
+            autoFocus
+            autoCorrect={false}
+            returnKeyType="search"
+            clearButtonMode="while-editing"
+          />
+          <Pressable onPress={onClose} hitSlop={8}>
+            <Text className="text-[16px] text-[#007AFF]">Cancel</Text>
+          </Pressable>
+        </View>
+
+        {projectPath ? (
+          <View className="flex-row gap-2 px-4 mb-3">
+            {chip(projectName(projectPath), thisProjectOnly, () => setThisProjectOnly(true))}
+            {chip('All projects', !thisProjectOnly, () => setThisProjectOnly(false))}
+          </View>
+        ) : null}
+
+        {error ? <Text className="text-red-500 text-[13px] px-4 mb-2">{error}</Text> : null}
+
+        <FlatList
+          data={hits}
+          keyExtractor={(hit) => `${hit.kind}-${hit.sessionId}-${hit.messageId ?? ''}`}
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+          contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+          ListEmptyComponent={
+            searching ? (
+              <ActivityIndicator className="mt-8" />
+            ) : query.trim() ? (
+              <Text className={`text-center mt-8 text-[15px] ${textSecondary}`}>No matches</Text>
+            ) : null
+          }
+          renderItem={({ item: hit }) => (
+            <Pressable
+              onPress={() => {
+                onClose();
+                onSelect(hit);
+              }}
+              className={`px-4 py-3 border-b ${isDark ? 'border-zinc-800' : 'border-gray-200'}`}
+            >
+              <View className="flex-row items-center mb-1">
+                <Text
+                  className={`flex-1 text-[13px] font-semibold ${isDark ? 'text-zinc-200' : 'text-gray-800'}`}
+                  numberOfLines={1}
+                >
+                  {hit.sessionName ?? new Date(hit.createdAt).toLocaleDateString()}
+                  {scope ? '' : ` · ${projectName(hit.projectPath)}`}
+                </Text>
+                <Text className={`text-[11px] ml-2 ${textSecondary}`}>
+                  {hit.kind === 'session' ? 'Session name' : hit.role === 'user' ? 'You' : 'Claude'}
+                </Text>
+              </View>
+              <Snippet
+                text={hit.snippet}
+                className={`text-[14px] leading-[20px] ${isDark ? 'text-zinc-300' : 'text-gray-700'}`}
+              />
+            </Pressable>
+          )}
+        />
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+  useColorScheme,
+} from 'react-native';
+import { defaultServerName, SERVER_COLORS, type ServerProfile } from '../servers';
+
+interface Props {
+  /** The profile to edit, or a fresh one to add; null when closed */
+  profile: ServerProfile | null;
+  isNew: boolean;
+  onClose: () => void;
+  onSave: (profile: ServerProfile) => Promise<void>;
+  /** Omitted when the profile can't be removed (it's new, or the only one) */
+  onRemove?: (id: string) => Promise<void>;
+}
+
+export function ServerProfileModal({ profile, isNew, onClose, onSave, onRemove }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [color, setColor] = useState(SERVER_COLORS[0] ?? '#007AFF');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profile) return;
+    setName(profile.name);
+    setUrl(profile.url);
+    setColor(profile.color);
+    setSaveError(null);
+  }, [profile]);
+
+  const run = async (action: () => Promise<void>) => {
+    if (saving) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await action();
+      onClose();
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      if (!profile) return;
+      const trimmedUrl = url.trim().replace(/\/+$/, '');
+      if (!/^https?:\/\/\S+$/.test(trimmedUrl)) {
+        throw new Error('Enter the server URL, e.g. http://192.168.1.20:3001');
+      }
+      // A changed URL is a different server as far as pairing goes
+      const samePlace = trimmedUrl === profile.url;
+      await onSave({
+        ...profile,
+        name: name.trim() || defaultServerName(trimmedUrl),
+        url: trimmedUrl,
+        color,
+        token: samePlace ? profile.token : undefined,
+        fingerprint: samePlace ? profile.fingerprint : undefined,
+      });
+    });
+
+  const labelClass = `text-[13px] font-semibold mb-2 ${isDark ? 'text-zinc-300' : 'text-gray-600'}`;
+  const inputClass = `rounded-xl px-4 py-3 text-[14px] mb-5 border ${
+    isDark ? 'bg-zinc-800 text-white border-zinc-700' : 'bg-gray-50 text-black border-gray-200'
+  }`;
+
+  return (
+    <Modal visible={profile !== null} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View className="flex-1 bg-black/50 justify-end">
+          {/* Sheet */}
+          <View className={`rounded-t-3xl pt-2 pb-10 px-6 ${isDark ? 'bg-zinc-900' : 'bg-white'}`}>
+            {/* Handle */}
+            <View className="w-9 h-1 rounded-full bg-gray-300 dark:bg-zinc-600 self-center mb-6" />
+
+            <Text className={`text-[17px] font-semibold mb-1 ${isDark ? 'text-white' : 'text-black'}`}>
+              {isNew ? 'Add Server' : 'Edit Server'}
+            </Text>
+            <Text className={`text-[13px] mb-5 ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+              {isNew
+                ? 'If the server asks for pairing, switch to it and scan its QR code with Pair.'
+                : 'Changing the URL drops this phone’s pairing, so the new address may need pairing again.'}
+            </Text>
+
+            <Text className={labelClass}>Name</Text>
+            <TextInput
+              className={inputClass}
+              placeholder={defaultServerName(url) || 'e.g. Workstation'}
+              placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+              value={name}
+              onChangeText={setName}
+            />
+
+            <Text className={labelClass}>URL</Text>
+            <TextInput
+              className={`${inputClass} font-mono`}
+              placeholder="http://192.168.1.20:3001"
+              placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+              value={url}
+              onChangeText={setUrl}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+
+            <Text className={labelClass}>Colour</Text>
+            <View className="flex-row gap-3 mb-5">
+              {SERVER_COLORS.map((c) => (
+                <Pressable
+                  key={c}
+                  onPress={() => setColor(c)}
+                  className={`w-8 h-8 rounded-full items-center justify-center border-2 ${
+                    c === color ? (isDark ? 'border-white' : 'border-black') : 'border-transparent'
+                  }`}
+                >
+                  <View className="w-6 h-6 rounded-full" style={{ backgroundColor: c }} />
+                </Pressable>
+              ))}
+            </View>
+
+            {saveError ? <Text className="text-red-500 text-[12px] mb-3">{saveError}</Text> : null}
+
+            <View className="flex-row gap-3 mt-1">
+              <Pressable
+                onPress={onClose}
+                className={`flex-1 rounded-xl py-3 items-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'}`}
+              >
+                <Text className={`text-[15px] font-semibold ${isDark ? 'text-white' : 'text-black'}`}>
+                  Cancel
+                </Text>
+              </Pressable>
+              <Pressable
+                onPress={() => void handleSave()}
+                disabled={saving}
+                className={`flex-1 rounded-xl py-3 items-center bg-[#007AFF] ${saving ? 'opacity-50' : ''}`}
+              >
+                <Text className="text-white text-[15px] font-semibold">{saving ? 'Saving…' : 'Save'}</Text>
+              </Pressable>
+            </View>
+
+            {onRemove && profile ? (
+              <Pressable
+                onPress={() => void run(() => onRemove(profile.id))}
+                disabled={saving}
+                className="mt-4 items-center py-2"
+              >
+                <Text className="text-red-500 text-[15px] font-semibold">Remove Server</Text>
+              </Pressable>
+            ) : null}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,61 @@
+import { Modal, View, Text, Pressable, useColorScheme } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import type { ServerProfile } from '../servers';
+
+interface Props {
+  visible: boolean;
+  servers: ServerProfile[];
+  activeServerId: string;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+/** Quick switch between saved servers; adding and editing them is under Settings → Server */
+export function ServerSwitcherModal({ visible, servers, activeServerId, onSelect, onClose }: Props) {
+  const isDark = useColorScheme() === 'dark';
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable className="flex-1 bg-black/50 justify-end" onPress={onClose}>
+        {/* Sheet */}
+        <Pressable
+          className={`rounded-t-3xl pt-2 pb-10 ${isDark ? 'bg-zinc-900' : 'bg-white'}`}
+          onPress={() => {}}
+        >
+          {/* Handle */}
+          <View className="w-9 h-1 rounded-full bg-gray-300 dark:bg-zinc-600 self-center mb-4" />
+
+          <Text className={`text-[17px] font-semibold px-6 mb-2 ${isDark ? 'text-white' : 'text-black'}`}>
+            Servers
+          </Text>
+
+          {servers.map((server) => {
+            const active = server.id === activeServerId;
+            return (
+              <Pressable
+                key={server.id}
+                onPress={() => {
+                  void Haptics.selectionAsync();
+                  onClose();
+                  onSelect(server.id);
+                }}
+                className={`flex-row items-center px-6 py-3 ${active ? (isDark ? 'bg-zinc-800' : 'bg-gray-100') : ''}`}
+              >
+                <View className="w-3 h-3 rounded-full mr-3" style={{ backgroundColor: server.color }} />
+                <View className="flex-1 mr-3">
+                  <Text className={`text-[15px] font-medium ${isDark ? 'text-white' : 'text-black'}`} numberOfLines={1}>
+                    {server.name}
+                  </Text>
+                  <Text className={`text-[12px] font-mono mt-0.5 ${isDark ? 'text-zinc-400' : 'text-gray-400'}`} numberOfLines={1}>
+                    {server.url}
+                  </Text>
+                </View>
+                {active ? <Text className="text-[#007AFF] text-[17px]">✓</Text> : null}
+              </Pressable>
+            );
+          })}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
@@ -10,24 +10,35 @@ import {
   Keyboard,
   useColorScheme,
 } from 'react-native';
-import type { Session } from '../types';
+import type { ExportFormat, Session } from '../types';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+];
 
 interface Props {
   session: Session | null;
   onClose: () => void;
   onRename: (id: string, name: string) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
+  /** Download the session in the given format and open the share sheet */
+  onExport: (id: string, format: ExportFormat) => Promise<void>;
 }
 
-export function SessionActionModal({ session, onClose, onRename, onDelete }: Props) {
+export function SessionActionModal({ session, onClose, onRename, onDelete, onExport }: Props) {
   const isDark = useColorScheme() === 'dark';
   const [nameInput, setNameInput] = useState('');
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   useEffect(() => {
     if (session) {
       setNameInput(session.name ?? '');
+      setExportError(null);
     }
   }, [session]);
 
@@ -57,6 +68,19 @@ export function SessionActionModal({ session, onClose, onRename, onDelete }: Pro
     }
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!session || exporting) return;
+    setExporting(format);
+    setExportError(null);
+    try {
+      await onExport(session.id, format);
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   return (
     <Modal
       visible={session !== null}
@@ -126,6 +150,29 @@ export function SessionActionModal({ session, onClose, onRename, onDelete }: Pro
 
             <View className={`h-[0.5px] mb-4 ${isDark ? 'bg-zinc-700' : 'bg-gray-200'}`} />
 
+            <Text className={`text-[13px] font-medium mb-2 ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+              Export & Share
+            </Text>
+            <View className="flex-row gap-3 mb-2">
+              {EXPORT_OPTIONS.map(({ format, label }) => (
+                <Pressable
+                  key={format}
+                  onPress={() => handleExport(format)}
+                  disabled={exporting !== null}
+                  className={`flex-1 rounded-xl py-3 items-center ${isDark ? 'bg-zinc-800' : 'bg-gray-100'} ${
+                    exporting !== null && exporting !== format ? 'opacity-50' : ''
+                  }`}
+                >
+                  <Text className="text-[15px] font-semibold text-[#007AFF]">
+                    {exporting === format ? 'Exporting…' : label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            {exportError ? <Text className="text-red-500 text-[13px] mb-2">{exportError}</Text> : null}
+
+            <View className={`h-[0.5px] mt-2 mb-4 ${isDark ? 'bg-zinc-700' : 'bg-gray-200'}`} />
+
             <Pressable
               onPress={handleDelete}
               disabled={deleting}
@@ -27,6 +27,28 @@ function sessionLabel(session: Session): string {
   return d.toLocaleDateString([], { month: 'short', day: 'numeric' });
 }
 
+// Forks are listed under the session they came from, depth-first, keeping the given order
+function nestSessions(sessions: Session[]): { session: Session; depth: number }[] {
+  const ids = new Set(sessions.map((s) => s.id));
+  const children = new Map<string, Session[]>();
+  const roots: Session[] = [];
+  for (const session of sessions) {
+    const parentId = session.parentSessionId;
+    if (parentId && ids.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), session]);
+    } else {
+      roots.push(session);
+    }
+  }
+  const rows: { session: Session; depth: number }[] = [];
+  const visit = (session: Session, depth: number) => {
+    rows.push({ session, depth });
+    for (const child of children.get(session.id) ?? []) visit(child, depth + 1);
+  };
+  for (const root of roots) visit(root, 0);
+  return rows;
+}
+
 interface Props {
   isOpen: boolean;
   onClose: () => void;
@@ -39,6 +61,7 @@ interface Props {
   onSelectSession: (id: string) => void;
   onEditSession: (session: Session) => void;
   onNewSession: () => void;
+  onImportSessions: () => void;
 }
 
 export function SideDrawer({
@@ -53,6 +76,7 @@ export function SideDrawer({
   onSelectSession,
   onEditSession,
   onNewSession,
+  onImportSessions,
 }: Props) {
   const isDark = useColorScheme() === 'dark';
   const insets = useSafeAreaInsets();
@@ -103,7 +127,7 @@ export function SideDrawer({
   }, [isOpen, translateX, backdropOpacity]);
 
   const projectSessions = currentProjectId
-    ? sessions.filter((s) => s.projectPath === currentProjectId)
+    ? nestSessions(sessions.filter((s) => s.projectPath === currentProjectId))
     : [];
 
   const bg = isDark ? '#1c1c1e' : '#ffffff';
@@ -303,7 +327,7 @@ export function SideDrawer({
                     No sessions yet — tap + to start
                   </Text>
                 ) : (
-                  projectSessions.map((session) => {
+                  projectSessions.map(({ session, depth }) => {
                     const active = session.id === currentSessionId;
                     return (
                       <View
@@ -320,7 +344,13 @@ export function SideDrawer({
                             onSelectSession(session.id);
                             onClose();
                           }}
-                          style={{ flex: 1, flexDirection: 'row', alignItems: 'center', paddingLeft: 20, paddingVertical: 9 }}
+                          style={{
+                            flex: 1,
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            paddingLeft: 20 + depth * 16,
+                            paddingVertical: 9,
+                          }}
                         >
                           <View
                             style={{
@@ -341,6 +371,7 @@ export function SideDrawer({
                               }}
                               numberOfLines={1}
                             >
+                              {depth > 0 ? '↳ ' : ''}
                               {sessionLabel(session)}
                             </Text>
                             <Text style={{ fontSize: 11, color: textSecondary, marginTop: 1 }}>
@@ -365,6 +396,18 @@ export function SideDrawer({
                     );
                   })
                 )}
+
+                {/* Opens ImportSessionsModal once the drawer has closed */}
+                <Pressable
+                  onPress={() => {
+                    void Haptics.selectionAsync();
+                    onClose();
+                    onImportSessions();
+                  }}
+                  style={{ paddingHorizontal: 20, paddingVertical: 10, marginTop: 4 }}
+                >
+                  <Text style={{ fontSize: 14, color: activeBlue }}>Import from desktop…</Text>
+                </Pressable>
               </>
             ) : null}
 
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { View, Text, Pressable, useColorScheme } from 'react-native';
+
+interface Props {
+  name: string;
+  input: unknown;
+  /** Undefined while the tool is still running */
+  result?: { output: string; isError: boolean };
+}
+
+export type ToolInput = Record<string, unknown>;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+// Tool output can run to thousands of lines — a phone screen only needs the start
+const PREVIEW_LINES = 40;
+
+function preview(text: string): string {
+  const lines = text.split('\n');
+  if (lines.length <= PREVIEW_LINES) return text;
+  return `${lines.slice(0, PREVIEW_LINES).join('\n')}\n… ${lines.length - PREVIEW_LINES} more lines`;
+}
+
+/** One-line summary of a tool call (command, file path, pattern…), empty when there's nothing short to show */
+export function summarizeToolInput(name: string, input: ToolInput): string {
+  switch (name) {
+    case 'Bash':
+      return str(input.command);
+    case 'Read':
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+      return str(input.file_path);
+    case 'Grep':
+    case 'Glob':
+      return str(input.pattern);
+    case 'WebFetch':
+      return str(input.url);
+    case 'WebSearch':
+      return str(input.query);
+    case 'Task':
+      return str(input.description);
+    default:
+      return '';
+  }
+}
+
+type DiffLine = { sign: '-' | '+'; text: string };
+
+function diffLines(edits: ToolInput[]): DiffLine[] {
+  return edits.flatMap((edit) => [
+    ...str(edit.old_string).split('\n').map((text) => ({ sign: '-' as const, text })),
+    ...str(edit.new_string).split('\n').map((text) => ({ sign: '+' as const, text })),
+  ]);
+}
+
+export function ToolCard({ name, input, result }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [expanded, setExpanded] = useState(false);
+  const args = (input && typeof input === 'object' ? input : {}) as ToolInput;
+  const summary = summarizeToolInput(name, args);
+
+  const codeClass = `text-[12px] font-mono ${isDark ? 'text-zinc-200' : 'text-gray-800'}`;
+  const labelClass = `text-[11px] font-semibold uppercase mt-2 mb-1 ${isDark ? 'text-zinc-500' : 'text-gray-400'}`;
+
+  const renderInput = () => {
+    switch (name) {
+      case 'Bash':
+        return <Text className={codeClass}>$ {str(args.command)}</Text>;
+      case 'Edit':
+      case 'MultiEdit': {
+        const edits = name === 'Edit' ? [args] : ((args.edits as ToolInput[] | undefined) ?? []);
+        return (
+          <View>
+            {diffLines(edits).map((line, i) => (
+              <Text
+                key={i}
+                className={`text-[12px] font-mono ${line.sign === '-' ? 'text-red-500' : 'text-green-600'}`}
+              >
+                {line.sign} {line.text}
+              </Text>
+            ))}
+          </View>
+        );
+      }
+      case 'Write':
+        return <Text className={codeClass}>{preview(str(args.content))}</Text>;
+      case 'Read':
+      case 'Grep':
+      case 'Glob':
+        // The summary line already says what was read or searched
+        return null;
+      default:
+        return <Text className={codeClass}>{JSON.stringify(input, null, 2)}</Text>;
+    }
+  };
+
+  // Write/Edit results are just "File updated" confirmations — the input is the interesting part
+  const showOutput = result && result.output && !(['Edit', 'MultiEdit', 'Write'].includes(name) && !result.isError);
+
+  return (
+    <View
+      className={`rounded-xl border my-1 overflow-hidden ${
+        isDark ? 'bg-zinc-900 border-zinc-700' : 'bg-gray-50 border-gray-200'
+      }`}
+    >
+      <Pressable onPress={() => setExpanded((v) => !v)} className="flex-row items-center px-3 py-2">
+        <Text className={`text-[12px] mr-2 ${isDark ? 'text-zinc-500' : 'text-gray-400'}`}>
+          {expanded ? '▾' : '▸'}
+        </Text>
+        <Text className={`text-[13px] font-semibold mr-2 ${isDark ? 'text-white' : 'text-black'}`}>{name}</Text>
+        <Text
+          className={`flex-1 text-[12px] font-mono ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}
+          numberOfLines={1}
+        >
+          {summary}
+        </Text>
+        <Text className={`text-[12px] ml-2 ${result?.isError ? 'text-red-500' : isDark ? 'text-zinc-500' : 'text-gray-400'}`}>
+          {!result ? '…' : result.isError ? '✕' : '✓'}
+        </Text>
+      </Pressable>
+
+      {expanded ? (
+        <View className={`px-3 pb-3 border-t ${isDark ? 'border-zinc-800' : 'border-gray-200'}`}>
+          {summary && name !== 'Bash' ? (
+            <Text className={`text-[12px] font-mono mt-2 ${isDark ? 'text-zinc-400' : 'text-gray-500'}`}>{summary}</Text>
+          ) : null}
+          <View className="mt-2">{renderInput()}</View>
+          {showOutput ? (
+            <>
+              <Text className={labelClass}>{result.isError ? 'Error' : 'Output'}</Text>
+              <Text className={result.isError ? 'text-[12px] font-mono text-red-500' : codeClass}>
+                {preview(result.output)}
+              </Text>
+            </>
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { View, Text, Pressable, TextInput, useColorScheme } from 'react-native';
+
+interface Props {
+  title: string;
+  hint: string;
+  patterns: string[];
+  /** Saves the whole list; rejects with the server's validation message */
+  onChange: (patterns: string[]) => Promise<void>;
+  /** Red chips for deny rules */
+  destructive?: boolean;
+}
+
+export function ToolRulesEditor({ title, hint, patterns, onChange, destructive = false }: Props) {
+  const isDark = useColorScheme() === 'dark';
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const save = async (next: string[]) => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onChange(next);
+      return true;
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : 'Failed to save');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const add = async () => {
+    const pattern = draft.trim();
+    if (!pattern) return;
+    if (patterns.includes(pattern)) {
+      setDraft('');
+      return;
+    }
+    if (await save([...patterns, pattern])) setDraft('');
+  };
+
+  const chipClass = destructive
+    ? isDark
+      ? 'bg-red-500/20 border-red-500/40'
+      : 'bg-red-50 border-red-200'
+    : isDark
+      ? 'bg-zinc-800 border-zinc-700'
+      : 'bg-gray-100 border-gray-200';
+  const chipText = destructive
+    ? isDark
+      ? 'text-red-300'
+      : 'text-red-700'
+    : isDark
+      ? 'text-zinc-200'
+      : 'text-gray-800';
+
+  return (
+    <View className="px-4 py-3">
+      <Text className={`text-[15px] font-medium ${isDark ? 'text-white' : 'text-black'}`}>{title}</Text>
+      <Text className={`text-[12px] mt-0.5 mb-2 ${isDark ? 'text-zinc-400' : 'text-gray-400'}`}>{hint}</Text>
+
+      {patterns.length > 0 ? (
+        <View className="flex-row flex-wrap gap-2 mb-2">
+          {patterns.map((pattern) => (
+            <Pressable
+              key={pattern}
+              onPress={() => void save(patterns.filter((p) => p !== pattern))}
+              disabled={saving}
+              accessibilityLabel={`Remove ${pattern}`}
+              className={`flex-row items-center rounded-full border px-3 py-1 ${chipClass}`}
+            >
+              <Text className={`text-[12px] font-mono ${chipText}`}>{pattern}</Text>
+              <Text className={`text-[12px] ml-1.5 ${chipText}`}>✕</Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+
+      <View className="flex-row items-center gap-2">
+        <TextInput
+          className={`flex-1 rounded-lg px-3 py-2 text-[14px] font-mono border ${
+            isDark ? 'bg-zinc-800 text-white border-zinc-700' : 'bg-gray-50 text-black border-gray-200'
+          }`}
+          placeholder="e.g. Bash(git:*)"
+          placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+          value={draft}
+          onChangeText={setDraft}
+          onSubmitEditing={() => void add()}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Pressable
+          onPress={() => void add()}
+          disabled={saving || !draft.trim()}
+          className={`rounded-lg px-4 py-2 ${saving || !draft.trim() ? 'opacity-50' : ''} bg-[#007AFF]`}
+        >
+          <Text className="text-white text-[14px] font-semibold">{saving ? '…' : 'Add'}</Text>
+        </Pressable>
+      </View>
+      {saveError ? <Text className="text-red-500 text-[12px] mt-1">{saveError}</Text> : null}
+    </View>
+  );
+}
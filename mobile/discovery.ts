@@ -0,0 +1,55 @@
+/**
+ * claudet servers advertising themselves on the LAN over mDNS, as `_claudet._tcp` DNS-SD services
+ * whose TXT record holds `version`, `auth` and `tls`
+ */
+import LanDiscovery, { type FoundService } from './modules/lan-discovery';
+
+export type DiscoveredServer = {
+	name: string;
+	url: string;
+	version?: string;
+	/** Needs pairing before it answers */
+	auth: boolean;
+	/** Serves HTTPS with a self-signed certificate, whose fingerprint comes from pairing */
+	tls: boolean;
+};
+
+const SERVICE_TYPE = 'claudet';
+
+/** False in Expo Go, which can't load the app's own native code */
+export const canDiscoverServers = LanDiscovery !== null;
+
+export function toDiscoveredServer({ name, host, port, txt }: FoundService): DiscoveredServer {
+	const tls = txt.tls === '1';
+	// IPv6 goes in brackets, with a link-local address's %zone escaped
+	const urlHost = host.includes(':') ? `[${host.replace('%', '%25')}]` : host;
+	return {
+		name,
+		url: `${tls ? 'https' : 'http'}://${urlHost}:${port}`,
+		version: txt.version,
+		// Assume pairing unless the server says otherwise
+		auth: txt.auth !== '0',
+		tls,
+	};
+}
+
+/** Browse until the returned function is called; `onChange` gets every server seen, by name */
+export function browseServers(onChange: (servers: DiscoveredServer[]) => void): () => void {
+	const discovery = LanDiscovery;
+	if (!discovery) return () => {};
+	const found = new Map<string, DiscoveredServer>();
+	const emit = () => onChange([...found.values()].sort((a, b) => a.name.localeCompare(b.name)));
+	const foundSubscription = discovery.addListener('onServiceFound', (service) => {
+		found.set(service.name, toDiscoveredServer(service));
+		emit();
+	});
+	const lostSubscription = discovery.addListener('onServiceLost', ({ name }) => {
+		if (found.delete(name)) emit();
+	});
+	discovery.start(SERVICE_TYPE);
+	return () => {
+		foundSubscription.remove();
+		lostSubscription.remove();
+		discovery.stop();
+	};
+}
@@ -0,0 +1,13 @@
+/** Dollar amounts: sub-cent spend keeps enough precision to be non-zero */
+export function formatCost(usd: number): string {
+	if (usd === 0) return '$0.00';
+	if (usd < 0.01) return `$${usd.toFixed(4)}`;
+	return `$${usd.toFixed(2)}`;
+}
+
+/** Token counts abbreviated for narrow rows: 950, 12.3k, 4.1M */
+export function formatTokens(count: number): string {
+	if (count < 1000) return String(count);
+	if (count < 1_000_000) return `${(count / 1000).toFixed(1)}k`;
+	return `${(count / 1_000_000).toFixed(1)}M`;
+}
@@ -0,0 +1,113 @@
+package expo.modules.landiscovery
+
+import android.content.Context
+import android.net.nsd.NsdManager
+import android.net.nsd.NsdServiceInfo
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+import java.util.ArrayDeque
+
+// Browses for DNS-SD services and resolves each to an address, port and TXT record. NsdManager
+// resolves one service at a time, so services found meanwhile wait in a queue.
+class LanDiscoveryModule : Module() {
+  private var discovery: NsdManager.DiscoveryListener? = null
+  private val pending = ArrayDeque<NsdServiceInfo>()
+  private var resolving = false
+
+  private val nsd: NsdManager?
+    get() = appContext.reactContext?.getSystemService(Context.NSD_SERVICE) as? NsdManager
+
+  override fun definition() = ModuleDefinition {
+    Name("LanDiscovery")
+
+    Events("onServiceFound", "onServiceLost")
+
+    Function("start") { type: String ->
+      stopDiscovery()
+      val listener = object : NsdManager.DiscoveryListener {
+        override fun onDiscoveryStarted(serviceType: String) {}
+
+        override fun onDiscoveryStopped(serviceType: String) {}
+
+        override fun onStartDiscoveryFailed(serviceType: String, errorCode: Int) {
+          synchronized(this@LanDiscoveryModule) {
+            if (discovery === this) discovery = null
+          }
+        }
+
+        override fun onStopDiscoveryFailed(serviceType: String, errorCode: Int) {}
+
+        override fun onServiceFound(service: NsdServiceInfo) {
+          enqueue(service)
+        }
+
+        override fun onServiceLost(service: NsdServiceInfo) {
+          sendEvent("onServiceLost", mapOf("name" to service.serviceName))
+        }
+      }
+      val manager = nsd ?: return@Function
+      synchronized(this) { discovery = listener }
+      manager.discoverServices("_$type._tcp", NsdManager.PROTOCOL_DNS_SD, listener)
+    }
+
+    Function("stop") {
+      stopDiscovery()
+    }
+
+    OnDestroy {
+      stopDiscovery()
+    }
+  }
+
+  private fun stopDiscovery() {
+    val listener = synchronized(this) {
+      pending.clear()
+      discovery.also { discovery = null }
+    } ?: return
+    try {
+      nsd?.stopServiceDiscovery(listener)
+    } catch (e: IllegalArgumentException) {
+      // Never started, e.g. discovery failed to start
+    }
+  }
+
+  private fun enqueue(service: NsdServiceInfo) {
+    synchronized(this) {
+      pending.add(service)
+      if (resolving) return
+      resolving = true
+    }
+    resolveNext()
+  }
+
+  private fun resolveNext() {
+    val service = synchronized(this) {
+      pending.poll().also { if (it == null) resolving = false }
+    } ?: return
+    val manager = nsd ?: return synchronized(this) { resolving = false }
+    @Suppress("DEPRECATION")
+    manager.resolveService(service, object : NsdManager.ResolveListener {
+      override fun onResolveFailed(serviceInfo: NsdServiceInfo, errorCode: Int) {
+        resolveNext()
+      }
+
+      override fun onServiceResolved(serviceInfo: NsdServiceInfo) {
+        @Suppress("DEPRECATION")
+        val host = serviceInfo.host?.hostAddress
+        if (host != null) {
+          val txt = serviceInfo.attributes.mapValues { (_, value) -> value?.decodeToString() ?: "" }
+          sendEvent(
+            "onServiceFound",
+            mapOf(
+              "name" to serviceInfo.serviceName,
+              "host" to host,
+              "port" to serviceInfo.port,
+              "txt" to txt,
+            ),
+          )
+        }
+        resolveNext()
+      }
+    })
+  }
+}
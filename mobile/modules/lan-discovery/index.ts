@@ -0,0 +1,23 @@
+import { type NativeModule, requireOptionalNativeModule } from 'expo';
+
+/** A resolved DNS-SD service: `host` is an IP address, IPv4 when the service has one */
+export type FoundService = {
+	name: string;
+	host: string;
+	port: number;
+	txt: Record<string, string>;
+};
+
+type LanDiscoveryEvents = {
+	onServiceFound: (service: FoundService) => void;
+	onServiceLost: (event: { name: string }) => void;
+};
+
+declare class LanDiscoveryModule extends NativeModule<LanDiscoveryEvents> {
+	/** Browse for `_<type>._tcp` services until stop(); starting again restarts the browse */
+	start(type: string): void;
+	stop(): void;
+}
+
+/** Missing in Expo Go, which can't load the app's own native code */
+export default requireOptionalNativeModule<LanDiscoveryModule>('LanDiscovery');
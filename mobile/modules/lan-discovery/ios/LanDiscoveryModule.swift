@@ -0,0 +1,118 @@
+import ExpoModulesCore
+import Foundation
+
+// Browses for DNS-SD services and resolves each to an address, port and TXT record. iOS only lets
+// the app browse the types listed under NSBonjourServices in Info.plist (see app.json).
+public class LanDiscoveryModule: Module {
+  private var browser: ServiceBrowser?
+
+  public func definition() -> ModuleDefinition {
+    Name("LanDiscovery")
+
+    Events("onServiceFound", "onServiceLost")
+
+    // NetServiceBrowser reports on the run loop it was started from, so everything runs on main
+    Function("start") { (type: String) in
+      DispatchQueue.main.async {
+        self.browser?.stop()
+        let browser = ServiceBrowser(
+          type: "_\(type)._tcp.",
+          onFound: { [weak self] service in self?.sendEvent("onServiceFound", service) },
+          onLost: { [weak self] name in self?.sendEvent("onServiceLost", ["name": name]) }
+        )
+        self.browser = browser
+        browser.start()
+      }
+    }
+
+    Function("stop") {
+      DispatchQueue.main.async {
+        self.browser?.stop()
+        self.browser = nil
+      }
+    }
+
+    OnDestroy {
+      let browser = self.browser
+      DispatchQueue.main.async { browser?.stop() }
+    }
+  }
+}
+
+private class ServiceBrowser: NSObject, NetServiceBrowserDelegate, NetServiceDelegate {
+  private let browser = NetServiceBrowser()
+  private let type: String
+  private let onFound: ([String: Any]) -> Void
+  private let onLost: (String) -> Void
+  // A service only resolves while something holds on to it
+  private var resolving: [NetService] = []
+
+  init(type: String, onFound: @escaping ([String: Any]) -> Void, onLost: @escaping (String) -> Void) {
+    self.type = type
+    self.onFound = onFound
+    self.onLost = onLost
+  }
+
+  func start() {
+    browser.delegate = self
+    browser.searchForServices(ofType: type, inDomain: "local.")
+  }
+
+  func stop() {
+    browser.stop()
+    resolving.forEach { $0.stop() }
+    resolving.removeAll()
+  }
+
+  func netServiceBrowser(
+    _ browser: NetServiceBrowser, didFind service: NetService, moreComing: Bool
+  ) {
+    service.delegate = self
+    resolving.append(service)
+    service.resolve(withTimeout: 5)
+  }
+
+  func netServiceBrowser(
+    _ browser: NetServiceBrowser, didRemove service: NetService, moreComing: Bool
+  ) {
+    onLost(service.name)
+  }
+
+  func netServiceDidResolveAddress(_ sender: NetService) {
+    guard let host = preferredAddress(sender.addresses ?? []) else { return }
+    var txt: [String: String] = [:]
+    if let record = sender.txtRecordData() {
+      for (key, value) in NetService.dictionary(fromTXTRecord: record) {
+        txt[key] = String(data: value, encoding: .utf8) ?? ""
+      }
+    }
+    onFound(["name": sender.name, "host": host, "port": sender.port, "txt": txt])
+    finish(sender)
+  }
+
+  func netService(_ sender: NetService, didNotResolve errorDict: [String: NSNumber]) {
+    finish(sender)
+  }
+
+  private func finish(_ service: NetService) {
+    service.stop()
+    resolving.removeAll { $0 === service }
+  }
+}
+
+// The first IPv4 address as text, else the first IPv6 one
+private func preferredAddress(_ addresses: [Data]) -> String? {
+  let hosts = addresses.compactMap { data -> (host: String, ipv4: Bool)? in
+    data.withUnsafeBytes { raw -> (host: String, ipv4: Bool)? in
+      guard let address = raw.baseAddress?.assumingMemoryBound(to: sockaddr.self) else {
+        return nil
+      }
+      var buffer = [CChar](repeating: 0, count: Int(NI_MAXHOST))
+      let status = getnameinfo(
+        address, socklen_t(data.count), &buffer, socklen_t(buffer.count), nil, 0, NI_NUMERICHOST)
+      guard status == 0 else { return nil }
+      return (String(cString: buffer), Int32(address.pointee.sa_family) == AF_INET)
+    }
+  }
+  return (hosts.first { $0.ipv4 } ?? hosts.first)?.host
+}
@@ -0,0 +1,157 @@
+package expo.modules.pinnedfetch
+
+import android.net.Uri
+import expo.modules.kotlin.Promise
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+import expo.modules.kotlin.records.Field
+import expo.modules.kotlin.records.Record
+import okhttp3.Call
+import okhttp3.Callback
+import okhttp3.MediaType.Companion.toMediaTypeOrNull
+import okhttp3.MultipartBody
+import okhttp3.OkHttpClient
+import okhttp3.Request
+import okhttp3.RequestBody
+import okhttp3.RequestBody.Companion.asRequestBody
+import okhttp3.RequestBody.Companion.toRequestBody
+import okhttp3.Response
+import java.io.File
+import java.io.IOException
+import java.security.MessageDigest
+import java.security.cert.CertificateException
+import java.security.cert.X509Certificate
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.TimeUnit
+import javax.net.ssl.SSLContext
+import javax.net.ssl.X509TrustManager
+
+class UploadFile : Record {
+  @Field val uri: String = ""
+  @Field val field: String = ""
+  @Field val name: String = ""
+  @Field val type: String = ""
+}
+
+class PinnedRequest : Record {
+  @Field val url: String = ""
+  @Field val method: String = "GET"
+  @Field val headers: Map<String, String> = emptyMap()
+  @Field val body: String? = null
+  @Field val file: UploadFile? = null
+  @Field val fingerprint: String = ""
+  @Field val streamId: String? = null
+}
+
+// Requests that trust exactly one certificate — the server's self-signed one, by its SHA-256 —
+// rather than the system's CAs
+class PinnedFetchModule : Module() {
+  override fun definition() = ModuleDefinition {
+    Name("PinnedFetch")
+
+    Events("onChunk")
+
+    AsyncFunction("request") { request: PinnedRequest, promise: Promise ->
+      val streamId = request.streamId
+      val call = client(request.fingerprint.lowercase(), streamId != null).newCall(buildRequest(request))
+      call.enqueue(object : Callback {
+        override fun onFailure(call: Call, e: IOException) {
+          promise.reject("ERR_PINNED_FETCH", e.message ?: "Request failed", e)
+        }
+
+        override fun onResponse(call: Call, response: Response) {
+          try {
+            response.use {
+              val body =
+                if (streamId != null && response.isSuccessful) readLines(streamId, response)
+                else response.body?.string() ?: ""
+              promise.resolve(
+                mapOf(
+                  "status" to response.code,
+                  "headers" to response.headers.names().associateWith { response.header(it) },
+                  "body" to body,
+                )
+              )
+            }
+          } catch (e: IOException) {
+            promise.reject("ERR_PINNED_FETCH", e.message ?: "Request failed", e)
+          }
+        }
+      })
+    }
+  }
+
+  private fun readLines(streamId: String, response: Response): String {
+    val source = response.body?.source() ?: return ""
+    val all = StringBuilder()
+    while (true) {
+      val line = source.readUtf8Line() ?: break
+      all.append(line).append('\n')
+      sendEvent("onChunk", mapOf("streamId" to streamId, "text" to "$line\n"))
+    }
+    return all.toString()
+  }
+
+  private fun buildRequest(request: PinnedRequest): Request {
+    val contentType = request.headers.entries
+      .firstOrNull { it.key.equals("Content-Type", ignoreCase = true) }
+      ?.value
+      ?.toMediaTypeOrNull()
+    val file = request.file
+    val body: RequestBody? = when {
+      file != null -> {
+        val path = Uri.parse(file.uri).path ?: throw IllegalArgumentException("Invalid file: ${file.uri}")
+        MultipartBody.Builder()
+          .setType(MultipartBody.FORM)
+          .addFormDataPart(file.field, file.name, File(path).asRequestBody(file.type.toMediaTypeOrNull()))
+          .build()
+      }
+      request.body != null -> request.body.toRequestBody(contentType)
+      // OkHttp refuses these without a body, even an empty one
+      request.method in listOf("POST", "PUT", "PATCH") -> ByteArray(0).toRequestBody()
+      else -> null
+    }
+    val builder = Request.Builder().url(request.url).method(request.method, body)
+    for ((name, value) in request.headers) builder.header(name, value)
+    return builder.build()
+  }
+
+  // One client per pinned certificate, so requests to a server share its connections
+  private val clients = ConcurrentHashMap<String, OkHttpClient>()
+
+  private fun client(fingerprint: String, streaming: Boolean): OkHttpClient {
+    val client = clients.computeIfAbsent(fingerprint, ::pinnedClient)
+    // A followed run can go quiet for a long time, e.g. while a permission prompt waits. The
+    // derived client still shares the cached one's connection pool
+    return if (streaming) client.newBuilder().readTimeout(0, TimeUnit.SECONDS).build() else client
+  }
+
+  private fun pinnedClient(fingerprint: String): OkHttpClient {
+    val trustManager = FingerprintTrustManager(fingerprint)
+    val sslContext = SSLContext.getInstance("TLS").apply { init(null, arrayOf(trustManager), null) }
+    return OkHttpClient.Builder()
+      .sslSocketFactory(sslContext.socketFactory, trustManager)
+      // The pin identifies the server, whichever address it was reached at
+      .hostnameVerifier { _, _ -> true }
+      .readTimeout(60, TimeUnit.SECONDS)
+      .build()
+  }
+}
+
+private class FingerprintTrustManager(private val fingerprint: String) : X509TrustManager {
+  override fun checkServerTrusted(chain: Array<X509Certificate>, authType: String) {
+    val leaf = chain.firstOrNull() ?: throw CertificateException("The server sent no certificate")
+    val digest = MessageDigest.getInstance("SHA-256")
+      .digest(leaf.encoded)
+      .joinToString("") { "%02x".format(it) }
+    if (digest != fingerprint) {
+      throw CertificateException("The server's certificate doesn't match the one it was paired with")
+    }
+  }
+
+  override fun checkClientTrusted(chain: Array<X509Certificate>, authType: String) {
+    throw CertificateException("Client certificates are not used")
+  }
+
+  override fun getAcceptedIssuers(): Array<X509Certificate> = emptyArray()
+}
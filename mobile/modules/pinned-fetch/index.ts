@@ -0,0 +1,29 @@
+import { type NativeModule, requireOptionalNativeModule } from 'expo';
+
+/** A file sent as the request's only multipart/form-data field */
+export type UploadFile = { uri: string; field: string; name: string; type: string };
+
+export type PinnedRequest = {
+	url: string;
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string;
+	file?: UploadFile;
+	/** Lowercase hex SHA-256 of the one certificate the server may present */
+	fingerprint: string;
+	/** Also emit a successful response's body line by line, as `onChunk` events with this id */
+	streamId?: string;
+};
+
+export type PinnedResponse = { status: number; headers: Record<string, string>; body: string };
+
+type PinnedFetchEvents = {
+	onChunk: (event: { streamId: string; text: string }) => void;
+};
+
+declare class PinnedFetchModule extends NativeModule<PinnedFetchEvents> {
+	request(request: PinnedRequest): Promise<PinnedResponse>;
+}
+
+/** Missing in Expo Go, which can't load the app's own native code */
+export default requireOptionalNativeModule<PinnedFetchModule>('PinnedFetch');
@@ -0,0 +1,245 @@
+import CryptoKit
+import ExpoModulesCore
+
+struct UploadFile: Record {
+  @Field var uri: String = ""
+  @Field var field: String = ""
+  @Field var name: String = ""
+  @Field var type: String = ""
+}
+
+struct PinnedRequest: Record {
+  @Field var url: String = ""
+  @Field var method: String = "GET"
+  @Field var headers: [String: String] = [:]
+  @Field var body: String?
+  @Field var file: UploadFile?
+  @Field var fingerprint: String = ""
+  @Field var streamId: String?
+}
+
+// Requests that trust exactly one certificate — the server's self-signed one, by its SHA-256 —
+// rather than the system's CAs
+public class PinnedFetchModule: Module {
+  // One session per pinned certificate, so requests to a server share its connections
+  private var sessions: [String: PinnedSession] = [:]
+  private let sessionsLock = NSLock()
+
+  public func definition() -> ModuleDefinition {
+    Name("PinnedFetch")
+
+    Events("onChunk")
+
+    AsyncFunction("request") { (request: PinnedRequest, promise: Promise) in
+      guard let url = URL(string: request.url) else {
+        promise.reject("ERR_PINNED_FETCH", "Invalid URL: \(request.url)")
+        return
+      }
+      var urlRequest = URLRequest(url: url)
+      urlRequest.httpMethod = request.method
+      // A followed run can go quiet for a long time, e.g. while a permission prompt waits
+      urlRequest.timeoutInterval = request.streamId == nil ? 60 : 24 * 60 * 60
+      for (name, value) in request.headers {
+        urlRequest.setValue(value, forHTTPHeaderField: name)
+      }
+      if let file = request.file {
+        let boundary = "claudet-\(UUID().uuidString)"
+        do {
+          urlRequest.httpBody = try multipartBody(file, boundary: boundary)
+        } catch {
+          promise.reject("ERR_PINNED_FETCH", "Could not read \(file.uri)")
+          return
+        }
+        urlRequest.setValue(
+          "multipart/form-data; boundary=\(boundary)", forHTTPHeaderField: "Content-Type")
+      } else if let body = request.body {
+        urlRequest.httpBody = Data(body.utf8)
+      }
+
+      let streamId = request.streamId
+      let task = PinnedTask(
+        onChunk: streamId.map { id in
+          { [weak self] text in self?.sendEvent("onChunk", ["streamId": id, "text": text]) }
+        },
+        completion: { result in
+          switch result {
+          case .success(let response):
+            promise.resolve(response)
+          case .failure(let error):
+            promise.reject("ERR_PINNED_FETCH", error.localizedDescription)
+          }
+        }
+      )
+      self.session(for: request.fingerprint.lowercased()).start(urlRequest, task)
+    }
+
+    OnDestroy {
+      self.sessionsLock.lock()
+      defer { self.sessionsLock.unlock() }
+      self.sessions.values.forEach { $0.invalidate() }
+      self.sessions.removeAll()
+    }
+  }
+
+  private func session(for fingerprint: String) -> PinnedSession {
+    sessionsLock.lock()
+    defer { sessionsLock.unlock() }
+    if let session = sessions[fingerprint] {
+      return session
+    }
+    let session = PinnedSession(fingerprint: fingerprint)
+    sessions[fingerprint] = session
+    return session
+  }
+}
+
+private func multipartBody(_ file: UploadFile, boundary: String) throws -> Data {
+  guard let url = URL(string: file.uri) else {
+    throw URLError(.badURL)
+  }
+  var body = Data()
+  body.append(Data("--\(boundary)\r\n".utf8))
+  body.append(
+    Data(
+      "Content-Disposition: form-data; name=\"\(file.field)\"; filename=\"\(file.name)\"\r\n".utf8))
+  body.append(Data("Content-Type: \(file.type)\r\n\r\n".utf8))
+  body.append(try Data(contentsOf: url))
+  body.append(Data("\r\n--\(boundary)--\r\n".utf8))
+  return body
+}
+
+private struct PinMismatchError: LocalizedError {
+  var errorDescription: String? {
+    "The server's certificate doesn't match the one it was paired with"
+  }
+}
+
+// A URLSession that trusts one certificate, shared by every request to that server. Its delegate
+// calls arrive one at a time on its own serial queue, which is also the only place `tasks` changes
+private final class PinnedSession: NSObject, URLSessionDataDelegate {
+  private let fingerprint: String
+  private let queue: OperationQueue = {
+    let queue = OperationQueue()
+    queue.maxConcurrentOperationCount = 1
+    return queue
+  }()
+  private var session: URLSession!
+  private var tasks: [Int: PinnedTask] = [:]
+
+  init(fingerprint: String) {
+    self.fingerprint = fingerprint
+    super.init()
+    session = URLSession(configuration: .ephemeral, delegate: self, delegateQueue: queue)
+  }
+
+  func start(_ request: URLRequest, _ task: PinnedTask) {
+    let dataTask = session.dataTask(with: request)
+    // Registered before it starts, so every delegate call finds it
+    queue.addOperation {
+      self.tasks[dataTask.taskIdentifier] = task
+      dataTask.resume()
+    }
+  }
+
+  // The session holds on to its delegate until then
+  func invalidate() {
+    session.invalidateAndCancel()
+  }
+
+  // Task-level, unlike the session-level challenge, so a mismatch is reported on the request
+  func urlSession(
+    _ session: URLSession,
+    task: URLSessionTask,
+    didReceive challenge: URLAuthenticationChallenge,
+    completionHandler: @escaping (URLSession.AuthChallengeDisposition, URLCredential?) -> Void
+  ) {
+    guard challenge.protectionSpace.authenticationMethod == NSURLAuthenticationMethodServerTrust,
+      let trust = challenge.protectionSpace.serverTrust
+    else {
+      completionHandler(.performDefaultHandling, nil)
+      return
+    }
+    let leaf = (SecTrustCopyCertificateChain(trust) as? [SecCertificate])?.first
+    let digest = leaf.map { certificate in
+      SHA256.hash(data: SecCertificateCopyData(certificate) as Data)
+        .map { String(format: "%02x", $0) }
+        .joined()
+    }
+    if digest == fingerprint {
+      completionHandler(.useCredential, URLCredential(trust: trust))
+    } else {
+      tasks[task.taskIdentifier]?.pinMismatch = true
+      completionHandler(.cancelAuthenticationChallenge, nil)
+    }
+  }
+
+  func urlSession(
+    _ session: URLSession,
+    dataTask: URLSessionDataTask,
+    didReceive response: URLResponse,
+    completionHandler: @escaping (URLSession.ResponseDisposition) -> Void
+  ) {
+    tasks[dataTask.taskIdentifier]?.response = response as? HTTPURLResponse
+    completionHandler(.allow)
+  }
+
+  func urlSession(_ session: URLSession, dataTask: URLSessionDataTask, didReceive data: Data) {
+    tasks[dataTask.taskIdentifier]?.receive(data)
+  }
+
+  func urlSession(_ session: URLSession, task: URLSessionTask, didCompleteWithError error: Error?) {
+    tasks.removeValue(forKey: task.taskIdentifier)?.finish(error)
+  }
+}
+
+// One request's response as it arrives
+private final class PinnedTask {
+  private let onChunk: ((String) -> Void)?
+  private let completion: (Result<[String: Any], Error>) -> Void
+  var response: HTTPURLResponse?
+  var pinMismatch = false
+  private var data = Data()
+  // Bytes of `data` already sent as chunks; only whole lines are sent
+  private var emitted = 0
+
+  init(
+    onChunk: ((String) -> Void)?,
+    completion: @escaping (Result<[String: Any], Error>) -> Void
+  ) {
+    self.onChunk = onChunk
+    self.completion = completion
+  }
+
+  func receive(_ data: Data) {
+    self.data.append(data)
+    guard succeeded, let onChunk,
+      let newline = self.data[emitted...].lastIndex(of: UInt8(ascii: "\n"))
+    else { return }
+    onChunk(String(decoding: self.data[emitted...newline], as: UTF8.self))
+    emitted = newline + 1
+  }
+
+  func finish(_ error: Error?) {
+    if let error {
+      completion(.failure(pinMismatch ? PinMismatchError() : error))
+      return
+    }
+    if succeeded, let onChunk, emitted < data.count {
+      onChunk(String(decoding: data[emitted...], as: UTF8.self))
+    }
+    var headers: [String: String] = [:]
+    for (name, value) in response?.allHeaderFields ?? [:] {
+      headers["\(name)"] = "\(value)"
+    }
+    completion(
+      .success([
+        "status": response?.statusCode ?? 0,
+        "headers": headers,
+        "body": String(decoding: data, as: UTF8.self),
+      ]))
+  }
+
+  private var succeeded: Bool {
+    (200..<300).contains(response?.statusCode ?? 0)
+  }
+}
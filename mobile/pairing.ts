@@ -0,0 +1,36 @@
+/**
+ * What the server's pairing QR code holds: where to reach it, the one-time code, and over TLS the
+ * SHA-256 fingerprint of its self-signed certificate
+ */
+export type PairingLink = { serverUrl: string; code: string; fingerprint?: string };
+
+/**
+ * Reads `claudet://pair?url=…&code=…[&fp=…]`; null for anything else the camera picks up. Parsed
+ * by hand, since React Native's URL has no working searchParams.
+ */
+export function parsePairingLink(text: string): PairingLink | null {
+	const match = text.trim().match(/^claudet:\/\/pair\?(.*)$/);
+	if (!match) return null;
+	const params = new Map(
+		(match[1] ?? '').split('&').map((pair) => {
+			const [key = '', value = ''] = pair.split('=');
+			return [key, decodeURIComponent(value)] as const;
+		}),
+	);
+	const serverUrl = params.get('url');
+	const code = params.get('code');
+	if (!serverUrl || !/^https?:\/\//.test(serverUrl) || !code) return null;
+	const fp = params.get('fp');
+	const fingerprint = fp === undefined ? undefined : normalizeFingerprint(fp);
+	if (fingerprint === null) return null;
+	return { serverUrl: serverUrl.replace(/\/+$/, ''), code, fingerprint };
+}
+
+/**
+ * A SHA-256 fingerprint as lowercase hex, accepting the server's `AB:12:…` display form; null if
+ * it isn't one
+ */
+export function normalizeFingerprint(text: string): string | null {
+	const hex = text.replace(/[\s:]/g, '').toLowerCase();
+	return /^[0-9a-f]{64}$/.test(hex) ? hex : null;
+}
@@ -0,0 +1,19 @@
+import type { PermissionMode } from './types';
+
+/** Picker rows for a session's or project profile's permission mode, in display order */
+export const PERMISSION_MODE_OPTIONS: { mode: PermissionMode; title: string; subtitle: string }[] = [
+	{ mode: 'default', title: 'Default', subtitle: 'CLI defaults; tools needing approval fail' },
+	{ mode: 'acceptEdits', title: 'Accept Edits', subtitle: 'File edits are auto-accepted' },
+	{ mode: 'plan', title: 'Plan', subtitle: 'Read-only: Claude plans without changing anything' },
+	{ mode: 'allowEdits', title: 'Allow Edits', subtitle: 'Bash, edits and reads; anything else fails' },
+	{
+		mode: 'askApproval',
+		title: 'Ask for Approval',
+		subtitle: 'Reads run freely; approve everything else here',
+	},
+	{
+		mode: 'dangerouslySkipPermissions',
+		title: 'Bypass Permissions',
+		subtitle: '--dangerously-skip-permissions',
+	},
+];
@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useCallback } from 'react';
 import {
   Platform,
   PanResponder,
@@ -7,22 +7,35 @@ import {
 } from 'react-native';
 import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { fetchImportableSessions, searchSessions, transcribeAudio } from '../api';
 import { useAppContext } from '../AppContext';
 import { ChatArea } from '../components/ChatArea';
+import { EditMessageModal } from '../components/EditMessageModal';
 import { EmptyProjectView } from '../components/EmptyProjectView';
 import { Header } from '../components/Header';
+import { ImportSessionsModal } from '../components/ImportSessionsModal';
 import { InputBar } from '../components/InputBar';
+import { QueuedMessageModal } from '../components/QueuedMessageModal';
+import { SearchModal } from '../components/SearchModal';
+import { ServerSwitcherModal } from '../components/ServerSwitcherModal';
 import { SessionActionModal } from '../components/SessionActionModal';
 import { SideDrawer } from '../components/SideDrawer';
-import type { Session } from '../types';
+import type { Run, Session } from '../types';
 
 export function SessionsScreen() {
   const isDark = useColorScheme() === 'dark';
   const insets = useSafeAreaInsets();
   const [actionSession, setActionSession] = useState<Session | null>(null);
   const [drawerOpen, setDrawerOpen] = useState(false);
+  const [editingQueued, setEditingQueued] = useState<Run | null>(null);
+  const [editingPrompt, setEditingPrompt] = useState<{ index: number; content: string } | null>(null);
   // Holds the session to rename until the drawer modal fully unmounts before opening SessionActionModal
   const pendingRenameRef = useRef<Session | null>(null);
+  // Same for the import sheet
+  const pendingImportRef = useRef(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [serverSwitcherOpen, setServerSwitcherOpen] = useState(false);
 
   const {
     sessions,
@@ -30,8 +43,13 @@ export function SessionsScreen() {
     messagesBySession,
     input,
     loading,
+    activity,
+    queuedRuns,
+    pendingPermissions,
+    branches,
     error,
     loadingMessages,
+    focusedMessageIndex,
     showScrollButton,
     baseDir,
     projects,
@@ -42,10 +60,25 @@ export function SessionsScreen() {
     setShowScrollButton,
     handleSelectProject,
     handleNewSession,
+    handleForkSession,
+    handleImportSessions,
+    handleOpenSearchHit,
     handleRenameSession,
     handleDeleteSession,
+    handleExportSession,
     dismissError,
     send,
+    cancel,
+    handleRetry,
+    handleEditMessage,
+    handleRegenerate,
+    handleSelectBranch,
+    handleEditQueued,
+    handleDropQueued,
+    handleRespondToPermission,
+    server,
+    servers,
+    handleSwitchServer,
     onScroll,
   } = useAppContext();
 
@@ -53,6 +86,11 @@ export function SessionsScreen() {
     ? (messagesBySession.get(currentSessionId) ?? [])
     : [];
 
+  const loadImportable = useCallback(
+    () => (currentProjectId ? fetchImportableSessions(currentProjectId) : Promise.resolve([])),
+    [currentProjectId],
+  );
+
   const currentSession = sessions.find((s) => s.id === currentSessionId) ?? null;
   const isDangerousMode = currentSession?.permissionMode === 'dangerouslySkipPermissions';
 
@@ -80,7 +118,11 @@ export function SessionsScreen() {
         greeting={greeting}
         onOpenSettings={() => setDrawerOpen(true)}
         onNewSession={handleNewSession}
+        onSearch={() => setSearchOpen(true)}
         dangerousMode={isDangerousMode}
+        sessionCostUsd={currentSession?.usage?.costUsd}
+        server={server}
+        onSwitchServer={servers.length > 1 ? () => setServerSwitcherOpen(true) : undefined}
       />
 
       {currentProjectId ? (
@@ -88,6 +130,21 @@ export function SessionsScreen() {
           <ChatArea
             messages={currentMessages}
             loading={loading}
+            activity={activity}
+            queued={queuedRuns}
+            onPressQueued={setEditingQueued}
+            onForkFromMessage={(index) => void handleForkSession(index)}
+            onRetry={handleRetry}
+            onEditMessage={(index) => {
+              const message = currentMessages[index];
+              if (message) setEditingPrompt({ index, content: message.content });
+            }}
+            onRegenerate={(index) => void handleRegenerate(index)}
+            branches={branches}
+            onSelectBranch={handleSelectBranch}
+            highlightIndex={focusedMessageIndex}
+            permissions={pendingPermissions}
+            onRespondToPermission={handleRespondToPermission}
             loadingMessages={loadingMessages}
             error={error}
             onDismissError={dismissError}
@@ -105,8 +162,11 @@ export function SessionsScreen() {
             input={input}
             onChangeInput={setInput}
             onSend={send}
-            editable={!!currentSessionId && !loading}
-            canSend={!!currentSessionId && !loading && !!input.trim()}
+            onStop={cancel}
+            loading={loading}
+            editable={!!currentSessionId}
+            canSend={!!currentSessionId && !!input.trim()}
+            transcribe={transcribeAudio}
             bottomInset={insets.bottom}
           />
         </>
@@ -140,6 +200,10 @@ export function SessionsScreen() {
             setActionSession(pendingRenameRef.current);
             pendingRenameRef.current = null;
           }
+          if (pendingImportRef.current) {
+            setImportOpen(true);
+            pendingImportRef.current = false;
+          }
         }}
         projects={projects}
         sessions={sessions}
@@ -149,6 +213,44 @@ export function SessionsScreen() {
         onSelectSession={setCurrentSessionId}
         onEditSession={(s) => { pendingRenameRef.current = s; }}
         onNewSession={handleNewSession}
+        onImportSessions={() => { pendingImportRef.current = true; }}
+      />
+
+      <ImportSessionsModal
+        visible={importOpen}
+        onClose={() => setImportOpen(false)}
+        onLoad={loadImportable}
+        onImport={handleImportSessions}
+      />
+
+      <SearchModal
+        visible={searchOpen}
+        onClose={() => setSearchOpen(false)}
+        projectPath={currentProjectId}
+        projects={projects}
+        onSearch={searchSessions}
+        onSelect={handleOpenSearchHit}
+      />
+
+      <ServerSwitcherModal
+        visible={serverSwitcherOpen}
+        servers={servers}
+        activeServerId={server.id}
+        onSelect={handleSwitchServer}
+        onClose={() => setServerSwitcherOpen(false)}
+      />
+
+      <QueuedMessageModal
+        run={editingQueued}
+        onClose={() => setEditingQueued(null)}
+        onSave={handleEditQueued}
+        onDrop={handleDropQueued}
+      />
+
+      <EditMessageModal
+        prompt={editingPrompt}
+        onClose={() => setEditingPrompt(null)}
+        onResend={handleEditMessage}
       />
 
       <SessionActionModal
@@ -156,6 +258,7 @@ export function SessionsScreen() {
         onClose={() => setActionSession(null)}
         onRename={handleRenameSession}
         onDelete={handleDeleteSession}
+        onExport={handleExportSession}
       />
     </KeyboardAvoidingView>
   );
@@ -1,5 +1,6 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import * as Haptics from 'expo-haptics';
+import { useIsFocused } from '@react-navigation/native';
 import {
   View,
   Text,
@@ -7,11 +8,26 @@ import {
   ScrollView,
   Pressable,
   TextInput,
-  Switch,
   useColorScheme,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAppContext } from '../AppContext';
+import {
+  fetchDevices,
+  fetchTranscriptionStatus,
+  fetchUsage,
+  saveTranscriptionSettings,
+  setDeviceRole,
+} from '../api';
+import { formatCost, formatTokens } from '../format';
+import { ToolRulesEditor } from '../components/ToolRulesEditor';
+import { ProjectProfileModal } from '../components/ProjectProfileModal';
+import { PairingModal } from '../components/PairingModal';
+import { ServerProfileModal } from '../components/ServerProfileModal';
+import { PERMISSION_MODE_OPTIONS } from '../permissionModes';
+import { newServerProfile, type ServerProfile } from '../servers';
+import { browseServers, canDiscoverServers, type DiscoveredServer } from '../discovery';
+import type { Device, Project, TranscriptionSettings, TranscriptionStatus, UsageSummary } from '../types';
 
 function BaseDirInput({
   onSave,
@@ -81,6 +97,404 @@ function SectionHeader({ label }: { label: string }) {
   );
 }
 
+const USAGE_RANGES = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'All time', days: null },
+] as const;
+
+function UsageSection({ projects, isDark }: { projects: Project[]; isDark: boolean }) {
+  const isFocused = useIsFocused();
+  const [rangeIndex, setRangeIndex] = useState(0);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [usageError, setUsageError] = useState<string | null>(null);
+
+  const days = USAGE_RANGES[rangeIndex]?.days ?? null;
+
+  // Refetch whenever the tab comes back into view — runs keep adding spend in the background
+  useEffect(() => {
+    if (!isFocused) return;
+    let stale = false;
+    const from = days === null ? undefined : new Date(Date.now() - days * 86_400_000).toISOString();
+    fetchUsage('project', { from })
+      .then((summary) => {
+        if (stale) return;
+        setUsage(summary);
+        setUsageError(null);
+      })
+      .catch((e: unknown) => {
+        if (!stale) setUsageError(e instanceof Error ? e.message : 'Failed to load usage');
+      });
+    return () => {
+      stale = true;
+    };
+  }, [isFocused, days]);
+
+  const projectName = (path: string) =>
+    projects.find((p) => p.path === path)?.name ?? path.split('/').filter(Boolean).pop() ?? path;
+
+  const mutedClass = `text-[12px] ${isDark ? 'text-zinc-400' : 'text-gray-500'}`;
+  const titleClass = `text-[15px] font-medium ${isDark ? 'text-white' : 'text-black'}`;
+  const rowClass = `px-4 py-3 flex-row items-center justify-between border-t ${isDark ? 'border-zinc-800' : 'border-gray-100'}`;
+
+  return (
+    <View className={`mx-4 rounded-xl border overflow-hidden ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-gray-200'}`}>
+      <View className="flex-row gap-2 px-4 pt-3">
+        {USAGE_RANGES.map((range, i) => (
+          <Pressable
+            key={range.label}
+            onPress={() => setRangeIndex(i)}
+            className={`rounded-full px-3 py-1 ${
+              i === rangeIndex ? 'bg-[#007AFF]' : isDark ? 'bg-zinc-800' : 'bg-gray-100'
+            }`}
+          >
+            <Text className={`text-[12px] font-semibold ${i === rangeIndex ? 'text-white' : isDark ? 'text-zinc-300' : 'text-gray-600'}`}>
+              {range.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {usageError ? (
+        <Text className="text-red-500 text-[12px] px-4 py-3">{usageError}</Text>
+      ) : !usage ? (
+        <Text className={`px-4 py-3 ${mutedClass}`}>Loading…</Text>
+      ) : (
+        <>
+          <View className="px-4 py-3">
+            <Text className={`text-[28px] font-bold ${isDark ? 'text-white' : 'text-black'}`}>
+              {formatCost(usage.totals.costUsd)}
+            </Text>
+            <Text className={mutedClass}>
+              {usage.totals.turns} turns · {formatTokens(usage.totals.inputTokens)} in ·{' '}
+              {formatTokens(usage.totals.outputTokens)} out ·{' '}
+              {formatTokens(usage.totals.cacheReadTokens + usage.totals.cacheCreationTokens)} cache
+            </Text>
+          </View>
+          {usage.groups.map((group) => (
+            <View key={group.key} className={rowClass}>
+              <View className="flex-1 mr-3">
+                <Text className={titleClass} numberOfLines={1}>{projectName(group.key)}</Text>
+                <Text className={mutedClass}>
+                  {group.turns} turns · {formatTokens(group.inputTokens + group.outputTokens)} tokens
+                </Text>
+              </View>
+              <Text className={titleClass}>{formatCost(group.costUsd)}</Text>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+// Phones paired with the server; revoking one signs it out at once
+function DevicesSection({ isDark }: { isDark: boolean }) {
+  const isFocused = useIsFocused();
+  const { connected, handleRevokeDevice } = useAppContext();
+  const [devices, setDevices] = useState<Device[] | null>(null);
+  const [devicesError, setDevicesError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isFocused || !connected) return;
+    let stale = false;
+    fetchDevices()
+      .then((next) => {
+        if (stale) return;
+        setDevices(next);
+        setDevicesError(null);
+      })
+      .catch((e: unknown) => {
+        if (!stale) setDevicesError(e instanceof Error ? e.message : 'Failed to load devices');
+      });
+    return () => {
+      stale = true;
+    };
+  }, [isFocused, connected]);
+
+  const confirmRevoke = (device: Device) => {
+    Alert.alert(
+      'Revoke Device',
+      device.current
+        ? 'This phone will be signed out and has to scan the pairing QR code again.'
+        : `"${device.name}" will be signed out and has to pair again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: () => {
+            handleRevokeDevice(device)
+              .then(() => setDevices((prev) => prev?.filter((d) => d.id !== device.id) ?? null))
+              .catch((e: unknown) =>
+                setDevicesError(e instanceof Error ? e.message : 'Failed to revoke'),
+              );
+          },
+        },
+      ],
+    );
+  };
+
+  const toggleRole = (device: Device) => {
+    const role = device.role === 'viewer' ? 'full' : 'viewer';
+    setDeviceRole(device.id, role)
+      .then(() => {
+        setDevices((prev) => prev?.map((d) => (d.id === device.id ? { ...d, role } : d)) ?? null);
+        setDevicesError(null);
+      })
+      .catch((e: unknown) => setDevicesError(e instanceof Error ? e.message : 'Failed to change role'));
+  };
+
+  // A viewer can't change roles or revoke, so it only gets the list
+  const canManage = devices?.find((d) => d.current)?.role !== 'viewer';
+
+  const mutedClass = `text-[12px] ${isDark ? 'text-zinc-400' : 'text-gray-500'}`;
+  const titleClass = `text-[15px] font-medium ${isDark ? 'text-white' : 'text-black'}`;
+  const rowClass = `px-4 py-3 flex-row items-center justify-between border-t ${isDark ? 'border-zinc-800' : 'border-gray-100'}`;
+
+  return (
+    <View className={`mx-4 rounded-xl border overflow-hidden ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-gray-200'}`}>
+      {devicesError ? (
+        <Text className="text-red-500 text-[12px] px-4 py-3">{devicesError}</Text>
+      ) : null}
+      {!devices ? (
+        <Text className={`px-4 py-3 ${mutedClass}`}>Loading…</Text>
+      ) : devices.length === 0 ? (
+        <Text className={`px-4 py-3 ${mutedClass}`}>No paired devices — authentication is off</Text>
+      ) : (
+        devices.map((device, i) => (
+          <View key={device.id} className={`${rowClass} ${i === 0 ? 'border-t-0' : ''}`}>
+            <View className="flex-1 mr-3">
+              <Text className={titleClass} numberOfLines={1}>
+                {device.name}
+                {device.current ? ' (this phone)' : ''}
+              </Text>
+              <Text className={mutedClass}>
+                {device.role === 'viewer' ? 'View only · ' : ''}
+                Paired {new Date(device.createdAt).toLocaleDateString()}
+                {device.lastSeenAt ? ` · last seen ${new Date(device.lastSeenAt).toLocaleString()}` : ''}
+              </Text>
+            </View>
+            {canManage ? (
+              <View className="flex-row items-center gap-4">
+                {device.current ? null : (
+                  <Pressable onPress={() => toggleRole(device)} hitSlop={12}>
+                    <Text className="text-[#007AFF] text-[14px]">
+                      {device.role === 'viewer' ? 'Allow All' : 'View Only'}
+                    </Text>
+                  </Pressable>
+                )}
+                <Pressable onPress={() => confirmRevoke(device)} hitSlop={12}>
+                  <Text className="text-red-500 text-[14px]">Revoke</Text>
+                </Pressable>
+              </View>
+            ) : null}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+// Servers advertising themselves on this network, browsed while Settings is open
+function NearbyServersSection({
+  isDark,
+  onPair,
+}: {
+  isDark: boolean;
+  /** Opens pairing with the URL filled in */
+  onPair: (url: string) => void;
+}) {
+  const isFocused = useIsFocused();
+  const { servers, handleSwitchServer, handleSaveServer } = useAppContext();
+  const [found, setFound] = useState<DiscoveredServer[]>([]);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isFocused) return;
+    return browseServers(setFound);
+  }, [isFocused]);
+
+  // A saved server is switched to; a new one is paired with, or saved straight away without auth
+  const select = (nearby: DiscoveredServer) => {
+    const saved = servers.find((p) => p.url === nearby.url);
+    if (saved) {
+      handleSwitchServer(saved.id);
+      return;
+    }
+    if (nearby.auth) {
+      onPair(nearby.url);
+      return;
+    }
+    const profile = { ...newServerProfile(nearby.url, servers), name: nearby.name };
+    handleSaveServer(profile)
+      .then(() => handleSwitchServer(profile.id))
+      .catch((e: unknown) => setAddError(e instanceof Error ? e.message : 'Failed to add server'));
+  };
+
+  const mutedClass = `text-[12px] ${isDark ? 'text-zinc-400' : 'text-gray-500'}`;
+  const titleClass = `text-[15px] font-medium ${isDark ? 'text-white' : 'text-black'}`;
+  const rowClass = `px-4 py-3 flex-row items-center justify-between border-t ${isDark ? 'border-zinc-800' : 'border-gray-100'}`;
+
+  return (
+    <View className={`mx-4 rounded-xl border overflow-hidden ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-gray-200'}`}>
+      {addError ? <Text className="text-red-500 text-[12px] px-4 py-3">{addError}</Text> : null}
+      {found.length === 0 ? (
+        <Text className={`px-4 py-3 ${mutedClass}`}>
+          {canDiscoverServers
+            ? 'Looking for servers on this network…'
+            : 'Finding servers needs a development build of the app'}
+        </Text>
+      ) : (
+        found.map((nearby, i) => {
+          const saved = servers.some((p) => p.url === nearby.url);
+          return (
+            <Pressable
+              key={nearby.name}
+              onPress={() => {
+                void Haptics.selectionAsync();
+                select(nearby);
+              }}
+              className={`${rowClass} ${i === 0 ? 'border-t-0' : ''}`}
+            >
+              <View className="flex-1 mr-3">
+                <Text className={titleClass} numberOfLines={1}>{nearby.name}</Text>
+                <Text className={mutedClass} numberOfLines={1}>
+                  {nearby.url}
+                  {nearby.version ? ` · v${nearby.version}` : ''}
+                  {nearby.auth ? ' · pairing' : ''}
+                </Text>
+              </View>
+              <Text className={saved ? mutedClass : 'text-[#007AFF] text-[14px]'}>
+                {saved ? 'Saved' : nearby.auth ? 'Pair' : 'Add'}
+              </Text>
+            </Pressable>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const VOICE_FIELDS: { key: keyof TranscriptionSettings; label: string; placeholder: string }[] = [
+  { key: 'modelPath', label: 'Model', placeholder: '~/models/ggml-medium.bin' },
+  { key: 'language', label: 'Language', placeholder: 'en, de, … or auto' },
+  { key: 'threads', label: 'Threads', placeholder: 'whisper default' },
+  { key: 'ffmpegPath', label: 'ffmpeg', placeholder: 'ffmpeg' },
+  { key: 'whisperPath', label: 'whisper-cli', placeholder: 'whisper-cli' },
+];
+
+type VoiceDraft = Record<keyof TranscriptionSettings, string>;
+
+function toDraft(settings: TranscriptionSettings): VoiceDraft {
+  return { ...settings, threads: settings.threads === null ? '' : String(settings.threads) };
+}
+
+// The server's dictation setup: what it transcribes with, and what it's missing
+function VoiceSection({ isDark }: { isDark: boolean }) {
+  const isFocused = useIsFocused();
+  const [status, setStatus] = useState<TranscriptionStatus | null>(null);
+  const [draft, setDraft] = useState<VoiceDraft | null>(null);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Refetch on focus — the fix for a missing model usually happens on the server, not here
+  useEffect(() => {
+    if (!isFocused) return;
+    let stale = false;
+    fetchTranscriptionStatus()
+      .then((next) => {
+        if (stale) return;
+        setStatus(next);
+        setDraft(toDraft(next.settings));
+        setVoiceError(null);
+      })
+      .catch((e: unknown) => {
+        if (!stale) setVoiceError(e instanceof Error ? e.message : 'Failed to load voice settings');
+      });
+    return () => {
+      stale = true;
+    };
+  }, [isFocused]);
+
+  const dirty =
+    !!status && !!draft && VOICE_FIELDS.some(({ key }) => draft[key] !== toDraft(status.settings)[key]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setVoiceError(null);
+    try {
+      const threads = draft.threads.trim();
+      const next = await saveTranscriptionSettings({
+        modelPath: draft.modelPath,
+        language: draft.language.trim(),
+        threads: threads === '' ? null : Number(threads),
+        ffmpegPath: draft.ffmpegPath,
+        whisperPath: draft.whisperPath,
+      });
+      setStatus(next);
+      setDraft(toDraft(next.settings));
+    } catch (e) {
+      setVoiceError(e instanceof Error ? e.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const mutedClass = `text-[12px] ${isDark ? 'text-zinc-400' : 'text-gray-500'}`;
+  const rowClass = `px-4 py-2 flex-row items-center gap-3 border-t ${isDark ? 'border-zinc-800' : 'border-gray-100'}`;
+
+  return (
+    <View className={`mx-4 rounded-xl border overflow-hidden ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-gray-200'}`}>
+      {!status || !draft ? (
+        <Text className={`px-4 py-3 ${voiceError ? 'text-red-500 text-[12px]' : mutedClass}`}>
+          {voiceError ?? 'Loading…'}
+        </Text>
+      ) : (
+        <>
+          <View className="px-4 py-3 flex-row items-center gap-2">
+            <View className={`w-2 h-2 rounded-full ${status.health.ready ? 'bg-green-500' : 'bg-[#ff9500]'}`} />
+            <Text className={`text-[15px] font-medium ${isDark ? 'text-white' : 'text-black'}`}>
+              {status.health.ready ? `Ready (${status.health.backend})` : 'Dictation is not set up'}
+            </Text>
+          </View>
+          {status.health.missing.map((problem) => (
+            <Text key={problem} className={`px-4 pb-2 ${mutedClass}`}>
+              • {problem}
+            </Text>
+          ))}
+          {VOICE_FIELDS.map(({ key, label, placeholder }) => (
+            <View key={key} className={rowClass}>
+              <Text className={`w-20 ${mutedClass}`}>{label}</Text>
+              <TextInput
+                className={`flex-1 text-[14px] font-mono py-1 ${isDark ? 'text-white' : 'text-black'}`}
+                placeholder={placeholder}
+                placeholderTextColor={isDark ? '#636366' : '#8e8e93'}
+                value={draft[key]}
+                onChangeText={(value) => setDraft({ ...draft, [key]: value })}
+                keyboardType={key === 'threads' ? 'number-pad' : 'default'}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+          ))}
+          {voiceError ? <Text className="text-red-500 text-[12px] px-4 pb-2">{voiceError}</Text> : null}
+          {dirty ? (
+            <Pressable
+              onPress={handleSave}
+              disabled={saving}
+              className={`mx-4 mb-3 mt-1 rounded-lg py-2 items-center bg-[#007AFF] ${saving ? 'opacity-50' : ''}`}
+            >
+              <Text className="text-white text-[14px] font-semibold">{saving ? '…' : 'Save'}</Text>
+            </Pressable>
+          ) : null}
+        </>
+      )}
+    </View>
+  );
+}
+
 export function SettingsScreen() {
   const isDark = useColorScheme() === 'dark';
   const insets = useSafeAreaInsets();
@@ -94,17 +508,27 @@ export function SettingsScreen() {
     availableModels,
     currentSessionId,
     sessions,
-    serverUrl,
+    server,
+    servers,
+    needsPairing,
+    handlePair,
     handleSelectProject,
     handleSaveBaseDir,
-    handleSaveServerUrl,
+    handleSwitchServer,
+    handleSaveServer,
+    handleRemoveServer,
     handleSetSessionPermissionMode,
+    handleSetSessionToolRules,
     handleRemoveProject,
+    handleSaveProjectProfile,
     setSelectedModel,
   } = useAppContext();
 
   const [editingBaseDir, setEditingBaseDir] = useState(false);
-  const [editingServerUrl, setEditingServerUrl] = useState(false);
+  const [editingServer, setEditingServer] = useState<ServerProfile | null>(null);
+  // The URL the pairing form starts with; null while it's closed
+  const [pairingUrl, setPairingUrl] = useState<string | null>(null);
+  const [profileProject, setProfileProject] = useState<Project | null>(null);
 
   const currentSession = sessions.find((s) => s.id === currentSessionId) ?? null;
   const permissionMode = currentSession?.permissionMode ?? 'allowEdits';
@@ -140,31 +564,63 @@ export function SettingsScreen() {
         contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
         showsVerticalScrollIndicator={false}
       >
-        {/* Server URL */}
+        {/* Servers */}
         <SectionHeader label="Server" />
         <View className={`mx-4 ${cardClass}`}>
-          <View className="px-4 py-3">
-            {!editingServerUrl ? (
-              <View className="flex-row items-center justify-between">
-                <Text className={`${titleClass} flex-1 mr-3`} numberOfLines={1}>{serverUrl}</Text>
-                <Pressable onPress={() => setEditingServerUrl(true)}>
+          {servers.map((profile) => {
+            const active = profile.id === server.id;
+            return (
+              <View key={profile.id} className={rowClass}>
+                <Pressable
+                  onPress={() => {
+                    void Haptics.selectionAsync();
+                    handleSwitchServer(profile.id);
+                  }}
+                  className="flex-1 mr-3 flex-row items-center"
+                >
+                  <View className="w-3 h-3 rounded-full mr-3" style={{ backgroundColor: profile.color }} />
+                  <View className="flex-1">
+                    <Text className={titleClass} numberOfLines={1}>{profile.name}</Text>
+                    <Text className={subtitleClass} numberOfLines={1}>{profile.url}</Text>
+                  </View>
+                  {active ? <Text className="text-[#007AFF] text-[17px] ml-2">✓</Text> : null}
+                </Pressable>
+                <Pressable onPress={() => setEditingServer(profile)}>
                   <Text className="text-[#007AFF] text-[14px]">Edit</Text>
                 </Pressable>
               </View>
-            ) : (
-              <BaseDirInput
-                placeholder={serverUrl}
-                prefix=""
-                onSave={async (value) => {
-                  await handleSaveServerUrl(value);
-                  setEditingServerUrl(false);
-                }}
-                isDark={isDark}
-              />
-            )}
+            );
+          })}
+          <Pressable
+            onPress={() => setEditingServer(newServerProfile('', servers))}
+            className="px-4 py-3"
+          >
+            <Text className="text-[#007AFF] text-[15px]">Add Server</Text>
+          </Pressable>
+          <View className={`px-4 py-3 flex-row items-center justify-between border-t ${isDark ? 'border-zinc-800' : 'border-gray-100'}`}>
+            <Text className={`text-[13px] flex-1 mr-3 ${needsPairing ? 'text-[#ff9500]' : isDark ? 'text-zinc-400' : 'text-gray-500'}`}>
+              {needsPairing
+                ? `This phone is not paired with ${server.name}`
+                : "Scan a server's pairing QR code to add it, or to pair with it again"}
+            </Text>
+            <Pressable onPress={() => setPairingUrl(server.url)}>
+              <Text className="text-[#007AFF] text-[14px] font-semibold">Pair</Text>
+            </Pressable>
           </View>
         </View>
 
+        {/* Servers found over mDNS */}
+        <SectionHeader label="Nearby Servers" />
+        <NearbyServersSection isDark={isDark} onPair={setPairingUrl} />
+
+        {/* Paired devices */}
+        {connected ? (
+          <>
+            <SectionHeader label="Paired Devices" />
+            <DevicesSection isDark={isDark} />
+          </>
+        ) : null}
+
         {/* Base Directory */}
         <SectionHeader label="Base Directory" />
         <View className={`mx-4 ${cardClass}`}>
@@ -210,6 +666,16 @@ export function SettingsScreen() {
                     {currentProjectId === project.id && (
                       <Text className="text-[#007AFF] text-[16px] font-bold mr-3">✓</Text>
                     )}
+                    <Pressable
+                      onPress={() => setProfileProject(project)}
+                      hitSlop={12}
+                      className="mr-4"
+                      accessibilityLabel={`Edit ${project.name} profile`}
+                    >
+                      <Text className={`text-[18px] ${project.profile ? 'text-[#007AFF]' : isDark ? 'text-zinc-500' : 'text-gray-400'}`}>
+                        ⚙︎
+                      </Text>
+                    </Pressable>
                     <Pressable
                       onPress={() => {
                         Alert.alert(
@@ -256,29 +722,91 @@ export function SettingsScreen() {
           ))}
         </View>
 
+        {/* Usage */}
+        <SectionHeader label="Usage" />
+        <UsageSection projects={projects} isDark={isDark} />
+
+        {/* Voice */}
+        <SectionHeader label="Voice" />
+        <VoiceSection isDark={isDark} />
+
         {/* Permissions */}
         {currentSessionId ? (
           <>
             <SectionHeader label="Permissions" />
             <View className={`mx-4 ${cardClass}`}>
-              <View className={`${rowClass} border-b-0`}>
-                <View className="flex-1 mr-3">
-                  <Text className={titleClass}>Bypass Permissions</Text>
-                  <Text className={subtitleClass}>--dangerously-skip-permissions</Text>
-                </View>
-                <Switch
-                  value={permissionMode === 'dangerouslySkipPermissions'}
-                  onValueChange={(val) =>
-                    handleSetSessionPermissionMode(val ? 'dangerouslySkipPermissions' : 'allowEdits')
-                  }
-                  trackColor={{ false: '#767577', true: '#ff9500' }}
-                  thumbColor="#fff"
-                />
-              </View>
+              {PERMISSION_MODE_OPTIONS.map((option, i) => (
+                <Pressable
+                  key={option.mode}
+                  onPress={() => {
+                    void Haptics.selectionAsync();
+                    void handleSetSessionPermissionMode(option.mode);
+                  }}
+                  className={`${rowClass} ${i === PERMISSION_MODE_OPTIONS.length - 1 ? 'border-b-0' : ''}`}
+                >
+                  <View className="flex-1 mr-3">
+                    <Text className={titleClass}>{option.title}</Text>
+                    <Text className={subtitleClass}>{option.subtitle}</Text>
+                  </View>
+                  {permissionMode === option.mode && (
+                    <Text
+                      className={`text-[16px] font-bold ${
+                        option.mode === 'dangerouslySkipPermissions' ? 'text-[#ff9500]' : 'text-[#007AFF]'
+                      }`}
+                    >
+                      ✓
+                    </Text>
+                  )}
+                </Pressable>
+              ))}
+            </View>
+
+            <SectionHeader label="Tool Rules" />
+            <View className={`mx-4 ${cardClass}`}>
+              <ToolRulesEditor
+                title="Always allow"
+                hint="Runs without asking, in any mode"
+                patterns={currentSession?.allowedTools ?? []}
+                onChange={(allowedTools) => handleSetSessionToolRules({ allowedTools })}
+              />
+              <View className={`border-t ${isDark ? 'border-zinc-800' : 'border-gray-100'}`} />
+              <ToolRulesEditor
+                title="Never allow"
+                hint="Blocked even when bypassing permissions"
+                patterns={currentSession?.disallowedTools ?? []}
+                onChange={(disallowedTools) => handleSetSessionToolRules({ disallowedTools })}
+                destructive
+              />
             </View>
           </>
         ) : null}
       </ScrollView>
+
+      <PairingModal
+        visible={pairingUrl !== null}
+        serverUrl={pairingUrl ?? server.url}
+        onClose={() => setPairingUrl(null)}
+        onPair={handlePair}
+      />
+
+      <ServerProfileModal
+        profile={editingServer}
+        isNew={editingServer !== null && !servers.some((p) => p.id === editingServer.id)}
+        onClose={() => setEditingServer(null)}
+        onSave={handleSaveServer}
+        onRemove={
+          editingServer && servers.length > 1 && servers.some((p) => p.id === editingServer.id)
+            ? handleRemoveServer
+            : undefined
+        }
+      />
+
+      <ProjectProfileModal
+        project={profileProject}
+        models={availableModels}
+        onClose={() => setProfileProject(null)}
+        onSave={handleSaveProjectProfile}
+      />
     </View>
   );
 }
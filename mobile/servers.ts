@@ -0,0 +1,111 @@
+/**
+ * Saved servers the app can switch between, e.g. a workstation and a homelab box. The list lives
+ * in SecureStore as JSON; each device token is kept under its own key so the list stays small.
+ */
+import * as SecureStore from 'expo-secure-store';
+
+export type ServerProfile = {
+	id: string;
+	name: string;
+	url: string;
+	/** One of SERVER_COLORS, shown in the header so the active server is obvious */
+	color: string;
+	/** Device token from pairing; unset for a server without auth or not paired yet */
+	token?: string;
+	/** Pinned certificate fingerprint of a TLS server */
+	fingerprint?: string;
+};
+
+export const SERVER_COLORS = ['#007AFF', '#34C759', '#FF9500', '#AF52DE', '#FF2D55', '#5AC8FA'];
+
+const STORAGE_KEY_PROFILES = 'serverProfiles';
+const STORAGE_KEY_ACTIVE = 'activeServerId';
+const tokenKey = (id: string) => `serverToken.${id}`;
+
+// Where a single server was kept before profiles; moved into the first profile
+const LEGACY_KEY_SERVER_URL = 'serverUrl';
+const LEGACY_KEY_DEVICE_TOKEN = 'deviceToken';
+const LEGACY_KEY_CERT_FINGERPRINT = 'certFingerprint';
+
+/** The host, as the name of a server nobody has named yet */
+export function defaultServerName(url: string): string {
+	return url.replace(/^https?:\/\//, '').replace(/[:/].*$/, '') || url;
+}
+
+/** A profile for a new URL, in the first colour no other profile uses */
+export function newServerProfile(url: string, existing: ServerProfile[]): ServerProfile {
+	const used = new Set(existing.map((p) => p.color));
+	const color = SERVER_COLORS.find((c) => !used.has(c));
+	return {
+		id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+		name: defaultServerName(url),
+		url,
+		color: color ?? SERVER_COLORS[existing.length % SERVER_COLORS.length] ?? '#007AFF',
+	};
+}
+
+/**
+ * Saved profiles and the active one. The first launch turns the server kept before profiles — or
+ * else `fallbackUrl` — into the first profile.
+ */
+export async function loadServerProfiles(
+	fallbackUrl: string,
+): Promise<{ profiles: ServerProfile[]; activeId: string }> {
+	const [raw, savedActiveId] = await Promise.all([
+		SecureStore.getItemAsync(STORAGE_KEY_PROFILES),
+		SecureStore.getItemAsync(STORAGE_KEY_ACTIVE),
+	]);
+	if (raw) {
+		const stored = JSON.parse(raw) as ServerProfile[];
+		const profiles = await Promise.all(
+			stored.map(async (p) => ({
+				...p,
+				token: (await SecureStore.getItemAsync(tokenKey(p.id))) ?? undefined,
+			})),
+		);
+		if (profiles[0]) {
+			const activeId = profiles.some((p) => p.id === savedActiveId) ? savedActiveId : null;
+			return { profiles, activeId: activeId ?? profiles[0].id };
+		}
+	}
+
+	const [url, token, fingerprint] = await Promise.all([
+		SecureStore.getItemAsync(LEGACY_KEY_SERVER_URL),
+		SecureStore.getItemAsync(LEGACY_KEY_DEVICE_TOKEN),
+		SecureStore.getItemAsync(LEGACY_KEY_CERT_FINGERPRINT),
+	]);
+	const profile: ServerProfile = {
+		...newServerProfile(url ?? fallbackUrl, []),
+		token: token ?? undefined,
+		fingerprint: fingerprint ?? undefined,
+	};
+	await saveServerProfiles([profile]);
+	await saveActiveServerId(profile.id);
+	await Promise.all([
+		SecureStore.deleteItemAsync(LEGACY_KEY_SERVER_URL),
+		SecureStore.deleteItemAsync(LEGACY_KEY_DEVICE_TOKEN),
+		SecureStore.deleteItemAsync(LEGACY_KEY_CERT_FINGERPRINT),
+	]);
+	return { profiles: [profile], activeId: profile.id };
+}
+
+export async function saveServerProfiles(profiles: ServerProfile[]): Promise<void> {
+	const stored = profiles.map(({ token: _token, ...rest }) => rest);
+	await SecureStore.setItemAsync(STORAGE_KEY_PROFILES, JSON.stringify(stored));
+	await Promise.all(
+		profiles.map((p) =>
+			p.token
+				? SecureStore.setItemAsync(tokenKey(p.id), p.token)
+				: SecureStore.deleteItemAsync(tokenKey(p.id)),
+		),
+	);
+}
+
+export async function saveActiveServerId(id: string): Promise<void> {
+	await SecureStore.setItemAsync(STORAGE_KEY_ACTIVE, id);
+}
+
+/** Drop a removed profile's device token */
+export async function forgetServerToken(id: string): Promise<void> {
+	await SecureStore.deleteItemAsync(tokenKey(id));
+}
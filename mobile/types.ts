@@ -1,12 +1,166 @@
-export type Message = { role: 'user' | 'assistant'; content: string };
-export type PermissionMode = 'allowEdits' | 'dangerouslySkipPermissions';
+export type Message = {
+	role: 'user' | 'assistant';
+	content: string;
+	streaming?: boolean;
+	interrupted?: boolean;
+	events?: TurnEvent[];
+	/** Set on the entry the server records when a run failed */
+	failure?: RunFailure;
+};
+export type FailureKind = 'rate_limit' | 'auth' | 'cli_missing' | 'crash';
+export type RunFailure = {
+	kind: FailureKind;
+	/** null when the CLI never started */
+	exitCode: number | null;
+	stderr: string;
+	failedAt: string;
+};
+export type TurnEvent =
+	| { kind: 'text'; text: string }
+	| { kind: 'tool_use'; toolUseId: string; name: string; input: unknown }
+	| { kind: 'tool_result'; toolUseId: string; output: string; isError: boolean }
+	| { kind: 'error'; message: string };
+export type ChatStreamEvent =
+	| { type: 'init'; model: string }
+	| { type: 'delta'; text: string }
+	| { type: 'tool'; name: string }
+	| { type: 'turn_event'; event: TurnEvent }
+	| { type: 'done'; response: string; events?: TurnEvent[]; usage?: TokenUsage }
+	| { type: 'permission_request'; request: PendingPermission }
+	| { type: 'permission_resolved'; id: string; decision: PermissionDecision | 'timeout' | 'cancelled' }
+	| { type: 'cancelled' }
+	| { type: 'error'; error: string; failure?: RunFailure };
+export type PermissionMode =
+	| 'default'
+	| 'acceptEdits'
+	| 'plan'
+	| 'allowEdits'
+	| 'askApproval'
+	| 'dangerouslySkipPermissions';
+/** Extra CLI rules on top of the mode: `Tool` or `Tool(specifier)`, e.g. `Bash(git:*)` */
+export type ToolRules = { allowedTools: string[]; disallowedTools: string[] };
+export type PermissionDecision = 'allowOnce' | 'allowSession' | 'deny';
+export type PendingPermission = {
+	id: string;
+	sessionId: string;
+	toolName: string;
+	toolUseId?: string;
+	input: unknown;
+	createdAt: string;
+};
 export type Session = {
 	id: string;
 	model: string;
 	createdAt: string;
 	projectPath: string;
 	permissionMode: PermissionMode;
+	allowedTools?: string[];
+	disallowedTools?: string[];
+	appendSystemPrompt?: string;
+	extraArgs?: string[];
 	name?: string;
+	/** Set on forks: the session this one was forked from */
+	parentSessionId?: string;
+	/** Set on branches: the index of the prompt this branch re-sent in place of the parent's */
+	branchMessageIndex?: number;
+	usage?: TokenUsage;
+};
+/** The versions of an edited or regenerated prompt, oldest first; `current` is the open session's */
+export type BranchPoint = {
+	messageIndex: number;
+	sessionIds: string[];
+	current: number;
+};
+/** A full-text match; snippets wrap matched terms in <mark></mark> */
+export type SearchHit = {
+	kind: 'message' | 'session';
+	sessionId: string;
+	sessionName?: string;
+	projectPath: string;
+	messageId?: number;
+	/** Position of the message in the session's history (message hits only) */
+	messageIndex?: number;
+	role?: 'user' | 'assistant';
+	snippet: string;
+	createdAt: string;
+};
+/** Outcome of reconciling a session's history with its CLI transcript (done on every open) */
+export type SyncResult =
+	| { status: 'in_sync' }
+	| { status: 'synced'; added: number }
+	| { status: 'diverged'; messageIndex: number; reason: string }
+	| { status: 'skipped'; reason: string };
+/** File formats the server can export a session to */
+export type ExportFormat = 'md' | 'json' | 'html';
+/** A Claude CLI session found on the server's disk that claudet doesn't track yet */
+export type ImportableSession = {
+	id: string;
+	title: string;
+	messageCount: number;
+	createdAt: string;
+	updatedAt: string;
+};
+export type TokenUsage = {
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens: number;
+	cacheCreationTokens: number;
+	costUsd: number;
+};
+export type UsageGroupBy = 'project' | 'model' | 'day';
+export type UsageGroup = TokenUsage & { key: string; turns: number };
+export type UsageSummary = {
+	groupBy: UsageGroupBy;
+	totals: TokenUsage & { turns: number };
+	groups: UsageGroup[];
+};
+export type Project = { id: string; name: string; path: string; profile?: ProjectProfile };
+/** New-session defaults for a project; unset fields fall back to the global defaults */
+export type ProjectProfile = {
+	model?: string;
+	permissionMode?: PermissionMode;
+	allowedTools?: string[];
+	disallowedTools?: string[];
+	appendSystemPrompt?: string;
+	extraArgs?: string[];
 };
-export type Project = { id: string; name: string; path: string };
 export type Settings = { baseDir: string | null };
+/** What a paired phone may do: a viewer can read sessions but not send or change anything */
+export type DeviceRole = 'full' | 'viewer';
+/** A phone paired with the server; `current` is the one asking */
+export type Device = {
+	id: string;
+	name: string;
+	role: DeviceRole;
+	createdAt: string;
+	lastSeenAt?: string;
+	current: boolean;
+};
+/** The server's whisper.cpp setup; bare binary names are looked up on the server's PATH */
+export type TranscriptionSettings = {
+	modelPath: string;
+	/** ISO 639-1 code, or "auto" */
+	language: string;
+	threads: number | null;
+	ffmpegPath: string;
+	whisperPath: string;
+};
+export type TranscriptionStatus = {
+	settings: TranscriptionSettings;
+	/** `missing` says what the server needs before dictation works */
+	health: { backend: string; ready: boolean; missing: string[] };
+};
+export type RunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type Run = {
+	id: string;
+	sessionId: string;
+	message: string;
+	status: RunStatus;
+	createdAt: string;
+	startedAt?: string;
+	endedAt?: string;
+	output?: string;
+	error?: string;
+	/** Re-runs the failed prompt already in the history */
+	retry?: boolean;
+};
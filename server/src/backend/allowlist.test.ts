@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'vitest';
+import { isAllowed, parseAllowlist, splitAllowlist } from './allowlist';
+
+describe('splitAllowlist', () => {
+	test('splits on commas and drops blanks', () => {
+		expect(splitAllowlist(' 192.168.1.0/24, ,fd00::/8,')).toEqual(['192.168.1.0/24', 'fd00::/8']);
+		expect(splitAllowlist('')).toEqual([]);
+	});
+});
+
+describe('parseAllowlist', () => {
+	test('rejects entries that are not an IP or CIDR range', () => {
+		for (const entry of ['example.com', '10.0.0.0/33', '10.0.0.0/', '10.0.0.0/8/8', 'fd00::/129']) {
+			expect(() => parseAllowlist([entry])).toThrow(`Invalid allowlist entry: ${entry}`);
+		}
+	});
+});
+
+describe('isAllowed', () => {
+	const list = parseAllowlist(['192.168.1.0/24', '10.0.0.7', 'fd00::/8']);
+
+	test('matches addresses and ranges of either family', () => {
+		expect(isAllowed(list, '192.168.1.42')).toBe(true);
+		expect(isAllowed(list, '10.0.0.7')).toBe(true);
+		expect(isAllowed(list, 'fd12::1')).toBe(true);
+		expect(isAllowed(list, '192.168.2.1')).toBe(false);
+		expect(isAllowed(list, '10.0.0.8')).toBe(false);
+		expect(isAllowed(list, '2001:db8::1')).toBe(false);
+	});
+
+	test('reads IPv4 addresses from a dual-stack socket', () => {
+		expect(isAllowed(list, '::ffff:192.168.1.42')).toBe(true);
+		expect(isAllowed(list, '::ffff:192.168.2.1')).toBe(false);
+	});
+
+	test('always lets loopback through', () => {
+		expect(isAllowed(parseAllowlist([]), '127.0.0.1')).toBe(true);
+		expect(isAllowed(list, '::ffff:127.0.0.1')).toBe(true);
+		expect(isAllowed(list, '::1')).toBe(true);
+		expect(isAllowed(list, undefined)).toBe(false);
+	});
+});
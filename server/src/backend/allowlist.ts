@@ -0,0 +1,45 @@
+/**
+ * `--allow` / CLAUDET_ALLOW: the only addresses that may connect, as IPs and CIDR ranges
+ * (`192.168.1.0/24,fd00::/8`). Checked before anything else, so a refused client can't even try a
+ * pairing code. Loopback is always allowed — the permission MCP helper calls back over it.
+ */
+import { BlockList, isIP } from 'node:net';
+
+/** The comma-separated flag value as entries; blanks are dropped */
+export function splitAllowlist(raw: string): string[] {
+	return raw
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '');
+}
+
+/** Throws with the offending entry if one isn't an IP or CIDR range */
+export function parseAllowlist(entries: string[]): BlockList {
+	const list = new BlockList();
+	list.addSubnet('127.0.0.0', 8, 'ipv4');
+	list.addAddress('::1', 'ipv6');
+	for (const entry of entries) {
+		const [address = '', prefix, ...rest] = entry.split('/');
+		const version = isIP(address);
+		const bits = prefix === undefined ? undefined : Number(prefix);
+		const maxBits = version === 6 ? 128 : 32;
+		if (
+			version === 0 ||
+			rest.length > 0 ||
+			(bits !== undefined && !(/^\d+$/.test(prefix ?? '') && bits <= maxBits))
+		) {
+			throw new Error(`Invalid allowlist entry: ${entry} (expected an IP or CIDR range)`);
+		}
+		const type = version === 6 ? 'ipv6' : 'ipv4';
+		if (bits === undefined) list.addAddress(address, type);
+		else list.addSubnet(address, bits, type);
+	}
+	return list;
+}
+
+/** Whether a socket's remote address is on the list; dual-stack sockets report IPv4 as ::ffff:a.b.c.d */
+export function isAllowed(list: BlockList, remoteAddress: string | undefined): boolean {
+	if (!remoteAddress) return false;
+	const address = remoteAddress.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+	return list.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
@@ -0,0 +1,16 @@
+import { statSync } from 'node:fs';
+import type { TranscriptionBackend, TranscriptionSettings } from './transcription';
+import { createWhisperCppBackend } from './whisper-cpp';
+
+/** Stands in for whisper under CLAUDE_TEST_FAKE: always ready, and answers from the clip's size */
+export const fakeTranscriptionBackend: TranscriptionBackend = {
+	name: 'fake',
+	missing: () => [],
+	transcribe: async (audioPath) => `Fake transcript of ${statSync(audioPath).size} bytes`,
+};
+
+/** The backend transcriptions use with `settings` */
+export function transcriptionBackend(settings: TranscriptionSettings): TranscriptionBackend {
+	if (process.env.CLAUDE_TEST_FAKE === 'true') return fakeTranscriptionBackend;
+	return createWhisperCppBackend(settings);
+}
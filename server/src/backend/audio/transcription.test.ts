@@ -0,0 +1,161 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { fakeTranscriptionBackend } from './backends';
+import {
+	DEFAULT_TRANSCRIPTION_SETTINGS,
+	type TranscriptionBackend,
+	TranscriptionError,
+	transcribeAudioFile,
+	transcriptionHealth,
+	validateTranscriptionSettings,
+} from './transcription';
+import { commandExists, createWhisperCppBackend } from './whisper-cpp';
+
+let dir: string;
+
+beforeEach(() => {
+	dir = mkdtempSync(join(tmpdir(), 'claudet-transcription-'));
+});
+
+afterEach(() => {
+	rmSync(dir, { recursive: true, force: true });
+});
+
+function clip(bytes: number): string {
+	const path = join(dir, `clip-${bytes}.m4a`);
+	writeFileSync(path, new Uint8Array(bytes));
+	return path;
+}
+
+describe('transcribeAudioFile', () => {
+	test('hands the clip to the backend', async () => {
+		expect(await transcribeAudioFile(clip(2000), fakeTranscriptionBackend)).toBe(
+			'Fake transcript of 2000 bytes',
+		);
+	});
+
+	test('rejects clips too short to be speech', async () => {
+		await expect(transcribeAudioFile(clip(10), fakeTranscriptionBackend)).rejects.toMatchObject({
+			kind: 'too_short',
+			status: 422,
+		});
+	});
+
+	test('says what is missing instead of running an unready backend', async () => {
+		const backend: TranscriptionBackend = {
+			name: 'broken',
+			missing: () => ['no model', 'no binary'],
+			transcribe: () => Promise.reject(new Error('should not run')),
+		};
+		const error = await transcribeAudioFile(clip(2000), backend).catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(TranscriptionError);
+		expect(error).toMatchObject({
+			kind: 'unavailable',
+			status: 503,
+			message: 'Transcription is not set up: no model; no binary',
+		});
+	});
+});
+
+describe('whisper.cpp backend', () => {
+	test('reports a missing model and binaries', () => {
+		const backend = createWhisperCppBackend({
+			...DEFAULT_TRANSCRIPTION_SETTINGS,
+			modelPath: join(dir, 'ggml-tiny.bin'),
+			ffmpegPath: join(dir, 'ffmpeg'),
+			whisperPath: 'claudet-no-such-whisper',
+		});
+		expect(transcriptionHealth(backend)).toEqual({
+			backend: 'whisper.cpp',
+			ready: false,
+			missing: [
+				`Whisper model not found at ${join(dir, 'ggml-tiny.bin')}`,
+				`ffmpeg not found (${join(dir, 'ffmpeg')})`,
+				'whisper-cli not found (claudet-no-such-whisper)',
+			],
+		});
+	});
+
+	test('is ready once the model and binaries exist', () => {
+		writeFileSync(join(dir, 'ggml-tiny.bin'), '');
+		writeFileSync(join(dir, 'whisper-cli'), '', { mode: 0o755 });
+		const backend = createWhisperCppBackend({
+			...DEFAULT_TRANSCRIPTION_SETTINGS,
+			modelPath: join(dir, 'ggml-tiny.bin'),
+			ffmpegPath: join(dir, 'whisper-cli'),
+			whisperPath: join(dir, 'whisper-cli'),
+		});
+		expect(backend.missing()).toEqual([]);
+	});
+});
+
+describe('whisper.cpp transcription', () => {
+	test('converts a WAV clip to a file of its own', async () => {
+		// Stand-ins: ffmpeg refuses to overwrite its input, as the real one does, and whisper-cli
+		// prints the file it was given
+		writeFileSync(
+			join(dir, 'ffmpeg'),
+			'#!/bin/sh\n[ "$2" = "$9" ] && { echo "Output same as input" >&2; exit 1; }\nprintf 16k > "$9"\n',
+			{ mode: 0o755 },
+		);
+		writeFileSync(join(dir, 'whisper-cli'), '#!/bin/sh\nfor last; do :; done\ncat "$last"\n', {
+			mode: 0o755,
+		});
+		const backend = createWhisperCppBackend({
+			...DEFAULT_TRANSCRIPTION_SETTINGS,
+			modelPath: join(dir, 'ggml-tiny.bin'),
+			ffmpegPath: join(dir, 'ffmpeg'),
+			whisperPath: join(dir, 'whisper-cli'),
+		});
+		const wav = join(dir, 'clip.wav');
+		writeFileSync(wav, 'original');
+
+		expect(await backend.transcribe(wav)).toBe('16k');
+		expect(readFileSync(wav, 'utf8')).toBe('original');
+		expect(readdirSync(dir).sort()).toEqual(['clip.wav', 'ffmpeg', 'whisper-cli']);
+	});
+});
+
+describe('commandExists', () => {
+	test('looks bare names up on PATH and needs paths to be executable', () => {
+		writeFileSync(join(dir, 'tool'), '', { mode: 0o755 });
+		writeFileSync(join(dir, 'notes'), '', { mode: 0o644 });
+		expect(commandExists('tool', `/nonexistent:${dir}`)).toBe(true);
+		expect(commandExists('tool', '/nonexistent')).toBe(false);
+		expect(commandExists(join(dir, 'tool'), '')).toBe(true);
+		expect(commandExists(join(dir, 'notes'), '')).toBe(false);
+	});
+});
+
+describe('validateTranscriptionSettings', () => {
+	const current = DEFAULT_TRANSCRIPTION_SETTINGS;
+
+	test('applies a partial update', () => {
+		expect(
+			validateTranscriptionSettings(
+				{ modelPath: ' ~/models/ggml-small.bin ', threads: 4 },
+				current,
+			),
+		).toEqual({ ...current, modelPath: '~/models/ggml-small.bin', threads: 4 });
+		expect(validateTranscriptionSettings({ language: 'auto', threads: null }, current)).toEqual({
+			...current,
+			language: 'auto',
+			threads: null,
+		});
+	});
+
+	test('rejects invalid fields', () => {
+		expect(() => validateTranscriptionSettings(null, current)).toThrow(/must be an object/);
+		expect(() => validateTranscriptionSettings({ modelPath: '' }, current)).toThrow(/modelPath/);
+		expect(() => validateTranscriptionSettings({ language: 'English' }, current)).toThrow(
+			/language/,
+		);
+		expect(() => validateTranscriptionSettings({ threads: 0 }, current)).toThrow(/threads/);
+		expect(() => validateTranscriptionSettings({ threads: 2.5 }, current)).toThrow(/threads/);
+		expect(() => validateTranscriptionSettings({ whisperPath: 42 }, current)).toThrow(
+			/whisperPath/,
+		);
+	});
+});
@@ -1,61 +1,137 @@
-import { spawn } from 'node:child_process';
-import { existsSync, statSync } from 'node:fs';
-import { unlink } from 'node:fs/promises';
-import { homedir } from 'node:os';
-import { join } from 'node:path';
-
-// Transcription configuration
-export const WHISPER_MODEL = join(homedir(), 'dev/models/ggml-medium.bin');
+import { statSync } from 'node:fs';
 
 /**
- * Transcribe audio file using whisper-cli
- * Converts WebM to WAV format and runs whisper transcription
+ * Something that turns a recorded clip into text. `missing()` lists what the backend needs but
+ * can't find (a model file, a binary), so the phone can be told why dictation won't work before
+ * anyone records.
  */
-export async function transcribeAudioFile(audioPath: string): Promise<string> {
-	const fileSize = statSync(audioPath).size;
+export interface TranscriptionBackend {
+	readonly name: string;
+	missing(): string[];
+	transcribe(audioPath: string): Promise<string>;
+}
+
+/** Per-machine transcription setup, stored in settings so each box can use its own model */
+export interface TranscriptionSettings {
+	/** whisper.cpp ggml model file; a leading `~` is the user's home directory */
+	modelPath: string;
+	/** Spoken language as an ISO 639-1 code, or "auto" to let whisper detect it */
+	language: string;
+	/** whisper.cpp worker threads; null leaves it to whisper-cli */
+	threads: number | null;
+	/** Commands or paths; bare names are looked up on PATH */
+	ffmpegPath: string;
+	whisperPath: string;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+	modelPath: '~/dev/models/ggml-medium.bin',
+	language: 'en',
+	threads: null,
+	ffmpegPath: 'ffmpeg',
+	whisperPath: 'whisper-cli',
+};
+
+export interface TranscriptionHealth {
+	backend: string;
+	ready: boolean;
+	missing: string[];
+}
+
+export type TranscriptionErrorKind = 'too_short' | 'unavailable' | 'failed';
+
+const ERROR_STATUS: Record<TranscriptionErrorKind, number> = {
+	too_short: 422,
+	unavailable: 503,
+	failed: 500,
+};
 
-	if (fileSize < 1000) {
-		throw new Error('Recording too short or empty');
+export class TranscriptionError extends Error {
+	constructor(
+		readonly kind: TranscriptionErrorKind,
+		message: string,
+	) {
+		super(message);
+		this.name = 'TranscriptionError';
 	}
 
-	// Check if whisper model exists
-	if (!existsSync(WHISPER_MODEL)) {
-		throw new Error(`Whisper model not found at ${WHISPER_MODEL}`);
+	get status(): number {
+		return ERROR_STATUS[this.kind];
 	}
+}
 
-	const runProc = (cmd: string, args: string[]): Promise<{ stdout: string; exitCode: number }> =>
-		new Promise((resolve) => {
-			const proc = spawn(cmd, args, { stdio: ['ignore', 'pipe', 'pipe'] });
-			const chunks: Buffer[] = [];
-			proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
-			proc.on('close', (code) =>
-				resolve({ stdout: Buffer.concat(chunks).toString('utf8'), exitCode: code ?? 1 }),
-			);
-		});
+// Below this a clip is a tap rather than speech; whisper would only hallucinate over it
+const MIN_AUDIO_BYTES = 1000;
+const MAX_THREADS = 64;
 
-	// Convert WebM to WAV using ffmpeg
-	const wavPath = audioPath.replace(/\.\w+$/, '.wav');
-	const ffmpeg = await runProc('ffmpeg', [
-		'-i', audioPath,
-		'-ar', '16000', // 16kHz sample rate
-		'-ac', '1',    // mono
-		'-f', 'wav',
-		wavPath,
-	]);
+export function transcriptionHealth(backend: TranscriptionBackend): TranscriptionHealth {
+	const missing = backend.missing();
+	return { backend: backend.name, ready: missing.length === 0, missing };
+}
 
-	if (ffmpeg.exitCode !== 0) {
-		throw new Error('Failed to convert audio to WAV format');
+export async function transcribeAudioFile(
+	audioPath: string,
+	backend: TranscriptionBackend,
+): Promise<string> {
+	if (statSync(audioPath).size < MIN_AUDIO_BYTES) {
+		throw new TranscriptionError('too_short', 'Recording too short or empty');
 	}
+	const missing = backend.missing();
+	if (missing.length > 0) {
+		throw new TranscriptionError(
+			'unavailable',
+			`Transcription is not set up: ${missing.join('; ')}`,
+		);
+	}
+	return backend.transcribe(audioPath);
+}
 
-	// Run whisper-cli transcription
-	const whisper = await runProc('whisper-cli', ['-m', WHISPER_MODEL, '-nt', '-np', wavPath]);
-
-	// Clean up WAV file
-	await unlink(wavPath).catch(() => {});
+function requireString(raw: unknown, field: string): string {
+	if (typeof raw !== 'string' || raw.trim() === '') {
+		throw new Error(`${field} must be a non-empty string`);
+	}
+	return raw.trim();
+}
 
-	if (whisper.exitCode !== 0) {
-		throw new Error('Whisper transcription failed');
+/**
+ * Applies a partial update to `current`; unset fields keep their value. Throws with a
+ * client-facing message.
+ */
+export function validateTranscriptionSettings(
+	raw: unknown,
+	current: TranscriptionSettings,
+): TranscriptionSettings {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new Error('transcription settings must be an object');
 	}
+	const input = raw as Record<string, unknown>;
+	const settings = { ...current };
 
-	return whisper.stdout.trim();
+	if (input.modelPath !== undefined) {
+		settings.modelPath = requireString(input.modelPath, 'modelPath');
+	}
+	if (input.language !== undefined) {
+		if (typeof input.language !== 'string' || !/^(auto|[a-z]{2,3})$/.test(input.language)) {
+			throw new Error('language must be "auto" or a language code such as "en"');
+		}
+		settings.language = input.language;
+	}
+	if (input.threads !== undefined) {
+		if (
+			input.threads !== null &&
+			(!Number.isInteger(input.threads) ||
+				(input.threads as number) < 1 ||
+				(input.threads as number) > MAX_THREADS)
+		) {
+			throw new Error(`threads must be a whole number from 1 to ${MAX_THREADS}, or null`);
+		}
+		settings.threads = input.threads as number | null;
+	}
+	if (input.ffmpegPath !== undefined) {
+		settings.ffmpegPath = requireString(input.ffmpegPath, 'ffmpegPath');
+	}
+	if (input.whisperPath !== undefined) {
+		settings.whisperPath = requireString(input.whisperPath, 'whisperPath');
+	}
+	return settings;
 }
@@ -0,0 +1,46 @@
+import { randomUUID } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { extname, join } from 'node:path';
+import multer from 'multer';
+
+// A few minutes of dictation is well under this; anything bigger is not a voice prompt
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+/** Where uploaded clips wait for transcription; each is deleted once transcribed (or not) */
+export const AUDIO_UPLOAD_DIR = join(tmpdir(), 'claudet-audio');
+
+/** Multipart middleware for one `audio` file field. Clips keep their extension, for ffmpeg's sake */
+export const receiveAudio = multer({
+	storage: multer.diskStorage({
+		destination: AUDIO_UPLOAD_DIR,
+		filename: (_req, file, cb) =>
+			cb(null, `${randomUUID()}${extname(file.originalname) || '.m4a'}`),
+	}),
+	limits: { fileSize: MAX_AUDIO_BYTES, files: 1 },
+	fileFilter: (_req, file, cb) => {
+		if (file.mimetype.startsWith('audio/')) return cb(null, true);
+		cb(new UnsupportedAudioError(file.mimetype));
+	},
+}).single('audio');
+
+export class UnsupportedAudioError extends Error {
+	constructor(mimetype: string) {
+		super(`Expected an audio file, got ${mimetype}`);
+		this.name = 'UnsupportedAudioError';
+	}
+}
+
+/** HTTP status and client-facing message for a failed upload */
+export function uploadErrorResponse(error: unknown): { status: number; error: string } {
+	if (error instanceof UnsupportedAudioError) return { status: 415, error: error.message };
+	if (error instanceof multer.MulterError) {
+		if (error.code === 'LIMIT_FILE_SIZE') {
+			return {
+				status: 413,
+				error: `Recording is too large (max ${MAX_AUDIO_BYTES / 1024 / 1024} MB)`,
+			};
+		}
+		return { status: 400, error: error.message };
+	}
+	return { status: 400, error: error instanceof Error ? error.message : 'Invalid upload' };
+}
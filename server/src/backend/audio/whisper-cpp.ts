@@ -0,0 +1,111 @@
+import { spawn } from 'node:child_process';
+import { accessSync, constants, existsSync } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { delimiter, join } from 'node:path';
+import {
+	type TranscriptionBackend,
+	TranscriptionError,
+	type TranscriptionSettings,
+} from './transcription';
+
+function isExecutable(path: string): boolean {
+	try {
+		accessSync(path, constants.X_OK);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Whether `command` would run: a path that is executable, or a bare name found on PATH */
+export function commandExists(command: string, pathEnv = process.env.PATH ?? ''): boolean {
+	if (command.includes('/')) return isExecutable(command);
+	return pathEnv
+		.split(delimiter)
+		.filter(Boolean)
+		.some((dir) => isExecutable(join(dir, command)));
+}
+
+export function expandModelPath(modelPath: string): string {
+	return modelPath.replace(/^~(?=$|\/)/, homedir());
+}
+
+interface ProcResult {
+	stdout: string;
+	stderr: string;
+	exitCode: number | null;
+}
+
+function runProc(cmd: string, args: string[]): Promise<ProcResult> {
+	return new Promise((resolve) => {
+		const proc = spawn(cmd, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+		const stdout: Buffer[] = [];
+		const stderr: Buffer[] = [];
+		proc.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+		proc.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+		proc.on('error', (error) => resolve({ stdout: '', stderr: error.message, exitCode: null }));
+		proc.on('close', (code) =>
+			resolve({
+				stdout: Buffer.concat(stdout).toString('utf8'),
+				stderr: Buffer.concat(stderr).toString('utf8'),
+				exitCode: code,
+			}),
+		);
+	});
+}
+
+// Both tools print a banner before the error; the last line is the one worth showing
+const lastLine = (output: string) => output.trim().split('\n').pop() ?? '';
+
+/** Local transcription with whisper.cpp: ffmpeg converts the clip to 16 kHz mono WAV for it */
+export function createWhisperCppBackend(settings: TranscriptionSettings): TranscriptionBackend {
+	const modelPath = expandModelPath(settings.modelPath);
+
+	return {
+		name: 'whisper.cpp',
+
+		missing() {
+			const missing: string[] = [];
+			if (!existsSync(modelPath)) missing.push(`Whisper model not found at ${modelPath}`);
+			if (!commandExists(settings.ffmpegPath)) {
+				missing.push(`ffmpeg not found (${settings.ffmpegPath})`);
+			}
+			if (!commandExists(settings.whisperPath)) {
+				missing.push(`whisper-cli not found (${settings.whisperPath})`);
+			}
+			return missing;
+		},
+
+		async transcribe(audioPath) {
+			// A name of its own, since the clip may be a WAV already
+			const wavPath = `${audioPath}.16k.wav`;
+			try {
+				// 16kHz mono, which is what whisper.cpp expects
+				const ffmpeg = await runProc(settings.ffmpegPath, [
+					...['-i', audioPath, '-ar', '16000', '-ac', '1', '-f', 'wav'],
+					wavPath,
+				]);
+				if (ffmpeg.exitCode !== 0) {
+					throw new TranscriptionError(
+						'failed',
+						`Failed to convert audio to WAV format: ${lastLine(ffmpeg.stderr)}`,
+					);
+				}
+
+				const args = ['-m', modelPath, '-l', settings.language, '-nt', '-np'];
+				if (settings.threads !== null) args.push('-t', String(settings.threads));
+				const whisper = await runProc(settings.whisperPath, [...args, wavPath]);
+				if (whisper.exitCode !== 0) {
+					throw new TranscriptionError(
+						'failed',
+						`Whisper transcription failed: ${lastLine(whisper.stderr)}`,
+					);
+				}
+				return whisper.stdout.trim();
+			} finally {
+				await unlink(wavPath).catch(() => {});
+			}
+		},
+	};
+}
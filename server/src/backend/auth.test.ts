@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'vitest';
+import {
+	bearerToken,
+	hashToken,
+	issuePairingCode,
+	MAX_PAIRING_ATTEMPTS,
+	pairingLink,
+	redeemPairingCode,
+	roleAllows,
+	validateDeviceName,
+	validateDeviceRole,
+} from './auth';
+
+describe('redeemPairingCode', () => {
+	test('accepts the current code once, ignoring case', () => {
+		const code = issuePairingCode();
+		expect(code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+		expect(redeemPairingCode(` ${code.toLowerCase()} `)).toBe('paired');
+		expect(redeemPairingCode(code)).toBe('invalid');
+	});
+
+	test('a new code replaces the old one', () => {
+		const old = issuePairingCode();
+		const current = issuePairingCode();
+		expect(redeemPairingCode(old)).toBe('invalid');
+		expect(redeemPairingCode(current)).toBe('paired');
+	});
+
+	test('gives up on the code after too many wrong guesses', () => {
+		const code = issuePairingCode();
+		for (let i = 1; i < MAX_PAIRING_ATTEMPTS; i++)
+			expect(redeemPairingCode('WRONG')).toBe('invalid');
+		expect(redeemPairingCode('WRONG')).toBe('rotated');
+		expect(redeemPairingCode(code)).toBe('invalid');
+	});
+});
+
+describe('tokens', () => {
+	test('reads bearer tokens', () => {
+		expect(bearerToken('Bearer abc-123')).toBe('abc-123');
+		expect(bearerToken('bearer abc')).toBe('abc');
+		expect(bearerToken('Basic abc')).toBeUndefined();
+		expect(bearerToken('Bearer a b')).toBeUndefined();
+		expect(bearerToken(undefined)).toBeUndefined();
+	});
+
+	test('hashes tokens for storage', () => {
+		expect(hashToken('secret')).toMatch(/^[0-9a-f]{64}$/);
+		expect(hashToken('secret')).not.toBe(hashToken('secret2'));
+	});
+});
+
+describe('pairingLink', () => {
+	test('encodes the server URL and code', () => {
+		expect(pairingLink('http://192.168.1.5:3001', 'ABCD2345')).toBe(
+			'claudet://pair?url=http%3A%2F%2F192.168.1.5%3A3001&code=ABCD2345',
+		);
+	});
+
+	test('carries the certificate fingerprint over TLS', () => {
+		expect(pairingLink('https://192.168.1.5:3001', 'ABCD2345', 'ab12')).toBe(
+			'claudet://pair?url=https%3A%2F%2F192.168.1.5%3A3001&code=ABCD2345&fp=ab12',
+		);
+	});
+});
+
+describe('device roles', () => {
+	test('viewers can only read', () => {
+		expect(roleAllows('viewer', 'GET')).toBe(true);
+		for (const method of ['POST', 'PUT', 'PATCH', 'DELETE']) {
+			expect(roleAllows('viewer', method)).toBe(false);
+			expect(roleAllows('full', method)).toBe(true);
+		}
+	});
+
+	test('accepts only known roles', () => {
+		expect(validateDeviceRole('viewer')).toBe('viewer');
+		expect(() => validateDeviceRole('admin')).toThrow('role must be one of full, viewer');
+	});
+});
+
+describe('validateDeviceName', () => {
+	test('defaults and trims the name', () => {
+		expect(validateDeviceName(undefined)).toBe('Phone');
+		expect(validateDeviceName(' Ada’s iPhone ')).toBe('Ada’s iPhone');
+		expect(() => validateDeviceName('')).toThrow(/non-empty/);
+		expect(() => validateDeviceName('x'.repeat(101))).toThrow(/at most/);
+	});
+});
@@ -0,0 +1,129 @@
+/**
+ * Phones authenticate with a bearer token they get by pairing: the server prints a QR code holding
+ * its URL and a one-time code, and the app trades the code for a long-lived device token. Only a
+ * hash of each token is stored, so a copy of the database can't be used to act as a phone.
+ */
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+
+/** What a paired device may do: 'full' is everything, a 'viewer' can only read */
+export const DEVICE_ROLES = ['full', 'viewer'] as const;
+export type DeviceRole = (typeof DEVICE_ROLES)[number];
+
+/** A phone paired with this server */
+export interface Device {
+	id: string;
+	name: string;
+	role: DeviceRole;
+	/** ISO timestamps */
+	createdAt: string;
+	lastSeenAt?: string;
+}
+
+// No 0/O or 1/I, so the code can be typed in when the camera won't scan
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+// Wrong guesses before the code is replaced, so it can't be brute-forced from the network
+export const MAX_PAIRING_ATTEMPTS = 5;
+
+const MAX_DEVICE_NAME_LENGTH = 100;
+
+let pairingCode: string | undefined;
+let failedAttempts = 0;
+
+// Lets the permission MCP helper (a grandchild of this process) call back without pairing
+const INTERNAL_TOKEN = randomBytes(32).toString('base64url');
+
+export function internalToken(): string {
+	return INTERNAL_TOKEN;
+}
+
+/** Replace the pairing code with a fresh one; the previous code stops working */
+export function issuePairingCode(): string {
+	pairingCode = Array.from(
+		{ length: CODE_LENGTH },
+		() => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)],
+	).join('');
+	failedAttempts = 0;
+	return pairingCode;
+}
+
+function sameSecret(a: string, b: string): boolean {
+	return timingSafeEqual(
+		createHash('sha256').update(a).digest(),
+		createHash('sha256').update(b).digest(),
+	);
+}
+
+export type PairingResult = 'paired' | 'invalid' | 'rotated';
+
+/**
+ * Use up the pairing code. 'rotated' means too many wrong codes were tried and the code was
+ * dropped — as after 'paired', the caller should issue and show a new one.
+ */
+export function redeemPairingCode(code: string): PairingResult {
+	if (pairingCode === undefined) return 'invalid';
+	if (sameSecret(code.trim().toUpperCase(), pairingCode)) {
+		pairingCode = undefined;
+		return 'paired';
+	}
+	failedAttempts++;
+	if (failedAttempts < MAX_PAIRING_ATTEMPTS) return 'invalid';
+	pairingCode = undefined;
+	return 'rotated';
+}
+
+/**
+ * What the QR code encodes; the app also accepts it pasted in. Over TLS it carries the certificate
+ * fingerprint (`fp`), which the app pins instead of trusting a CA.
+ */
+export function pairingLink(serverUrl: string, code: string, fingerprint?: string): string {
+	const link = `claudet://pair?url=${encodeURIComponent(serverUrl)}&code=${code}`;
+	return fingerprint ? `${link}&fp=${fingerprint}` : link;
+}
+
+export function createDeviceToken(): string {
+	return randomBytes(32).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex');
+}
+
+/** The token of an `Authorization: Bearer <token>` header */
+export function bearerToken(header: string | undefined): string | undefined {
+	const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+	return match?.[1];
+}
+
+export function isInternalToken(token: string): boolean {
+	return sameSecret(token, INTERNAL_TOKEN);
+}
+
+/**
+ * Whether a device with this role may make the request. Viewers only read — no messages, no
+ * permission or settings changes — which for this API means GET requests only.
+ */
+export function roleAllows(role: DeviceRole, method: string): boolean {
+	return role === 'full' || method === 'GET' || method === 'HEAD';
+}
+
+/** Checks a role from the app; throws with a client-facing message */
+export function validateDeviceRole(raw: unknown): DeviceRole {
+	if (!DEVICE_ROLES.includes(raw as DeviceRole)) {
+		throw new Error(`role must be one of ${DEVICE_ROLES.join(', ')}`);
+	}
+	return raw as DeviceRole;
+}
+
+/** Checks a device name from the app; throws with a client-facing message */
+export function validateDeviceName(raw: unknown): string {
+	if (raw === undefined || raw === null) return 'Phone';
+	if (typeof raw !== 'string' || raw.trim() === '') {
+		throw new Error('name must be a non-empty string');
+	}
+	if (raw.length > MAX_DEVICE_NAME_LENGTH) {
+		throw new Error(`name can be at most ${MAX_DEVICE_NAME_LENGTH} characters`);
+	}
+	return raw.trim();
+}
@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest';
+import type { SessionMessage } from './claude';
+import { type BranchLink, branchOrigin, branchPoints, messageOwner, replyBefore } from './branches';
+
+const prompt = (content: string): SessionMessage => ({ role: 'user', content });
+const reply = (content: string): SessionMessage => ({ role: 'assistant', content });
+
+// main: the original; b1, b2: prompt 2 of main edited twice; c: prompt 4 of b2 edited
+const LINKS: Record<string, BranchLink> = {
+	main: {},
+	b1: { parentSessionId: 'main', branchMessageIndex: 2 },
+	b2: { parentSessionId: 'main', branchMessageIndex: 2 },
+	c: { parentSessionId: 'b2', branchMessageIndex: 4 },
+};
+const linkOf = (id: string) => LINKS[id];
+const branchesOf = (originId: string, messageIndex: number) =>
+	Object.keys(LINKS).filter(
+		(id) =>
+			LINKS[id]?.parentSessionId === originId && LINKS[id]?.branchMessageIndex === messageIndex,
+	);
+
+const HISTORY = [prompt('a'), reply('A'), prompt('b'), reply('B'), prompt('c'), reply('C')];
+
+describe('messageOwner', () => {
+	test('walks up to the session a message was sent in', () => {
+		expect(messageOwner('c', 5, linkOf)).toBe('c');
+		expect(messageOwner('c', 4, linkOf)).toBe('c');
+		expect(messageOwner('c', 3, linkOf)).toBe('b2');
+		expect(messageOwner('c', 1, linkOf)).toBe('main');
+		expect(messageOwner('main', 4, linkOf)).toBe('main');
+	});
+
+	test('stops at a branch whose parent was deleted', () => {
+		expect(messageOwner('orphan', 0, () => ({ branchMessageIndex: 2 }))).toBe('orphan');
+	});
+});
+
+describe('branchOrigin', () => {
+	test('is the session the first version of the prompt was sent in', () => {
+		expect(branchOrigin('main', 2, linkOf)).toBe('main');
+		expect(branchOrigin('b1', 2, linkOf)).toBe('main');
+		expect(branchOrigin('c', 2, linkOf)).toBe('main');
+		expect(branchOrigin('c', 4, linkOf)).toBe('b2');
+		expect(branchOrigin('b2', 4, linkOf)).toBe('b2');
+	});
+});
+
+describe('branchPoints', () => {
+	test('lists the versions of each edited prompt', () => {
+		expect(branchPoints('c', HISTORY, linkOf, branchesOf)).toEqual([
+			{ messageIndex: 2, sessionIds: ['main', 'b1', 'b2'], current: 2 },
+			{ messageIndex: 4, sessionIds: ['b2', 'c'], current: 1 },
+		]);
+		expect(branchPoints('main', HISTORY, linkOf, branchesOf)).toEqual([
+			{ messageIndex: 2, sessionIds: ['main', 'b1', 'b2'], current: 0 },
+		]);
+	});
+
+	test('is empty for a session that was never edited', () => {
+		expect(
+			branchPoints(
+				'solo',
+				HISTORY,
+				() => undefined,
+				() => [],
+			),
+		).toEqual([]);
+	});
+});
+
+describe('replyBefore', () => {
+	test('is the last reply before the prompt, skipping failures', () => {
+		const failure: SessionMessage = {
+			role: 'assistant',
+			content: '',
+			failure: { kind: 'crash', exitCode: 1, stderr: '', failedAt: '2026-05-04T09:30:00.000Z' },
+		};
+		expect(replyBefore(HISTORY, 4)).toBe(3);
+		expect(replyBefore([prompt('a'), reply('A'), prompt('b'), failure, prompt('b')], 4)).toBe(1);
+		expect(replyBefore(HISTORY, 0)).toBe(-1);
+	});
+});
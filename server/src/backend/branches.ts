@@ -0,0 +1,91 @@
+/**
+ * Editing or regenerating a prompt can't rewrite the CLI transcript, so it branches instead: a new
+ * session forked just before the prompt, which re-sends it. Branches hang off the session they were
+ * made from (parentSessionId) at the prompt's index, so every version of a prompt stays reachable.
+ */
+import type { SessionMessage } from './claude';
+
+/** How a session relates to the one it branched from; both unset for ordinary sessions */
+export interface BranchLink {
+	parentSessionId?: string;
+	branchMessageIndex?: number;
+}
+
+/** The versions of the prompt at `messageIndex`, oldest first; `current` is this session's */
+export interface BranchPoint {
+	messageIndex: number;
+	sessionIds: string[];
+	current: number;
+}
+
+export type BranchLinkLookup = (sessionId: string) => BranchLink | undefined;
+
+/**
+ * The session where message `messageIndex` of `sessionId` was sent. A branch copies the history
+ * before its prompt, so earlier messages belong to the session it branched from (and so on up).
+ */
+export function messageOwner(
+	sessionId: string,
+	messageIndex: number,
+	linkOf: BranchLinkLookup,
+): string {
+	let id = sessionId;
+	for (;;) {
+		const link = linkOf(id);
+		if (
+			link?.parentSessionId === undefined ||
+			link.branchMessageIndex === undefined ||
+			link.branchMessageIndex <= messageIndex
+		) {
+			return id;
+		}
+		id = link.parentSessionId;
+	}
+}
+
+/**
+ * The session whose prompt at `messageIndex` the versions of it (in `sessionId`'s line) branch
+ * from: the original prompt's session, even when editing one of its branches again.
+ */
+export function branchOrigin(
+	sessionId: string,
+	messageIndex: number,
+	linkOf: BranchLinkLookup,
+): string {
+	const owner = messageOwner(sessionId, messageIndex, linkOf);
+	const link = linkOf(owner);
+	return link?.branchMessageIndex === messageIndex && link.parentSessionId !== undefined
+		? link.parentSessionId
+		: owner;
+}
+
+/** The prompts of a session that have more than one version, for navigating between them */
+export function branchPoints(
+	sessionId: string,
+	messages: SessionMessage[],
+	linkOf: BranchLinkLookup,
+	branchesOf: (originId: string, messageIndex: number) => string[],
+): BranchPoint[] {
+	const points: BranchPoint[] = [];
+	messages.forEach((message, messageIndex) => {
+		if (message.role !== 'user') return;
+		const owner = messageOwner(sessionId, messageIndex, linkOf);
+		const origin = branchOrigin(owner, messageIndex, linkOf);
+		const branches = branchesOf(origin, messageIndex);
+		if (branches.length === 0) return;
+		const sessionIds = [origin, ...branches];
+		points.push({ messageIndex, sessionIds, current: sessionIds.indexOf(owner) });
+	});
+	return points;
+}
+
+/**
+ * Index of the reply a branch at `messageIndex` forks the CLI session from — the last one before
+ * the prompt — or -1 when there is none and the branch starts a new CLI session. Failure entries
+ * never reached the CLI, so they are skipped.
+ */
+export function replyBefore(messages: SessionMessage[], messageIndex: number): number {
+	let cut = messageIndex - 1;
+	while (cut >= 0 && (messages[cut]?.role !== 'assistant' || messages[cut]?.failure)) cut--;
+	return cut;
+}
@@ -0,0 +1,217 @@
+import { describe, test, expect } from 'vitest';
+import { createStreamParser } from './claude-stream';
+
+const line = (obj: unknown) => JSON.stringify(obj);
+
+const textDelta = (text: string) =>
+	line({
+		type: 'stream_event',
+		event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+	});
+
+const blockStart = (block: unknown) =>
+	line({ type: 'stream_event', event: { type: 'content_block_start', content_block: block } });
+
+describe('createStreamParser', () => {
+	test('emits init with the model from the system line', () => {
+		const parser = createStreamParser();
+		expect(parser.push(line({ type: 'system', subtype: 'init', model: 'claude-haiku' }))).toEqual([
+			{ type: 'init', model: 'claude-haiku' },
+		]);
+	});
+
+	test('emits text deltas from partial stream events', () => {
+		const parser = createStreamParser();
+		expect(parser.push(textDelta('Hel'))).toEqual([{ type: 'delta', text: 'Hel' }]);
+		expect(parser.push(textDelta('lo'))).toEqual([{ type: 'delta', text: 'lo' }]);
+		expect(parser.response()).toBe('Hello');
+	});
+
+	test('emits tool events when a tool_use block starts', () => {
+		const parser = createStreamParser();
+		expect(parser.push(blockStart({ type: 'tool_use', name: 'Bash' }))).toEqual([
+			{ type: 'tool', name: 'Bash' },
+		]);
+	});
+
+	test('separates consecutive text blocks with a blank line', () => {
+		const parser = createStreamParser();
+		parser.push(blockStart({ type: 'text', text: '' }));
+		parser.push(textDelta('Before'));
+		expect(parser.push(blockStart({ type: 'text', text: '' }))).toEqual([
+			{ type: 'delta', text: '\n\n' },
+		]);
+	});
+
+	test('ignores complete assistant lines once partial deltas were seen', () => {
+		const parser = createStreamParser();
+		parser.push(textDelta('Hi'));
+		const events = parser.push(
+			line({ type: 'assistant', message: { content: [{ type: 'text', text: 'Hi' }] } }),
+		);
+		expect(events).toEqual([]);
+	});
+
+	test('falls back to complete assistant lines without partial deltas', () => {
+		const parser = createStreamParser();
+		const events = parser.push(
+			line({
+				type: 'assistant',
+				message: {
+					content: [
+						{ type: 'text', text: 'Let me check' },
+						{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'a.ts' } },
+					],
+				},
+			}),
+		);
+		expect(events).toEqual([
+			{ type: 'delta', text: 'Let me check' },
+			{ type: 'tool', name: 'Read' },
+			{
+				type: 'turn_event',
+				event: {
+					kind: 'tool_use',
+					toolUseId: 'toolu_1',
+					name: 'Read',
+					input: { file_path: 'a.ts' },
+				},
+			},
+		]);
+	});
+
+	test('prefers the result field as the final response', () => {
+		const parser = createStreamParser();
+		parser.push(textDelta('intermediate text'));
+		parser.push(line({ type: 'result', subtype: 'success', is_error: false, result: ' final ' }));
+		expect(parser.response()).toBe('final');
+		expect(parser.isError()).toBe(false);
+	});
+
+	test('flags error results', () => {
+		const parser = createStreamParser();
+		parser.push(line({ type: 'result', subtype: 'error_max_turns', is_error: true }));
+		expect(parser.isError()).toBe(true);
+	});
+
+	test('records text, tool calls and tool results as turn events in order', () => {
+		const parser = createStreamParser();
+		parser.push(textDelta('Checking'));
+		parser.push(
+			line({
+				type: 'assistant',
+				message: {
+					content: [
+						{ type: 'text', text: 'Checking' },
+						{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } },
+					],
+				},
+			}),
+		);
+		const resultEvents = parser.push(
+			line({
+				type: 'user',
+				message: {
+					content: [
+						{
+							type: 'tool_result',
+							tool_use_id: 'toolu_1',
+							content: [{ type: 'text', text: 'a.ts' }],
+						},
+					],
+				},
+			}),
+		);
+		expect(resultEvents).toEqual([
+			{
+				type: 'turn_event',
+				event: { kind: 'tool_result', toolUseId: 'toolu_1', output: 'a.ts', isError: false },
+			},
+		]);
+		expect(parser.events().map((e) => e.kind)).toEqual(['text', 'tool_use', 'tool_result']);
+	});
+
+	test('skips steps nested under a subagent call', () => {
+		const parser = createStreamParser();
+		parser.push(
+			line({
+				type: 'assistant',
+				parent_tool_use_id: 'toolu_task',
+				message: { content: [{ type: 'tool_use', id: 'toolu_2', name: 'Read', input: {} }] },
+			}),
+		);
+		expect(parser.events()).toEqual([]);
+	});
+
+	test('truncates very long tool output', () => {
+		const parser = createStreamParser();
+		parser.push(
+			line({
+				type: 'user',
+				message: {
+					content: [{ type: 'tool_result', tool_use_id: 't', content: 'x'.repeat(25_000) }],
+				},
+			}),
+		);
+		const [event] = parser.events();
+		expect(event?.kind === 'tool_result' && event.output.length).toBeLessThan(21_000);
+	});
+
+	test('records an error event for error results', () => {
+		const parser = createStreamParser();
+		parser.push(line({ type: 'result', subtype: 'success', is_error: true, result: 'API Error' }));
+		expect(parser.events()).toEqual([{ kind: 'error', message: 'API Error' }]);
+	});
+
+	test('captures tokens and cost from the result line', () => {
+		const parser = createStreamParser();
+		expect(parser.usage()).toBeUndefined();
+		parser.push(line({ type: 'system', subtype: 'init', model: 'claude-sonnet-4-5' }));
+		parser.push(
+			line({
+				type: 'result',
+				subtype: 'success',
+				is_error: false,
+				result: 'ok',
+				total_cost_usd: 0.0123,
+				usage: {
+					input_tokens: 12,
+					output_tokens: 340,
+					cache_read_input_tokens: 5000,
+					cache_creation_input_tokens: 800,
+				},
+			}),
+		);
+		expect(parser.usage()).toEqual({
+			model: 'claude-sonnet-4-5',
+			inputTokens: 12,
+			outputTokens: 340,
+			cacheReadTokens: 5000,
+			cacheCreationTokens: 800,
+			costUsd: 0.0123,
+		});
+	});
+
+	test('remembers the uuid of the last top-level assistant message', () => {
+		const parser = createStreamParser();
+		const assistant = (uuid: string, parent: string | null = null) =>
+			line({
+				type: 'assistant',
+				uuid,
+				parent_tool_use_id: parent,
+				message: { content: [{ type: 'text', text: 'hi' }] },
+			});
+		expect(parser.messageUuid()).toBeUndefined();
+		parser.push(assistant('a-1'));
+		parser.push(assistant('sub-1', 'toolu_task'));
+		parser.push(assistant('a-2'));
+		parser.push(line({ type: 'user', uuid: 'u-1', message: { content: [] } }));
+		expect(parser.messageUuid()).toBe('a-2');
+	});
+
+	test('ignores blank and non-JSON lines', () => {
+		const parser = createStreamParser();
+		expect(parser.push('')).toEqual([]);
+		expect(parser.push('warning: something')).toEqual([]);
+	});
+});
@@ -0,0 +1,252 @@
+/**
+ * Parser for `claude --print --output-format stream-json` output.
+ * The CLI writes one JSON object per stdout line; only the fields claudet uses are modelled here.
+ */
+
+import type { RunFailure } from './failures';
+import type { PermissionEvent } from './permissions';
+
+/** One structured step of an assistant turn, persisted alongside the message it belongs to */
+export type TurnEvent =
+	| { kind: 'text'; text: string }
+	| { kind: 'tool_use'; toolUseId: string; name: string; input: unknown }
+	| { kind: 'tool_result'; toolUseId: string; output: string; isError: boolean }
+	| { kind: 'error'; message: string };
+
+/** Token counts and cost the CLI reports for a run */
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens: number;
+	cacheCreationTokens: number;
+	costUsd: number;
+}
+
+/** Usage of one assistant turn, tagged with the model that served it */
+export interface TurnUsage extends TokenUsage {
+	model?: string;
+}
+
+export type ChatStreamEvent =
+	| { type: 'init'; model: string }
+	| { type: 'delta'; text: string }
+	| { type: 'tool'; name: string }
+	| { type: 'turn_event'; event: TurnEvent }
+	| { type: 'done'; response: string; events?: TurnEvent[]; usage?: TurnUsage }
+	| PermissionEvent
+	| { type: 'cancelled' }
+	/** `failure` is set when the CLI failed; the same failure is recorded in the history */
+	| { type: 'error'; error: string; failure?: RunFailure };
+
+// Tool output can be huge (whole files, long logs) — keep enough to be useful on a phone
+const MAX_TOOL_OUTPUT = 20_000;
+
+interface ContentBlock {
+	type?: string;
+	text?: string;
+	name?: string;
+	id?: string;
+	input?: unknown;
+	tool_use_id?: string;
+	content?: unknown;
+	is_error?: boolean;
+}
+
+interface CliLine {
+	type?: string;
+	subtype?: string;
+	uuid?: string;
+	model?: string;
+	result?: unknown;
+	is_error?: boolean;
+	total_cost_usd?: number;
+	usage?: {
+		input_tokens?: number;
+		output_tokens?: number;
+		cache_read_input_tokens?: number;
+		cache_creation_input_tokens?: number;
+	};
+	parent_tool_use_id?: string | null;
+	message?: { content?: ContentBlock[] | string };
+	event?: {
+		type?: string;
+		content_block?: ContentBlock;
+		delta?: { type?: string; text?: string };
+	};
+}
+
+export interface StreamParser {
+	/** Feed one stdout line; returns the client-facing events it produced (possibly none) */
+	push(line: string): ChatStreamEvent[];
+	/** Final assistant text: the CLI's `result` field, falling back to the streamed text */
+	response(): string;
+	/** True when the CLI reported the run itself as an error */
+	isError(): boolean;
+	/** Text, tool calls, tool results and errors of the turn so far, in order */
+	events(): TurnEvent[];
+	/** Tokens and cost from the `result` line; undefined until it arrives (e.g. a killed run) */
+	usage(): TurnUsage | undefined;
+	/** CLI uuid of the turn's last assistant message — what `--resume-session-at` forks from */
+	messageUuid(): string | undefined;
+}
+
+// tool_result content is either a string or a list of content blocks
+export function toolOutput(content: unknown): string {
+	let text = '';
+	if (typeof content === 'string') text = content;
+	else if (Array.isArray(content)) {
+		text = content
+			.map((c: ContentBlock) => (c.type === 'text' ? (c.text ?? '') : `[${c.type ?? 'content'}]`))
+			.join('\n');
+	}
+	return text.length > MAX_TOOL_OUTPUT
+		? `${text.slice(0, MAX_TOOL_OUTPUT)}\n… (${text.length - MAX_TOOL_OUTPUT} more characters)`
+		: text;
+}
+
+export function createStreamParser(): StreamParser {
+	let streamed = '';
+	let result: string | undefined;
+	let errored = false;
+	// Set once partial deltas arrive — complete `assistant` lines then repeat text we already emitted
+	let sawPartial = false;
+	const turnEvents: TurnEvent[] = [];
+	let model: string | undefined;
+	let usage: TurnUsage | undefined;
+	let messageUuid: string | undefined;
+
+	// Record a structured step; tool steps are also forwarded live so clients can render cards mid-run
+	const record = (event: TurnEvent): ChatStreamEvent[] => {
+		turnEvents.push(event);
+		return event.kind === 'text' ? [] : [{ type: 'turn_event', event }];
+	};
+
+	const appendText = (text: string): ChatStreamEvent[] => {
+		if (!text) return [];
+		streamed += text;
+		return [{ type: 'delta', text }];
+	};
+
+	// Separate consecutive text blocks (e.g. before/after a tool call) with a blank line
+	const blockSeparator = (): ChatStreamEvent[] =>
+		streamed && !streamed.endsWith('\n\n') ? appendText('\n\n') : [];
+
+	return {
+		push(line) {
+			const trimmed = line.trim();
+			if (!trimmed) return [];
+
+			let parsed: CliLine;
+			try {
+				parsed = JSON.parse(trimmed) as CliLine;
+			} catch {
+				// Non-JSON noise (e.g. CLI warnings) — ignore rather than fail the run
+				return [];
+			}
+
+			switch (parsed.type) {
+				case 'system':
+					if (parsed.subtype !== 'init' || !parsed.model) return [];
+					model = parsed.model;
+					return [{ type: 'init', model: parsed.model }];
+
+				case 'stream_event': {
+					sawPartial = true;
+					const event = parsed.event;
+					if (event?.type === 'content_block_start') {
+						if (event.content_block?.type === 'text') return blockSeparator();
+						if (event.content_block?.type === 'tool_use' && event.content_block.name) {
+							return [{ type: 'tool', name: event.content_block.name }];
+						}
+					}
+					if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+						return appendText(event.delta.text ?? '');
+					}
+					return [];
+				}
+
+				case 'assistant': {
+					const content = parsed.message?.content;
+					// Steps of subagents (Task tool) are nested under their parent call — keep the top level only
+					if (!Array.isArray(content) || parsed.parent_tool_use_id) return [];
+					if (parsed.uuid) messageUuid = parsed.uuid;
+					const events: ChatStreamEvent[] = [];
+					for (const block of content) {
+						if (block.type === 'text' && block.text) {
+							record({ kind: 'text', text: block.text });
+							if (!sawPartial) events.push(...blockSeparator(), ...appendText(block.text));
+						} else if (block.type === 'tool_use' && block.name) {
+							if (!sawPartial) events.push({ type: 'tool', name: block.name });
+							events.push(
+								...record({
+									kind: 'tool_use',
+									toolUseId: block.id ?? '',
+									name: block.name,
+									input: block.input ?? {},
+								}),
+							);
+						}
+					}
+					return events;
+				}
+
+				case 'user': {
+					const content = parsed.message?.content;
+					if (!Array.isArray(content) || parsed.parent_tool_use_id) return [];
+					const events: ChatStreamEvent[] = [];
+					for (const block of content) {
+						if (block.type !== 'tool_result') continue;
+						events.push(
+							...record({
+								kind: 'tool_result',
+								toolUseId: block.tool_use_id ?? '',
+								output: toolOutput(block.content),
+								isError: block.is_error === true,
+							}),
+						);
+					}
+					return events;
+				}
+
+				case 'result':
+					if (typeof parsed.result === 'string') result = parsed.result;
+					errored = parsed.is_error === true || parsed.subtype !== 'success';
+					if (errored) {
+						record({ kind: 'error', message: result || `Claude run ended with ${parsed.subtype}` });
+					}
+					usage = {
+						model,
+						inputTokens: parsed.usage?.input_tokens ?? 0,
+						outputTokens: parsed.usage?.output_tokens ?? 0,
+						cacheReadTokens: parsed.usage?.cache_read_input_tokens ?? 0,
+						cacheCreationTokens: parsed.usage?.cache_creation_input_tokens ?? 0,
+						costUsd: parsed.total_cost_usd ?? 0,
+					};
+					return [];
+
+				default:
+					return [];
+			}
+		},
+
+		response() {
+			return (result ?? streamed).trim();
+		},
+
+		isError() {
+			return errored;
+		},
+
+		events() {
+			return [...turnEvents];
+		},
+
+		usage() {
+			return usage;
+		},
+
+		messageUuid() {
+			return messageUuid;
+		},
+	};
+}
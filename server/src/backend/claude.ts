@@ -1,25 +1,73 @@
 import { spawn } from 'node:child_process';
 import { randomUUID } from 'node:crypto';
+import { createInterface } from 'node:readline';
+import {
+	type ChatStreamEvent,
+	createStreamParser,
+	type TokenUsage,
+	type TurnEvent,
+	type TurnUsage,
+} from './claude-stream';
 import {
 	dbAppendMessage,
+	dbClearPendingFork,
 	dbCreateSession,
 	dbDeleteSession,
+	dbForkSession,
+	dbGetBranchLink,
+	dbImportSession,
+	dbListBranches,
+	dbSearch,
+	dbSyncMessages,
 	dbGetSession,
 	dbListSessions,
 	dbUpdateMessageCount,
 	dbUpdateSession,
+	dbUsageByGroup,
 } from './db';
-
-export type PermissionMode = 'allowEdits' | 'dangerouslySkipPermissions';
+import { internalToken } from './auth';
+import { type BranchPoint, branchOrigin, branchPoints, replyBefore } from './branches';
+import { runFakeClaude } from './fake-claude';
+import { createFailure, RunFailedError, type RunFailure } from './failures';
+import {
+	type ApprovalCall,
+	PERMISSION_PROMPT_TOOL,
+	type PermissionCallback,
+	permissionMcpConfig,
+	permissionMcpEnv,
+} from './permission-mcp';
+import {
+	denyPendingPermissions,
+	forgetSessionPermissions,
+	PERMISSION_TIMEOUT_MS,
+	type PermissionResult,
+	requestPermission,
+} from './permissions';
+import { profileArgs } from './profiles';
+import type { SearchHit, SearchQuery } from './search';
+import { reconcileHistory, type SyncResult } from './sync';
+import { type PermissionMode, permissionArgs, type ToolRules } from './tool-permissions';
+import { listTranscripts, readTranscript, type Transcript } from './transcripts';
+import { summarizeUsage, type UsageQuery, type UsageSummary } from './usage';
 
 export type ClaudeModel = 'haiku' | 'sonnet' | 'opus';
 
 export interface SessionMessage {
 	role: 'user' | 'assistant';
 	content: string;
+	/** Set on the assistant entry recorded when a run was cancelled mid-flight */
+	interrupted?: boolean;
+	/** Structured steps of an assistant turn (text, tool calls and results), when captured */
+	events?: TurnEvent[];
+	/** Tokens and cost the CLI reported for this assistant turn */
+	usage?: TurnUsage;
+	/** The CLI's uuid for this assistant turn, needed to fork the session from it */
+	cliMessageUuid?: string;
+	/** Set on the entry recorded when a run failed; such entries have no content of their own */
+	failure?: RunFailure;
 }
 
-export interface Session {
+export interface Session extends ToolRules {
 	id: string;
 	model: ClaudeModel;
 	createdAt: Date;
@@ -27,13 +75,97 @@ export interface Session {
 	messages: SessionMessage[];
 	projectPath: string;
 	permissionMode: PermissionMode;
+	/** From the project profile at creation; passed as --append-system-prompt on every run */
+	appendSystemPrompt?: string;
+	/** From the project profile at creation; extra CLI flags passed on every run */
+	extraArgs: string[];
 	name?: string;
+	/** Set on forks: the session this one was forked from */
+	parentSessionId?: string;
+	/**
+	 * Set on forks until their first run: the CLI session (and message) that run forks from.
+	 * Cleared once the CLI has created the forked session.
+	 */
+	pendingFork?: { fromSessionId: string; atMessageUuid?: string };
+	/** Set on branches: the index of the prompt this branch re-sent in place of the parent's */
+	branchMessageIndex?: number;
+	/** Running totals across every assistant turn in the session */
+	usage: TokenUsage;
+}
+
+/** Thrown by sendMessage when the run was cancelled via cancelRun */
+export class RunCancelledError extends Error {
+	constructor(sessionId: string) {
+		super(`Run for session ${sessionId} was cancelled`);
+		this.name = 'RunCancelledError';
+	}
+}
+
+/** Thrown by sendMessage when the session already has a CLI process running */
+export class SessionBusyError extends Error {
+	constructor(sessionId: string) {
+		super(`Session ${sessionId} already has a run in progress`);
+		this.name = 'SessionBusyError';
+	}
+}
+
+interface ActiveRun {
+	controller: AbortController;
+	onEvent: (event: ChatStreamEvent) => void;
+}
+
+// In-flight runs keyed by session id — lets the API cancel a run it didn't start
+const activeRuns = new Map<string, ActiveRun>();
+
+// Where the permission MCP server (a child of the CLI) reaches this server
+let callbackUrl = process.env.CLAUDET_URL ?? 'http://127.0.0.1:3001';
+let callbackCa: string | undefined;
+
+/**
+ * Called once the server listens, with its own URL and its certificate when it serves HTTPS.
+ * CLAUDET_URL, if set, still says where it's reachable.
+ */
+export function setCallbackAddress(url: string, ca?: string): void {
+	if (!process.env.CLAUDET_URL) callbackUrl = url;
+	callbackCa = ca;
+}
+
+function permissionCallback(): PermissionCallback {
+	return { url: callbackUrl, token: internalToken(), ca: callbackCa };
+}
+
+// How long a cancelled CLI gets to exit after SIGTERM before it is SIGKILLed
+const KILL_GRACE_MS = 5000;
+
+// CLAUDE_DIR overrides project path (keeps dev:test script working)
+function sessionCwd(session: Session): string {
+	return process.env.CLAUDE_DIR ?? session.projectPath;
+}
+
+export function isRunActive(sessionId: string): boolean {
+	return activeRuns.has(sessionId);
 }
 
+/** Abort the in-flight run for a session. Returns false if nothing was running. */
+export function cancelRun(sessionId: string): boolean {
+	const run = activeRuns.get(sessionId);
+	if (!run) return false;
+	run.controller.abort();
+	return true;
+}
+
+/** Session settings chosen at creation; unset fields get the defaults below */
+export type SessionConfig = Partial<
+	Pick<
+		Session,
+		'permissionMode' | 'allowedTools' | 'disallowedTools' | 'appendSystemPrompt' | 'extraArgs'
+	>
+>;
+
 export function createSession(
 	model: ClaudeModel = 'haiku',
 	projectPath: string,
-	permissionMode: PermissionMode = 'allowEdits',
+	config: SessionConfig = {},
 ): Session {
 	const id = randomUUID();
 	const session: Session = {
@@ -43,7 +175,18 @@ export function createSession(
 		messageCount: 0,
 		messages: [],
 		projectPath,
-		permissionMode,
+		permissionMode: config.permissionMode ?? 'allowEdits',
+		allowedTools: config.allowedTools ?? [],
+		disallowedTools: config.disallowedTools ?? [],
+		appendSystemPrompt: config.appendSystemPrompt,
+		extraArgs: config.extraArgs ?? [],
+		usage: {
+			inputTokens: 0,
+			outputTokens: 0,
+			cacheReadTokens: 0,
+			cacheCreationTokens: 0,
+			costUsd: 0,
+		},
 	};
 	dbCreateSession(session);
 	return session;
@@ -57,6 +200,14 @@ export function setSessionPermissionMode(id: string, mode: PermissionMode): Sess
 	return session;
 }
 
+export function setSessionToolRules(id: string, rules: Partial<ToolRules>): Session | undefined {
+	const session = dbGetSession(id);
+	if (!session) return undefined;
+	dbUpdateSession(id, rules);
+	Object.assign(session, rules);
+	return session;
+}
+
 export function renameSession(id: string, name: string): Session | undefined {
 	const session = dbGetSession(id);
 	if (!session) return undefined;
@@ -64,10 +215,181 @@ export function renameSession(id: string, name: string): Session | undefined {
 	return { ...session, name };
 }
 
+/**
+ * Fork a session after the message at `messageIndex` (default: the latest). Forking from a
+ * prompt keeps the history before it, since the CLI can only resume at an assistant reply.
+ * The CLI fork itself happens on the new session's first run. Returns undefined if the parent
+ * doesn't exist; throws with a client-facing message if there is nothing to fork from.
+ */
+export function forkSession(parentId: string, messageIndex?: number): Session | undefined {
+	const parent = dbGetSession(parentId);
+	if (!parent) return undefined;
+	const lastIndex = parent.messages.length - 1;
+	if (lastIndex < 0) throw new Error('There is no reply to fork from yet');
+	const index = messageIndex ?? lastIndex;
+	if (!Number.isInteger(index) || index < 0 || index > lastIndex) {
+		throw new Error(`messageIndex must be between 0 and ${lastIndex}`);
+	}
+
+	const cut = replyBefore(parent.messages, index + 1);
+	if (cut < 0) throw new Error('There is no reply before this message to fork from');
+	return createFork(parent, cut, cut + 1, {
+		name: parent.name ? `${parent.name} (fork)` : undefined,
+		parentSessionId: parent.id,
+	});
+}
+
+/**
+ * Branch a session at the prompt at `messageIndex`, to send it again (edited or not) without
+ * losing the original: the branch keeps the history before the prompt and forks the CLI session
+ * at the reply before it, or starts a new one when there is none. Returns undefined if the
+ * session doesn't exist; throws with a client-facing message if there is no prompt there.
+ */
+export function branchSession(sessionId: string, messageIndex: number): Session | undefined {
+	const source = dbGetSession(sessionId);
+	if (!source) return undefined;
+	const message = source.messages[messageIndex];
+	if (!Number.isInteger(messageIndex) || message?.role !== 'user') {
+		throw new Error('messageIndex must point at one of your messages');
+	}
+	return createFork(source, replyBefore(source.messages, messageIndex), messageIndex, {
+		name: source.name,
+		// Versions of a prompt are siblings, however many times it is edited
+		parentSessionId: branchOrigin(source.id, messageIndex, dbGetBranchLink),
+		branchMessageIndex: messageIndex,
+	});
+}
+
+/** The prompts of the session that have been edited or regenerated, with their versions */
+export function listBranchPoints(session: Session): BranchPoint[] {
+	return branchPoints(session.id, session.messages, dbGetBranchLink, dbListBranches);
+}
+
+// A new session with the first `copyCount` messages of `source`, whose first run forks the CLI
+// session at the reply at `cut` (or starts afresh when `cut` is -1)
+function createFork(
+	source: Session,
+	cut: number,
+	copyCount: number,
+	fields: Pick<Session, 'name' | 'parentSessionId' | 'branchMessageIndex'>,
+): Session {
+	let pendingFork: Session['pendingFork'];
+	if (cut >= 0) {
+		// A fork that never ran has no CLI session of its own yet; fork from where it would have
+		const fromSessionId = source.pendingFork?.fromSessionId ?? source.id;
+		const isLatest = cut === source.messages.length - 1;
+		const atMessageUuid =
+			source.messages[cut]?.cliMessageUuid ??
+			(isLatest ? source.pendingFork?.atMessageUuid : undefined);
+		if (!atMessageUuid && !isLatest) {
+			throw new Error('This reply predates fork support; only the latest reply can be forked');
+		}
+		pendingFork = { fromSessionId, atMessageUuid };
+	}
+
+	const session: Session = {
+		id: randomUUID(),
+		model: source.model,
+		createdAt: new Date(),
+		messageCount: cut + 1,
+		messages: source.messages.slice(0, copyCount),
+		projectPath: source.projectPath,
+		permissionMode: source.permissionMode,
+		allowedTools: source.allowedTools,
+		disallowedTools: source.disallowedTools,
+		appendSystemPrompt: source.appendSystemPrompt,
+		extraArgs: source.extraArgs,
+		...fields,
+		pendingFork,
+		usage: {
+			inputTokens: 0,
+			outputTokens: 0,
+			cacheReadTokens: 0,
+			cacheCreationTokens: 0,
+			costUsd: 0,
+		},
+	};
+	dbForkSession(session, source.id, copyCount);
+	return session;
+}
+
+// Transcripts name full model ids (claude-sonnet-4-5-20250929); claudet sessions use the aliases
+function modelAlias(cliModel: string | undefined, fallback: ClaudeModel): ClaudeModel {
+	return (['opus', 'sonnet', 'haiku'] as const).find((m) => cliModel?.includes(m)) ?? fallback;
+}
+
+/** Desktop CLI sessions of a project that claudet doesn't know yet, most recent first */
+export function listImportableSessions(projectPath: string): Transcript[] {
+	const known = new Set(dbListSessions().map((s) => s.id));
+	return listTranscripts(projectPath).filter((t) => !known.has(t.sessionId));
+}
+
+/**
+ * Create claudet sessions for desktop CLI transcripts. Each keeps the CLI's session id, so the
+ * next message simply `--resume`s it. Ids that are unknown or already imported are skipped.
+ */
+export function importSessions(
+	projectPath: string,
+	sessionIds: string[],
+	defaultModel: ClaudeModel,
+	config: SessionConfig = {},
+): Session[] {
+	const imported: Session[] = [];
+	for (const id of sessionIds) {
+		if (dbGetSession(id)) continue;
+		const transcript = readTranscript(projectPath, id);
+		if (!transcript || transcript.messages.length === 0) continue;
+		const session: Session = {
+			id,
+			model: modelAlias(transcript.model, defaultModel),
+			createdAt: new Date(transcript.createdAt),
+			messageCount: transcript.messages.length,
+			messages: transcript.messages,
+			projectPath,
+			permissionMode: config.permissionMode ?? 'allowEdits',
+			allowedTools: config.allowedTools ?? [],
+			disallowedTools: config.disallowedTools ?? [],
+			appendSystemPrompt: config.appendSystemPrompt,
+			extraArgs: config.extraArgs ?? [],
+			name: transcript.title || undefined,
+			usage: {
+				inputTokens: 0,
+				outputTokens: 0,
+				cacheReadTokens: 0,
+				cacheCreationTokens: 0,
+				costUsd: 0,
+			},
+		};
+		dbImportSession(session, transcript.messages);
+		imported.push(session);
+	}
+	return imported;
+}
+
+/**
+ * Bring a session's stored history in line with its CLI transcript: turns that happened outside
+ * claudet are appended, and histories that disagree are reported without being changed.
+ */
+export function syncSession(id: string): SyncResult | undefined {
+	const session = dbGetSession(id);
+	if (!session) return undefined;
+	if (activeRuns.has(id)) return { status: 'skipped', reason: 'A run is in progress' };
+	const transcript = readTranscript(sessionCwd(session), id);
+	if (!transcript)
+		return { status: 'skipped', reason: 'The CLI has no transcript for this session yet' };
+
+	const result = reconcileHistory(session.messages, transcript.messages);
+	if (result.status !== 'behind') return result;
+	dbSyncMessages(id, result.keep, result.messages);
+	dbUpdateMessageCount(id, session.messageCount + result.messages.length);
+	return { status: 'synced', added: result.messages.length };
+}
+
 export function deleteSession(id: string): boolean {
 	const session = dbGetSession(id);
 	if (!session) return false;
 	dbDeleteSession(id);
+	forgetSessionPermissions(id);
 	return true;
 }
 
@@ -79,64 +401,215 @@ export function listSessions(projectPath?: string): Session[] {
 	return dbListSessions(projectPath);
 }
 
-export async function sendMessage(sessionId: string, message: string): Promise<string> {
+export function getUsage(query: UsageQuery): UsageSummary {
+	return summarizeUsage(dbUsageByGroup(query));
+}
+
+export function searchSessions(query: SearchQuery): SearchHit[] {
+	return dbSearch(query);
+}
+
+/**
+ * Run `message` through the CLI and record the turn. With `retry`, `message` is the failed prompt
+ * already at the end of the history, so it isn't recorded again.
+ */
+export async function sendMessage(
+	sessionId: string,
+	message: string,
+	onEvent: (event: ChatStreamEvent) => void = () => {},
+	{ retry = false }: { retry?: boolean } = {},
+): Promise<string> {
 	const session = dbGetSession(sessionId);
 	if (!session) throw new Error(`Session ${sessionId} not found`);
 
-	// Fake mode for E2E testing — avoids real Claude CLI calls
-	if (process.env.CLAUDE_TEST_FAKE === 'true') {
-		await new Promise((r) => setTimeout(r, 300));
-		const echoResponse = `Echo: ${message.substring(0, 100)}`;
-		dbAppendMessage(sessionId, { role: 'user', content: message });
-		dbAppendMessage(sessionId, { role: 'assistant', content: echoResponse });
-		dbUpdateMessageCount(sessionId, session.messageCount + 2);
-		return echoResponse;
+	// Callers queue runs per session (see runs.ts); this guards against two CLIs sharing one transcript
+	if (activeRuns.has(sessionId)) throw new SessionBusyError(sessionId);
+
+	const controller = new AbortController();
+	activeRuns.set(sessionId, { controller, onEvent });
+	try {
+		if (process.env.CLAUDE_TEST_FAKE === 'true') {
+			return await runFakeClaude(session, message, retry, controller.signal, onEvent, {
+				recordInterrupted,
+				recordFailure,
+				permissionCallback: permissionCallback(),
+			});
+		}
+		return await runClaude(session, message, retry, controller.signal, onEvent);
+	} finally {
+		activeRuns.delete(sessionId);
+		denyPendingPermissions(sessionId);
+	}
+}
+
+/**
+ * Called (via the permission MCP server) when the CLI wants to use a tool outside its allowlist.
+ * The request is streamed to the session's run so clients can show an approval card.
+ */
+export function requestToolApproval(
+	sessionId: string,
+	call: ApprovalCall,
+): Promise<PermissionResult> {
+	const run = activeRuns.get(sessionId);
+	if (!run) {
+		return Promise.resolve({ behavior: 'deny', message: 'No run in progress for this session' });
 	}
+	return requestPermission({ sessionId, ...call }, run.onEvent);
+}
+
+// Record whatever the assistant produced before cancellation, flagged so the UI can mark it
+function recordInterrupted(
+	sessionId: string,
+	partial: string,
+	events: TurnEvent[] = [],
+	cliMessageUuid?: string,
+): never {
+	dbAppendMessage(sessionId, {
+		role: 'assistant',
+		content: partial.trim(),
+		interrupted: true,
+		events,
+		cliMessageUuid,
+	});
+	throw new RunCancelledError(sessionId);
+}
+
+// The CLI failed: keep the failure in the history, then report it
+function recordFailure(sessionId: string, failure: RunFailure): never {
+	dbAppendMessage(sessionId, { role: 'assistant', content: '', failure });
+	throw new RunFailedError(failure);
+}
 
+async function runClaude(
+	session: Session,
+	message: string,
+	retry: boolean,
+	signal: AbortSignal,
+	onEvent: (event: ChatStreamEvent) => void,
+): Promise<string> {
+	const sessionId = session.id;
+	const { pendingFork } = session;
 	const isFirstMessage = session.messageCount === 0;
-	const permArgs =
-		session.permissionMode === 'dangerouslySkipPermissions'
-			? ['--dangerously-skip-permissions']
-			: ['--allowedTools', 'Bash', 'Edit', 'Write', 'MultiEdit', 'Read', 'Glob', 'Grep'];
-	const args: string[] = isFirstMessage
-		? ['--session-id', sessionId, '--model', session.model, ...permArgs, '--print', message]
-		: ['--resume', sessionId, ...permArgs, '--print', message];
+	const permArgs = permissionArgs(session.permissionMode, session, [
+		'--mcp-config',
+		permissionMcpConfig(),
+		'--permission-prompt-tool',
+		PERMISSION_PROMPT_TOOL,
+	]);
+	const sessionArgs = [...permArgs, ...profileArgs(session)];
+	// stream-json with --print requires --verbose; partial messages give token-level text deltas
+	const outputArgs = ['--output-format', 'stream-json', '--verbose', '--include-partial-messages'];
+	// A fork's first run copies the parent's transcript (up to the fork point) under the fork's id
+	const resumeArgs = pendingFork
+		? [
+				'--resume',
+				pendingFork.fromSessionId,
+				'--fork-session',
+				'--session-id',
+				sessionId,
+				...(pendingFork.atMessageUuid ? ['--resume-session-at', pendingFork.atMessageUuid] : []),
+				'--model',
+				session.model,
+			]
+		: isFirstMessage
+			? ['--session-id', sessionId, '--model', session.model]
+			: ['--resume', sessionId];
+	const args = [...resumeArgs, ...sessionArgs, ...outputArgs, '--print', message];
 
 	// Write user message to DB before spawn (matches original optimistic behavior)
-	dbAppendMessage(sessionId, { role: 'user', content: message });
+	if (!retry) dbAppendMessage(sessionId, { role: 'user', content: message });
 	dbUpdateMessageCount(sessionId, session.messageCount + 1);
 
-	// CLAUDE_DIR overrides project path (keeps dev:test script working)
-	const cwd = process.env.CLAUDE_DIR ?? session.projectPath;
+	const cwd = sessionCwd(session);
 
 	// Strip CLAUDECODE from the environment so nested sessions don't get blocked
 	const { CLAUDECODE: _, ...safeEnv } = process.env;
+	// The approval tool blocks while the user decides — don't let the CLI give up on it first
+	safeEnv.MCP_TOOL_TIMEOUT = String(PERMISSION_TIMEOUT_MS + 60_000);
+	// The approval helper finds its way back here through the environment it inherits from the CLI
+	if (session.permissionMode === 'askApproval') {
+		Object.assign(safeEnv, permissionMcpEnv(sessionId, permissionCallback()));
+	}
 
+	// detached puts the CLI in its own process group, so cancelling also reaches the tools it spawned
 	const proc = spawn('claude', args, {
 		stdio: ['ignore', 'pipe', 'pipe'],
 		env: safeEnv as NodeJS.ProcessEnv,
 		cwd,
+		detached: true,
 	});
 
-	const collectStream = (stream: NodeJS.ReadableStream): Promise<string> =>
-		new Promise((resolve) => {
-			const chunks: Buffer[] = [];
-			stream.on('data', (chunk: Buffer) => chunks.push(chunk));
-			stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+	const killTree = (sig: NodeJS.Signals) => {
+		try {
+			process.kill(-proc.pid!, sig);
+		} catch {
+			// Group already gone
+		}
+	};
+	const onAbort = () => {
+		killTree('SIGTERM');
+		setTimeout(() => {
+			if (proc.exitCode === null && proc.signalCode === null) killTree('SIGKILL');
+		}, KILL_GRACE_MS).unref();
+	};
+	signal.addEventListener('abort', onAbort, { once: true });
+
+	const parser = createStreamParser();
+	// Once the CLI reports init it has created the session, so a fork must not be attempted again
+	let started = false;
+	const readStdout = new Promise<void>((resolve) => {
+		const lines = createInterface({ input: proc.stdout! });
+		lines.on('line', (line) => {
+			for (const event of parser.push(line)) {
+				if (event.type === 'init') started = true;
+				onEvent(event);
+			}
 		});
+		lines.on('close', resolve);
+	});
+
+	// Spawn errors (e.g. no `claude` on PATH) are reported here; 'close' still follows
+	let spawnError: Error | undefined;
+	proc.on('error', (error) => {
+		spawnError = error;
+	});
 
-	const [output, errText, exitCode] = await Promise.all([
-		collectStream(proc.stdout!),
-		collectStream(proc.stderr!),
+	const collectStderr = new Promise<string>((resolve) => {
+		const chunks: Buffer[] = [];
+		proc.stderr!.on('data', (chunk: Buffer) => chunks.push(chunk));
+		proc.stderr!.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+	});
+
+	const [, errText, exitCode] = await Promise.all([
+		readStdout,
+		collectStderr,
 		new Promise<number>((resolve) => proc.on('close', (code) => resolve(code ?? 1))),
 	]);
+	signal.removeEventListener('abort', onAbort);
+	if (pendingFork && started) dbClearPendingFork(sessionId);
 
-	if (exitCode !== 0) {
-		// User message stays in DB — this is acceptable behavior (user did send that message)
-		throw new Error(`Claude exited with code ${exitCode}: ${errText.trim()}`);
+	if (signal.aborted) {
+		recordInterrupted(sessionId, parser.response(), parser.events(), parser.messageUuid());
 	}
 
-	const response = output.trim();
-	dbAppendMessage(sessionId, { role: 'assistant', content: response });
+	if (spawnError || exitCode !== 0 || parser.isError()) {
+		// The prompt stays in the history, followed by the failure, so it can be retried.
+		// If the CLI never started a brand-new session, the retry has to create it
+		if (isFirstMessage && !started) dbUpdateMessageCount(sessionId, 0);
+		const detail = errText.trim() || parser.response();
+		recordFailure(sessionId, createFailure(detail, spawnError ? null : exitCode, spawnError));
+	}
+
+	const response = parser.response();
+	const events = parser.events();
+	const usage = parser.usage();
+	dbAppendMessage(sessionId, {
+		role: 'assistant',
+		content: response,
+		events,
+		usage,
+		cliMessageUuid: parser.messageUuid(),
+	});
+	onEvent({ type: 'done', response, events, usage });
 	return response;
 }
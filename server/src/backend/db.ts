@@ -1,94 +1,354 @@
 import Database from 'better-sqlite3';
 import { mkdirSync } from 'node:fs';
-import { homedir } from 'node:os';
 import { join } from 'node:path';
-import type { PermissionMode, Session, SessionMessage } from './claude';
+import type { Device, DeviceRole } from './auth';
+import type { BranchLink } from './branches';
+import type { Session, SessionMessage } from './claude';
+import type { TurnEvent } from './claude-stream';
+import type { RunFailure } from './failures';
+import { IN_MEMORY_HOME } from './home';
+import { migrate } from './migrate';
+import { MIGRATIONS } from './migrations';
+import type { Run, RunStatus } from './runs';
+import { HIGHLIGHT_END, HIGHLIGHT_START, type SearchHit, type SearchQuery } from './search';
+import type { PermissionMode } from './tool-permissions';
+import type { TranscriptMessage } from './transcripts';
+import type { UsageGroup, UsageGroupBy, UsageQuery } from './usage';
 
-const dbDir = join(homedir(), '.claudet');
-const dbPath = join(dbDir, 'claudet.db');
+/**
+ * Open (creating if needed) the database of a claudet home and bring its schema up to date.
+ * Throws MigrationError if a migration fails; the database is then left as it was.
+ */
+export function openDatabase(home: string): Database.Database {
+	let db: Database.Database;
+	if (home === IN_MEMORY_HOME) {
+		db = new Database(':memory:');
+	} else {
+		mkdirSync(home, { recursive: true });
+		db = new Database(databaseFile(home));
+		db.pragma('journal_mode = WAL');
+	}
+	db.pragma('foreign_keys = ON');
+	try {
+		const { pending } = migrate(db, MIGRATIONS);
+		if (pending.length > 0 && home !== IN_MEMORY_HOME) {
+			console.log(`🗄️  Migrated database to schema version ${MIGRATIONS.length}`);
+		}
+	} catch (error) {
+		db.close();
+		throw error;
+	}
+	return db;
+}
 
-mkdirSync(dbDir, { recursive: true });
+export function databaseFile(home: string): string {
+	return join(home, 'claudet.db');
+}
 
-const db = new Database(dbPath);
+interface Connection {
+	db: Database.Database;
+	statements: Map<string, Database.Statement>;
+}
 
-db.pragma('journal_mode = WAL');
-db.pragma('foreign_keys = ON');
+let connection: Connection | undefined;
 
-db.exec(`
-  CREATE TABLE IF NOT EXISTS sessions (
-    id TEXT PRIMARY KEY,
-    model TEXT NOT NULL,
-    created_at TEXT NOT NULL,
-    project_path TEXT NOT NULL,
-    permission_mode TEXT NOT NULL DEFAULT 'allowEdits',
-    message_count INTEGER NOT NULL DEFAULT 0,
-    name TEXT
-  )
-`);
+/** Make `home`'s database the one the functions below use, closing any previous one */
+export function initDatabase(home: string): void {
+	const db = openDatabase(home);
+	closeDatabase();
+	connection = { db, statements: new Map() };
+}
 
-try {
-  db.exec(`ALTER TABLE sessions ADD COLUMN name TEXT`);
-} catch {
-  // column already exists
+export function closeDatabase(): void {
+	connection?.db.close();
+	connection = undefined;
 }
 
-db.exec(`
-  CREATE TABLE IF NOT EXISTS messages (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
-    role TEXT NOT NULL,
-    content TEXT NOT NULL
-  )
-`);
+function current(): Connection {
+	if (!connection) throw new Error('Database is not initialised; call initDatabase() first');
+	return connection;
+}
+
+// Statements are prepared on first use against the open database, so importing this module
+// doesn't touch the disk and initDatabase() can switch databases (e.g. one per test)
+function statement(sql: string) {
+	const prepared = () => {
+		const { db, statements } = current();
+		let stmt = statements.get(sql);
+		if (!stmt) {
+			stmt = db.prepare(sql);
+			statements.set(sql, stmt);
+		}
+		return stmt;
+	};
+	return {
+		run: (...params: unknown[]) => prepared().run(...params),
+		get: (...params: unknown[]) => prepared().get(...params),
+		all: (...params: unknown[]) => prepared().all(...params),
+	};
+}
+
+type Statement = ReturnType<typeof statement>;
 
-export { db };
+function transaction<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+	return (...args) => current().db.transaction(fn)(...args);
+}
 
 // Prepared statements for performance
 // better-sqlite3 named params: SQL uses $name, caller passes { name: value } (no $ in key)
-const stmtInsertSession = db.prepare(`
-  INSERT INTO sessions (id, model, created_at, project_path, permission_mode, message_count, name)
-  VALUES ($id, $model, $created_at, $project_path, $permission_mode, $message_count, $name)
+const stmtInsertSession = statement(`
+  INSERT INTO sessions (id, model, created_at, project_path, permission_mode, message_count, name,
+    allowed_tools, disallowed_tools, append_system_prompt, extra_args,
+    parent_session_id, fork_from_session_id, fork_at_message_uuid, branch_message_index)
+  VALUES ($id, $model, $created_at, $project_path, $permission_mode, $message_count, $name,
+    $allowed_tools, $disallowed_tools, $append_system_prompt, $extra_args,
+    $parent_session_id, $fork_from_session_id, $fork_at_message_uuid, $branch_message_index)
 `);
 
-const stmtGetSession = db.prepare(`
-  SELECT id, model, created_at, project_path, permission_mode, message_count, name
+const stmtGetSession = statement(`
+  SELECT id, model, created_at, project_path, permission_mode, message_count, name,
+    allowed_tools, disallowed_tools, append_system_prompt, extra_args,
+    parent_session_id, fork_from_session_id, fork_at_message_uuid, branch_message_index,
+    total_input_tokens, total_output_tokens, total_cache_read_tokens, total_cache_creation_tokens,
+    total_cost_usd
   FROM sessions WHERE id = $id
 `);
 
-const stmtGetMessages = db.prepare(`
-  SELECT role, content FROM messages WHERE session_id = $session_id ORDER BY id ASC
+const stmtGetBranchLink = statement(`
+  SELECT parent_session_id, branch_message_index FROM sessions WHERE id = $id
+`);
+
+const stmtListBranches = statement(`
+  SELECT id FROM sessions
+  WHERE parent_session_id = $parent_session_id AND branch_message_index = $branch_message_index
+  ORDER BY created_at ASC
+`);
+
+const stmtGetMessages = statement(`
+  SELECT id, role, content, interrupted, cli_message_uuid, failure FROM messages
+  WHERE session_id = $session_id ORDER BY id ASC
+`);
+
+const stmtGetMessagesForFork = statement(`
+  SELECT id, role, content, interrupted, created_at, cli_message_uuid, failure FROM messages
+  WHERE session_id = $session_id ORDER BY id ASC LIMIT $limit
 `);
 
-const stmtListSessions = db.prepare(`
-  SELECT id, model, created_at, project_path, permission_mode, message_count, name
+const stmtDeleteMessagesAfter = statement(`
+  DELETE FROM messages WHERE id IN (
+    SELECT id FROM messages WHERE session_id = $session_id ORDER BY id ASC LIMIT -1 OFFSET $keep
+  )
+`);
+
+const stmtUsageAfter = statement(`
+  SELECT model, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd
+  FROM messages WHERE cost_usd IS NOT NULL AND id IN (
+    SELECT id FROM messages WHERE session_id = $session_id ORDER BY id ASC LIMIT -1 OFFSET $keep
+  ) ORDER BY id ASC
+`);
+
+const stmtCopyMessageEvents = statement(`
+  INSERT INTO message_events (message_id, seq, kind, data)
+  SELECT $to_message_id, seq, kind, data FROM message_events WHERE message_id = $from_message_id
+`);
+
+const stmtListSessions = statement(`
+  SELECT id, model, created_at, project_path, permission_mode, message_count, name,
+    allowed_tools, disallowed_tools, append_system_prompt, extra_args,
+    parent_session_id, fork_from_session_id, fork_at_message_uuid, branch_message_index,
+    total_input_tokens, total_output_tokens, total_cache_read_tokens, total_cache_creation_tokens,
+    total_cost_usd
   FROM sessions ORDER BY created_at DESC
 `);
 
-const stmtListSessionsByProject = db.prepare(`
-  SELECT id, model, created_at, project_path, permission_mode, message_count, name
+const stmtListSessionsByProject = statement(`
+  SELECT id, model, created_at, project_path, permission_mode, message_count, name,
+    allowed_tools, disallowed_tools, append_system_prompt, extra_args,
+    parent_session_id, fork_from_session_id, fork_at_message_uuid, branch_message_index,
+    total_input_tokens, total_output_tokens, total_cache_read_tokens, total_cache_creation_tokens,
+    total_cost_usd
   FROM sessions WHERE project_path = $project_path ORDER BY created_at DESC
 `);
 
-const stmtUpdatePermissionMode = db.prepare(`
+const stmtUpdatePermissionMode = statement(`
   UPDATE sessions SET permission_mode = $permission_mode WHERE id = $id
 `);
 
-const stmtUpdateMessageCount = db.prepare(`
+const stmtUpdateAllowedTools = statement(`
+  UPDATE sessions SET allowed_tools = $allowed_tools WHERE id = $id
+`);
+
+const stmtUpdateDisallowedTools = statement(`
+  UPDATE sessions SET disallowed_tools = $disallowed_tools WHERE id = $id
+`);
+
+const stmtUpdateMessageCount = statement(`
   UPDATE sessions SET message_count = $message_count WHERE id = $id
 `);
 
-const stmtUpdateName = db.prepare(`
+const stmtClearPendingFork = statement(`
+  UPDATE sessions SET fork_from_session_id = NULL, fork_at_message_uuid = NULL WHERE id = $id
+`);
+
+const stmtUpdateName = statement(`
   UPDATE sessions SET name = $name WHERE id = $id
 `);
 
-const stmtInsertMessage = db.prepare(`
-  INSERT INTO messages (session_id, role, content) VALUES ($session_id, $role, $content)
+const stmtInsertMessage = statement(`
+  INSERT INTO messages (session_id, role, content, interrupted, created_at, model,
+    input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd,
+    cli_message_uuid, failure)
+  VALUES ($session_id, $role, $content, $interrupted, $created_at, $model,
+    $input_tokens, $output_tokens, $cache_read_tokens, $cache_creation_tokens, $cost_usd,
+    $cli_message_uuid, $failure)
+`);
+
+const stmtAddSessionUsage = statement(`
+  UPDATE sessions SET
+    total_input_tokens = total_input_tokens + $input_tokens,
+    total_output_tokens = total_output_tokens + $output_tokens,
+    total_cache_read_tokens = total_cache_read_tokens + $cache_read_tokens,
+    total_cache_creation_tokens = total_cache_creation_tokens + $cache_creation_tokens,
+    total_cost_usd = total_cost_usd + $cost_usd
+  WHERE id = $id
+`);
+
+// One statement per grouping; only assistant turns that reported usage are counted
+const usageStatements = Object.fromEntries(
+	(
+		[
+			['project', 's.project_path'],
+			['model', 'COALESCE(m.model, s.model)'],
+			['day', 'substr(m.created_at, 1, 10)'],
+		] as const
+	).map(([groupBy, key]) => [
+		groupBy,
+		statement(`
+      SELECT ${key} AS key, COUNT(*) AS turns,
+        SUM(m.input_tokens) AS input_tokens, SUM(m.output_tokens) AS output_tokens,
+        SUM(m.cache_read_tokens) AS cache_read_tokens,
+        SUM(m.cache_creation_tokens) AS cache_creation_tokens, SUM(m.cost_usd) AS cost_usd
+      FROM messages m JOIN sessions s ON s.id = m.session_id
+      WHERE m.cost_usd IS NOT NULL
+        AND ($from IS NULL OR m.created_at >= $from)
+        AND ($to IS NULL OR m.created_at < $to)
+      GROUP BY key
+      ORDER BY ${groupBy === 'day' ? 'key DESC' : 'cost_usd DESC'}
+    `),
+	]),
+) as Record<UsageGroupBy, Statement>;
+
+const stmtInsertMessageEvent = statement(`
+  INSERT INTO message_events (message_id, seq, kind, data) VALUES ($message_id, $seq, $kind, $data)
+`);
+
+const stmtGetSessionEvents = statement(`
+  SELECT e.message_id, e.data FROM message_events e
+  JOIN messages m ON m.id = e.message_id
+  WHERE m.session_id = $session_id
+  ORDER BY e.message_id ASC, e.seq ASC
 `);
 
-const stmtDeleteSession = db.prepare(`
+const stmtDeleteSession = statement(`
   DELETE FROM sessions WHERE id = $id
 `);
 
+// Message and session-name hits ranked together; lower bm25 is a better match
+const stmtSearch = statement(`
+  SELECT * FROM (
+    SELECT 'message' AS kind, m.session_id, s.name AS session_name, s.project_path,
+      m.id AS message_id,
+      (SELECT COUNT(*) FROM messages p WHERE p.session_id = m.session_id AND p.id < m.id)
+        AS message_index,
+      m.role, snippet(messages_fts, 0, $start, $end, '…', 16) AS snippet,
+      COALESCE(m.created_at, s.created_at) AS created_at, bm25(messages_fts) AS rank
+    FROM messages_fts
+    JOIN messages m ON m.id = messages_fts.rowid
+    JOIN sessions s ON s.id = m.session_id
+    WHERE messages_fts MATCH $match AND ($project_path IS NULL OR s.project_path = $project_path)
+    UNION ALL
+    SELECT 'session', s.id, s.name, s.project_path, NULL, NULL, NULL,
+      highlight(sessions_fts, 0, $start, $end), s.created_at, bm25(sessions_fts)
+    FROM sessions_fts
+    JOIN sessions s ON s.id = sessions_fts.session_id
+    WHERE sessions_fts MATCH $match AND ($project_path IS NULL OR s.project_path = $project_path)
+  )
+  ORDER BY rank LIMIT $limit
+`);
+
+const stmtInsertDevice = statement(`
+  INSERT INTO devices (id, name, role, token_hash, created_at)
+  VALUES ($id, $name, $role, $token_hash, $created_at)
+`);
+
+const stmtGetDeviceByToken = statement(`
+  SELECT id, name, role, created_at, last_seen_at FROM devices WHERE token_hash = $token_hash
+`);
+
+const stmtListDevices = statement(`
+  SELECT id, name, role, created_at, last_seen_at FROM devices ORDER BY created_at ASC
+`);
+
+const stmtTouchDevice = statement(`
+  UPDATE devices SET last_seen_at = $last_seen_at WHERE id = $id
+`);
+
+const stmtSetDeviceRole = statement(`
+  UPDATE devices SET role = $role WHERE id = $id
+`);
+
+const stmtDeleteDevice = statement(`
+  DELETE FROM devices WHERE id = $id
+`);
+
+const stmtInsertRun = statement(`
+  INSERT INTO runs (id, session_id, message, status, created_at, retry)
+  VALUES ($id, $session_id, $message, $status, $created_at, $retry)
+`);
+
+const stmtGetRun = statement(`
+  SELECT id, session_id, message, status, created_at, started_at, ended_at, output, error, retry
+  FROM runs WHERE id = $id
+`);
+
+const stmtListActiveRuns = statement(`
+  SELECT id, session_id, message, status, created_at, started_at, ended_at, output, error, retry
+  FROM runs WHERE status IN ('queued', 'running') ORDER BY created_at ASC, rowid ASC
+`);
+
+const stmtListRunsBySession = statement(`
+  SELECT id, session_id, message, status, created_at, started_at, ended_at, output, error, retry
+  FROM runs WHERE session_id = $session_id ORDER BY created_at ASC, rowid ASC
+`);
+
+const stmtMarkRunStarted = statement(`
+  UPDATE runs SET status = 'running', started_at = $started_at WHERE id = $id
+`);
+
+const stmtMarkRunFinished = statement(`
+  UPDATE runs SET status = $status, ended_at = $ended_at, output = $output, error = $error
+  WHERE id = $id
+`);
+
+const stmtFailOrphanedRuns = statement(`
+  UPDATE runs SET status = 'failed', ended_at = $ended_at, error = $error
+  WHERE status = 'running'
+`);
+
+const stmtNextQueuedRun = statement(`
+  SELECT id, session_id, message, status, created_at, started_at, ended_at, output, error, retry
+  FROM runs WHERE session_id = $session_id AND status = 'queued'
+  ORDER BY created_at ASC, rowid ASC LIMIT 1
+`);
+
+const stmtUpdateQueuedRunMessage = statement(`
+  UPDATE runs SET message = $message WHERE id = $id AND status = 'queued' AND retry = 0
+`);
+
+const stmtDeleteQueuedRun = statement(`
+  DELETE FROM runs WHERE id = $id AND status = 'queued'
+`);
+
 interface SessionRow {
 	id: string;
 	model: string;
@@ -97,11 +357,110 @@ interface SessionRow {
 	permission_mode: string;
 	message_count: number;
 	name: string | null;
+	allowed_tools: string;
+	disallowed_tools: string;
+	append_system_prompt: string | null;
+	extra_args: string;
+	parent_session_id: string | null;
+	fork_from_session_id: string | null;
+	fork_at_message_uuid: string | null;
+	branch_message_index: number | null;
+	total_input_tokens: number;
+	total_output_tokens: number;
+	total_cache_read_tokens: number;
+	total_cache_creation_tokens: number;
+	total_cost_usd: number;
 }
 
 interface MessageRow {
+	id: number;
 	role: string;
 	content: string;
+	interrupted: number;
+	cli_message_uuid: string | null;
+	failure: string | null;
+}
+
+interface UsageRow {
+	key: string;
+	turns: number;
+	input_tokens: number;
+	output_tokens: number;
+	cache_read_tokens: number;
+	cache_creation_tokens: number;
+	cost_usd: number;
+}
+
+interface MessageUsageRow {
+	model: string | null;
+	input_tokens: number;
+	output_tokens: number;
+	cache_read_tokens: number;
+	cache_creation_tokens: number;
+	cost_usd: number;
+}
+
+interface MessageEventRow {
+	message_id: number;
+	data: string;
+}
+
+interface SearchRow {
+	kind: SearchHit['kind'];
+	session_id: string;
+	session_name: string | null;
+	project_path: string;
+	message_id: number | null;
+	message_index: number | null;
+	role: string | null;
+	snippet: string;
+	created_at: string;
+}
+
+interface DeviceRow {
+	id: string;
+	name: string;
+	role: string;
+	created_at: string;
+	last_seen_at: string | null;
+}
+
+interface RunRow {
+	id: string;
+	session_id: string;
+	message: string;
+	status: string;
+	created_at: string;
+	started_at: string | null;
+	ended_at: string | null;
+	output: string | null;
+	error: string | null;
+	retry: number;
+}
+
+function rowToDevice(row: DeviceRow): Device {
+	return {
+		id: row.id,
+		name: row.name,
+		role: row.role as DeviceRole,
+		createdAt: row.created_at,
+		lastSeenAt: row.last_seen_at ?? undefined,
+	};
+}
+
+function rowToRun(row: RunRow): Run {
+	return {
+		id: row.id,
+		sessionId: row.session_id,
+		message: row.message,
+		status: row.status as RunStatus,
+		createdAt: new Date(row.created_at),
+		startedAt: row.started_at ? new Date(row.started_at) : undefined,
+		endedAt: row.ended_at ? new Date(row.ended_at) : undefined,
+		output: row.output ?? undefined,
+		error: row.error ?? undefined,
+		...(row.retry ? { retry: true } : {}),
+	};
 }
 
 function rowToSession(row: SessionRow, messages: SessionMessage[] = []): Session {
@@ -114,6 +473,25 @@ function rowToSession(row: SessionRow, messages: SessionMessage[] = []): Session
 		projectPath: row.project_path,
 		permissionMode: row.permission_mode as PermissionMode,
 		name: row.name ?? undefined,
+		allowedTools: JSON.parse(row.allowed_tools) as string[],
+		disallowedTools: JSON.parse(row.disallowed_tools) as string[],
+		appendSystemPrompt: row.append_system_prompt ?? undefined,
+		extraArgs: JSON.parse(row.extra_args) as string[],
+		parentSessionId: row.parent_session_id ?? undefined,
+		pendingFork: row.fork_from_session_id
+			? {
+					fromSessionId: row.fork_from_session_id,
+					atMessageUuid: row.fork_at_message_uuid ?? undefined,
+				}
+			: undefined,
+		branchMessageIndex: row.branch_message_index ?? undefined,
+		usage: {
+			inputTokens: row.total_input_tokens,
+			outputTokens: row.total_output_tokens,
+			cacheReadTokens: row.total_cache_read_tokens,
+			cacheCreationTokens: row.total_cache_creation_tokens,
+			costUsd: row.total_cost_usd,
+		},
 	};
 }
 
@@ -126,6 +504,14 @@ export function dbCreateSession(session: Session): void {
 		permission_mode: session.permissionMode,
 		message_count: session.messageCount,
 		name: session.name ?? null,
+		allowed_tools: JSON.stringify(session.allowedTools),
+		disallowed_tools: JSON.stringify(session.disallowedTools),
+		append_system_prompt: session.appendSystemPrompt ?? null,
+		extra_args: JSON.stringify(session.extraArgs),
+		parent_session_id: session.parentSessionId ?? null,
+		fork_from_session_id: session.pendingFork?.fromSessionId ?? null,
+		fork_at_message_uuid: session.pendingFork?.atMessageUuid ?? null,
+		branch_message_index: session.branchMessageIndex ?? null,
 	});
 }
 
@@ -134,10 +520,25 @@ export function dbGetSession(id: string): Session | undefined {
 	if (!row) return undefined;
 
 	const messageRows = stmtGetMessages.all({ session_id: id }) as MessageRow[];
-	const messages: SessionMessage[] = messageRows.map((m) => ({
-		role: m.role as SessionMessage['role'],
-		content: m.content,
-	}));
+	const eventRows = stmtGetSessionEvents.all({ session_id: id }) as MessageEventRow[];
+	const eventsByMessage = new Map<number, TurnEvent[]>();
+	for (const row of eventRows) {
+		const list = eventsByMessage.get(row.message_id) ?? [];
+		list.push(JSON.parse(row.data) as TurnEvent);
+		eventsByMessage.set(row.message_id, list);
+	}
+
+	const messages: SessionMessage[] = messageRows.map((m) => {
+		const events = eventsByMessage.get(m.id);
+		return {
+			role: m.role as SessionMessage['role'],
+			content: m.content,
+			...(m.interrupted ? { interrupted: true } : {}),
+			...(events ? { events } : {}),
+			...(m.cli_message_uuid ? { cliMessageUuid: m.cli_message_uuid } : {}),
+			...(m.failure ? { failure: JSON.parse(m.failure) as RunFailure } : {}),
+		};
+	});
 
 	return rowToSession(row, messages);
 }
@@ -153,11 +554,19 @@ export function dbListSessions(projectPath?: string): Session[] {
 
 export function dbUpdateSession(
 	id: string,
-	fields: Partial<Pick<Session, 'messageCount' | 'permissionMode' | 'name'>>,
+	fields: Partial<
+		Pick<Session, 'messageCount' | 'permissionMode' | 'name' | 'allowedTools' | 'disallowedTools'>
+	>,
 ): void {
 	if (fields.permissionMode !== undefined) {
 		stmtUpdatePermissionMode.run({ permission_mode: fields.permissionMode, id });
 	}
+	if (fields.allowedTools !== undefined) {
+		stmtUpdateAllowedTools.run({ allowed_tools: JSON.stringify(fields.allowedTools), id });
+	}
+	if (fields.disallowedTools !== undefined) {
+		stmtUpdateDisallowedTools.run({ disallowed_tools: JSON.stringify(fields.disallowedTools), id });
+	}
 	if (fields.messageCount !== undefined) {
 		stmtUpdateMessageCount.run({ message_count: fields.messageCount, id });
 	}
@@ -170,10 +579,336 @@ export function dbDeleteSession(id: string): void {
 	stmtDeleteSession.run({ id });
 }
 
-export function dbAppendMessage(sessionId: string, msg: SessionMessage): void {
-	stmtInsertMessage.run({ session_id: sessionId, role: msg.role, content: msg.content });
+const appendMessageTx = transaction((sessionId: string, msg: SessionMessage): number => {
+	const usage = msg.usage;
+	const { lastInsertRowid } = stmtInsertMessage.run({
+		session_id: sessionId,
+		role: msg.role,
+		content: msg.content,
+		interrupted: msg.interrupted ? 1 : 0,
+		created_at: new Date().toISOString(),
+		model: usage?.model ?? null,
+		input_tokens: usage?.inputTokens ?? null,
+		output_tokens: usage?.outputTokens ?? null,
+		cache_read_tokens: usage?.cacheReadTokens ?? null,
+		cache_creation_tokens: usage?.cacheCreationTokens ?? null,
+		cost_usd: usage?.costUsd ?? null,
+		cli_message_uuid: msg.cliMessageUuid ?? null,
+		failure: msg.failure ? JSON.stringify(msg.failure) : null,
+	});
+	const messageId = Number(lastInsertRowid);
+	if (usage) {
+		stmtAddSessionUsage.run({
+			id: sessionId,
+			input_tokens: usage.inputTokens,
+			output_tokens: usage.outputTokens,
+			cache_read_tokens: usage.cacheReadTokens,
+			cache_creation_tokens: usage.cacheCreationTokens,
+			cost_usd: usage.costUsd,
+		});
+	}
+	msg.events?.forEach((event, seq) => {
+		stmtInsertMessageEvent.run({
+			message_id: messageId,
+			seq,
+			kind: event.kind,
+			data: JSON.stringify(event),
+		});
+	});
+	return messageId;
+});
+
+/** Inserts the message and its turn events in one transaction; returns the message row id */
+export function dbAppendMessage(sessionId: string, msg: SessionMessage): number {
+	return appendMessageTx(sessionId, msg);
+}
+
+const forkSessionTx = transaction(
+	(session: Session, sourceSessionId: string, messageCount: number) => {
+		dbCreateSession(session);
+		const rows = stmtGetMessagesForFork.all({
+			session_id: sourceSessionId,
+			limit: messageCount,
+		}) as (MessageRow & { created_at: string | null })[];
+		for (const row of rows) {
+			// Usage stays with the original turn so spend isn't counted twice
+			const { lastInsertRowid } = stmtInsertMessage.run({
+				session_id: session.id,
+				role: row.role,
+				content: row.content,
+				interrupted: row.interrupted,
+				created_at: row.created_at,
+				model: null,
+				input_tokens: null,
+				output_tokens: null,
+				cache_read_tokens: null,
+				cache_creation_tokens: null,
+				cost_usd: null,
+				cli_message_uuid: row.cli_message_uuid,
+				failure: row.failure,
+			});
+			stmtCopyMessageEvents.run({
+				to_message_id: Number(lastInsertRowid),
+				from_message_id: row.id,
+			});
+		}
+	},
+);
+
+/** Creates the fork and copies the source's first `messageCount` messages (with events) into it */
+export function dbForkSession(
+	session: Session,
+	sourceSessionId: string,
+	messageCount: number,
+): void {
+	forkSessionTx(session, sourceSessionId, messageCount);
+}
+
+export function dbGetBranchLink(id: string): BranchLink | undefined {
+	const row = stmtGetBranchLink.get({ id }) as
+		| Pick<SessionRow, 'parent_session_id' | 'branch_message_index'>
+		| undefined;
+	if (!row) return undefined;
+	return {
+		parentSessionId: row.parent_session_id ?? undefined,
+		branchMessageIndex: row.branch_message_index ?? undefined,
+	};
+}
+
+/** Ids of the branches made from `parentSessionId` at its prompt `messageIndex`, oldest first */
+export function dbListBranches(parentSessionId: string, messageIndex: number): string[] {
+	const rows = stmtListBranches.all({
+		parent_session_id: parentSessionId,
+		branch_message_index: messageIndex,
+	}) as { id: string }[];
+	return rows.map((row) => row.id);
+}
+
+// The CLI's transcripts carry no cost, so turns taken from them stay out of usage totals. `usage`,
+// already in the session's totals, goes on the first assistant message; returns whether it did
+function insertTranscriptMessages(
+	sessionId: string,
+	messages: TranscriptMessage[],
+	usage?: MessageUsageRow,
+): boolean {
+	let usagePlaced = false;
+	for (const msg of messages) {
+		const turnUsage = usage && !usagePlaced && msg.role === 'assistant' ? usage : undefined;
+		if (turnUsage) usagePlaced = true;
+		const { lastInsertRowid } = stmtInsertMessage.run({
+			session_id: sessionId,
+			role: msg.role,
+			content: msg.content,
+			interrupted: msg.interrupted ? 1 : 0,
+			created_at: msg.createdAt,
+			model: turnUsage?.model ?? null,
+			input_tokens: turnUsage?.input_tokens ?? null,
+			output_tokens: turnUsage?.output_tokens ?? null,
+			cache_read_tokens: turnUsage?.cache_read_tokens ?? null,
+			cache_creation_tokens: turnUsage?.cache_creation_tokens ?? null,
+			cost_usd: turnUsage?.cost_usd ?? null,
+			cli_message_uuid: msg.cliMessageUuid ?? null,
+			failure: null,
+		});
+		msg.events?.forEach((event, seq) => {
+			stmtInsertMessageEvent.run({
+				message_id: Number(lastInsertRowid),
+				seq,
+				kind: event.kind,
+				data: JSON.stringify(event),
+			});
+		});
+	}
+	return usagePlaced;
+}
+
+// One row adding up the given turns' usage, under the model of the last of them
+function sumUsage(rows: MessageUsageRow[]): MessageUsageRow | undefined {
+	if (rows.length === 0) return undefined;
+	return rows.reduce((sum, row) => ({
+		model: row.model ?? sum.model,
+		input_tokens: sum.input_tokens + row.input_tokens,
+		output_tokens: sum.output_tokens + row.output_tokens,
+		cache_read_tokens: sum.cache_read_tokens + row.cache_read_tokens,
+		cache_creation_tokens: sum.cache_creation_tokens + row.cache_creation_tokens,
+		cost_usd: sum.cost_usd + row.cost_usd,
+	}));
+}
+
+const importSessionTx = transaction((session: Session, messages: TranscriptMessage[]) => {
+	dbCreateSession(session);
+	insertTranscriptMessages(session.id, messages);
+});
+
+/** Creates a session for a desktop CLI transcript with its messages, keeping their timestamps */
+export function dbImportSession(session: Session, messages: TranscriptMessage[]): void {
+	importSessionTx(session, messages);
+}
+
+const syncMessagesTx = transaction(
+	(sessionId: string, keep: number, messages: TranscriptMessage[]) => {
+		// A refreshed reply keeps the usage claudet recorded for it, which the session's totals count
+		const usage = sumUsage(
+			stmtUsageAfter.all({ session_id: sessionId, keep }) as MessageUsageRow[],
+		);
+		stmtDeleteMessagesAfter.run({ session_id: sessionId, keep });
+		if (insertTranscriptMessages(sessionId, messages, usage) || !usage) return;
+		// Nowhere to put it: take it out of the totals so they match the messages again
+		stmtAddSessionUsage.run({
+			id: sessionId,
+			input_tokens: -usage.input_tokens,
+			output_tokens: -usage.output_tokens,
+			cache_read_tokens: -usage.cache_read_tokens,
+			cache_creation_tokens: -usage.cache_creation_tokens,
+			cost_usd: -usage.cost_usd,
+		});
+	},
+);
+
+/** Keeps the session's first `keep` messages and appends `messages` after them (sync with the CLI) */
+export function dbSyncMessages(
+	sessionId: string,
+	keep: number,
+	messages: TranscriptMessage[],
+): void {
+	syncMessagesTx(sessionId, keep, messages);
+}
+
+export function dbClearPendingFork(id: string): void {
+	stmtClearPendingFork.run({ id });
 }
 
 export function dbUpdateMessageCount(sessionId: string, count: number): void {
 	stmtUpdateMessageCount.run({ message_count: count, id: sessionId });
 }
+
+export function dbUsageByGroup(query: UsageQuery): UsageGroup[] {
+	const rows = usageStatements[query.groupBy].all({
+		from: query.from ?? null,
+		to: query.to ?? null,
+	}) as UsageRow[];
+	return rows.map((r) => ({
+		key: r.key,
+		turns: r.turns,
+		inputTokens: r.input_tokens,
+		outputTokens: r.output_tokens,
+		cacheReadTokens: r.cache_read_tokens,
+		cacheCreationTokens: r.cache_creation_tokens,
+		costUsd: r.cost_usd,
+	}));
+}
+
+export function dbSearch(query: SearchQuery): SearchHit[] {
+	const rows = stmtSearch.all({
+		match: query.match,
+		project_path: query.projectPath ?? null,
+		limit: query.limit,
+		start: HIGHLIGHT_START,
+		end: HIGHLIGHT_END,
+	}) as SearchRow[];
+	return rows.map((row) => ({
+		kind: row.kind,
+		sessionId: row.session_id,
+		sessionName: row.session_name ?? undefined,
+		projectPath: row.project_path,
+		messageId: row.message_id ?? undefined,
+		messageIndex: row.message_index ?? undefined,
+		role: (row.role as SearchHit['role']) ?? undefined,
+		snippet: row.snippet,
+		createdAt: row.created_at,
+	}));
+}
+
+export function dbCreateRun(run: Run): void {
+	stmtInsertRun.run({
+		id: run.id,
+		session_id: run.sessionId,
+		message: run.message,
+		status: run.status,
+		created_at: run.createdAt.toISOString(),
+		retry: run.retry ? 1 : 0,
+	});
+}
+
+export function dbGetRun(id: string): Run | undefined {
+	const row = stmtGetRun.get({ id }) as RunRow | undefined;
+	return row ? rowToRun(row) : undefined;
+}
+
+export function dbListActiveRuns(): Run[] {
+	return (stmtListActiveRuns.all() as RunRow[]).map(rowToRun);
+}
+
+export function dbListSessionRuns(sessionId: string): Run[] {
+	return (stmtListRunsBySession.all({ session_id: sessionId }) as RunRow[]).map(rowToRun);
+}
+
+export function dbMarkRunStarted(id: string, startedAt: Date): void {
+	stmtMarkRunStarted.run({ id, started_at: startedAt.toISOString() });
+}
+
+export function dbMarkRunFinished(
+	id: string,
+	fields: { status: RunStatus; endedAt: Date; output?: string; error?: string },
+): void {
+	stmtMarkRunFinished.run({
+		id,
+		status: fields.status,
+		ended_at: fields.endedAt.toISOString(),
+		output: fields.output ?? null,
+		error: fields.error ?? null,
+	});
+}
+
+export function dbNextQueuedRun(sessionId: string): Run | undefined {
+	const row = stmtNextQueuedRun.get({ session_id: sessionId }) as RunRow | undefined;
+	return row ? rowToRun(row) : undefined;
+}
+
+/** Only applies while the run is still queued (and isn't a retry); returns whether it did */
+export function dbUpdateQueuedRunMessage(id: string, message: string): boolean {
+	return stmtUpdateQueuedRunMessage.run({ id, message }).changes > 0;
+}
+
+/** Only applies while the run is still queued; returns whether it did */
+export function dbDeleteQueuedRun(id: string): boolean {
+	return stmtDeleteQueuedRun.run({ id }).changes > 0;
+}
+
+/** Fail runs a previous server process left mid-flight; returns how many were affected */
+export function dbFailOrphanedRuns(error: string): number {
+	return stmtFailOrphanedRuns.run({ ended_at: new Date().toISOString(), error }).changes;
+}
+
+export function dbCreateDevice(device: Device, tokenHash: string): void {
+	stmtInsertDevice.run({
+		id: device.id,
+		name: device.name,
+		role: device.role,
+		token_hash: tokenHash,
+		created_at: device.createdAt,
+	});
+}
+
+export function dbGetDeviceByTokenHash(tokenHash: string): Device | undefined {
+	const row = stmtGetDeviceByToken.get({ token_hash: tokenHash }) as DeviceRow | undefined;
+	return row ? rowToDevice(row) : undefined;
+}
+
+export function dbListDevices(): Device[] {
+	return (stmtListDevices.all() as DeviceRow[]).map(rowToDevice);
+}
+
+export function dbTouchDevice(id: string, lastSeenAt: Date): void {
+	stmtTouchDevice.run({ id, last_seen_at: lastSeenAt.toISOString() });
+}
+
+/** False when there was no such device */
+export function dbSetDeviceRole(id: string, role: DeviceRole): boolean {
+	return stmtSetDeviceRole.run({ id, role }).changes > 0;
+}
+
+/** False when there was no such device */
+export function dbDeleteDevice(id: string): boolean {
+	return stmtDeleteDevice.run({ id }).changes > 0;
+}
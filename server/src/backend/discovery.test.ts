@@ -0,0 +1,25 @@
+import { hostname } from 'node:os';
+import { describe, expect, test } from 'vitest';
+import { SERVER_VERSION, serviceName, serviceTxt } from './discovery';
+
+describe('serviceTxt', () => {
+	test('carries the version and whether pairing and TLS are needed', () => {
+		expect(serviceTxt({ auth: true, tls: false })).toEqual({
+			version: SERVER_VERSION,
+			auth: '1',
+			tls: '0',
+		});
+		expect(SERVER_VERSION).toMatch(/^\d+\.\d+\.\d+/);
+	});
+});
+
+describe('serviceName', () => {
+	test('uses the given name, trimmed and cut to a DNS label', () => {
+		expect(serviceName('  homelab ')).toBe('homelab');
+		expect(serviceName('x'.repeat(80))).toHaveLength(63);
+	});
+
+	test("falls back to the machine's short host name", () => {
+		expect(serviceName(undefined)).toBe(hostname().split('.')[0] || 'claudet');
+	});
+});
@@ -0,0 +1,47 @@
+/**
+ * Advertises the server on the LAN as a DNS-SD service (`_claudet._tcp` over mDNS), so the app can
+ * list the servers it finds instead of asking for an address. The TXT record says what a phone
+ * needs to know before connecting; the certificate fingerprint is left out on purpose — anyone on
+ * the network can advertise, so the one to pin still comes from the pairing QR code.
+ */
+import { createRequire } from 'node:module';
+import { hostname } from 'node:os';
+import { Bonjour } from 'bonjour-service';
+
+export const SERVICE_TYPE = 'claudet';
+
+const MAX_NAME_LENGTH = 63;
+
+export const SERVER_VERSION: string = createRequire(import.meta.url)('../../package.json').version;
+
+export interface Advertisement {
+	name: string;
+	port: number;
+	auth: boolean;
+	tls: boolean;
+}
+
+/** The TXT record: `version`, and `auth` / `tls` as '1' or '0' */
+export function serviceTxt({ auth, tls }: { auth: boolean; tls: boolean }): Record<string, string> {
+	return { version: SERVER_VERSION, auth: auth ? '1' : '0', tls: tls ? '1' : '0' };
+}
+
+/** `--name`/CLAUDET_NAME, else the machine's name without its domain; DNS labels cap it at 63 */
+export function serviceName(raw: string | undefined): string {
+	const name = (raw ?? hostname().split('.')[0] ?? '').trim() || 'claudet';
+	return name.slice(0, MAX_NAME_LENGTH);
+}
+
+/** Start answering mDNS queries for the server; the returned function stops and says goodbye */
+export function advertiseServer(advertisement: Advertisement): () => void {
+	const bonjour = new Bonjour({}, (error: Error) => {
+		console.error(`⚠️  mDNS advertisement failed: ${error.message}`);
+	});
+	bonjour.publish({
+		name: advertisement.name,
+		type: SERVICE_TYPE,
+		port: advertisement.port,
+		txt: serviceTxt(advertisement),
+	});
+	return () => bonjour.unpublishAll(() => bonjour.destroy());
+}
@@ -0,0 +1,144 @@
+import { describe, test, expect } from 'vitest';
+import type { Session } from './claude';
+import {
+	exportSession,
+	renderHtml,
+	renderJson,
+	renderMarkdown,
+	validateExportFormat,
+} from './export';
+
+const SESSION: Session = {
+	id: '0b7c1f2e-1111-2222-3333-444444444444',
+	model: 'sonnet',
+	createdAt: new Date('2026-05-04T09:30:00.000Z'),
+	messageCount: 2,
+	projectPath: '/home/me/dev/app',
+	permissionMode: 'acceptEdits',
+	allowedTools: [],
+	disallowedTools: [],
+	extraArgs: [],
+	name: 'Fix the migration',
+	usage: {
+		inputTokens: 10,
+		outputTokens: 20,
+		cacheReadTokens: 0,
+		cacheCreationTokens: 0,
+		costUsd: 0.0123,
+	},
+	messages: [
+		{ role: 'user', content: 'Why does <migrate> fail?' },
+		{
+			role: 'assistant',
+			content: 'Fixed it.',
+			events: [
+				{ kind: 'tool_use', toolUseId: 't1', name: 'Bash', input: { command: 'npm run migrate' } },
+				{ kind: 'tool_result', toolUseId: 't1', output: 'Error: ```boom```', isError: true },
+				{ kind: 'text', text: 'Fixed it.' },
+			],
+		},
+		{ role: 'user', content: 'Thanks' },
+		{ role: 'assistant', content: 'Any', interrupted: true },
+	],
+};
+
+const FAILED: Session = {
+	...SESSION,
+	messages: [
+		{ role: 'user', content: 'Deploy' },
+		{
+			role: 'assistant',
+			content: '',
+			failure: {
+				kind: 'rate_limit',
+				exitCode: 1,
+				stderr: 'API Error: 429 <too many>',
+				failedAt: '2026-05-04T09:31:00.000Z',
+			},
+		},
+	],
+};
+
+describe('validateExportFormat', () => {
+	test('defaults to markdown and rejects unknown formats', () => {
+		expect(validateExportFormat(undefined)).toBe('md');
+		expect(validateExportFormat('html')).toBe('html');
+		expect(() => validateExportFormat('pdf')).toThrow(/format must be one of md, json, html/);
+	});
+});
+
+describe('renderMarkdown', () => {
+	test('renders metadata, messages and tool events in order', () => {
+		const md = renderMarkdown(SESSION);
+		expect(md).toMatch(/^# Fix the migration\n/);
+		expect(md).toContain('- **Project:** /home/me/dev/app');
+		expect(md).toContain('- **Permission mode:** acceptEdits');
+		expect(md).toContain('- **Cost:** $0.0123');
+		const order = [
+			'## You',
+			'**Tool: Bash**',
+			'Tool error',
+			'Fixed it.',
+			'## You',
+			'_Interrupted_',
+		];
+		let last = -1;
+		for (const marker of order) {
+			const at = md.indexOf(marker, last + 1);
+			expect(at).toBeGreaterThan(last);
+			last = at;
+		}
+	});
+
+	test('fences tool output longer than the backticks inside it', () => {
+		expect(renderMarkdown(SESSION)).toContain('````\nError: ```boom```\n````');
+	});
+
+	test('renders a failed run with its cause and output', () => {
+		const md = renderMarkdown(FAILED);
+		expect(md).toContain('> ⚠ Run failed (exit code 1): Rate limit reached');
+		expect(md).toContain('```\nAPI Error: 429 <too many>\n```');
+		expect(md).not.toContain('## Claude');
+	});
+});
+
+describe('renderJson', () => {
+	test('includes session metadata and events', () => {
+		const data = JSON.parse(renderJson(SESSION));
+		expect(data.session).toMatchObject({ model: 'sonnet', createdAt: '2026-05-04T09:30:00.000Z' });
+		expect(data.messages[1].events).toHaveLength(3);
+		expect(data.messages[3]).toEqual({ role: 'assistant', content: 'Any', interrupted: true });
+		expect(JSON.parse(renderJson(FAILED)).messages[1].failure).toMatchObject({
+			kind: 'rate_limit',
+		});
+	});
+});
+
+describe('renderHtml', () => {
+	test('is a standalone page with inline styles and escaped content', () => {
+		const html = renderHtml(SESSION);
+		expect(html).toMatch(/^<!DOCTYPE html>/);
+		expect(html).toContain('<style>');
+		expect(html).not.toMatch(/<link|<script/);
+		expect(html).toContain('Why does &lt;migrate&gt; fail?');
+		expect(html).toContain('<details class="tool error">');
+	});
+
+	test('renders a failed run with its escaped output', () => {
+		const html = renderHtml(FAILED);
+		expect(html).toContain('<div class="message failure">');
+		expect(html).toContain('<pre>API Error: 429 &lt;too many&gt;</pre>');
+	});
+});
+
+describe('exportSession', () => {
+	test('names the file after the session', () => {
+		expect(exportSession(SESSION, 'html')).toMatchObject({
+			filename: 'fix-the-migration.html',
+			contentType: 'text/html; charset=utf-8',
+		});
+		expect(exportSession({ ...SESSION, name: undefined }, 'md').filename).toBe(
+			'session-0b7c1f2e.md',
+		);
+	});
+});
@@ -0,0 +1,233 @@
+import type { Session, SessionMessage } from './claude';
+import type { TurnEvent } from './claude-stream';
+import { describeFailure, type RunFailure } from './failures';
+
+export const EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface SessionExport {
+	body: string;
+	contentType: string;
+	filename: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+	md: 'text/markdown; charset=utf-8',
+	json: 'application/json; charset=utf-8',
+	html: 'text/html; charset=utf-8',
+};
+
+export function validateExportFormat(raw: unknown): ExportFormat {
+	const format = raw ?? 'md';
+	if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+		throw new Error(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+	}
+	return format as ExportFormat;
+}
+
+function title(session: Session): string {
+	return session.name || `Claude session ${session.createdAt.toISOString().slice(0, 10)}`;
+}
+
+function metadata(session: Session): [string, string][] {
+	const rows: [string, string][] = [
+		['Project', session.projectPath],
+		['Model', session.model],
+		['Permission mode', session.permissionMode],
+		['Created', session.createdAt.toISOString()],
+	];
+	if (session.usage.costUsd > 0) {
+		rows.push(['Cost', `$${session.usage.costUsd.toFixed(4)}`]);
+	}
+	return rows;
+}
+
+function toolInput(input: unknown): string {
+	return typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+}
+
+// A code fence longer than any backtick run inside, so tool output can't close it early
+function fenced(text: string, lang = ''): string {
+	const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+	const fence = '`'.repeat(Math.max(3, longest + 1));
+	return `${fence}${lang}\n${text}\n${fence}`;
+}
+
+// Turn events are the full record of a reply; older messages only have the final text
+function replyEvents(message: SessionMessage): TurnEvent[] {
+	return message.events?.length ? message.events : [{ kind: 'text', text: message.content }];
+}
+
+function markdownEvent(event: TurnEvent): string {
+	switch (event.kind) {
+		case 'text':
+			return event.text;
+		case 'tool_use':
+			return `**Tool: ${event.name}**\n\n${fenced(toolInput(event.input), 'json')}`;
+		case 'tool_result':
+			return [
+				`<details><summary>${event.isError ? 'Tool error' : 'Tool output'}</summary>`,
+				'',
+				fenced(event.output),
+				'',
+				'</details>',
+			].join('\n');
+		case 'error':
+			return `> ⚠ ${event.message}`;
+	}
+}
+
+function failureText(failure: RunFailure): string {
+	const exit = failure.exitCode === null ? '' : ` (exit code ${failure.exitCode})`;
+	return `Run failed${exit}: ${describeFailure(failure.kind)}`;
+}
+
+export function renderMarkdown(session: Session): string {
+	const parts = [
+		`# ${title(session)}`,
+		metadata(session)
+			.map(([key, value]) => `- **${key}:** ${value}`)
+			.join('\n'),
+		'---',
+	];
+	for (const message of session.messages) {
+		if (message.role === 'user') {
+			parts.push('## You', message.content);
+			continue;
+		}
+		if (message.failure) {
+			parts.push(`> ⚠ ${failureText(message.failure)}`);
+			if (message.failure.stderr) parts.push(fenced(message.failure.stderr));
+			continue;
+		}
+		parts.push('## Claude', ...replyEvents(message).map(markdownEvent));
+		if (message.interrupted) parts.push('_Interrupted_');
+	}
+	return `${parts.join('\n\n')}\n`;
+}
+
+export function renderJson(session: Session): string {
+	const data = {
+		session: {
+			id: session.id,
+			name: session.name,
+			projectPath: session.projectPath,
+			model: session.model,
+			permissionMode: session.permissionMode,
+			createdAt: session.createdAt.toISOString(),
+			parentSessionId: session.parentSessionId,
+			usage: session.usage,
+		},
+		messages: session.messages.map((m) => ({
+			role: m.role,
+			content: m.content,
+			...(m.interrupted ? { interrupted: true } : {}),
+			...(m.events ? { events: m.events } : {}),
+			...(m.failure ? { failure: m.failure } : {}),
+		})),
+	};
+	return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+function htmlEvent(event: TurnEvent): string {
+	switch (event.kind) {
+		case 'text':
+			return `<div class="text">${escapeHtml(event.text)}</div>`;
+		case 'tool_use':
+			return `<details class="tool"><summary>🔧 ${escapeHtml(event.name)}</summary><pre>${escapeHtml(toolInput(event.input))}</pre></details>`;
+		case 'tool_result':
+			return `<details class="tool${event.isError ? ' error' : ''}"><summary>${event.isError ? 'Tool error' : 'Tool output'}</summary><pre>${escapeHtml(event.output)}</pre></details>`;
+		case 'error':
+			return `<div class="error">⚠ ${escapeHtml(event.message)}</div>`;
+	}
+}
+
+// Inlined so the file renders the same anywhere it is opened or attached
+const HTML_STYLES = `
+body { font: 15px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 760px; margin: 32px auto; padding: 0 16px; color: #1c1c1e; background: #fff; }
+h1 { font-size: 22px; margin-bottom: 8px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; color: #636366; font-size: 13px; }
+dt { font-weight: 600; }
+dd { margin: 0; font-family: ui-monospace, Menlo, monospace; }
+.message { margin: 16px 0; padding: 12px 14px; border-radius: 14px; }
+.user { background: #007aff; color: #fff; margin-left: 15%; white-space: pre-wrap; }
+.assistant { background: #f2f2f7; }
+.role { font-size: 12px; font-weight: 600; opacity: 0.7; margin-bottom: 4px; }
+.text { white-space: pre-wrap; }
+.tool { margin: 8px 0; font-size: 13px; }
+.tool summary { cursor: pointer; color: #636366; }
+.tool.error summary, .error { color: #d70015; }
+pre { background: #fff; border: 1px solid #e5e5ea; border-radius: 8px; padding: 8px; overflow-x: auto; font-size: 12px; white-space: pre-wrap; }
+.failure { border: 1px solid #ffd1d4; }
+.interrupted { font-size: 12px; font-style: italic; color: #8e8e93; }
+@media (prefers-color-scheme: dark) {
+  body { background: #000; color: #f2f2f7; }
+  .assistant { background: #1c1c1e; }
+  pre { background: #000; border-color: #38383a; }
+}
+`.trim();
+
+export function renderHtml(session: Session): string {
+	const meta = metadata(session)
+		.map(([key, value]) => `<dt>${escapeHtml(key)}</dt><dd>${escapeHtml(value)}</dd>`)
+		.join('');
+	const messages = session.messages
+		.map((message) => {
+			if (message.role === 'user') {
+				return `<div class="message user"><div class="role">You</div>${escapeHtml(message.content)}</div>`;
+			}
+			if (message.failure) {
+				const stderr = message.failure.stderr
+					? `<pre>${escapeHtml(message.failure.stderr)}</pre>`
+					: '';
+				return `<div class="message failure"><div class="error">⚠ ${escapeHtml(failureText(message.failure))}</div>${stderr}</div>`;
+			}
+			const body = replyEvents(message).map(htmlEvent).join('');
+			const interrupted = message.interrupted ? '<div class="interrupted">Interrupted</div>' : '';
+			return `<div class="message assistant"><div class="role">Claude</div>${body}${interrupted}</div>`;
+		})
+		.join('\n');
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title(session))}</title>
+<style>
+${HTML_STYLES}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title(session))}</h1>
+<dl>${meta}</dl>
+${messages}
+</body>
+</html>
+`;
+}
+
+function filename(session: Session, format: ExportFormat): string {
+	const slug = (session.name ?? '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, 60);
+	return `${slug || `session-${session.id.slice(0, 8)}`}.${format}`;
+}
+
+export function exportSession(session: Session, format: ExportFormat): SessionExport {
+	const render = { md: renderMarkdown, json: renderJson, html: renderHtml }[format];
+	return {
+		body: render(session),
+		contentType: CONTENT_TYPES[format],
+		filename: filename(session, format),
+	};
+}
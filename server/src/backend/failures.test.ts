@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'vitest';
+import type { SessionMessage } from './claude';
+import { classifyFailure, createFailure, RunFailedError, retryablePrompt } from './failures';
+
+const prompt = (content: string): SessionMessage => ({ role: 'user', content });
+const failed = (): SessionMessage => ({
+	role: 'assistant',
+	content: '',
+	failure: { kind: 'crash', exitCode: 1, stderr: 'boom', failedAt: '2026-05-04T09:30:00.000Z' },
+});
+
+describe('classifyFailure', () => {
+	test('recognises rate limits, auth errors and a missing CLI', () => {
+		expect(classifyFailure('API Error: 429 Too Many Requests', 1)).toBe('rate_limit');
+		expect(classifyFailure('Claude AI usage limit reached|1746349200', 1)).toBe('rate_limit');
+		expect(classifyFailure('Invalid API key · Please run /login', 1)).toBe('auth');
+		expect(classifyFailure('', 127)).toBe('cli_missing');
+		const enoent = Object.assign(new Error('spawn claude ENOENT'), { code: 'ENOENT' });
+		expect(classifyFailure('', null, enoent)).toBe('cli_missing');
+	});
+
+	test('treats anything else as a crash', () => {
+		expect(classifyFailure('TypeError: undefined is not a function', 1)).toBe('crash');
+		expect(classifyFailure('', 143)).toBe('crash');
+	});
+});
+
+describe('createFailure', () => {
+	test('keeps the tail of long output', () => {
+		const failure = createFailure(`${'x'.repeat(10_000)}the end\n`, 1);
+		expect(failure.stderr).toHaveLength(8_000);
+		expect(failure.stderr.endsWith('the end')).toBe(true);
+		expect(failure).toMatchObject({ kind: 'crash', exitCode: 1 });
+	});
+
+	test('falls back to the spawn error when there is no output', () => {
+		const failure = createFailure('', null, new Error('spawn claude EACCES'));
+		expect(failure).toMatchObject({ exitCode: null, stderr: 'spawn claude EACCES' });
+	});
+
+	test('is carried by RunFailedError', () => {
+		const error = new RunFailedError(createFailure('boom', 2));
+		expect(error.message).toBe('Claude exited with code 2: boom');
+		expect(error.failure.kind).toBe('crash');
+	});
+});
+
+describe('retryablePrompt', () => {
+	test('is the prompt the last entry failed on', () => {
+		expect(retryablePrompt([prompt('Hi'), failed()])).toBe('Hi');
+		expect(retryablePrompt([prompt('Hi'), failed(), failed()])).toBe('Hi');
+	});
+
+	test('is undefined unless the last entry is a failure', () => {
+		expect(retryablePrompt([])).toBeUndefined();
+		expect(retryablePrompt([prompt('Hi')])).toBeUndefined();
+		expect(
+			retryablePrompt([prompt('Hi'), { role: 'assistant', content: 'Hello' }]),
+		).toBeUndefined();
+		expect(retryablePrompt([failed()])).toBeUndefined();
+	});
+});
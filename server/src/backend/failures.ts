@@ -0,0 +1,90 @@
+/**
+ * Failed runs are kept in the session's history as entries of their own, so the phone can show
+ * what went wrong (and offer a retry) long after the run's live events are gone.
+ */
+import type { SessionMessage } from './claude';
+
+export const FAILURE_KINDS = ['rate_limit', 'auth', 'cli_missing', 'crash'] as const;
+export type FailureKind = (typeof FAILURE_KINDS)[number];
+
+export interface RunFailure {
+	kind: FailureKind;
+	/** null when the CLI never started */
+	exitCode: number | null;
+	stderr: string;
+	/** ISO timestamp of when the run failed */
+	failedAt: string;
+}
+
+// stderr is usually a line or two, but a crash can dump a whole stack
+const MAX_STDERR = 8_000;
+
+const SUMMARIES: Record<FailureKind, string> = {
+	rate_limit: 'Rate limit reached — wait a moment, then retry.',
+	auth: 'Claude is not signed in on the server. Run `claude` there to log in, then retry.',
+	cli_missing: 'The Claude CLI was not found on the server. Install it or fix PATH, then retry.',
+	crash: 'Claude exited unexpectedly.',
+};
+
+/** Thrown by sendMessage when the CLI fails; the failure is already in the session's history */
+export class RunFailedError extends Error {
+	constructor(readonly failure: RunFailure) {
+		super(
+			`Claude exited with code ${failure.exitCode ?? 'none'}: ${failure.stderr || SUMMARIES[failure.kind]}`,
+		);
+		this.name = 'RunFailedError';
+	}
+}
+
+export function describeFailure(kind: FailureKind): string {
+	return SUMMARIES[kind];
+}
+
+export function classifyFailure(
+	output: string,
+	exitCode: number | null,
+	spawnError?: Error,
+): FailureKind {
+	if ((spawnError as NodeJS.ErrnoException | undefined)?.code === 'ENOENT' || exitCode === 127) {
+		return 'cli_missing';
+	}
+	if (/rate.?limit|too many requests|\b429\b|usage limit|overloaded/i.test(output))
+		return 'rate_limit';
+	if (
+		/\b401\b|unauthori[sz]ed|invalid api key|authentication|not logged in|\/login|oauth token/i.test(
+			output,
+		)
+	) {
+		return 'auth';
+	}
+	return 'crash';
+}
+
+export function createFailure(
+	output: string,
+	exitCode: number | null,
+	spawnError?: Error,
+): RunFailure {
+	const stderr = (output.trim() || spawnError?.message || '').slice(-MAX_STDERR);
+	return {
+		kind: classifyFailure(output, exitCode, spawnError),
+		exitCode,
+		stderr,
+		failedAt: new Date().toISOString(),
+	};
+}
+
+/**
+ * The prompt a retry re-runs: the last user message, provided the session's latest entry is a
+ * failure of it. Returns undefined when the last turn didn't fail.
+ */
+export function retryablePrompt(messages: SessionMessage[]): string | undefined {
+	const last = messages[messages.length - 1];
+	if (!last?.failure) return undefined;
+	for (let i = messages.length - 2; i >= 0; i--) {
+		const message = messages[i] as SessionMessage;
+		if (message.role === 'user') return message.content;
+		if (!message.failure) return undefined;
+	}
+	return undefined;
+}
@@ -0,0 +1,169 @@
+/**
+ * Stands in for the Claude CLI under CLAUDE_TEST_FAKE, so E2E tests run without real CLI calls.
+ * It echoes the prompt word by word and records the turn as the CLI path would. A prompt mentioning
+ * "fail" fails (its retry succeeds), and one mentioning "tool" makes a canned Bash call, asking the
+ * real permission MCP server for approval in askApproval sessions.
+ */
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { createInterface } from 'node:readline';
+import type { Session } from './claude';
+import type { ChatStreamEvent, TurnEvent, TurnUsage } from './claude-stream';
+import { dbAppendMessage, dbClearPendingFork, dbUpdateMessageCount } from './db';
+import { createFailure, type RunFailure } from './failures';
+import {
+	PERMISSION_MCP_TOOL,
+	type PermissionCallback,
+	permissionMcpArgs,
+	permissionMcpEnv,
+} from './permission-mcp';
+import type { PermissionResult } from './permissions';
+
+/** What the fake needs from claude.ts, handed over so the two modules don't import each other */
+export interface FakeRunHooks {
+	/** Records what streamed in before a cancel, then throws RunCancelledError */
+	recordInterrupted: (sessionId: string, partial: string, events: TurnEvent[]) => never;
+	/** Records the failure in the history, then throws RunFailedError */
+	recordFailure: (sessionId: string, failure: RunFailure) => never;
+	permissionCallback: PermissionCallback;
+}
+
+export async function runFakeClaude(
+	session: Session,
+	message: string,
+	retry: boolean,
+	signal: AbortSignal,
+	onEvent: (event: ChatStreamEvent) => void,
+	hooks: FakeRunHooks,
+): Promise<string> {
+	const sessionId = session.id;
+	const echoResponse = `Echo: ${message.substring(0, 100)}`;
+	const events: TurnEvent[] = [];
+	if (!retry) dbAppendMessage(sessionId, { role: 'user', content: message });
+	dbUpdateMessageCount(sessionId, session.messageCount + 2);
+	// Mentioning "fail" exercises the failure path; retrying it succeeds
+	if (/\bfail\b/i.test(message) && !retry) {
+		await new Promise((r) => setTimeout(r, 30));
+		hooks.recordFailure(sessionId, createFailure('Fake failure: the message asked for one', 1));
+	}
+	onEvent({ type: 'init', model: session.model });
+	// Mentioning "tool" exercises the tool-card path with a canned Bash call
+	if (/\btool\b/i.test(message)) {
+		const toolUse: Extract<TurnEvent, { kind: 'tool_use' }> = {
+			kind: 'tool_use',
+			toolUseId: 'toolu_fake',
+			name: 'Bash',
+			input: { command: `echo ${JSON.stringify(message.substring(0, 40))}` },
+		};
+		const toolResult: Extract<TurnEvent, { kind: 'tool_result' }> = {
+			kind: 'tool_result',
+			toolUseId: 'toolu_fake',
+			output: message.substring(0, 40),
+			isError: false,
+		};
+		await new Promise((r) => setTimeout(r, 30));
+		if (signal.aborted) hooks.recordInterrupted(sessionId, '', events);
+		onEvent({ type: 'tool', name: toolUse.name });
+		events.push(toolUse);
+		onEvent({ type: 'turn_event', event: toolUse });
+		if (session.permissionMode === 'askApproval') {
+			const decision = await askViaPermissionMcp(
+				sessionId,
+				toolUse,
+				signal,
+				hooks.permissionCallback,
+			).catch((e: unknown) => {
+				if (signal.aborted) hooks.recordInterrupted(sessionId, '', events);
+				throw e;
+			});
+			if (decision.behavior === 'deny') {
+				toolResult.output = decision.message;
+				toolResult.isError = true;
+			}
+		}
+		await new Promise((r) => setTimeout(r, 30));
+		if (signal.aborted) hooks.recordInterrupted(sessionId, '', events);
+		events.push(toolResult);
+		onEvent({ type: 'turn_event', event: toolResult });
+	}
+	// Stream word by word so clients exercise the same incremental rendering path
+	let streamed = '';
+	for (const word of echoResponse.split(/(?<= )/)) {
+		await new Promise((r) => setTimeout(r, 30));
+		if (signal.aborted) hooks.recordInterrupted(sessionId, streamed, events);
+		streamed += word;
+		onEvent({ type: 'delta', text: word });
+	}
+	events.push({ kind: 'text', text: echoResponse });
+	// Rough token counts (≈4 chars per token) so usage screens have something to show
+	const inputTokens = Math.ceil(message.length / 4);
+	const outputTokens = Math.ceil(echoResponse.length / 4);
+	const usage: TurnUsage = {
+		model: session.model,
+		inputTokens,
+		outputTokens,
+		cacheReadTokens: 0,
+		cacheCreationTokens: 0,
+		costUsd: (inputTokens + outputTokens * 5) / 1_000_000,
+	};
+	if (session.pendingFork) dbClearPendingFork(sessionId);
+	dbAppendMessage(sessionId, {
+		role: 'assistant',
+		content: echoResponse,
+		events,
+		usage,
+		cliMessageUuid: randomUUID(),
+	});
+	onEvent({ type: 'done', response: echoResponse, events, usage });
+	return echoResponse;
+}
+
+// Drive the real permission MCP server over stdio the way the CLI would
+async function askViaPermissionMcp(
+	sessionId: string,
+	toolUse: Extract<TurnEvent, { kind: 'tool_use' }>,
+	signal: AbortSignal,
+	callback: PermissionCallback,
+): Promise<PermissionResult> {
+	const proc = spawn(process.execPath, permissionMcpArgs(), {
+		stdio: ['pipe', 'pipe', 'inherit'],
+		env: { ...process.env, ...permissionMcpEnv(sessionId, callback) },
+	});
+	const onAbort = () => proc.kill();
+	signal.addEventListener('abort', onAbort, { once: true });
+	const send = (message: unknown) => proc.stdin!.write(`${JSON.stringify(message)}\n`);
+	try {
+		send({
+			jsonrpc: '2.0',
+			id: 1,
+			method: 'initialize',
+			params: { protocolVersion: '2024-11-05' },
+		});
+		send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+		send({
+			jsonrpc: '2.0',
+			id: 2,
+			method: 'tools/call',
+			params: {
+				name: PERMISSION_MCP_TOOL,
+				arguments: {
+					tool_name: toolUse.name,
+					input: toolUse.input,
+					tool_use_id: toolUse.toolUseId,
+				},
+			},
+		});
+		for await (const line of createInterface({ input: proc.stdout! })) {
+			const message = JSON.parse(line) as {
+				id?: number;
+				result?: { content: { text: string }[] };
+			};
+			const text = message.id === 2 ? message.result?.content[0]?.text : undefined;
+			if (text) return JSON.parse(text) as PermissionResult;
+		}
+		throw new Error('Permission MCP server exited without answering');
+	} finally {
+		signal.removeEventListener('abort', onAbort);
+		proc.stdin!.end();
+	}
+}
@@ -0,0 +1,35 @@
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, test } from 'vitest';
+import { DEFAULT_HOME, IN_MEMORY_HOME, readFlag, resolveHome } from './home';
+
+describe('readFlag', () => {
+	test('reads both flag forms', () => {
+		expect(readFlag(['--home', '/a'], '--home')).toBe('/a');
+		expect(readFlag(['--port=4000', '--home=/b'], '--home')).toBe('/b');
+		expect(readFlag(['--homes', '/a'], '--home')).toBeUndefined();
+	});
+});
+
+describe('resolveHome', () => {
+	test('prefers the flag, then CLAUDET_HOME, then the fallback', () => {
+		expect(resolveHome(['--home', '/flag'], { CLAUDET_HOME: '/env' })).toBe('/flag');
+		expect(resolveHome([], { CLAUDET_HOME: '/env' })).toBe('/env');
+		expect(resolveHome([], {})).toBe(DEFAULT_HOME);
+		expect(resolveHome([], {}, IN_MEMORY_HOME)).toBe(IN_MEMORY_HOME);
+	});
+
+	test('expands ~ to the user home', () => {
+		expect(resolveHome([], { CLAUDET_HOME: '~/.claudet-notes' })).toBe(
+			join(homedir(), '.claudet-notes'),
+		);
+	});
+
+	test('keeps the in-memory marker as is', () => {
+		expect(resolveHome(['--home', ':memory:'], {})).toBe(IN_MEMORY_HOME);
+	});
+
+	test('rejects an empty home', () => {
+		expect(() => resolveHome([], { CLAUDET_HOME: '' })).toThrow(/must not be empty/);
+	});
+});
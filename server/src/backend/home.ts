@@ -0,0 +1,33 @@
+import { homedir } from 'node:os';
+import { resolve } from 'node:path';
+
+/** Where claudet keeps its database and config.json unless told otherwise */
+export const DEFAULT_HOME = resolve(homedir(), '.claudet');
+
+/** A home that keeps the database and settings in memory — for tests and throwaway servers */
+export const IN_MEMORY_HOME = ':memory:';
+
+/** Value of `--name value` or `--name=value` in argv */
+export function readFlag(argv: string[], name: string): string | undefined {
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i] as string;
+		if (arg === name) return argv[i + 1];
+		if (arg.startsWith(`${name}=`)) return arg.slice(name.length + 1);
+	}
+	return undefined;
+}
+
+/**
+ * The data root: `--home` flag, then `CLAUDET_HOME`, then `fallback`. A leading `~` is the user's
+ * home directory, so each profile (`~/.claudet-notes`, …) gets its own database and settings.
+ */
+export function resolveHome(
+	argv: string[],
+	env: NodeJS.ProcessEnv,
+	fallback: string = DEFAULT_HOME,
+): string {
+	const raw = readFlag(argv, '--home') ?? env.CLAUDET_HOME ?? fallback;
+	if (raw.trim() === '') throw new Error('Home directory must not be empty');
+	if (raw === IN_MEMORY_HOME) return raw;
+	return resolve(raw.replace(/^~(?=$|\/)/, homedir()));
+}
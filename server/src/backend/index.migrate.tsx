@@ -0,0 +1,75 @@
+// Database schema CLI: `npm run db:status`, `npm run db:migrate [-- --dry-run]`; `--home` or
+// CLAUDET_HOME selects the profile as for the server
+// The server migrates on start; this is for checking what it will do, or doing it ahead of time
+import Database from 'better-sqlite3';
+import { existsSync } from 'node:fs';
+import { MigrationError, type MigrationStatus, migrate, migrationStatus } from './migrate';
+import { MIGRATIONS } from './migrations';
+import { databaseFile } from './db';
+import { IN_MEMORY_HOME, resolveHome } from './home';
+
+const argv = process.argv.slice(2);
+const [command] = argv;
+const dryRun = argv.includes('--dry-run');
+const home = resolveHome(argv, process.env);
+const DB_FILE = databaseFile(home);
+
+function printStatus({ current, latest, applied, pending, legacy }: MigrationStatus) {
+	console.log(`Database: ${DB_FILE}`);
+	console.log(
+		`Schema version: ${current} of ${latest}${legacy ? ' (created before schema versioning)' : ''}`,
+	);
+	for (const migration of applied) {
+		console.log(`  ✓ ${migration.version} ${migration.name}  (applied ${migration.appliedAt})`);
+	}
+	if (legacy) {
+		for (const migration of MIGRATIONS.slice(0, current)) {
+			console.log(`  ✓ ${migration.version} ${migration.name}  (detected)`);
+		}
+	}
+	for (const migration of pending) {
+		console.log(`  · ${migration.version} ${migration.name}  (pending)`);
+	}
+}
+
+if (command !== 'status' && command !== 'migrate') {
+	console.error('Usage: index.migrate.tsx status | migrate [--dry-run] [--home <dir>]');
+	process.exit(2);
+}
+
+if (home === IN_MEMORY_HOME) {
+	console.error('An in-memory database only exists inside a running server.');
+	process.exit(2);
+}
+
+if (!existsSync(DB_FILE)) {
+	console.log(`No database at ${DB_FILE} yet — the server creates it on first start.`);
+	process.exit(0);
+}
+
+const db = new Database(DB_FILE);
+db.pragma('foreign_keys = ON');
+
+try {
+	if (command === 'status') {
+		printStatus(migrationStatus(db, MIGRATIONS));
+	} else {
+		const status = migrate(db, MIGRATIONS, { dryRun });
+		printStatus(status);
+		if (status.pending.length === 0) {
+			console.log('\nUp to date.');
+		} else if (dryRun) {
+			console.log(
+				`\nDry run: ${status.pending.length} migration(s) applied cleanly and rolled back.`,
+			);
+		} else {
+			console.log(`\nMigrated to schema version ${status.latest}.`);
+		}
+	}
+} catch (error) {
+	console.error(`\n❌ ${error instanceof Error ? error.message : String(error)}`);
+	if (error instanceof MigrationError) console.error('   The database was left unchanged.');
+	process.exitCode = 1;
+} finally {
+	db.close();
+}
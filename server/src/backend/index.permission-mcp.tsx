@@ -0,0 +1,72 @@
+// Permission-prompt MCP server — launched by the Claude CLI (see permission-mcp.ts), not by humans
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { createInterface } from 'node:readline';
+import {
+	type ApprovalCall,
+	createPermissionMcpHandler,
+	type JsonRpcMessage,
+} from './permission-mcp';
+import type { PermissionResult } from './permissions';
+
+const serverUrl = process.env.CLAUDET_URL ?? 'http://127.0.0.1:3001';
+const sessionId = process.env.CLAUDET_SESSION_ID ?? '';
+const token = process.env.CLAUDET_TOKEN;
+// The server's self-signed certificate when it serves HTTPS
+const ca = process.env.CLAUDET_CA;
+const request = serverUrl.startsWith('https:') ? httpsRequest : httpRequest;
+
+// node:http rather than fetch: undici's default headers timeout would cut off a long wait for the user
+function askServer(call: ApprovalCall): Promise<PermissionResult> {
+	return new Promise((resolve, reject) => {
+		const req = request(
+			`${serverUrl}/api/permissions`,
+			{
+				method: 'POST',
+				ca,
+				// Trusting only the server's own certificate pins it, whatever address it's bound to
+				checkServerIdentity: () => undefined,
+				headers: {
+					'Content-Type': 'application/json',
+					...(token ? { Authorization: `Bearer ${token}` } : {}),
+				},
+			},
+			(res) => {
+				const chunks: Buffer[] = [];
+				res.on('data', (chunk: Buffer) => chunks.push(chunk));
+				res.on('end', () => {
+					const body = Buffer.concat(chunks).toString('utf8');
+					if (res.statusCode !== 200) {
+						reject(new Error(`HTTP ${res.statusCode}: ${body}`));
+						return;
+					}
+					try {
+						resolve(JSON.parse(body) as PermissionResult);
+					} catch {
+						reject(new Error('Invalid response from server'));
+					}
+				});
+			},
+		);
+		req.on('error', reject);
+		req.end(JSON.stringify({ sessionId, ...call }));
+	});
+}
+
+const handle = createPermissionMcpHandler(askServer);
+
+const lines = createInterface({ input: process.stdin });
+lines.on('line', (line) => {
+	if (!line.trim()) return;
+	let message: JsonRpcMessage;
+	try {
+		message = JSON.parse(line) as JsonRpcMessage;
+	} catch {
+		return;
+	}
+	// Handled concurrently: a pending approval must not block pings
+	void handle(message).then((response) => {
+		if (response) process.stdout.write(`${JSON.stringify(response)}\n`);
+	});
+});
+lines.on('close', () => process.exit(0));
@@ -1,7 +1,9 @@
 // Enable fake mode before importing server — avoids real Claude CLI calls in E2E tests
 process.env.CLAUDE_TEST_FAKE = 'true';
 
-import { startServer } from './server';
+import { IN_MEMORY_HOME } from './home';
+import { runServer } from './server';
 
+// In memory unless a home is given, so test runs never touch the real database
 console.log('🧪 Starting test server with fake Claude responses...');
-startServer();
+runServer(process.argv.slice(2), process.env, IN_MEMORY_HOME);
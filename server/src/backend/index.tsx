@@ -1,4 +1,4 @@
-import { startServer } from './server';
+import { runServer } from './server';
 
-// Start the server
-startServer();
+// Start the server (`--home <dir>` / CLAUDET_HOME picks the data directory, `--port` / PORT the port)
+runServer(process.argv.slice(2), process.env);
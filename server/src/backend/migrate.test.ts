@@ -0,0 +1,162 @@
+import Database from 'better-sqlite3';
+import { afterEach, describe, expect, test } from 'vitest';
+import { type Migration, MigrationError, migrate, migrationStatus } from './migrate';
+import { MIGRATIONS } from './migrations';
+
+const LATEST = MIGRATIONS.length;
+const open: Database.Database[] = [];
+
+function newDb(): Database.Database {
+	const db = new Database(':memory:');
+	db.pragma('foreign_keys = ON');
+	open.push(db);
+	return db;
+}
+
+afterEach(() => {
+	for (const db of open.splice(0)) db.close();
+});
+
+// A database as left by the given version: versioned, or as the pre-versioning code built it
+function fixture(version: number, { legacy = false } = {}): Database.Database {
+	const db = newDb();
+	migrate(db, MIGRATIONS.slice(0, version));
+	db.prepare(`
+    INSERT INTO sessions (id, model, created_at, project_path, name)
+    VALUES ('s-1', 'haiku', '2026-01-01T00:00:00.000Z', '/p', 'Refactor parser')
+  `).run();
+	db.prepare(`
+    INSERT INTO messages (session_id, role, content) VALUES ('s-1', 'user', 'tokenizer bug')
+  `).run();
+	if (legacy) db.exec('DROP TABLE schema_version');
+	return db;
+}
+
+// Tables, columns, indexes and triggers — what the app's statements depend on
+function schema(db: Database.Database) {
+	const objects = db
+		.prepare(`
+      SELECT type, name FROM sqlite_master
+      WHERE name NOT LIKE 'sqlite_%' AND name != 'schema_version' ORDER BY type, name
+    `)
+		.all() as { type: string; name: string }[];
+	return objects.map(({ type, name }) => ({
+		type,
+		name,
+		columns:
+			type === 'table'
+				? db
+						.prepare(
+							`SELECT name, type, "notnull", dflt_value FROM pragma_table_info($name) ORDER BY name`,
+						)
+						.all({ name })
+				: undefined,
+	}));
+}
+
+const versions = (db: Database.Database) =>
+	(
+		db.prepare(`SELECT version FROM schema_version ORDER BY version`).all() as { version: number }[]
+	).map((row) => row.version);
+
+describe('migrations', () => {
+	test('are numbered in order from 1', () => {
+		expect(MIGRATIONS.map((m) => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+	});
+
+	test('create the latest schema in an empty database', () => {
+		const db = newDb();
+		expect(migrate(db, MIGRATIONS).pending).toHaveLength(LATEST);
+		expect(versions(db)).toEqual(MIGRATIONS.map((m) => m.version));
+		expect(migrationStatus(db, MIGRATIONS)).toMatchObject({ current: LATEST, pending: [] });
+	});
+
+	test.each(MIGRATIONS.slice(0, -1).map((m) => m.version))(
+		'upgrade a database at version %i to the latest schema, keeping its data',
+		(version) => {
+			const db = fixture(version);
+			expect(migrationStatus(db, MIGRATIONS)).toMatchObject({ current: version, legacy: false });
+
+			migrate(db, MIGRATIONS);
+
+			const fresh = newDb();
+			migrate(fresh, MIGRATIONS);
+			expect(schema(db)).toEqual(schema(fresh));
+			expect(versions(db)).toEqual(MIGRATIONS.map((m) => m.version));
+			expect(db.prepare(`SELECT content FROM messages`).all()).toEqual([
+				{ content: 'tokenizer bug' },
+			]);
+			// History from before the search index existed is indexed
+			expect(
+				db.prepare(`SELECT rowid FROM messages_fts WHERE messages_fts MATCH 'tokenizer'`).all(),
+			).toHaveLength(1);
+		},
+	);
+
+	test.each(MIGRATIONS.map((m) => m.version))(
+		'adopt a database built before schema versioning at version %i',
+		(version) => {
+			const db = fixture(version, { legacy: true });
+			expect(migrationStatus(db, MIGRATIONS)).toMatchObject({ current: version, legacy: true });
+
+			migrate(db, MIGRATIONS);
+
+			const fresh = newDb();
+			migrate(fresh, MIGRATIONS);
+			expect(schema(db)).toEqual(schema(fresh));
+			expect(versions(db)).toEqual(MIGRATIONS.map((m) => m.version));
+			expect(migrationStatus(db, MIGRATIONS)).toMatchObject({ current: LATEST, legacy: false });
+		},
+	);
+
+	test('dry run applies nothing', () => {
+		const db = fixture(3);
+		const before = schema(db);
+
+		const status = migrate(db, MIGRATIONS, { dryRun: true });
+
+		expect(status.pending.map((m) => m.version)).toEqual(MIGRATIONS.slice(3).map((m) => m.version));
+		expect(schema(db)).toEqual(before);
+		expect(versions(db)).toEqual([1, 2, 3]);
+	});
+
+	test('a failing migration rolls back every migration of the run', () => {
+		const db = fixture(2);
+		const before = schema(db);
+		const broken: Migration = {
+			version: LATEST + 1,
+			name: 'broken',
+			up: (conn) => conn.exec('ALTER TABLE no_such_table ADD COLUMN x TEXT'),
+		};
+
+		expect(() => migrate(db, [...MIGRATIONS, broken])).toThrow(MigrationError);
+		expect(() => migrate(db, [...MIGRATIONS, broken])).toThrow(/Migration \d+ \(broken\) failed/);
+		expect(schema(db)).toEqual(before);
+		expect(versions(db)).toEqual([1, 2]);
+	});
+
+	test("session search doesn't depend on the rowid of sessions, which VACUUM may renumber", () => {
+		const db = fixture(LATEST);
+		db.prepare(`UPDATE sessions SET rowid = rowid + 100`).run();
+		const search = (term: string) =>
+			db
+				.prepare(`
+          SELECT s.id, s.name FROM sessions_fts JOIN sessions s ON s.id = sessions_fts.session_id
+          WHERE sessions_fts MATCH $term
+        `)
+				.all({ term });
+		expect(search('parser')).toEqual([{ id: 's-1', name: 'Refactor parser' }]);
+
+		db.prepare(`UPDATE sessions SET name = 'Refactor lexer' WHERE id = 's-1'`).run();
+		expect(search('lexer')).toEqual([{ id: 's-1', name: 'Refactor lexer' }]);
+		expect(search('parser')).toEqual([]);
+		db.prepare(`DELETE FROM sessions WHERE id = 's-1'`).run();
+		expect(search('lexer')).toEqual([]);
+	});
+
+	test('refuse a database from a newer claudet', () => {
+		const db = newDb();
+		migrate(db, MIGRATIONS);
+		expect(() => migrate(db, MIGRATIONS.slice(0, 2))).toThrow(/only knows up to 2/);
+	});
+});
@@ -0,0 +1,172 @@
+/**
+ * Versioned schema migrations. Each migration lives in its own file under `migrations/`, and the
+ * versions applied to a database are recorded in its `schema_version` table. Pending migrations
+ * are applied together in one transaction, so a failure leaves the database as it was.
+ */
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+	version: number;
+	name: string;
+	up: (db: Database.Database) => void;
+	/**
+	 * Databases created before schema versioning have no `schema_version`; this tells whether one
+	 * already has the migration's changes. Only migrations from that era need it.
+	 */
+	isApplied?: (db: Database.Database) => boolean;
+}
+
+export interface AppliedMigration {
+	version: number;
+	name: string;
+	appliedAt: string;
+}
+
+export interface MigrationStatus {
+	/** Highest version applied; 0 for an empty database */
+	current: number;
+	latest: number;
+	applied: AppliedMigration[];
+	pending: Migration[];
+	/** The database predates schema versioning; its version was worked out from the schema */
+	legacy: boolean;
+}
+
+/** Thrown when a migration fails (the database is rolled back) or the schema is too new */
+export class MigrationError extends Error {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options);
+		this.name = 'MigrationError';
+	}
+}
+
+export function hasTable(db: Database.Database, table: string): boolean {
+	return !!db.prepare(`SELECT 1 FROM sqlite_master WHERE name = $table`).get({ table });
+}
+
+// Column definitions are written as in ALTER TABLE, e.g. "cost_usd REAL"; the first word is the name
+function columnName(definition: string): string {
+	return definition.split(' ')[0] ?? definition;
+}
+
+export function hasColumns(db: Database.Database, table: string, definitions: string[]): boolean {
+	const existing = new Set(
+		(
+			db.prepare(`SELECT name FROM pragma_table_info($table)`).all({ table }) as { name: string }[]
+		).map((row) => row.name),
+	);
+	return definitions.every((definition) => existing.has(columnName(definition)));
+}
+
+export function addColumns(db: Database.Database, table: string, definitions: string[]): void {
+	for (const definition of definitions) {
+		db.exec(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
+	}
+}
+
+interface VersionRow {
+	version: number;
+	name: string;
+	applied_at: string;
+}
+
+function readApplied(db: Database.Database): AppliedMigration[] {
+	const rows = db
+		.prepare(`SELECT version, name, applied_at FROM schema_version ORDER BY version ASC`)
+		.all() as VersionRow[];
+	return rows.map((row) => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+}
+
+// Leading migrations whose changes a pre-versioning database already has
+function detectLegacyVersion(db: Database.Database, migrations: Migration[]): number {
+	let version = 0;
+	for (const migration of migrations) {
+		if (!migration.isApplied?.(db)) break;
+		version = migration.version;
+	}
+	return version;
+}
+
+function checkOrder(migrations: Migration[]): void {
+	migrations.forEach((migration, i) => {
+		if (migration.version !== i + 1) {
+			throw new MigrationError(
+				`Migration "${migration.name}" has version ${migration.version}, expected ${i + 1}`,
+			);
+		}
+	});
+}
+
+export function migrationStatus(db: Database.Database, migrations: Migration[]): MigrationStatus {
+	checkOrder(migrations);
+	const latest = migrations.length;
+
+	if (hasTable(db, 'schema_version')) {
+		const applied = readApplied(db);
+		const current = applied[applied.length - 1]?.version ?? 0;
+		if (current > latest) {
+			throw new MigrationError(
+				`Database schema is at version ${current}, but this version of claudet only knows up to ${latest}. Update claudet to open it.`,
+			);
+		}
+		return { current, latest, applied, pending: migrations.slice(current), legacy: false };
+	}
+
+	const current = hasTable(db, 'sessions') ? detectLegacyVersion(db, migrations) : 0;
+	return {
+		current,
+		latest,
+		applied: [],
+		pending: migrations.slice(current),
+		legacy: current > 0,
+	};
+}
+
+/**
+ * Apply pending migrations in a single transaction and return the status beforehand. A
+ * pre-versioning database is first stamped with the versions it already has. With `dryRun` the
+ * migrations still run — so they are checked against the real data — but are rolled back.
+ */
+export function migrate(
+	db: Database.Database,
+	migrations: Migration[],
+	{ dryRun = false }: { dryRun?: boolean } = {},
+): MigrationStatus {
+	const status = migrationStatus(db, migrations);
+	if (status.pending.length === 0 && !status.legacy) return status;
+
+	const now = new Date().toISOString();
+
+	db.exec('BEGIN IMMEDIATE');
+	try {
+		db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+		const record = db.prepare(`
+      INSERT INTO schema_version (version, name, applied_at) VALUES ($version, $name, $applied_at)
+    `);
+		for (const migration of migrations.slice(0, status.legacy ? status.current : 0)) {
+			record.run({ version: migration.version, name: migration.name, applied_at: now });
+		}
+		for (const migration of status.pending) {
+			try {
+				migration.up(db);
+			} catch (error) {
+				throw new MigrationError(
+					`Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : String(error)}`,
+					{ cause: error },
+				);
+			}
+			record.run({ version: migration.version, name: migration.name, applied_at: now });
+		}
+		db.exec(dryRun ? 'ROLLBACK' : 'COMMIT');
+	} catch (error) {
+		if (db.inTransaction) db.exec('ROLLBACK');
+		throw error;
+	}
+	return status;
+}
@@ -0,0 +1,26 @@
+import { hasTable, type Migration } from '../migrate';
+
+export const migration: Migration = {
+	version: 1,
+	name: 'initial',
+	up: (db) => {
+		db.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        project_path TEXT NOT NULL,
+        permission_mode TEXT NOT NULL DEFAULT 'allowEdits',
+        message_count INTEGER NOT NULL DEFAULT 0,
+        name TEXT
+      );
+      CREATE TABLE messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL
+      );
+    `);
+	},
+	isApplied: (db) => hasTable(db, 'sessions') && hasTable(db, 'messages'),
+};
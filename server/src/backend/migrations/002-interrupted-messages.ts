@@ -0,0 +1,11 @@
+import { addColumns, hasColumns, type Migration } from '../migrate';
+
+// Partial replies kept when a run is cancelled
+const COLUMNS = ['interrupted INTEGER NOT NULL DEFAULT 0'];
+
+export const migration: Migration = {
+	version: 2,
+	name: 'interrupted-messages',
+	up: (db) => addColumns(db, 'messages', COLUMNS),
+	isApplied: (db) => hasColumns(db, 'messages', COLUMNS),
+};
@@ -0,0 +1,23 @@
+import { hasTable, type Migration } from '../migrate';
+
+export const migration: Migration = {
+	version: 3,
+	name: 'runs',
+	up: (db) => {
+		db.exec(`
+      CREATE TABLE runs (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        message TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        ended_at TEXT,
+        output TEXT,
+        error TEXT
+      );
+      CREATE INDEX idx_runs_session ON runs(session_id, created_at);
+    `);
+	},
+	isApplied: (db) => hasTable(db, 'runs'),
+};
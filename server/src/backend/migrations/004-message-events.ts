@@ -0,0 +1,20 @@
+import { hasTable, type Migration } from '../migrate';
+
+// Tool calls and text steps of each assistant turn, in order
+export const migration: Migration = {
+	version: 4,
+	name: 'message-events',
+	up: (db) => {
+		db.exec(`
+      CREATE TABLE message_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_message_events_message ON message_events(message_id, seq);
+    `);
+	},
+	isApplied: (db) => hasTable(db, 'message_events'),
+};
@@ -0,0 +1,31 @@
+import { addColumns, hasColumns, type Migration } from '../migrate';
+
+// Per-turn figures on assistant messages, running totals on sessions
+const MESSAGE_COLUMNS = [
+	'created_at TEXT',
+	'model TEXT',
+	'input_tokens INTEGER',
+	'output_tokens INTEGER',
+	'cache_read_tokens INTEGER',
+	'cache_creation_tokens INTEGER',
+	'cost_usd REAL',
+];
+
+const SESSION_COLUMNS = [
+	'total_input_tokens INTEGER NOT NULL DEFAULT 0',
+	'total_output_tokens INTEGER NOT NULL DEFAULT 0',
+	'total_cache_read_tokens INTEGER NOT NULL DEFAULT 0',
+	'total_cache_creation_tokens INTEGER NOT NULL DEFAULT 0',
+	'total_cost_usd REAL NOT NULL DEFAULT 0',
+];
+
+export const migration: Migration = {
+	version: 5,
+	name: 'usage',
+	up: (db) => {
+		addColumns(db, 'messages', MESSAGE_COLUMNS);
+		addColumns(db, 'sessions', SESSION_COLUMNS);
+	},
+	isApplied: (db) =>
+		hasColumns(db, 'messages', MESSAGE_COLUMNS) && hasColumns(db, 'sessions', SESSION_COLUMNS),
+};
@@ -0,0 +1,14 @@
+import { addColumns, hasColumns, type Migration } from '../migrate';
+
+// Per-session tool rules, JSON arrays of CLI patterns like "Bash(git:*)"
+const COLUMNS = [
+	`allowed_tools TEXT NOT NULL DEFAULT '[]'`,
+	`disallowed_tools TEXT NOT NULL DEFAULT '[]'`,
+];
+
+export const migration: Migration = {
+	version: 6,
+	name: 'tool-rules',
+	up: (db) => addColumns(db, 'sessions', COLUMNS),
+	isApplied: (db) => hasColumns(db, 'sessions', COLUMNS),
+};
@@ -0,0 +1,11 @@
+import { addColumns, hasColumns, type Migration } from '../migrate';
+
+// Project profile settings copied onto the session at creation
+const COLUMNS = ['append_system_prompt TEXT', `extra_args TEXT NOT NULL DEFAULT '[]'`];
+
+export const migration: Migration = {
+	version: 7,
+	name: 'project-profiles',
+	up: (db) => addColumns(db, 'sessions', COLUMNS),
+	isApplied: (db) => hasColumns(db, 'sessions', COLUMNS),
+};
@@ -0,0 +1,22 @@
+import { addColumns, hasColumns, type Migration } from '../migrate';
+
+// CLI message uuid of each assistant turn — the point a fork resumes from
+const MESSAGE_COLUMNS = ['cli_message_uuid TEXT'];
+
+// The session a fork came from, and the CLI session/message its first run forks from
+const SESSION_COLUMNS = [
+	'parent_session_id TEXT REFERENCES sessions(id) ON DELETE SET NULL',
+	'fork_from_session_id TEXT',
+	'fork_at_message_uuid TEXT',
+];
+
+export const migration: Migration = {
+	version: 8,
+	name: 'forks',
+	up: (db) => {
+		addColumns(db, 'messages', MESSAGE_COLUMNS);
+		addColumns(db, 'sessions', SESSION_COLUMNS);
+	},
+	isApplied: (db) =>
+		hasColumns(db, 'messages', MESSAGE_COLUMNS) && hasColumns(db, 'sessions', SESSION_COLUMNS),
+};
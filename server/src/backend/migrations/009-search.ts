@@ -0,0 +1,44 @@
+import { hasTable, type Migration } from '../migrate';
+
+// Full-text search over message content and session names. The indexes only hold the tokens
+// (external content); triggers keep them in step with the tables, including cascade deletes
+export const migration: Migration = {
+	version: 9,
+	name: 'search',
+	up: (db) => {
+		db.exec(`
+      CREATE VIRTUAL TABLE messages_fts USING fts5(
+        content, content = 'messages', content_rowid = 'id', tokenize = 'porter unicode61'
+      );
+      CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, content) VALUES (new.id, new.content);
+      END;
+      CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+      END;
+      CREATE TRIGGER messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+        INSERT INTO messages_fts (rowid, content) VALUES (new.id, new.content);
+      END;
+
+      CREATE VIRTUAL TABLE sessions_fts USING fts5(
+        name, content = 'sessions', content_rowid = 'rowid', tokenize = 'porter unicode61'
+      );
+      CREATE TRIGGER sessions_fts_insert AFTER INSERT ON sessions BEGIN
+        INSERT INTO sessions_fts (rowid, name) VALUES (new.rowid, new.name);
+      END;
+      CREATE TRIGGER sessions_fts_delete AFTER DELETE ON sessions BEGIN
+        INSERT INTO sessions_fts (sessions_fts, rowid, name) VALUES ('delete', old.rowid, old.name);
+      END;
+      CREATE TRIGGER sessions_fts_update AFTER UPDATE OF name ON sessions BEGIN
+        INSERT INTO sessions_fts (sessions_fts, rowid, name) VALUES ('delete', old.rowid, old.name);
+        INSERT INTO sessions_fts (rowid, name) VALUES (new.rowid, new.name);
+      END;
+
+      -- Index the history that is already there
+      INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
+      INSERT INTO sessions_fts (sessions_fts) VALUES ('rebuild');
+    `);
+	},
+	isApplied: (db) => hasTable(db, 'messages_fts') && hasTable(db, 'sessions_fts'),
+};
@@ -0,0 +1,18 @@
+import { addColumns, hasColumns, type Migration } from '../migrate';
+
+// JSON RunFailure on the history entry recorded when a run fails
+const MESSAGE_COLUMNS = ['failure TEXT'];
+
+// A retry re-runs the prompt already in the history instead of appending it again
+const RUN_COLUMNS = ['retry INTEGER NOT NULL DEFAULT 0'];
+
+export const migration: Migration = {
+	version: 10,
+	name: 'run-failures',
+	up: (db) => {
+		addColumns(db, 'messages', MESSAGE_COLUMNS);
+		addColumns(db, 'runs', RUN_COLUMNS);
+	},
+	isApplied: (db) =>
+		hasColumns(db, 'messages', MESSAGE_COLUMNS) && hasColumns(db, 'runs', RUN_COLUMNS),
+};
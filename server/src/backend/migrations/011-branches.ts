@@ -0,0 +1,16 @@
+import { addColumns, hasColumns, type Migration } from '../migrate';
+
+// Set on branches: the prompt (by index) the branch re-sent; parent_session_id is the session branched
+const SESSION_COLUMNS = ['branch_message_index INTEGER'];
+
+export const migration: Migration = {
+	version: 11,
+	name: 'branches',
+	up: (db) => {
+		addColumns(db, 'sessions', SESSION_COLUMNS);
+		db.exec(`
+      CREATE INDEX idx_sessions_branches ON sessions(parent_session_id, branch_message_index);
+    `);
+	},
+	isApplied: (db) => hasColumns(db, 'sessions', SESSION_COLUMNS),
+};
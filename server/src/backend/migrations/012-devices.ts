@@ -0,0 +1,19 @@
+import { hasTable, type Migration } from '../migrate';
+
+// Paired phones; only a SHA-256 of each bearer token is kept
+export const migration: Migration = {
+	version: 12,
+	name: 'devices',
+	up: (db) => {
+		db.exec(`
+      CREATE TABLE devices (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL,
+        last_seen_at TEXT
+      );
+    `);
+	},
+	isApplied: (db) => hasTable(db, 'devices'),
+};
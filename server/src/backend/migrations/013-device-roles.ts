@@ -0,0 +1,11 @@
+import { addColumns, hasColumns, type Migration } from '../migrate';
+
+// What each paired phone may do; devices paired before roles existed keep full access
+const COLUMNS = [`role TEXT NOT NULL DEFAULT 'full'`];
+
+export const migration: Migration = {
+	version: 13,
+	name: 'device-roles',
+	up: (db) => addColumns(db, 'devices', COLUMNS),
+	isApplied: (db) => hasColumns(db, 'devices', COLUMNS),
+};
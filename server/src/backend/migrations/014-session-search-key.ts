@@ -0,0 +1,33 @@
+import { hasColumns, type Migration } from '../migrate';
+
+// Session-name search keyed on the session's id. The index from 009 borrowed the implicit rowid of
+// `sessions`, whose primary key is TEXT, so VACUUM could renumber it under the index. This one keeps
+// its own copy of the names, which are short, instead of pointing into the table
+export const migration: Migration = {
+	version: 14,
+	name: 'session-search-key',
+	up: (db) => {
+		db.exec(`
+      DROP TRIGGER sessions_fts_insert;
+      DROP TRIGGER sessions_fts_delete;
+      DROP TRIGGER sessions_fts_update;
+      DROP TABLE sessions_fts;
+
+      CREATE VIRTUAL TABLE sessions_fts USING fts5(
+        name, session_id UNINDEXED, tokenize = 'porter unicode61'
+      );
+      CREATE TRIGGER sessions_fts_insert AFTER INSERT ON sessions BEGIN
+        INSERT INTO sessions_fts (name, session_id) VALUES (new.name, new.id);
+      END;
+      CREATE TRIGGER sessions_fts_delete AFTER DELETE ON sessions BEGIN
+        DELETE FROM sessions_fts WHERE session_id = old.id;
+      END;
+      CREATE TRIGGER sessions_fts_update AFTER UPDATE OF name ON sessions BEGIN
+        UPDATE sessions_fts SET name = new.name WHERE session_id = old.id;
+      END;
+
+      INSERT INTO sessions_fts (name, session_id) SELECT name, id FROM sessions;
+    `);
+	},
+	isApplied: (db) => hasColumns(db, 'sessions_fts', ['session_id']),
+};
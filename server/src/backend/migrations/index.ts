@@ -0,0 +1,36 @@
+import type { Migration } from '../migrate';
+import { migration as initial } from './001-initial';
+import { migration as interruptedMessages } from './002-interrupted-messages';
+import { migration as runs } from './003-runs';
+import { migration as messageEvents } from './004-message-events';
+import { migration as usage } from './005-usage';
+import { migration as toolRules } from './006-tool-rules';
+import { migration as projectProfiles } from './007-project-profiles';
+import { migration as forks } from './008-forks';
+import { migration as search } from './009-search';
+import { migration as runFailures } from './010-run-failures';
+import { migration as branches } from './011-branches';
+import { migration as devices } from './012-devices';
+import { migration as deviceRoles } from './013-device-roles';
+import { migration as sessionSearchKey } from './014-session-search-key';
+
+/**
+ * Every schema change, oldest first. Append new migrations here with the next version; never edit
+ * or reorder one that has shipped — databases out there have already applied it.
+ */
+export const MIGRATIONS: Migration[] = [
+	initial,
+	interruptedMessages,
+	runs,
+	messageEvents,
+	usage,
+	toolRules,
+	projectProfiles,
+	forks,
+	search,
+	runFailures,
+	branches,
+	devices,
+	deviceRoles,
+	sessionSearchKey,
+];
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'vitest';
+import {
+	createPermissionMcpHandler,
+	PERMISSION_MCP_SERVER,
+	PERMISSION_MCP_TOOL,
+	permissionMcpArgs,
+	permissionMcpConfig,
+	permissionMcpEnv,
+} from './permission-mcp';
+
+const callTool = (args: unknown) => ({
+	jsonrpc: '2.0' as const,
+	id: 7,
+	method: 'tools/call',
+	params: { name: PERMISSION_MCP_TOOL, arguments: args },
+});
+
+describe('createPermissionMcpHandler', () => {
+	const handle = createPermissionMcpHandler(async (call) =>
+		call.toolName === 'Bash'
+			? { behavior: 'allow', updatedInput: call.input }
+			: { behavior: 'deny', message: 'nope' },
+	);
+
+	test('answers initialize with tool capabilities', async () => {
+		const response = await handle({
+			jsonrpc: '2.0',
+			id: 1,
+			method: 'initialize',
+			params: { protocolVersion: '2025-06-18' },
+		});
+		expect(response).toMatchObject({
+			id: 1,
+			result: { protocolVersion: '2025-06-18', capabilities: { tools: {} } },
+		});
+	});
+
+	test('lists the approval tool', async () => {
+		const response = await handle({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+		expect(response).toMatchObject({ result: { tools: [{ name: PERMISSION_MCP_TOOL }] } });
+	});
+
+	test('ignores notifications', async () => {
+		expect(await handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+	});
+
+	test('returns the decision as JSON text content', async () => {
+		const response = await handle(callTool({ tool_name: 'Bash', input: { command: 'ls' } }));
+		expect(response).toEqual({
+			jsonrpc: '2.0',
+			id: 7,
+			result: {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({ behavior: 'allow', updatedInput: { command: 'ls' } }),
+					},
+				],
+			},
+		});
+	});
+
+	test('denies when the server cannot be reached', async () => {
+		const failing = createPermissionMcpHandler(async () => {
+			throw new Error('ECONNREFUSED');
+		});
+		const response = (await failing(callTool({ tool_name: 'Bash', input: {} }))) as {
+			result: { content: { text: string }[] };
+		};
+		expect(JSON.parse(response.result.content[0]?.text ?? '')).toMatchObject({ behavior: 'deny' });
+	});
+
+	test('rejects unknown methods', async () => {
+		const response = await handle({ jsonrpc: '2.0', id: 3, method: 'resources/list' });
+		expect(response).toMatchObject({ error: { code: -32601 } });
+	});
+});
+
+describe('permissionMcpConfig', () => {
+	test('keeps the token off the command line', () => {
+		const env = permissionMcpEnv('s1', { url: 'http://127.0.0.1:1', token: 'secret' });
+		expect(env).toMatchObject({ CLAUDET_SESSION_ID: 's1', CLAUDET_TOKEN: 'secret' });
+		expect(JSON.parse(permissionMcpConfig())).toEqual({
+			mcpServers: {
+				[PERMISSION_MCP_SERVER]: { command: process.execPath, args: permissionMcpArgs() },
+			},
+		});
+	});
+});
@@ -0,0 +1,151 @@
+/**
+ * Minimal MCP stdio server exposing one tool, used as the CLI's `--permission-prompt-tool`.
+ * The CLI calls it for every tool use not covered by `--allowedTools`; the tool forwards the
+ * call to the claudet server and blocks until the user answers on their phone.
+ *
+ * Only the slice of MCP the CLI needs is implemented: initialize, tools/list, tools/call, ping.
+ * Messages are newline-delimited JSON-RPC 2.0.
+ */
+import { fileURLToPath } from 'node:url';
+import type { PermissionResult } from './permissions';
+
+export const PERMISSION_MCP_SERVER = 'claudet';
+export const PERMISSION_MCP_TOOL = 'approve';
+/** Name the CLI knows the tool by (`mcp__<server>__<tool>`) */
+export const PERMISSION_PROMPT_TOOL = `mcp__${PERMISSION_MCP_SERVER}__${PERMISSION_MCP_TOOL}`;
+
+export interface ApprovalCall {
+	toolName: string;
+	input: unknown;
+	toolUseId?: string;
+}
+
+export interface JsonRpcMessage {
+	jsonrpc: '2.0';
+	id?: number | string;
+	method?: string;
+	params?: Record<string, unknown>;
+}
+
+type JsonRpcResponse =
+	| { jsonrpc: '2.0'; id: number | string; result: unknown }
+	| { jsonrpc: '2.0'; id: number | string; error: { code: number; message: string } };
+
+const TOOL_DEFINITION = {
+	name: PERMISSION_MCP_TOOL,
+	description: 'Ask the claudet user to approve or deny a tool call',
+	inputSchema: {
+		type: 'object',
+		properties: {
+			tool_name: { type: 'string' },
+			input: { type: 'object' },
+			tool_use_id: { type: 'string' },
+		},
+		required: ['tool_name', 'input'],
+	},
+};
+
+/**
+ * Build the JSON-RPC handler. `approve` does the actual asking (an HTTP call in production,
+ * anything in tests). Returns undefined for notifications, which get no response.
+ */
+export function createPermissionMcpHandler(
+	approve: (call: ApprovalCall) => Promise<PermissionResult>,
+): (message: JsonRpcMessage) => Promise<JsonRpcResponse | undefined> {
+	return async (message) => {
+		if (message.id === undefined) return undefined;
+		const { id } = message;
+		const reply = (result: unknown): JsonRpcResponse => ({ jsonrpc: '2.0', id, result });
+
+		switch (message.method) {
+			case 'initialize':
+				return reply({
+					protocolVersion: message.params?.protocolVersion ?? '2024-11-05',
+					capabilities: { tools: {} },
+					serverInfo: { name: PERMISSION_MCP_SERVER, version: '0.1.0' },
+				});
+
+			case 'ping':
+				return reply({});
+
+			case 'tools/list':
+				return reply({ tools: [TOOL_DEFINITION] });
+
+			case 'tools/call': {
+				const params = message.params ?? {};
+				if (params.name !== PERMISSION_MCP_TOOL) {
+					return {
+						jsonrpc: '2.0',
+						id,
+						error: { code: -32602, message: `Unknown tool ${params.name}` },
+					};
+				}
+				const args = (params.arguments ?? {}) as Record<string, unknown>;
+				let result: PermissionResult;
+				try {
+					result = await approve({
+						toolName: typeof args.tool_name === 'string' ? args.tool_name : 'unknown',
+						input: args.input ?? {},
+						toolUseId: typeof args.tool_use_id === 'string' ? args.tool_use_id : undefined,
+					});
+				} catch (error) {
+					// Never allow by accident — an unreachable server means no
+					const reason = error instanceof Error ? error.message : 'unknown error';
+					result = { behavior: 'deny', message: `Could not reach claudet for approval: ${reason}` };
+				}
+				return reply({ content: [{ type: 'text', text: JSON.stringify(result) }] });
+			}
+
+			default:
+				return {
+					jsonrpc: '2.0',
+					id,
+					error: { code: -32601, message: `Method not found: ${message.method}` },
+				};
+		}
+	};
+}
+
+/** How the permission MCP helper reaches this server */
+export interface PermissionCallback {
+	url: string;
+	/** The server's internal token, which is only good for asking permission */
+	token: string;
+	/** The server's certificate when it serves HTTPS, trusted by the helper in place of a CA */
+	ca?: string;
+}
+
+/** Environment for index.permission-mcp.tsx, asking on behalf of the given session */
+export function permissionMcpEnv(
+	sessionId: string,
+	callback: PermissionCallback,
+): Record<string, string> {
+	return {
+		CLAUDET_URL: callback.url,
+		CLAUDET_SESSION_ID: sessionId,
+		CLAUDET_TOKEN: callback.token,
+		...(callback.ca ? { CLAUDET_CA: callback.ca } : {}),
+	};
+}
+
+/**
+ * Value for the CLI's `--mcp-config`: launches index.permission-mcp.tsx under the same Node
+ * and tsx loader as this server. The helper inherits the CLI's environment, so permissionMcpEnv
+ * goes there — arguments show up in the process list, where any local user could read the token.
+ */
+export function permissionMcpConfig(): string {
+	return JSON.stringify({
+		mcpServers: {
+			[PERMISSION_MCP_SERVER]: { command: process.execPath, args: permissionMcpArgs() },
+		},
+	});
+}
+
+// Absolute paths throughout — the CLI starts MCP servers from the project directory
+export function permissionMcpArgs(): string[] {
+	return [
+		'--import',
+		import.meta.resolve('tsx'),
+		fileURLToPath(new URL('./index.permission-mcp.tsx', import.meta.url)),
+	];
+}
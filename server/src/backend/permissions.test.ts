@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+	denyPendingPermissions,
+	forgetSessionPermissions,
+	listPendingPermissions,
+	type PermissionEvent,
+	requestPermission,
+	respondToPermission,
+} from './permissions';
+
+const call = { sessionId: 's1', toolName: 'Bash', input: { command: 'ls' } };
+
+function ask(timeoutMs?: number) {
+	const events: PermissionEvent[] = [];
+	const result = requestPermission(call, (e) => events.push(e), timeoutMs);
+	const [first] = events;
+	const id = first?.type === 'permission_request' ? first.request.id : '';
+	return { events, result, id };
+}
+
+describe('requestPermission', () => {
+	afterEach(() => {
+		forgetSessionPermissions('s1');
+		vi.useRealTimers();
+	});
+
+	test('announces the request and waits for an answer', async () => {
+		const { events, result, id } = ask();
+		expect(listPendingPermissions('s1').map((r) => r.id)).toEqual([id]);
+		expect(respondToPermission(id, 'allowOnce')).toBe(true);
+		await expect(result).resolves.toEqual({ behavior: 'allow', updatedInput: { command: 'ls' } });
+		expect(events.at(-1)).toEqual({ type: 'permission_resolved', id, decision: 'allowOnce' });
+		expect(listPendingPermissions('s1')).toEqual([]);
+	});
+
+	test('denies when the user says no', async () => {
+		const { result, id } = ask();
+		respondToPermission(id, 'deny');
+		await expect(result).resolves.toMatchObject({ behavior: 'deny' });
+	});
+
+	test('allowSession skips the prompt for later calls to the same tool', async () => {
+		const first = ask();
+		respondToPermission(first.id, 'allowSession');
+		await first.result;
+
+		const second = ask();
+		expect(second.events).toEqual([]);
+		await expect(second.result).resolves.toMatchObject({ behavior: 'allow' });
+	});
+
+	test('denies after the timeout', async () => {
+		vi.useFakeTimers();
+		const { events, result } = ask(1000);
+		vi.advanceTimersByTime(1000);
+		await expect(result).resolves.toMatchObject({ behavior: 'deny' });
+		expect(events.at(-1)).toMatchObject({ type: 'permission_resolved', decision: 'timeout' });
+	});
+
+	test('denyPendingPermissions releases everything a session is waiting on', async () => {
+		const { result, id } = ask();
+		denyPendingPermissions('s1');
+		await expect(result).resolves.toMatchObject({ behavior: 'deny' });
+		expect(respondToPermission(id, 'allowOnce')).toBe(false);
+	});
+});
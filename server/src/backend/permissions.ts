@@ -0,0 +1,133 @@
+import { randomUUID } from 'node:crypto';
+
+/** How the user answered an approval card */
+export type PermissionDecision = 'allowOnce' | 'allowSession' | 'deny';
+
+export const PERMISSION_DECISIONS: readonly PermissionDecision[] = [
+	'allowOnce',
+	'allowSession',
+	'deny',
+];
+
+/** A tool call the CLI is holding until the user approves or denies it (askApproval mode) */
+export interface PendingPermission {
+	id: string;
+	sessionId: string;
+	toolName: string;
+	toolUseId?: string;
+	input: unknown;
+	createdAt: string;
+}
+
+/** The permission-prompt tool's answer, in the shape the CLI expects */
+export type PermissionResult =
+	| { behavior: 'allow'; updatedInput: unknown }
+	| { behavior: 'deny'; message: string };
+
+/** Streamed to clients following the run so approval cards appear and disappear in step */
+export type PermissionEvent =
+	| { type: 'permission_request'; request: PendingPermission }
+	| {
+			type: 'permission_resolved';
+			id: string;
+			decision: PermissionDecision | 'timeout' | 'cancelled';
+	  };
+
+interface Waiter {
+	request: PendingPermission;
+	settle: (
+		result: PermissionResult,
+		decision: PermissionDecision | 'timeout' | 'cancelled',
+	) => void;
+}
+
+// Requests waiting on the user, keyed by request id
+const pending = new Map<string, Waiter>();
+
+// Tool names the user chose "Always allow for this session" for — in memory, like the runs they apply to
+const sessionAllows = new Map<string, Set<string>>();
+
+// Unanswered requests are denied after this long so the CLI never hangs indefinitely
+export const PERMISSION_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Hold a tool call until the user decides. Resolves immediately for tools already
+ * allowed for the session; otherwise notifies clients and waits for respondToPermission,
+ * denyPendingPermissions or the timeout.
+ */
+export function requestPermission(
+	params: { sessionId: string; toolName: string; toolUseId?: string; input: unknown },
+	notify: (event: PermissionEvent) => void,
+	timeoutMs = PERMISSION_TIMEOUT_MS,
+): Promise<PermissionResult> {
+	const { sessionId, toolName, toolUseId, input } = params;
+	if (sessionAllows.get(sessionId)?.has(toolName)) {
+		return Promise.resolve({ behavior: 'allow', updatedInput: input });
+	}
+
+	const request: PendingPermission = {
+		id: randomUUID(),
+		sessionId,
+		toolName,
+		toolUseId,
+		input,
+		createdAt: new Date().toISOString(),
+	};
+
+	return new Promise((resolve) => {
+		const timer = setTimeout(
+			() =>
+				settle(
+					{ behavior: 'deny', message: 'No response to the approval request in time' },
+					'timeout',
+				),
+			timeoutMs,
+		);
+		const settle: Waiter['settle'] = (result, decision) => {
+			if (!pending.delete(request.id)) return;
+			clearTimeout(timer);
+			notify({ type: 'permission_resolved', id: request.id, decision });
+			resolve(result);
+		};
+		pending.set(request.id, { request, settle });
+		notify({ type: 'permission_request', request });
+	});
+}
+
+/** Apply the user's answer. Returns false if the request is no longer pending. */
+export function respondToPermission(id: string, decision: PermissionDecision): boolean {
+	const waiter = pending.get(id);
+	if (!waiter) return false;
+	const { request } = waiter;
+	if (decision === 'deny') {
+		waiter.settle({ behavior: 'deny', message: 'The user denied this tool call' }, decision);
+		return true;
+	}
+	if (decision === 'allowSession') {
+		const allowed = sessionAllows.get(request.sessionId) ?? new Set<string>();
+		allowed.add(request.toolName);
+		sessionAllows.set(request.sessionId, allowed);
+	}
+	waiter.settle({ behavior: 'allow', updatedInput: request.input }, decision);
+	return true;
+}
+
+/** Deny everything a session is waiting on — called when its run ends or is cancelled */
+export function denyPendingPermissions(sessionId: string): void {
+	for (const waiter of [...pending.values()]) {
+		if (waiter.request.sessionId === sessionId) {
+			waiter.settle({ behavior: 'deny', message: 'The run was cancelled' }, 'cancelled');
+		}
+	}
+}
+
+export function listPendingPermissions(sessionId?: string): PendingPermission[] {
+	return [...pending.values()]
+		.map((w) => w.request)
+		.filter((r) => sessionId === undefined || r.sessionId === sessionId);
+}
+
+export function forgetSessionPermissions(sessionId: string): void {
+	sessionAllows.delete(sessionId);
+	denyPendingPermissions(sessionId);
+}
@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'vitest';
+import { profileArgs, validateExtraArgs, validateProjectProfile } from './profiles';
+
+const MODELS = ['haiku', 'sonnet', 'opus'];
+
+describe('validateProjectProfile', () => {
+	test('keeps only the fields that were set', () => {
+		expect(validateProjectProfile({}, MODELS)).toEqual({});
+		expect(validateProjectProfile({ model: 'opus', permissionMode: null }, MODELS)).toEqual({
+			model: 'opus',
+		});
+	});
+
+	test('validates every field of a full profile', () => {
+		expect(
+			validateProjectProfile(
+				{
+					model: 'haiku',
+					permissionMode: 'acceptEdits',
+					allowedTools: ['Bash(git:*)'],
+					disallowedTools: ['WebFetch'],
+					appendSystemPrompt: '  Keep answers short.  ',
+					extraArgs: ['--max-turns', '20'],
+				},
+				MODELS,
+			),
+		).toEqual({
+			model: 'haiku',
+			permissionMode: 'acceptEdits',
+			allowedTools: ['Bash(git:*)'],
+			disallowedTools: ['WebFetch'],
+			appendSystemPrompt: 'Keep answers short.',
+			extraArgs: ['--max-turns', '20'],
+		});
+	});
+
+	test('drops a blank system prompt and empty extra args', () => {
+		expect(validateProjectProfile({ appendSystemPrompt: '   ', extraArgs: [] }, MODELS)).toEqual(
+			{},
+		);
+	});
+
+	test('rejects bad values', () => {
+		expect(() => validateProjectProfile(null, MODELS)).toThrow(/must be an object/);
+		expect(() => validateProjectProfile({ model: 'gpt' }, MODELS)).toThrow(/model must be one of/);
+		expect(() => validateProjectProfile({ permissionMode: 'yolo' }, MODELS)).toThrow();
+		expect(() => validateProjectProfile({ allowedTools: ['rm -rf'] }, MODELS)).toThrow();
+		expect(() => validateProjectProfile({ appendSystemPrompt: 42 }, MODELS)).toThrow();
+	});
+});
+
+describe('validateExtraArgs', () => {
+	test('accepts flags with values', () => {
+		expect(validateExtraArgs(['--max-turns', '5', '--add-dir=../shared'])).toEqual([
+			'--max-turns',
+			'5',
+			'--add-dir=../shared',
+		]);
+	});
+
+	test('rejects flags claudet manages, in either form', () => {
+		expect(() => validateExtraArgs(['--resume', 'abc'])).toThrow(/cannot set --resume/);
+		expect(() => validateExtraArgs(['--output-format=json'])).toThrow(/--output-format/);
+		expect(() => validateExtraArgs(['-p'])).toThrow();
+	});
+
+	test('rejects a leading bare value and non-strings', () => {
+		expect(() => validateExtraArgs(['hello'])).toThrow(/start with a flag/);
+		expect(() => validateExtraArgs([1])).toThrow();
+		expect(() => validateExtraArgs('--verbose')).toThrow();
+	});
+});
+
+describe('profileArgs', () => {
+	test('passes the system prompt and extra flags through', () => {
+		expect(
+			profileArgs({ appendSystemPrompt: 'Be terse.', extraArgs: ['--max-turns', '3'] }),
+		).toEqual(['--append-system-prompt', 'Be terse.', '--max-turns', '3']);
+		expect(profileArgs({})).toEqual([]);
+	});
+});
@@ -0,0 +1,124 @@
+import {
+	type PermissionMode,
+	validatePermissionMode,
+	validateToolPatterns,
+} from './tool-permissions';
+
+/**
+ * Defaults for new sessions in one project, stored in settings keyed by project path.
+ * Every field is optional; unset fields fall back to the global defaults.
+ */
+export interface ProjectProfile {
+	model?: string;
+	permissionMode?: PermissionMode;
+	allowedTools?: string[];
+	disallowedTools?: string[];
+	/** Passed as `--append-system-prompt` on every run of the session */
+	appendSystemPrompt?: string;
+	/** Extra CLI flags passed on every run, e.g. ["--max-turns", "20"] */
+	extraArgs?: string[];
+}
+
+const MAX_SYSTEM_PROMPT_LENGTH = 10_000;
+const MAX_EXTRA_ARGS = 20;
+const MAX_EXTRA_ARG_LENGTH = 500;
+
+// Flags claudet sets itself — letting a profile pass them would break streaming or sessions
+const RESERVED_FLAGS = new Set([
+	'-p',
+	'--print',
+	'-r',
+	'--resume',
+	'-c',
+	'--continue',
+	'--session-id',
+	'--fork-session',
+	'--model',
+	'--output-format',
+	'--input-format',
+	'--verbose',
+	'--include-partial-messages',
+	'--permission-mode',
+	'--dangerously-skip-permissions',
+	'--allowedTools',
+	'--allowed-tools',
+	'--disallowedTools',
+	'--disallowed-tools',
+	'--mcp-config',
+	'--permission-prompt-tool',
+	'--append-system-prompt',
+]);
+
+/** Checks extra CLI flags; throws with a client-facing message */
+export function validateExtraArgs(raw: unknown): string[] {
+	if (!Array.isArray(raw)) throw new Error('extraArgs must be an array of strings');
+	if (raw.length > MAX_EXTRA_ARGS) {
+		throw new Error(`extraArgs can hold at most ${MAX_EXTRA_ARGS} entries`);
+	}
+	const args: string[] = [];
+	for (const item of raw) {
+		if (typeof item !== 'string' || item === '') {
+			throw new Error('extraArgs must only contain non-empty strings');
+		}
+		if (item.length > MAX_EXTRA_ARG_LENGTH) throw new Error('extraArgs entries are too long');
+		if (item.startsWith('-') && RESERVED_FLAGS.has(item.split('=')[0] ?? item)) {
+			throw new Error(`extraArgs cannot set ${item.split('=')[0]}; claudet manages it`);
+		}
+		args.push(item);
+	}
+	if (args.length > 0 && !args[0]?.startsWith('-')) {
+		throw new Error('extraArgs must start with a flag');
+	}
+	return args;
+}
+
+/**
+ * Validate a profile from a client. `models` is the list the server accepts.
+ * Returns only the fields that were set; throws with a client-facing message.
+ */
+export function validateProjectProfile(raw: unknown, models: readonly string[]): ProjectProfile {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new Error('profile must be an object');
+	}
+	const input = raw as Record<string, unknown>;
+	const profile: ProjectProfile = {};
+
+	if (input.model !== undefined && input.model !== null) {
+		if (!models.includes(input.model as string)) {
+			throw new Error(`model must be one of ${models.join(', ')}`);
+		}
+		profile.model = input.model as string;
+	}
+	if (input.permissionMode !== undefined && input.permissionMode !== null) {
+		profile.permissionMode = validatePermissionMode(input.permissionMode);
+	}
+	if (input.allowedTools !== undefined && input.allowedTools !== null) {
+		profile.allowedTools = validateToolPatterns(input.allowedTools, 'allowedTools');
+	}
+	if (input.disallowedTools !== undefined && input.disallowedTools !== null) {
+		profile.disallowedTools = validateToolPatterns(input.disallowedTools, 'disallowedTools');
+	}
+	if (input.appendSystemPrompt !== undefined && input.appendSystemPrompt !== null) {
+		if (typeof input.appendSystemPrompt !== 'string') {
+			throw new Error('appendSystemPrompt must be a string');
+		}
+		if (input.appendSystemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+			throw new Error(`appendSystemPrompt can be at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`);
+		}
+		const prompt = input.appendSystemPrompt.trim();
+		if (prompt) profile.appendSystemPrompt = prompt;
+	}
+	if (input.extraArgs !== undefined && input.extraArgs !== null) {
+		const extraArgs = validateExtraArgs(input.extraArgs);
+		if (extraArgs.length > 0) profile.extraArgs = extraArgs;
+	}
+	return profile;
+}
+
+/** CLI flags for the profile fields that apply on every run rather than at session creation */
+export function profileArgs(profile: Pick<ProjectProfile, 'appendSystemPrompt' | 'extraArgs'>) {
+	return [
+		...(profile.appendSystemPrompt ? ['--append-system-prompt', profile.appendSystemPrompt] : []),
+		...(profile.extraArgs ?? []),
+	];
+}
@@ -0,0 +1,230 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { getSession, RunCancelledError, sendMessage } from './claude';
+import type { ChatStreamEvent } from './claude-stream';
+import {
+	dbCreateRun,
+	dbDeleteQueuedRun,
+	dbFailOrphanedRuns,
+	dbGetRun,
+	dbListActiveRuns,
+	dbListSessionRuns,
+	dbMarkRunFinished,
+	dbMarkRunStarted,
+	dbNextQueuedRun,
+	dbUpdateQueuedRunMessage,
+} from './db';
+import { RunFailedError, retryablePrompt } from './failures';
+
+export type RunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** One prompt sent to a session, tracked independently of the HTTP request that created it */
+export interface Run {
+	id: string;
+	sessionId: string;
+	message: string;
+	status: RunStatus;
+	createdAt: Date;
+	startedAt?: Date;
+	endedAt?: Date;
+	output?: string;
+	error?: string;
+	/** Re-runs the failed prompt already in the history (see retryRun) */
+	retry?: boolean;
+}
+
+interface LiveRun {
+	events: ChatStreamEvent[];
+	emitter: EventEmitter;
+	finished: boolean;
+}
+
+// Events of runs owned by this process, replayed to subscribers that attach late (e.g. a phone reconnecting)
+const liveRuns = new Map<string, LiveRun>();
+
+// Sessions with a run executing right now — each session runs at most one CLI process at a time
+const busySessions = new Set<string>();
+
+// Keep a finished run's events briefly so a client reconnecting right at the end still sees the stream
+const LIVE_RETENTION_MS = 60_000;
+
+export function isFinished(status: RunStatus): boolean {
+	return status === 'succeeded' || status === 'failed' || status === 'cancelled';
+}
+
+function liveFor(runId: string): LiveRun {
+	let live = liveRuns.get(runId);
+	if (!live) {
+		live = { events: [], emitter: new EventEmitter(), finished: false };
+		liveRuns.set(runId, live);
+	}
+	return live;
+}
+
+function finishLive(runId: string, live: LiveRun): void {
+	live.finished = true;
+	live.emitter.emit('end');
+	setTimeout(() => liveRuns.delete(runId), LIVE_RETENTION_MS).unref();
+}
+
+/**
+ * Persist a new run at the back of its session's queue and return immediately.
+ * Runs for one session execute strictly one after another, so concurrent sends
+ * (double taps, a second device) never race two `claude --resume` processes on one transcript.
+ */
+export function enqueueRun(sessionId: string, message: string, retry = false): Run {
+	const run: Run = {
+		id: randomUUID(),
+		sessionId,
+		message,
+		status: 'queued',
+		createdAt: new Date(),
+		...(retry ? { retry } : {}),
+	};
+	dbCreateRun(run);
+	liveFor(run.id);
+	pumpSession(sessionId);
+	// Reflect whether the run started straight away or is waiting behind another
+	return dbGetRun(run.id) ?? run;
+}
+
+// Start the session's oldest queued run unless one is already executing
+function pumpSession(sessionId: string): void {
+	if (busySessions.has(sessionId)) return;
+	const next = dbNextQueuedRun(sessionId);
+	if (!next) return;
+	busySessions.add(sessionId);
+	void execute(next, liveFor(next.id)).finally(() => {
+		busySessions.delete(sessionId);
+		pumpSession(sessionId);
+	});
+}
+
+async function execute(run: Run, live: LiveRun): Promise<void> {
+	const emit = (event: ChatStreamEvent) => {
+		live.events.push(event);
+		live.emitter.emit('event', event);
+	};
+
+	run.status = 'running';
+	run.startedAt = new Date();
+	dbMarkRunStarted(run.id, run.startedAt);
+	try {
+		const output = await sendMessage(run.sessionId, run.message, emit, { retry: run.retry });
+		dbMarkRunFinished(run.id, { status: 'succeeded', endedAt: new Date(), output });
+	} catch (error) {
+		if (error instanceof RunCancelledError) {
+			dbMarkRunFinished(run.id, { status: 'cancelled', endedAt: new Date() });
+			emit({ type: 'cancelled' });
+		} else {
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			console.error(`Run ${run.id} failed:`, error);
+			dbMarkRunFinished(run.id, { status: 'failed', endedAt: new Date(), error: message });
+			emit({
+				type: 'error',
+				error: message,
+				...(error instanceof RunFailedError ? { failure: error.failure } : {}),
+			});
+		}
+	} finally {
+		finishLive(run.id, live);
+	}
+}
+
+/**
+ * Queue a re-run of the session's last prompt, provided its latest history entry is a failure.
+ * Returns undefined when there is nothing to retry or the session already has a run in flight.
+ */
+export function retryRun(sessionId: string): Run | undefined {
+	const session = getSession(sessionId);
+	const prompt = session && retryablePrompt(session.messages);
+	if (prompt === undefined || listActiveRuns(sessionId).length > 0) return undefined;
+	return enqueueRun(sessionId, prompt, true);
+}
+
+/** Replace the prompt of a run that hasn't started yet. Returns undefined once it has. */
+export function editQueuedRun(id: string, message: string): Run | undefined {
+	if (!dbUpdateQueuedRunMessage(id, message)) return undefined;
+	return dbGetRun(id);
+}
+
+/** Remove a run that hasn't started yet. Returns false once it has. */
+export function dropQueuedRun(id: string): boolean {
+	if (!dbDeleteQueuedRun(id)) return false;
+	const live = liveRuns.get(id);
+	if (live) {
+		live.events.push({ type: 'cancelled' });
+		live.emitter.emit('event', { type: 'cancelled' });
+		finishLive(id, live);
+	}
+	return true;
+}
+
+export function getRun(id: string): Run | undefined {
+	return dbGetRun(id);
+}
+
+/** Unfinished runs (running first, then the queue in order), optionally limited to one session */
+export function listActiveRuns(sessionId?: string): Run[] {
+	const runs = sessionId !== undefined ? dbListSessionRuns(sessionId) : dbListActiveRuns();
+	return runs.filter((r) => !isFinished(r.status));
+}
+
+// Terminal event for a run whose live events are no longer in memory
+function finalEvent(run: Run): ChatStreamEvent {
+	switch (run.status) {
+		case 'succeeded':
+			return { type: 'done', response: run.output ?? '' };
+		case 'cancelled':
+			return { type: 'cancelled' };
+		case 'failed':
+			return { type: 'error', error: run.error ?? 'Run failed' };
+		default:
+			return { type: 'error', error: 'Run is no longer active' };
+	}
+}
+
+/**
+ * Replay a run's events so far, then follow it live until it finishes.
+ * Returns an unsubscribe function; onEnd fires once no further events will arrive.
+ */
+export function followRun(
+	run: Run,
+	onEvent: (event: ChatStreamEvent) => void,
+	onEnd: () => void,
+): () => void {
+	const live = liveRuns.get(run.id);
+	if (!live) {
+		onEvent(finalEvent(run));
+		onEnd();
+		return () => {};
+	}
+
+	for (const event of live.events) onEvent(event);
+	if (live.finished) {
+		onEnd();
+		return () => {};
+	}
+
+	live.emitter.on('event', onEvent);
+	live.emitter.once('end', onEnd);
+	return () => {
+		live.emitter.off('event', onEvent);
+		live.emitter.off('end', onEnd);
+	};
+}
+
+/**
+ * Call once at startup: runs a previous server process left mid-flight are marked failed,
+ * and sessions with queued runs start working through their queues again.
+ */
+export function recoverOrphanedRuns(): void {
+	const count = dbFailOrphanedRuns('Server restarted before the run finished');
+	if (count > 0)
+		console.log(`⚠️  Marked ${count} unfinished run(s) from a previous server as failed`);
+
+	// Only queued runs are left; give each somewhere to collect events so followers can attach
+	const queued = dbListActiveRuns();
+	for (const run of queued) liveFor(run.id);
+	for (const sessionId of new Set(queued.map((r) => r.sessionId))) pumpSession(sessionId);
+}
@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { parseSearchQuery, toFtsQuery } from './search';
+
+describe('toFtsQuery', () => {
+	test('requires every word, with the last one as a prefix', () => {
+		expect(toFtsQuery('fixed the migra')).toBe('"fixed" "the" "migra"*');
+	});
+
+	test('takes FTS operators and punctuation literally', () => {
+		expect(toFtsQuery('NOT foo* "bar" OR (baz)')).toBe('"NOT" "foo" "bar" "OR" "baz"*');
+		expect(toFtsQuery('db.ts')).toBe('"db" "ts"*');
+	});
+
+	test('keeps non-ASCII words', () => {
+		expect(toFtsQuery('café übersicht')).toBe('"café" "übersicht"*');
+	});
+
+	test('returns undefined without any words', () => {
+		expect(toFtsQuery('  ?! ')).toBeUndefined();
+	});
+});
+
+describe('parseSearchQuery', () => {
+	test('defaults the limit and drops an empty project filter', () => {
+		expect(parseSearchQuery({ q: 'migration', projectPath: '' })).toEqual({
+			match: '"migration"*',
+			projectPath: undefined,
+			limit: 50,
+		});
+	});
+
+	test('accepts a project filter and limit', () => {
+		expect(parseSearchQuery({ q: 'x', projectPath: '/p', limit: '10' })).toMatchObject({
+			projectPath: '/p',
+			limit: 10,
+		});
+	});
+
+	test('rejects bad params', () => {
+		expect(() => parseSearchQuery({})).toThrow(/q is required/);
+		expect(() => parseSearchQuery({ q: '***' })).toThrow(/at least one word/);
+		expect(() => parseSearchQuery({ q: 'x', limit: '0' })).toThrow(/limit/);
+		expect(() => parseSearchQuery({ q: 'x', limit: 'ten' })).toThrow(/limit/);
+		expect(() => parseSearchQuery({ q: 'x'.repeat(501) })).toThrow(/at most/);
+	});
+});
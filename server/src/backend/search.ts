@@ -0,0 +1,62 @@
+/** Marks matched terms in search snippets */
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const MAX_QUERY_LENGTH = 500;
+
+export interface SearchQuery {
+	/** FTS5 match expression built from the user's text */
+	match: string;
+	projectPath?: string;
+	limit: number;
+}
+
+export interface SearchHit {
+	kind: 'message' | 'session';
+	sessionId: string;
+	sessionName?: string;
+	projectPath: string;
+	/** Set for message hits: the row id and its position in the session's history */
+	messageId?: number;
+	messageIndex?: number;
+	role?: 'user' | 'assistant';
+	/** Matching excerpt with terms wrapped in HIGHLIGHT_START/HIGHLIGHT_END */
+	snippet: string;
+	createdAt: string;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, and the last one may be a prefix
+ * so results show up while typing. Words are quoted so FTS5 operators and punctuation in the
+ * input are taken literally. Returns undefined when there is nothing to search for.
+ */
+export function toFtsQuery(text: string): string | undefined {
+	const words = text.match(/[\p{L}\p{N}_]+/gu);
+	if (!words) return undefined;
+	return words.map((w, i) => `"${w}"${i === words.length - 1 ? '*' : ''}`).join(' ');
+}
+
+/** Validate `GET /api/search` query params; throws with a client-facing message */
+export function parseSearchQuery(query: Record<string, unknown>): SearchQuery {
+	const { q, projectPath, limit } = query;
+	if (typeof q !== 'string' || !q.trim()) throw new Error('q is required');
+	if (q.length > MAX_QUERY_LENGTH) {
+		throw new Error(`q must be at most ${MAX_QUERY_LENGTH} characters`);
+	}
+	const match = toFtsQuery(q);
+	if (!match) throw new Error('q must contain at least one word');
+	if (projectPath !== undefined && typeof projectPath !== 'string') {
+		throw new Error('projectPath must be a string');
+	}
+
+	let parsedLimit = DEFAULT_LIMIT;
+	if (limit !== undefined) {
+		parsedLimit = Number(limit);
+		if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_LIMIT) {
+			throw new Error(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+		}
+	}
+	return { match, projectPath: projectPath || undefined, limit: parsedLimit };
+}
@@ -0,0 +1,979 @@
+import { randomUUID } from 'node:crypto';
+import { once } from 'node:events';
+import {
+	chmodSync,
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import type { Server } from 'node:http';
+import { get } from 'node:https';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import multer from 'multer';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { AUDIO_UPLOAD_DIR, uploadErrorResponse } from './audio/upload';
+import { internalToken, issuePairingCode, MAX_PAIRING_ATTEMPTS } from './auth';
+import type { TurnEvent } from './claude-stream';
+import { closeDatabase, dbCreateRun, dbMarkRunStarted } from './db';
+import { IN_MEMORY_HOME } from './home';
+import type { PendingPermission, PermissionEvent } from './permissions';
+import type { Run } from './runs';
+import { startServer } from './server';
+import { loadTlsCredentials } from './tls';
+import { projectSlug } from './transcripts';
+
+let server: Server | undefined;
+
+// Pairing has its own suite; elsewhere requests go without a token
+async function start(home: string, auth = false): Promise<string> {
+	server = startServer({ home, port: 0, auth });
+	await once(server, 'listening');
+	return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function post(url: string, body: unknown): Promise<Response> {
+	return fetch(url, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+}
+
+async function finished(url: string, runId: string): Promise<{ status: string }> {
+	for (;;) {
+		const run = (await (await fetch(`${url}/api/runs/${runId}`)).json()) as { status: string };
+		if (['succeeded', 'failed', 'cancelled'].includes(run.status)) return run;
+		await new Promise((r) => setTimeout(r, 20));
+	}
+}
+
+async function started(url: string, runId: string): Promise<void> {
+	for (;;) {
+		const run = (await (await fetch(`${url}/api/runs/${runId}`)).json()) as { status: string };
+		if (run.status !== 'queued') return;
+		await new Promise((r) => setTimeout(r, 10));
+	}
+}
+
+async function newSession(url: string, permissionMode?: string): Promise<string> {
+	const created = await post(`${url}/api/sessions`, { projectPath: tmpdir(), permissionMode });
+	return ((await created.json()) as { id: string }).id;
+}
+
+async function chat(
+	url: string,
+	sessionId: string,
+	message: string,
+): Promise<{ id: string; status: string }> {
+	const sent = await post(`${url}/api/chat`, { sessionId, message });
+	return (await sent.json()) as { id: string; status: string };
+}
+
+// The run's event stream, read to the end
+async function runEvents(url: string, runId: string): Promise<{ type: string }[]> {
+	const text = await (await fetch(`${url}/api/runs/${runId}/events`)).text();
+	return text
+		.split('\n')
+		.filter(Boolean)
+		.map((line) => JSON.parse(line) as { type: string });
+}
+
+// Put a stand-in `claude` running `script` first on PATH; returns its directory, to remove after
+function stubClaudeCli(script: string): string {
+	const bin = mkdtempSync(join(tmpdir(), 'claudet-bin-'));
+	writeFileSync(join(bin, 'claude'), `#!/bin/sh\n${script}\n`);
+	chmodSync(join(bin, 'claude'), 0o755);
+	vi.stubEnv('PATH', `${bin}:${process.env.PATH}`);
+	return bin;
+}
+
+beforeEach(() => {
+	vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+	if (server) {
+		server.close();
+		await once(server, 'close');
+		server = undefined;
+	}
+	closeDatabase();
+	vi.restoreAllMocks();
+	vi.unstubAllEnvs();
+});
+
+describe('isolated servers', () => {
+	test('an in-memory server saves settings', async () => {
+		const url = await start(IN_MEMORY_HOME);
+		const res = await fetch(`${url}/api/settings`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ baseDir: 'dev' }),
+		});
+		expect(res.status).toBe(200);
+		expect(await (await fetch(`${url}/api/settings`)).json()).toMatchObject({ baseDir: 'dev' });
+	});
+
+	test('the next in-memory server starts empty', async () => {
+		const url = await start(IN_MEMORY_HOME);
+		expect(await (await fetch(`${url}/api/settings`)).json()).toMatchObject({ baseDir: null });
+		expect(await (await fetch(`${url}/api/sessions`)).json()).toEqual({ sessions: [] });
+	});
+
+	test('a home directory holds the database and config.json', async () => {
+		const home = mkdtempSync(join(tmpdir(), 'claudet-home-'));
+		try {
+			const url = await start(home);
+			await fetch(`${url}/api/settings`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ baseDir: 'dev' }),
+			});
+			expect(existsSync(join(home, 'claudet.db'))).toBe(true);
+			expect(existsSync(join(home, 'config.json'))).toBe(true);
+		} finally {
+			rmSync(home, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('project profiles', () => {
+	test('can only be saved for a discovered project', async () => {
+		const home = mkdtempSync(join(tmpdir(), 'claudet-user-'));
+		vi.stubEnv('HOME', home);
+		mkdirSync(join(home, 'dev', 'app', '.git'), { recursive: true });
+		try {
+			const url = await start(IN_MEMORY_HOME);
+			const put = (id: string) =>
+				fetch(`${url}/api/projects/profile`, {
+					method: 'PUT',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ id, profile: { model: 'opus' } }),
+				});
+			expect((await put(join(home, 'dev', 'app'))).status).toBe(404);
+
+			await post(`${url}/api/settings`, { baseDir: 'dev' });
+			expect((await put(join(home, 'dev', 'app'))).status).toBe(200);
+			const typo = await put(join(home, 'dev', 'ap'));
+			expect(typo.status).toBe(404);
+			expect(await typo.json()).toEqual({ error: 'Project not found' });
+			const settings = (await (await fetch(`${url}/api/settings`)).json()) as {
+				projectProfiles: Record<string, unknown>;
+			};
+			expect(Object.keys(settings.projectProfiles)).toEqual([join(home, 'dev', 'app')]);
+		} finally {
+			rmSync(home, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('retrying a failed run', () => {
+	test('keeps the failure in the history and re-runs the prompt', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		const url = await start(IN_MEMORY_HOME);
+		const created = await post(`${url}/api/sessions`, { projectPath: tmpdir() });
+		const session = (await created.json()) as { id: string };
+		const messagesUrl = `${url}/api/sessions/${session.id}/messages`;
+		const retryUrl = `${url}/api/sessions/${session.id}/retry`;
+		expect((await post(retryUrl, {})).status).toBe(409);
+
+		const sent = await post(`${url}/api/chat`, { sessionId: session.id, message: 'please fail' });
+		const run = (await sent.json()) as { id: string };
+		expect(await finished(url, run.id)).toMatchObject({ status: 'failed' });
+		const { messages } = (await (await fetch(messagesUrl)).json()) as { messages: unknown[] };
+		expect(messages).toEqual([
+			{ role: 'user', content: 'please fail' },
+			{
+				role: 'assistant',
+				content: '',
+				failure: expect.objectContaining({ kind: 'crash', exitCode: 1 }),
+			},
+		]);
+
+		const retry = await post(retryUrl, {});
+		expect(retry.status).toBe(202);
+		const retried = (await retry.json()) as { id: string; retry: boolean };
+		expect(retried.retry).toBe(true);
+		expect(await finished(url, retried.id)).toMatchObject({ status: 'succeeded' });
+		const after = (await (await fetch(messagesUrl)).json()) as { messages: { content: string }[] };
+		expect(after.messages.map((m) => m.content)).toEqual(['please fail', '', 'Echo: please fail']);
+		expect((await post(retryUrl, {})).status).toBe(409);
+	});
+});
+
+describe('runs', () => {
+	// Stop the server and close its database, as a restart would, then start a fresh one on `home`
+	async function restart(home: string): Promise<string> {
+		server?.close();
+		if (server) await once(server, 'close');
+		closeDatabase();
+		return start(home);
+	}
+
+	test("persist, and a finished run's events replay in full", async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const home = mkdtempSync(join(tmpdir(), 'claudet-home-'));
+		try {
+			let url = await start(home);
+			const sessionId = await newSession(url);
+			const run = await chat(url, sessionId, 'hello there');
+			expect(await finished(url, run.id)).toMatchObject({ status: 'succeeded' });
+
+			const events = await runEvents(url, run.id);
+			expect(events[0]).toMatchObject({ type: 'init' });
+			expect(events.filter((e) => e.type === 'delta').length).toBeGreaterThan(0);
+			expect(events.at(-1)).toMatchObject({ type: 'done', response: 'Echo: hello there' });
+
+			url = await restart(home);
+			expect(await (await fetch(`${url}/api/runs/${run.id}`)).json()).toMatchObject({
+				id: run.id,
+				sessionId,
+				message: 'hello there',
+				status: 'succeeded',
+				output: 'Echo: hello there',
+			});
+		} finally {
+			rmSync(home, { recursive: true, force: true });
+		}
+	});
+
+	test('after a restart, the run in flight fails and the queue carries on', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const home = mkdtempSync(join(tmpdir(), 'claudet-home-'));
+		try {
+			let url = await start(home);
+			const sessionId = await newSession(url);
+			// What a server killed mid-run leaves behind: one run started, two waiting
+			const queued = (message: string, offset: number): Run => ({
+				id: randomUUID(),
+				sessionId,
+				message,
+				status: 'queued',
+				createdAt: new Date(Date.now() + offset),
+			});
+			const [orphan, first, second] = [queued('one', 0), queued('two', 1), queued('three', 2)];
+			for (const run of [orphan, first, second]) dbCreateRun(run);
+			dbMarkRunStarted(orphan.id, new Date());
+
+			url = await restart(home);
+			expect(await (await fetch(`${url}/api/runs/${orphan.id}`)).json()).toMatchObject({
+				status: 'failed',
+				error: 'Server restarted before the run finished',
+			});
+			// The second run is still waiting; following it sees it through rather than giving up
+			expect((await runEvents(url, second.id)).at(-1)).toMatchObject({
+				type: 'done',
+				response: 'Echo: three',
+			});
+			expect(await finished(url, first.id)).toMatchObject({ status: 'succeeded' });
+		} finally {
+			rmSync(home, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('queueing runs', () => {
+	type RunTimes = { status: string; startedAt: string; endedAt: string };
+
+	async function runJson(url: string, runId: string): Promise<RunTimes> {
+		return (await (await fetch(`${url}/api/runs/${runId}`)).json()) as RunTimes;
+	}
+
+	async function patch(url: string, body: unknown): Promise<Response> {
+		return fetch(url, {
+			method: 'PATCH',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		});
+	}
+
+	test('runs two sends to one session one after the other', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		const first = await chat(url, sessionId, 'first');
+		const second = await chat(url, sessionId, 'second');
+		expect(second.status).toBe('queued');
+
+		await finished(url, second.id);
+		const a = await runJson(url, first.id);
+		const b = await runJson(url, second.id);
+		expect([a.status, b.status]).toEqual(['succeeded', 'succeeded']);
+		expect(Date.parse(b.startedAt)).toBeGreaterThanOrEqual(Date.parse(a.endedAt));
+		const res = await fetch(`${url}/api/sessions/${sessionId}/messages`);
+		const { messages } = (await res.json()) as { messages: { content: string }[] };
+		expect(messages.map((m) => m.content)).toEqual([
+			'first',
+			'Echo: first',
+			'second',
+			'Echo: second',
+		]);
+	});
+
+	test('runs the edited prompt of a queued run', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		await chat(url, sessionId, 'first');
+		const second = await chat(url, sessionId, 'second');
+
+		const res = await patch(`${url}/api/runs/${second.id}`, { message: 'edited' });
+		expect(res.status).toBe(200);
+		expect(await res.json()).toMatchObject({ status: 'queued', message: 'edited' });
+		expect(await finished(url, second.id)).toMatchObject({ output: 'Echo: edited' });
+	});
+
+	test('a dropped run ends its event stream as cancelled', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		const first = await chat(url, sessionId, 'first');
+		const second = await chat(url, sessionId, 'second');
+		const events = runEvents(url, second.id);
+
+		const res = await fetch(`${url}/api/runs/${second.id}`, { method: 'DELETE' });
+		expect(res.status).toBe(200);
+		expect(await events).toEqual([{ type: 'cancelled' }]);
+		expect((await fetch(`${url}/api/runs/${second.id}`)).status).toBe(404);
+		expect(await finished(url, first.id)).toMatchObject({ status: 'succeeded' });
+	});
+
+	test('a run that has started can no longer be edited or dropped', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		const run = await chat(url, sessionId, 'first');
+		await started(url, run.id);
+
+		const edited = await patch(`${url}/api/runs/${run.id}`, { message: 'edited' });
+		expect(edited.status).toBe(409);
+		expect(await edited.json()).toEqual({ error: 'Only queued runs can be edited' });
+		const dropped = await fetch(`${url}/api/runs/${run.id}`, { method: 'DELETE' });
+		expect(dropped.status).toBe(409);
+		expect(await dropped.json()).toEqual({ error: 'Only queued runs can be dropped' });
+		expect(await finished(url, run.id)).toMatchObject({ output: 'Echo: first' });
+	});
+});
+
+describe('approving tool calls', () => {
+	// Follow the run's event stream up to its first approval card
+	async function approvalRequest(url: string, runId: string): Promise<PendingPermission> {
+		const res = await fetch(`${url}/api/runs/${runId}/events`);
+		const reader = res.body!.getReader();
+		const decoder = new TextDecoder();
+		let buffered = '';
+		try {
+			for (;;) {
+				const { value, done } = await reader.read();
+				if (done) throw new Error('The run ended without asking for approval');
+				const lines = (buffered + decoder.decode(value, { stream: true })).split('\n');
+				buffered = lines.pop() ?? '';
+				for (const line of lines) {
+					const event = JSON.parse(line) as PermissionEvent | { type: 'other' };
+					if (event.type === 'permission_request') return event.request;
+				}
+			}
+		} finally {
+			await reader.cancel();
+		}
+	}
+
+	async function toolResult(url: string, runId: string) {
+		const events = (await runEvents(url, runId)) as { type: string; event?: TurnEvent }[];
+		return events.map((e) => e.event).find((e) => e?.kind === 'tool_result');
+	}
+
+	test('runs the tool once the user allows it', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url, 'askApproval');
+		const run = await chat(url, sessionId, 'use a tool');
+
+		const request = await approvalRequest(url, run.id);
+		expect(request).toMatchObject({ sessionId, toolName: 'Bash', toolUseId: 'toolu_fake' });
+		const res = await post(`${url}/api/permissions/${request.id}`, { decision: 'allowOnce' });
+		expect(res.status).toBe(200);
+
+		expect(await finished(url, run.id)).toMatchObject({ status: 'succeeded' });
+		expect(await runEvents(url, run.id)).toContainEqual({
+			type: 'permission_resolved',
+			id: request.id,
+			decision: 'allowOnce',
+		});
+		expect(await toolResult(url, run.id)).toMatchObject({ isError: false, output: 'use a tool' });
+	}, 15_000);
+
+	test('reports a denied tool call back to the model as an error', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url, 'askApproval');
+		const run = await chat(url, sessionId, 'use a tool');
+
+		const request = await approvalRequest(url, run.id);
+		await post(`${url}/api/permissions/${request.id}`, { decision: 'deny' });
+
+		expect(await finished(url, run.id)).toMatchObject({ status: 'succeeded' });
+		expect(await toolResult(url, run.id)).toMatchObject({
+			isError: true,
+			output: 'The user denied this tool call',
+		});
+		const again = await post(`${url}/api/permissions/${request.id}`, { decision: 'allowOnce' });
+		expect(again.status).toBe(404);
+	}, 15_000);
+});
+
+describe('syncing with the CLI transcript', () => {
+	test('a refreshed reply keeps the usage recorded for it', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const config = mkdtempSync(join(tmpdir(), 'claudet-cli-'));
+		vi.stubEnv('CLAUDE_CONFIG_DIR', config);
+		try {
+			const url = await start(IN_MEMORY_HOME);
+			const sessionId = await newSession(url);
+			await finished(url, (await chat(url, sessionId, 'hi')).id);
+			const usage = async () => {
+				const report = (await (await fetch(`${url}/api/usage`)).json()) as {
+					totals: { turns: number; outputTokens: number; costUsd: number };
+				};
+				const { sessions } = (await (await fetch(`${url}/api/sessions`)).json()) as {
+					sessions: { id: string; usage: { outputTokens: number; costUsd: number } }[];
+				};
+				return { report: report.totals, session: sessions.find((s) => s.id === sessionId)?.usage };
+			};
+			const before = await usage();
+			expect(before.report).toMatchObject({ turns: 1, costUsd: before.session?.costUsd });
+
+			// The CLI kept going after claudet recorded the reply
+			const dir = join(config, 'projects', projectSlug(tmpdir()));
+			mkdirSync(dir, { recursive: true });
+			const lines = [
+				{
+					type: 'user',
+					timestamp: new Date().toISOString(),
+					message: { role: 'user', content: 'hi' },
+				},
+				{
+					type: 'assistant',
+					uuid: 'a-later',
+					timestamp: new Date().toISOString(),
+					message: { role: 'assistant', content: [{ type: 'text', text: 'Echo: hi, and more' }] },
+				},
+			];
+			writeFileSync(
+				join(dir, `${sessionId}.jsonl`),
+				lines.map((l) => JSON.stringify(l)).join('\n'),
+			);
+			const res = await post(`${url}/api/sessions/${sessionId}/sync`, {});
+			expect(await res.json()).toEqual({ status: 'synced', added: 1 });
+
+			const after = await usage();
+			expect(after).toEqual(before);
+			expect(after.report.outputTokens).toBe(after.session?.outputTokens);
+		} finally {
+			rmSync(config, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('cancelling a run', () => {
+	test('answers 409 when the session has nothing running', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		const res = await post(`${url}/api/sessions/${sessionId}/cancel`, {});
+		expect(res.status).toBe(409);
+		expect(await res.json()).toEqual({ error: 'No run in progress' });
+		expect((await post(`${url}/api/sessions/missing/cancel`, {})).status).toBe(404);
+	});
+
+	test('records what had streamed in as an interrupted reply', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		const run = await chat(url, sessionId, 'tell me a long story about nothing in particular');
+		await started(url, run.id);
+
+		expect((await post(`${url}/api/sessions/${sessionId}/cancel`, {})).status).toBe(200);
+		expect(await finished(url, run.id)).toMatchObject({ status: 'cancelled' });
+		expect((await runEvents(url, run.id)).at(-1)).toEqual({ type: 'cancelled' });
+		const res = await fetch(`${url}/api/sessions/${sessionId}/messages`);
+		const { messages } = (await res.json()) as { messages: unknown[] };
+		expect(messages).toEqual([
+			{ role: 'user', content: 'tell me a long story about nothing in particular' },
+			expect.objectContaining({ role: 'assistant', interrupted: true }),
+		]);
+		expect((await post(`${url}/api/sessions/${sessionId}/cancel`, {})).status).toBe(409);
+	});
+
+	test('kills the CLI process', async () => {
+		// Only records its pid and waits to be killed
+		const bin = stubClaudeCli('echo $$ > "$(dirname "$0")/pid"\nexec sleep 30');
+		const pidFile = join(bin, 'pid');
+		try {
+			const url = await start(IN_MEMORY_HOME);
+			const sessionId = await newSession(url);
+			const run = await chat(url, sessionId, 'hi');
+			while (!existsSync(pidFile) || readFileSync(pidFile, 'utf8') === '') {
+				await new Promise((r) => setTimeout(r, 10));
+			}
+			const pid = Number(readFileSync(pidFile, 'utf8'));
+
+			expect((await post(`${url}/api/sessions/${sessionId}/cancel`, {})).status).toBe(200);
+			expect(await finished(url, run.id)).toMatchObject({ status: 'cancelled' });
+			expect(() => process.kill(pid, 0)).toThrow();
+		} finally {
+			rmSync(bin, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('forking a session', () => {
+	type Message = { role: string; content: string; events?: unknown[]; cliMessageUuid?: string };
+
+	async function messagesOf(url: string, sessionId: string): Promise<Message[]> {
+		const res = await fetch(`${url}/api/sessions/${sessionId}/messages`);
+		return ((await res.json()) as { messages: Message[] }).messages;
+	}
+
+	async function fork(url: string, sessionId: string, messageIndex?: number): Promise<Response> {
+		return post(`${url}/api/sessions/${sessionId}/fork`, { messageIndex });
+	}
+
+	test('rejects a message index outside the history', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		await finished(url, (await chat(url, sessionId, 'hi')).id);
+
+		for (const messageIndex of [-1, 2, 0.5]) {
+			const res = await fork(url, sessionId, messageIndex);
+			expect(res.status).toBe(400);
+			expect(await res.json()).toEqual({ error: 'messageIndex must be between 0 and 1' });
+		}
+		expect((await fork(url, 'missing')).status).toBe(404);
+	});
+
+	test('copies the history and its tool events up to the fork point', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		await finished(url, (await chat(url, sessionId, 'use a tool')).id);
+		await finished(url, (await chat(url, sessionId, 'and again')).id);
+
+		const res = await fork(url, sessionId, 1);
+		expect(res.status).toBe(200);
+		const forked = (await res.json()) as { id: string; parentSessionId: string };
+		expect(forked.parentSessionId).toBe(sessionId);
+
+		const [prompt, reply] = await messagesOf(url, sessionId);
+		expect(reply?.events?.length).toBe(3);
+		expect(await messagesOf(url, forked.id)).toEqual([
+			prompt,
+			expect.objectContaining({
+				role: 'assistant',
+				content: reply?.content,
+				events: reply?.events,
+				cliMessageUuid: reply?.cliMessageUuid,
+			}),
+		]);
+	});
+
+	test("the fork's first run resumes the parent's CLI session at the fork point", async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const sessionId = await newSession(url);
+		await finished(url, (await chat(url, sessionId, 'hi')).id);
+		await finished(url, (await chat(url, sessionId, 'more')).id);
+		const forked = (await (await fork(url, sessionId, 1)).json()) as { id: string };
+		const atUuid = (await messagesOf(url, sessionId))[1]?.cliMessageUuid;
+		expect(atUuid).toBeDefined();
+
+		// From here on the real CLI path runs, against a stand-in that writes down its arguments
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'false');
+		const bin = stubClaudeCli('printf "%s\\n" "$@" > "$(dirname "$0")/args"');
+		try {
+			await finished(url, (await chat(url, forked.id, 'go on')).id);
+			const args = readFileSync(join(bin, 'args'), 'utf8').split('\n');
+			expect(args.slice(0, 7)).toEqual([
+				'--resume',
+				sessionId,
+				'--fork-session',
+				'--session-id',
+				forked.id,
+				'--resume-session-at',
+				atUuid,
+			]);
+		} finally {
+			rmSync(bin, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('editing and regenerating a prompt', () => {
+	async function converse(url: string, prompts: string[]): Promise<string> {
+		const created = await post(`${url}/api/sessions`, { projectPath: tmpdir() });
+		const session = (await created.json()) as { id: string };
+		for (const message of prompts) {
+			const sent = await post(`${url}/api/chat`, { sessionId: session.id, message });
+			await finished(url, ((await sent.json()) as { id: string }).id);
+		}
+		return session.id;
+	}
+
+	async function messagesOf(url: string, sessionId: string) {
+		const res = await fetch(`${url}/api/sessions/${sessionId}/messages`);
+		return (await res.json()) as {
+			messages: { content: string }[];
+			branches: { messageIndex: number; sessionIds: string[]; current: number }[];
+		};
+	}
+
+	test('branches at the prompt and keeps the original navigable', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const original = await converse(url, ['hi', 'list files']);
+
+		const res = await post(`${url}/api/sessions/${original}/branch`, {
+			messageIndex: 2,
+			message: 'list all files',
+		});
+		expect(res.status).toBe(202);
+		const { session, run } = (await res.json()) as {
+			session: { id: string; parentSessionId: string; branchMessageIndex: number };
+			run: { id: string };
+		};
+		expect(session).toMatchObject({ parentSessionId: original, branchMessageIndex: 2 });
+		expect(await finished(url, run.id)).toMatchObject({ status: 'succeeded' });
+
+		const branch = await messagesOf(url, session.id);
+		expect(branch.messages.map((m) => m.content)).toEqual([
+			'hi',
+			'Echo: hi',
+			'list all files',
+			'Echo: list all files',
+		]);
+		expect(branch.branches).toEqual([
+			{ messageIndex: 2, sessionIds: [original, session.id], current: 1 },
+		]);
+		const before = await messagesOf(url, original);
+		expect(before.messages.map((m) => m.content)).toEqual([
+			'hi',
+			'Echo: hi',
+			'list files',
+			'Echo: list files',
+		]);
+		expect(before.branches).toEqual([
+			{ messageIndex: 2, sessionIds: [original, session.id], current: 0 },
+		]);
+	});
+
+	test('regenerates the first prompt in a new session', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const original = await converse(url, ['hi']);
+
+		const res = await post(`${url}/api/sessions/${original}/branch`, { messageIndex: 0 });
+		expect(res.status).toBe(202);
+		const { session, run } = (await res.json()) as { session: { id: string }; run: { id: string } };
+		await finished(url, run.id);
+		expect((await messagesOf(url, session.id)).messages.map((m) => m.content)).toEqual([
+			'hi',
+			'Echo: hi',
+		]);
+	});
+
+	test('only prompts can be edited', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const original = await converse(url, ['hi']);
+		const res = await post(`${url}/api/sessions/${original}/branch`, { messageIndex: 1 });
+		expect(res.status).toBe(400);
+		expect(await res.json()).toEqual({ error: 'messageIndex must point at one of your messages' });
+	});
+});
+
+describe('transcription uploads', () => {
+	function upload(url: string, blob: Blob, filename: string): Promise<Response> {
+		const form = new FormData();
+		form.append('audio', blob, filename);
+		return fetch(`${url}/api/transcribe`, { method: 'POST', body: form });
+	}
+
+	const uploads = () => (existsSync(AUDIO_UPLOAD_DIR) ? readdirSync(AUDIO_UPLOAD_DIR) : []);
+
+	test('requires an audio file', async () => {
+		const url = await start(IN_MEMORY_HOME);
+		const res = await fetch(`${url}/api/transcribe`, { method: 'POST', body: new FormData() });
+		expect(res.status).toBe(400);
+		expect(await res.json()).toEqual({ error: 'audio file is required' });
+
+		const text = await upload(url, new Blob(['hello'], { type: 'text/plain' }), 'notes.txt');
+		expect(text.status).toBe(415);
+	});
+
+	test('deletes the clip after transcribing it', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const before = uploads();
+		const res = await upload(
+			url,
+			new Blob([new Uint8Array(2000)], { type: 'audio/mp4' }),
+			'clip.m4a',
+		);
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({ text: 'Fake transcript of 2000 bytes' });
+		expect(uploads()).toEqual(before);
+
+		const wav = await upload(
+			url,
+			new Blob([new Uint8Array(3000)], { type: 'audio/wav' }),
+			'clip.wav',
+		);
+		expect(await wav.json()).toEqual({ text: 'Fake transcript of 3000 bytes' });
+		expect(uploads()).toEqual(before);
+
+		const short = await upload(
+			url,
+			new Blob([new Uint8Array(10)], { type: 'audio/mp4' }),
+			'clip.m4a',
+		);
+		expect(short.status).toBe(422);
+		expect(await short.json()).toEqual({ error: 'Recording too short or empty' });
+		expect(uploads()).toEqual(before);
+	});
+
+	test('reports clips over the size limit', () => {
+		expect(uploadErrorResponse(new multer.MulterError('LIMIT_FILE_SIZE', 'audio'))).toEqual({
+			status: 413,
+			error: 'Recording is too large (max 25 MB)',
+		});
+	});
+});
+
+describe('transcription settings', () => {
+	const settingsUrl = (url: string) => `${url}/api/settings/transcription`;
+
+	function put(url: string, body: unknown): Promise<Response> {
+		return fetch(settingsUrl(url), {
+			method: 'PUT',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		});
+	}
+
+	test('saves the whisper setup and reports what is missing', async () => {
+		const url = await start(IN_MEMORY_HOME);
+		const modelPath = join(tmpdir(), 'claudet-no-such-model.bin');
+		const res = await put(url, { modelPath, threads: 4, whisperPath: 'claudet-no-such-whisper' });
+		expect(res.status).toBe(200);
+		const { settings, health } = (await res.json()) as {
+			settings: { modelPath: string; threads: number; language: string };
+			health: { backend: string; ready: boolean; missing: string[] };
+		};
+		expect(settings).toMatchObject({ modelPath, threads: 4, language: 'en' });
+		expect(health).toMatchObject({ backend: 'whisper.cpp', ready: false });
+		expect(health.missing).toContain(`Whisper model not found at ${modelPath}`);
+		expect(health.missing).toContain('whisper-cli not found (claudet-no-such-whisper)');
+		expect(await (await fetch(settingsUrl(url))).json()).toEqual({ settings, health });
+	});
+
+	test('rejects invalid settings', async () => {
+		const url = await start(IN_MEMORY_HOME);
+		const res = await put(url, { threads: -1 });
+		expect(res.status).toBe(400);
+		expect(await res.json()).toEqual({
+			error: 'threads must be a whole number from 1 to 64, or null',
+		});
+	});
+
+	test('the fake backend is always ready', async () => {
+		vi.stubEnv('CLAUDE_TEST_FAKE', 'true');
+		const url = await start(IN_MEMORY_HOME);
+		const { health } = (await (await fetch(settingsUrl(url))).json()) as { health: unknown };
+		expect(health).toEqual({ backend: 'fake', ready: true, missing: [] });
+	});
+});
+
+describe('pairing and device tokens', () => {
+	async function pair(url: string, code: string, name = 'Test phone') {
+		const res = await post(`${url}/api/pair`, { code, name });
+		return {
+			status: res.status,
+			body: (await res.json()) as { token: string; device: { id: string } },
+		};
+	}
+
+	const withToken = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+	test('requires a paired device for the API, but not for health', async () => {
+		const url = await start(IN_MEMORY_HOME, true);
+		expect((await fetch(`${url}/health`)).status).toBe(200);
+		const res = await fetch(`${url}/api/sessions`);
+		expect(res.status).toBe(401);
+		expect(await res.json()).toEqual({ error: 'This device is not paired with the server' });
+		expect((await fetch(`${url}/api/sessions`, withToken('made-up'))).status).toBe(401);
+	});
+
+	test('trades a one-time code for a token that can be revoked', async () => {
+		const url = await start(IN_MEMORY_HOME, true);
+		const code = issuePairingCode();
+		const paired = await pair(url, code.toLowerCase());
+		expect(paired.status).toBe(201);
+		const { token, device } = paired.body;
+		expect((await pair(url, code)).status).toBe(401);
+
+		const sessions = await fetch(`${url}/api/sessions`, withToken(token));
+		expect(sessions.status).toBe(200);
+		const list = await (await fetch(`${url}/api/devices`, withToken(token))).json();
+		expect(list).toEqual({
+			devices: [expect.objectContaining({ id: device.id, name: 'Test phone', current: true })],
+		});
+
+		const revoke = `${url}/api/devices/${device.id}`;
+		expect((await fetch(revoke, { method: 'DELETE', ...withToken(token) })).status).toBe(200);
+		expect((await fetch(`${url}/api/sessions`, withToken(token))).status).toBe(401);
+	});
+
+	test('replaces the code after too many wrong guesses', async () => {
+		const url = await start(IN_MEMORY_HOME, true);
+		const code = issuePairingCode();
+		for (let i = 0; i < MAX_PAIRING_ATTEMPTS; i++) {
+			expect((await pair(url, 'WRONG123')).status).toBe(401);
+		}
+		expect((await pair(url, code)).status).toBe(401);
+	});
+
+	test('the internal token only reaches the permission route', async () => {
+		const url = await start(IN_MEMORY_HOME, true);
+		const internal = withToken(internalToken());
+		expect((await fetch(`${url}/api/sessions`, internal)).status).toBe(403);
+		const res = await fetch(`${url}/api/permissions`, {
+			method: 'POST',
+			headers: { ...internal.headers, 'Content-Type': 'application/json' },
+			body: JSON.stringify({}),
+		});
+		expect(res.status).toBe(400);
+	});
+
+	test('a viewer can read sessions but not change anything', async () => {
+		const url = await start(IN_MEMORY_HOME, true);
+		const owner = (await pair(url, issuePairingCode(), 'Owner')).body;
+		const viewer = (await pair(url, issuePairingCode(), 'Viewer')).body;
+		const setRole = (id: string, role: unknown, token: string) =>
+			fetch(`${url}/api/devices/${id}`, {
+				method: 'PATCH',
+				headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+				body: JSON.stringify({ role }),
+			});
+		expect((await setRole(viewer.device.id, 'admin', owner.token)).status).toBe(400);
+		expect((await setRole(owner.device.id, 'viewer', owner.token)).status).toBe(400);
+		expect((await setRole(viewer.device.id, 'viewer', owner.token)).status).toBe(200);
+
+		expect((await fetch(`${url}/api/sessions`, withToken(viewer.token))).status).toBe(200);
+		const send = await fetch(`${url}/api/chat`, {
+			method: 'POST',
+			headers: { Authorization: `Bearer ${viewer.token}`, 'Content-Type': 'application/json' },
+			body: JSON.stringify({ sessionId: 'any', message: 'hi' }),
+		});
+		expect(send.status).toBe(403);
+		expect(await send.json()).toEqual({ error: 'This device can only view sessions' });
+		expect((await setRole(owner.device.id, 'viewer', viewer.token)).status).toBe(403);
+	});
+
+	test("a viewer opening a session doesn't sync its history", async () => {
+		const config = mkdtempSync(join(tmpdir(), 'claudet-cli-'));
+		vi.stubEnv('CLAUDE_CONFIG_DIR', config);
+		try {
+			const url = await start(IN_MEMORY_HOME, true);
+			const owner = (await pair(url, issuePairingCode(), 'Owner')).body;
+			const viewer = (await pair(url, issuePairingCode(), 'Viewer')).body;
+			await fetch(`${url}/api/devices/${viewer.device.id}`, {
+				method: 'PATCH',
+				headers: { Authorization: `Bearer ${owner.token}`, 'Content-Type': 'application/json' },
+				body: JSON.stringify({ role: 'viewer' }),
+			});
+			const created = await fetch(`${url}/api/sessions`, {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${owner.token}`, 'Content-Type': 'application/json' },
+				body: JSON.stringify({ projectPath: tmpdir() }),
+			});
+			const { id } = (await created.json()) as { id: string };
+
+			const dir = join(config, 'projects', projectSlug(tmpdir()));
+			mkdirSync(dir, { recursive: true });
+			const lines = [
+				{
+					type: 'user',
+					timestamp: new Date().toISOString(),
+					message: { role: 'user', content: 'hi' },
+				},
+			];
+			writeFileSync(join(dir, `${id}.jsonl`), lines.map((l) => JSON.stringify(l)).join('\n'));
+
+			const open = async (token: string) =>
+				(await (await fetch(`${url}/api/sessions/${id}/messages`, withToken(token))).json()) as {
+					messages: unknown[];
+					sync: unknown;
+				};
+			expect(await open(viewer.token)).toMatchObject({
+				messages: [],
+				sync: { status: 'skipped', reason: 'This device can only view sessions' },
+			});
+			expect(await open(owner.token)).toMatchObject({ sync: { status: 'synced', added: 1 } });
+			expect((await open(viewer.token)).messages).toHaveLength(1);
+		} finally {
+			rmSync(config, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('network access', () => {
+	test('binds the given address and always lets loopback through the allowlist', async () => {
+		server = startServer({
+			home: IN_MEMORY_HOME,
+			port: 0,
+			host: '127.0.0.1',
+			allow: ['10.0.0.0/8'],
+			auth: false,
+		});
+		await once(server, 'listening');
+		expect((server.address() as AddressInfo).address).toBe('127.0.0.1');
+		const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		expect((await fetch(`${url}/health`)).status).toBe(200);
+	});
+
+	test('refuses to start with an invalid allowlist', () => {
+		expect(() => startServer({ home: IN_MEMORY_HOME, port: 0, allow: ['10.0.0.0/40'] })).toThrow(
+			'Invalid allowlist entry: 10.0.0.0/40',
+		);
+	});
+});
+
+describe('serving HTTPS', () => {
+	// What the permission MCP helper does: trust the server's own certificate rather than a CA
+	function healthStatus(url: string, ca?: string): Promise<number | undefined> {
+		return new Promise((resolve, reject) => {
+			get(`${url}/health`, { ca }, (res) => {
+				res.resume();
+				resolve(res.statusCode);
+			}).on('error', reject);
+		});
+	}
+
+	test('serves the API with its self-signed certificate', async () => {
+		const tls = await loadTlsCredentials(IN_MEMORY_HOME);
+		server = startServer({ home: IN_MEMORY_HOME, port: 0, auth: false, tls });
+		await once(server, 'listening');
+		const url = `https://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+		expect(await healthStatus(url, tls.cert)).toBe(200);
+		await expect(healthStatus(url)).rejects.toThrow(/self-signed/);
+	});
+});
@@ -1,27 +1,210 @@
 import express from 'express';
+import { randomUUID } from 'node:crypto';
+import { unlink } from 'node:fs/promises';
+import { createServer as createHttpServer } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
+import { type AddressInfo, isIP } from 'node:net';
 import { homedir } from 'node:os';
 import { join } from 'node:path';
-import { getLocalIP } from './utils/network';
+import qrcode from 'qrcode-terminal';
+import { getLocalIP, isLoopbackAddress, isWildcardAddress, urlHost } from './utils/network';
+import { transcriptionBackend } from './audio/backends';
 import {
+	TranscriptionError,
+	transcribeAudioFile,
+	transcriptionHealth,
+	validateTranscriptionSettings,
+} from './audio/transcription';
+import { receiveAudio, uploadErrorResponse } from './audio/upload';
+import { isAllowed, parseAllowlist, splitAllowlist } from './allowlist';
+import {
+	bearerToken,
+	createDeviceToken,
+	type Device,
+	type DeviceRole,
+	hashToken,
+	isInternalToken,
+	issuePairingCode,
+	pairingLink,
+	redeemPairingCode,
+	roleAllows,
+	validateDeviceName,
+	validateDeviceRole,
+} from './auth';
+import {
+	branchSession,
+	cancelRun,
 	createSession,
 	deleteSession,
+	forkSession,
 	getSession,
+	getUsage,
+	importSessions,
+	listBranchPoints,
+	listImportableSessions,
 	listSessions,
 	renameSession,
-	sendMessage,
+	requestToolApproval,
+	searchSessions,
+	type Session,
+	type SessionConfig,
+	type SessionMessage,
+	setCallbackAddress,
 	setSessionPermissionMode,
+	setSessionToolRules,
+	syncSession,
 } from './claude';
-import { excludeProject, loadSettings, saveSettings, validateBaseDir } from './settings';
+import type { ChatStreamEvent } from './claude-stream';
+import {
+	dropQueuedRun,
+	editQueuedRun,
+	enqueueRun,
+	followRun,
+	getRun,
+	listActiveRuns,
+	recoverOrphanedRuns,
+	retryRun,
+	type Run,
+} from './runs';
+import {
+	dbCreateDevice,
+	dbDeleteDevice,
+	dbGetDeviceByTokenHash,
+	dbListDevices,
+	dbSetDeviceRole,
+	dbTouchDevice,
+	initDatabase,
+} from './db';
+import { IN_MEMORY_HOME, readFlag, resolveHome } from './home';
+import { MigrationError } from './migrate';
+import {
+	excludeProject,
+	initSettings,
+	loadSettings,
+	saveProjectProfile,
+	saveSettings,
+	validateBaseDir,
+} from './settings';
+import { type ExportFormat, exportSession, validateExportFormat } from './export';
 import { discoverProjects } from './projects';
+import { validateProjectProfile } from './profiles';
+import { SESSION_ID_PATTERN } from './transcripts';
+import {
+	listPendingPermissions,
+	PERMISSION_DECISIONS,
+	type PermissionDecision,
+	respondToPermission,
+} from './permissions';
+import {
+	type PermissionMode,
+	type ToolRules,
+	validatePermissionMode,
+	validateToolPatterns,
+} from './tool-permissions';
+import { parseSearchQuery } from './search';
+import { parseUsageQuery } from './usage';
+import { formatFingerprint, loadTlsCredentials, type TlsCredentials } from './tls';
+import { advertiseServer, SERVICE_TYPE, serviceName } from './discovery';
 
 const CORS_HEADERS = {
 	'Access-Control-Allow-Origin': '*',
-	'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
-	'Access-Control-Allow-Headers': 'Content-Type',
+	'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+	'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-export function startServer() {
+// Requests from the same device within this long don't rewrite its last-seen time
+const LAST_SEEN_RESOLUTION_MS = 60_000;
+
+function printPairingCode(serverUrl: string, code: string, fingerprint?: string): void {
+	qrcode.generate(pairingLink(serverUrl, code, fingerprint), { small: true }, (qr) => {
+		console.log('📲 Scan with the claudet app to pair a phone:\n');
+		console.log(qr);
+		console.log(`   or enter ${serverUrl} and code ${code} by hand`);
+		if (fingerprint) console.log(`   with certificate fingerprint ${fingerprint}`);
+		console.log('');
+	});
+}
+
+function toSessionJson(session: Session) {
+	return {
+		id: session.id,
+		model: session.model,
+		createdAt: session.createdAt.toISOString(),
+		projectPath: session.projectPath,
+		permissionMode: session.permissionMode,
+		allowedTools: session.allowedTools,
+		disallowedTools: session.disallowedTools,
+		appendSystemPrompt: session.appendSystemPrompt,
+		extraArgs: session.extraArgs,
+		name: session.name,
+		parentSessionId: session.parentSessionId,
+		branchMessageIndex: session.branchMessageIndex,
+		usage: session.usage,
+	};
+}
+
+function toRunJson(run: Run) {
+	return {
+		id: run.id,
+		sessionId: run.sessionId,
+		message: run.message,
+		status: run.status,
+		createdAt: run.createdAt.toISOString(),
+		startedAt: run.startedAt?.toISOString(),
+		endedAt: run.endedAt?.toISOString(),
+		output: run.output,
+		error: run.error,
+		retry: run.retry,
+	};
+}
+
+export interface ServerOptions {
+	/** Data root holding the database and config.json, or IN_MEMORY_HOME */
+	home: string;
+	/** 0 picks a free port */
+	port?: number;
+	/** Address to listen on (default `::`, every interface over IPv4 and IPv6) */
+	host?: string;
+	/** IPs and CIDR ranges that may connect, besides loopback; empty lets anyone connect */
+	allow?: string[];
+	/** Require a paired device's token on every API call (default true) */
+	auth?: boolean;
+	/** Serve HTTPS with this certificate instead of plain HTTP */
+	tls?: TlsCredentials;
+	/** Advertise the server over mDNS under this name; unset (as in tests) stays quiet */
+	advertise?: string;
+}
+
+/**
+ * Open the home's database and settings, then listen. Throws MigrationError if the schema can't
+ * be upgraded, or a plain Error for an invalid allowlist.
+ */
+export function startServer({
+	home,
+	port = 3001,
+	host = '::',
+	allow = [],
+	auth = true,
+	tls,
+	advertise,
+}: ServerOptions) {
+	const allowlist = allow.length > 0 ? parseAllowlist(allow) : undefined;
+	initDatabase(home);
+	initSettings(home);
+	recoverOrphanedRuns();
+
 	const app = express();
+
+	// Off the allowlist nothing is served, not even /health or a CORS preflight
+	if (allowlist) {
+		app.use((req, res, next) => {
+			const address = req.socket.remoteAddress;
+			if (isAllowed(allowlist, address)) return next();
+			console.log(`🚫 Refused ${req.method} ${req.path} from ${address}: not on the allowlist`);
+			return res.status(403).json({ error: 'This address is not allowed to use the server' });
+		});
+	}
+
 	app.use(express.json());
 
 	// Apply CORS headers and handle OPTIONS preflight on all routes
@@ -31,8 +214,109 @@ export function startServer() {
 		next();
 	});
 
+	// Everything but /health and pairing needs a paired device's token. The permission MCP helper
+	// has the server's internal token instead, which only reaches the one route it calls
+	if (auth) {
+		app.use((req, res, next) => {
+			if (req.path === '/health' || req.path === '/api/pair') return next();
+			const token = bearerToken(req.headers.authorization);
+			if (token && isInternalToken(token)) {
+				if (req.method === 'POST' && req.path === '/api/permissions') return next();
+				return res.status(403).json({ error: 'Not allowed with this token' });
+			}
+			const device = token ? dbGetDeviceByTokenHash(hashToken(token)) : undefined;
+			if (!device) {
+				return res.status(401).json({ error: 'This device is not paired with the server' });
+			}
+			const lastSeen = device.lastSeenAt ? Date.parse(device.lastSeenAt) : 0;
+			if (Date.now() - lastSeen > LAST_SEEN_RESOLUTION_MS) dbTouchDevice(device.id, new Date());
+			if (!roleAllows(device.role, req.method)) {
+				console.log(`🚫 Refused ${req.method} ${req.path} from "${device.name}": it can only view`);
+				return res.status(403).json({ error: 'This device can only view sessions' });
+			}
+			res.locals.deviceId = device.id;
+			res.locals.deviceRole = device.role;
+			return next();
+		});
+	}
+
+	// Where phones reach this server, known once it listens; each new pairing code is printed for it
+	let networkUrl: string | undefined;
+	const showPairingCode = () => {
+		if (auth && networkUrl) printPairingCode(networkUrl, issuePairingCode(), tls?.fingerprint);
+	};
+
 	app.get('/health', (_req, res) => res.json({ ok: true }));
 
+	// Trade the one-time code from the server's QR for a long-lived device token
+	app.post('/api/pair', (req, res) => {
+		const body = req.body as { code?: unknown; name?: unknown };
+		if (typeof body.code !== 'string' || body.code.trim() === '') {
+			return res.status(400).json({ error: 'code is required' });
+		}
+		let name: string;
+		try {
+			name = validateDeviceName(body.name);
+		} catch (error) {
+			return res
+				.status(400)
+				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+		const result = redeemPairingCode(body.code);
+		if (result === 'rotated') {
+			console.log('\n⚠️  Too many wrong pairing codes — issuing a new one');
+			showPairingCode();
+		}
+		if (result !== 'paired') return res.status(401).json({ error: 'Invalid pairing code' });
+
+		const token = createDeviceToken();
+		const device: Device = {
+			id: randomUUID(),
+			name,
+			role: 'full',
+			createdAt: new Date().toISOString(),
+		};
+		dbCreateDevice(device, hashToken(token));
+		console.log(`\n✅ Paired "${name}"`);
+		showPairingCode();
+		return res.status(201).json({ token, device });
+	});
+
+	app.get('/api/devices', (_req, res) => {
+		const devices = dbListDevices().map((device) => ({
+			...device,
+			current: device.id === res.locals.deviceId,
+		}));
+		res.json({ devices });
+	});
+
+	// Make another device a viewer or give it full access again; its next request has the new role
+	app.patch('/api/devices/:id', (req, res) => {
+		let role: DeviceRole;
+		try {
+			role = validateDeviceRole((req.body as { role?: unknown }).role);
+		} catch (error) {
+			return res
+				.status(400)
+				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+		if (req.params.id === res.locals.deviceId) {
+			return res.status(400).json({ error: "A device can't change its own role" });
+		}
+		if (!dbSetDeviceRole(req.params.id as string, role)) {
+			return res.status(404).json({ error: 'Device not found' });
+		}
+		return res.json({ success: true });
+	});
+
+	// Revoking a device invalidates its token at once; it has to pair again
+	app.delete('/api/devices/:id', (req, res) => {
+		if (!dbDeleteDevice(req.params.id as string)) {
+			return res.status(404).json({ error: 'Device not found' });
+		}
+		return res.json({ success: true });
+	});
+
 	const SUPPORTED_MODELS = ['haiku', 'sonnet', 'opus'] as const;
 	const DEFAULT_MODEL = process.env.NODE_ENV === 'production' ? 'sonnet' : 'haiku';
 
@@ -48,25 +332,76 @@ export function startServer() {
 		try {
 			const body = req.body as { baseDir?: unknown };
 			const baseDir = validateBaseDir(body.baseDir);
-			const current = loadSettings();
-			const settings = { baseDir, excludedProjects: current.excludedProjects };
-			saveSettings(settings);
+			saveSettings({ ...loadSettings(), baseDir });
 			res.json({ baseDir });
 		} catch (error) {
-			res
-				.status(400)
-				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
+			res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
 		}
 	});
 
-	app.get('/api/projects', (_req, res) => {
+	// The machine's transcription setup and whether it can run: `health.missing` says what to fix
+	const transcriptionStatus = () => {
+		const { transcription } = loadSettings();
+		return {
+			settings: transcription,
+			health: transcriptionHealth(transcriptionBackend(transcription)),
+		};
+	};
+
+	app.get('/api/settings/transcription', (_req, res) => {
+		res.json(transcriptionStatus());
+	});
+
+	// Partial update: fields left out keep their value
+	app.put('/api/settings/transcription', (req, res) => {
+		try {
+			const settings = loadSettings();
+			const transcription = validateTranscriptionSettings(req.body, settings.transcription);
+			saveSettings({ ...settings, transcription });
+			res.json(transcriptionStatus());
+		} catch (error) {
+			res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+	});
+
+	// Whether a path is one of the projects discovered under baseDir
+	const isKnownProject = (projectPath: string): boolean => {
 		const { baseDir, excludedProjects } = loadSettings();
+		if (!baseDir) return false;
+		return discoverProjects(join(homedir(), baseDir), excludedProjects).some(
+			(p) => p.id === projectPath,
+		);
+	};
+
+	app.get('/api/projects', (_req, res) => {
+		const { baseDir, excludedProjects, projectProfiles } = loadSettings();
 		if (!baseDir) return res.json({ projects: [] });
 		const basePath = join(homedir(), baseDir);
-		const projects = discoverProjects(basePath, excludedProjects);
+		const projects = discoverProjects(basePath, excludedProjects).map((p) => ({
+			...p,
+			profile: projectProfiles[p.id],
+		}));
 		return res.json({ projects });
 	});
 
+	// Replace a project's new-session profile; an empty profile clears it
+	app.put('/api/projects/profile', (req, res) => {
+		const body = req.body as { id?: unknown; profile?: unknown };
+		if (!body.id || typeof body.id !== 'string') {
+			return res.status(400).json({ error: 'id is required' });
+		}
+		if (!isKnownProject(body.id)) return res.status(404).json({ error: 'Project not found' });
+		try {
+			const profile = validateProjectProfile(body.profile, SUPPORTED_MODELS);
+			saveProjectProfile(body.id, profile);
+			return res.json({ id: body.id, profile });
+		} catch (error) {
+			return res
+				.status(400)
+				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+	});
+
 	app.delete('/api/projects', (req, res) => {
 		const body = req.body as { id?: unknown };
 		if (!body.id || typeof body.id !== 'string') {
@@ -76,16 +411,29 @@ export function startServer() {
 		return res.json({ success: true });
 	});
 
+	// Token and cost totals across sessions, grouped by project, model or day
+	app.get('/api/usage', (req, res) => {
+		try {
+			const query = parseUsageQuery(req.query as Record<string, unknown>);
+			res.json({ groupBy: query.groupBy, ...getUsage(query) });
+		} catch (error) {
+			res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+	});
+
+	// Ranked full-text hits over message content and session names
+	app.get('/api/search', (req, res) => {
+		try {
+			const query = parseSearchQuery(req.query as Record<string, unknown>);
+			res.json({ hits: searchSessions(query) });
+		} catch (error) {
+			res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+	});
+
 	app.get('/api/sessions', (req, res) => {
 		const projectPath = (req.query.projectPath as string | undefined) ?? undefined;
-		const sessions = listSessions(projectPath).map((s) => ({
-			id: s.id,
-			model: s.model,
-			createdAt: s.createdAt.toISOString(),
-			projectPath: s.projectPath,
-			permissionMode: s.permissionMode,
-			name: s.name,
-		}));
+		const sessions = listSessions(projectPath).map(toSessionJson);
 		res.json({ sessions });
 	});
 
@@ -94,60 +442,235 @@ export function startServer() {
 			model?: string;
 			projectPath?: unknown;
 			permissionMode?: unknown;
+			allowedTools?: unknown;
+			disallowedTools?: unknown;
 		};
 		if (!body.projectPath || typeof body.projectPath !== 'string') {
 			return res.status(400).json({ error: 'projectPath is required' });
 		}
-		const model = SUPPORTED_MODELS.includes(body.model as (typeof SUPPORTED_MODELS)[number])
-			? (body.model as (typeof SUPPORTED_MODELS)[number])
+		// Fields in the request win over the project's profile, which wins over the global defaults
+		const profile = loadSettings().projectProfiles[body.projectPath] ?? {};
+		const requestedModel = body.model ?? profile.model;
+		const model = SUPPORTED_MODELS.includes(requestedModel as (typeof SUPPORTED_MODELS)[number])
+			? (requestedModel as (typeof SUPPORTED_MODELS)[number])
 			: DEFAULT_MODEL;
-		const permissionMode =
-			body.permissionMode === 'dangerouslySkipPermissions'
-				? ('dangerouslySkipPermissions' as const)
-				: ('allowEdits' as const);
-		const session = createSession(model, body.projectPath, permissionMode);
-		return res.json({
-			id: session.id,
-			model: session.model,
-			createdAt: session.createdAt.toISOString(),
-			projectPath: session.projectPath,
-			permissionMode: session.permissionMode,
-			name: session.name,
+		let config: SessionConfig;
+		try {
+			config = {
+				permissionMode:
+					body.permissionMode !== undefined
+						? validatePermissionMode(body.permissionMode)
+						: profile.permissionMode,
+				allowedTools:
+					body.allowedTools !== undefined
+						? validateToolPatterns(body.allowedTools, 'allowedTools')
+						: profile.allowedTools,
+				disallowedTools:
+					body.disallowedTools !== undefined
+						? validateToolPatterns(body.disallowedTools, 'disallowedTools')
+						: profile.disallowedTools,
+				appendSystemPrompt: profile.appendSystemPrompt,
+				extraArgs: profile.extraArgs,
+			};
+		} catch (error) {
+			return res
+				.status(400)
+				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+		const session = createSession(model, body.projectPath, config);
+		return res.json(toSessionJson(session));
+	});
+
+	// Sessions started with the CLI on the desktop that can be imported into claudet
+	app.get('/api/sessions/importable', (req, res) => {
+		const projectPath = req.query.projectPath;
+		if (typeof projectPath !== 'string' || !projectPath) {
+			return res.status(400).json({ error: 'projectPath is required' });
+		}
+		if (!isKnownProject(projectPath)) return res.status(404).json({ error: 'Project not found' });
+		const sessions = listImportableSessions(projectPath).map((t) => ({
+			id: t.sessionId,
+			title: t.title,
+			messageCount: t.messages.length,
+			createdAt: t.createdAt,
+			updatedAt: t.updatedAt,
+		}));
+		return res.json({ sessions });
+	});
+
+	app.post('/api/sessions/import', (req, res) => {
+		const body = req.body as { projectPath?: unknown; sessionIds?: unknown };
+		if (typeof body.projectPath !== 'string' || !body.projectPath) {
+			return res.status(400).json({ error: 'projectPath is required' });
+		}
+		if (
+			!Array.isArray(body.sessionIds) ||
+			body.sessionIds.length === 0 ||
+			!body.sessionIds.every((id) => typeof id === 'string' && SESSION_ID_PATTERN.test(id))
+		) {
+			return res.status(400).json({ error: 'sessionIds must be a non-empty array of session ids' });
+		}
+		if (!isKnownProject(body.projectPath)) {
+			return res.status(404).json({ error: 'Project not found' });
+		}
+		// Imported sessions get the project's profile, like new ones
+		const profile = loadSettings().projectProfiles[body.projectPath] ?? {};
+		const defaultModel = SUPPORTED_MODELS.includes(
+			profile.model as (typeof SUPPORTED_MODELS)[number],
+		)
+			? (profile.model as (typeof SUPPORTED_MODELS)[number])
+			: DEFAULT_MODEL;
+		const sessions = importSessions(body.projectPath, body.sessionIds as string[], defaultModel, {
+			permissionMode: profile.permissionMode,
+			allowedTools: profile.allowedTools,
+			disallowedTools: profile.disallowedTools,
+			appendSystemPrompt: profile.appendSystemPrompt,
+			extraArgs: profile.extraArgs,
 		});
+		return res.json({ sessions: sessions.map(toSessionJson) });
 	});
 
+	// Opening a session first pulls in anything the CLI did outside claudet. Syncing rewrites the
+	// stored history, so a device that can only view gets what is stored
 	app.get('/api/sessions/:id/messages', (req, res) => {
+		const id = req.params.id as string;
+		const role = res.locals.deviceRole;
+		const sync =
+			!role || roleAllows(role, 'POST')
+				? syncSession(id)
+				: { status: 'skipped', reason: 'This device can only view sessions' };
+		const session = getSession(id);
+		if (!session || !sync) return res.status(404).json({ error: 'Session not found' });
+		return res.json({ messages: session.messages, sync, branches: listBranchPoints(session) });
+	});
+
+	// Download the conversation for pasting into PRs and docs
+	app.get('/api/sessions/:id/export', (req, res) => {
+		let format: ExportFormat;
+		try {
+			format = validateExportFormat(req.query.format);
+		} catch (error) {
+			return res
+				.status(400)
+				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
 		const session = getSession(req.params.id as string);
 		if (!session) return res.status(404).json({ error: 'Session not found' });
-		return res.json({ messages: session.messages });
+		const { body, contentType, filename } = exportSession(session, format);
+		res.setHeader('Content-Type', contentType);
+		res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+		return res.send(body);
+	});
+
+	// Re-run the last prompt after it failed; the failure stays in the history
+	app.post('/api/sessions/:id/retry', (req, res) => {
+		const id = req.params.id as string;
+		if (!getSession(id)) return res.status(404).json({ error: 'Session not found' });
+		if (listActiveRuns(id).length > 0) {
+			return res.status(409).json({ error: 'Session has a run in progress' });
+		}
+		const run = retryRun(id);
+		if (!run) return res.status(409).json({ error: 'The last run did not fail' });
+		return res.status(202).json(toRunJson(run));
+	});
+
+	app.post('/api/sessions/:id/sync', (req, res) => {
+		const sync = syncSession(req.params.id as string);
+		if (!sync) return res.status(404).json({ error: 'Session not found' });
+		return res.json(sync);
 	});
 
 	app.patch('/api/sessions/:id', (req, res) => {
 		const id = req.params.id as string;
-		const body = req.body as { permissionMode?: unknown; name?: unknown };
+		const body = req.body as {
+			permissionMode?: unknown;
+			allowedTools?: unknown;
+			disallowedTools?: unknown;
+			name?: unknown;
+		};
 
-		if (body.permissionMode !== undefined) {
-			const mode =
-				body.permissionMode === 'dangerouslySkipPermissions'
-					? ('dangerouslySkipPermissions' as const)
-					: ('allowEdits' as const);
-			setSessionPermissionMode(id, mode);
+		// Validate everything before applying anything, so a bad field leaves the session untouched
+		let permissionMode: PermissionMode | undefined;
+		const rules: Partial<ToolRules> = {};
+		try {
+			if (body.permissionMode !== undefined) {
+				permissionMode = validatePermissionMode(body.permissionMode);
+			}
+			if (body.allowedTools !== undefined) {
+				rules.allowedTools = validateToolPatterns(body.allowedTools, 'allowedTools');
+			}
+			if (body.disallowedTools !== undefined) {
+				rules.disallowedTools = validateToolPatterns(body.disallowedTools, 'disallowedTools');
+			}
+		} catch (error) {
+			return res
+				.status(400)
+				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
 		}
 
+		if (permissionMode) setSessionPermissionMode(id, permissionMode);
+		if (rules.allowedTools || rules.disallowedTools) setSessionToolRules(id, rules);
+
 		if (typeof body.name === 'string' && body.name.trim()) {
 			renameSession(id, body.name.trim());
 		}
 
 		const session = getSession(id);
 		if (!session) return res.status(404).json({ error: 'Session not found' });
-		return res.json({
-			id: session.id,
-			model: session.model,
-			createdAt: session.createdAt.toISOString(),
-			projectPath: session.projectPath,
-			permissionMode: session.permissionMode,
-			name: session.name,
-		});
+		return res.json(toSessionJson(session));
+	});
+
+	// New session with the history up to messageIndex (default: all of it)
+	app.post('/api/sessions/:id/fork', (req, res) => {
+		const body = (req.body ?? {}) as { messageIndex?: unknown };
+		if (body.messageIndex !== undefined && typeof body.messageIndex !== 'number') {
+			return res.status(400).json({ error: 'messageIndex must be a number' });
+		}
+		try {
+			const session = forkSession(req.params.id as string, body.messageIndex);
+			if (!session) return res.status(404).json({ error: 'Session not found' });
+			return res.json(toSessionJson(session));
+		} catch (error) {
+			return res
+				.status(400)
+				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+	});
+
+	// Edit (or, without `message`, regenerate) the prompt at messageIndex: branches the session
+	// there and sends the prompt in the branch, leaving the original as it was
+	app.post('/api/sessions/:id/branch', (req, res) => {
+		const id = req.params.id as string;
+		const body = (req.body ?? {}) as { messageIndex?: unknown; message?: unknown };
+		if (typeof body.messageIndex !== 'number') {
+			return res.status(400).json({ error: 'messageIndex is required' });
+		}
+		if (body.message !== undefined && (typeof body.message !== 'string' || !body.message.trim())) {
+			return res.status(400).json({ error: 'message must be a non-empty string' });
+		}
+		const source = getSession(id);
+		if (!source) return res.status(404).json({ error: 'Session not found' });
+		let branch: Session;
+		try {
+			branch = branchSession(id, body.messageIndex) as Session;
+		} catch (error) {
+			return res
+				.status(400)
+				.json({ error: error instanceof Error ? error.message : 'Invalid request' });
+		}
+		const prompt =
+			typeof body.message === 'string'
+				? body.message.trim()
+				: (source.messages[body.messageIndex] as SessionMessage).content;
+		const run = enqueueRun(branch.id, prompt);
+		return res.status(202).json({ session: toSessionJson(branch), run: toRunJson(run) });
+	});
+
+	app.post('/api/sessions/:id/cancel', (req, res) => {
+		const id = req.params.id as string;
+		if (!getSession(id)) return res.status(404).json({ error: 'Session not found' });
+		if (!cancelRun(id)) return res.status(409).json({ error: 'No run in progress' });
+		return res.json({ success: true });
 	});
 
 	app.delete('/api/sessions/:id', (req, res) => {
@@ -156,40 +679,214 @@ export function startServer() {
 		return res.json({ success: true });
 	});
 
-	app.post('/api/chat', async (req, res) => {
-		try {
-			const body = req.body as { message?: string; sessionId?: string };
-			const { message, sessionId } = body;
+	// Runs outlive the request: the client gets a run id and follows it via /api/runs/:id/events.
+	// A session busy with an earlier run gets this one queued behind it (status 'queued').
+	app.post('/api/chat', (req, res) => {
+		const body = req.body as { message?: string; sessionId?: string };
+		const { message, sessionId } = body;
+
+		if (!message || typeof message !== 'string') {
+			return res.status(400).json({ error: 'message is required' });
+		}
+		if (!sessionId || typeof sessionId !== 'string') {
+			return res.status(400).json({ error: 'sessionId is required' });
+		}
+		if (!getSession(sessionId)) return res.status(404).json({ error: 'Session not found' });
+
+		const run = enqueueRun(sessionId, message);
+		return res.status(202).json(toRunJson(run));
+	});
+
+	app.get('/api/runs', (req, res) => {
+		const sessionId = (req.query.sessionId as string | undefined) ?? undefined;
+		res.json({ runs: listActiveRuns(sessionId).map(toRunJson) });
+	});
+
+	app.get('/api/runs/:id', (req, res) => {
+		const run = getRun(req.params.id as string);
+		if (!run) return res.status(404).json({ error: 'Run not found' });
+		return res.json(toRunJson(run));
+	});
+
+	// Edit the prompt of a queued run; 409 once it has started
+	app.patch('/api/runs/:id', (req, res) => {
+		const id = req.params.id as string;
+		const body = req.body as { message?: unknown };
+		if (typeof body.message !== 'string' || !body.message.trim()) {
+			return res.status(400).json({ error: 'message is required' });
+		}
+		if (!getRun(id)) return res.status(404).json({ error: 'Run not found' });
+		const run = editQueuedRun(id, body.message.trim());
+		if (!run) return res.status(409).json({ error: 'Only queued runs can be edited' });
+		return res.json(toRunJson(run));
+	});
+
+	// Drop a queued run before it starts; 409 once it has started
+	app.delete('/api/runs/:id', (req, res) => {
+		const id = req.params.id as string;
+		if (!getRun(id)) return res.status(404).json({ error: 'Run not found' });
+		if (!dropQueuedRun(id))
+			return res.status(409).json({ error: 'Only queued runs can be dropped' });
+		return res.json({ success: true });
+	});
+
+	// NDJSON stream of ChatStreamEvents: replays what the run has produced so far, then follows it live
+	app.get('/api/runs/:id/events', (req, res) => {
+		const run = getRun(req.params.id as string);
+		if (!run) return res.status(404).json({ error: 'Run not found' });
+
+		res.setHeader('Content-Type', 'application/x-ndjson');
+		res.setHeader('Cache-Control', 'no-cache');
+		res.flushHeaders();
 
-			if (!message || typeof message !== 'string') {
-				return res.status(400).json({ error: 'message is required' });
+		const unsubscribe = followRun(
+			run,
+			(event: ChatStreamEvent) => {
+				if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+			},
+			() => res.end(),
+		);
+		// Disconnecting only stops the subscription — the run itself carries on
+		req.on('close', unsubscribe);
+	});
+
+	app.post('/api/runs/:id/cancel', (req, res) => {
+		const run = getRun(req.params.id as string);
+		if (!run) return res.status(404).json({ error: 'Run not found' });
+		if (run.status !== 'running' || !cancelRun(run.sessionId)) {
+			return res.status(409).json({ error: 'Run is not in progress' });
+		}
+		return res.json({ success: true });
+	});
+
+	// Voice prompts: multipart `audio` field in, `{ text }` out. The clip is deleted either way
+	app.post('/api/transcribe', (req, res) => {
+		receiveAudio(req, res, async (uploadError?: unknown) => {
+			if (uploadError) {
+				const { status, error } = uploadErrorResponse(uploadError);
+				return res.status(status).json({ error });
 			}
-			if (!sessionId || typeof sessionId !== 'string') {
-				return res.status(400).json({ error: 'sessionId is required' });
+			const file = req.file;
+			if (!file) return res.status(400).json({ error: 'audio file is required' });
+			const transcribe = async () =>
+				transcribeAudioFile(file.path, transcriptionBackend(loadSettings().transcription));
+			try {
+				// The clip is gone by the time the client hears back, whatever the outcome
+				const text = await transcribe().finally(() => unlink(file.path).catch(() => {}));
+				return res.json({ text });
+			} catch (error) {
+				return res
+					.status(error instanceof TranscriptionError ? error.status : 500)
+					.json({ error: error instanceof Error ? error.message : 'Transcription failed' });
 			}
+		});
+	});
 
-			const response = await sendMessage(sessionId, message);
-			return res.json({ response });
-		} catch (error) {
-			console.error('Error in /api/chat:', error);
+	// Called by the permission MCP server on behalf of the CLI; answers once the user decides
+	app.post('/api/permissions', async (req, res) => {
+		const body = req.body as {
+			sessionId?: unknown;
+			toolName?: unknown;
+			input?: unknown;
+			toolUseId?: unknown;
+		};
+		if (typeof body.sessionId !== 'string' || typeof body.toolName !== 'string') {
+			return res.status(400).json({ error: 'sessionId and toolName are required' });
+		}
+		const result = await requestToolApproval(body.sessionId, {
+			toolName: body.toolName,
+			input: body.input ?? {},
+			toolUseId: typeof body.toolUseId === 'string' ? body.toolUseId : undefined,
+		});
+		return res.json(result);
+	});
+
+	app.get('/api/permissions', (req, res) => {
+		const sessionId = (req.query.sessionId as string | undefined) ?? undefined;
+		res.json({ permissions: listPendingPermissions(sessionId) });
+	});
+
+	app.post('/api/permissions/:id', (req, res) => {
+		const body = req.body as { decision?: unknown };
+		if (!PERMISSION_DECISIONS.includes(body.decision as PermissionDecision)) {
 			return res
-				.status(500)
-				.json({ error: error instanceof Error ? error.message : 'Unknown error' });
+				.status(400)
+				.json({ error: `decision must be one of ${PERMISSION_DECISIONS.join(', ')}` });
+		}
+		if (!respondToPermission(req.params.id as string, body.decision as PermissionDecision)) {
+			return res.status(404).json({ error: 'Permission request not found' });
 		}
+		return res.json({ success: true });
 	});
 
-	const port = 3001;
 	// dual-stack: accepts IPv4 and IPv6; ipv6Only:false is the Linux default but stated explicitly for portability
-	const server = app.listen({ port, host: '::', ipv6Only: false }, () => {
-		const localIP = getLocalIP();
+	const server = tls
+		? createHttpsServer({ key: tls.key, cert: tls.cert }, app)
+		: createHttpServer(app);
+	const scheme = tls ? 'https' : 'http';
+	server.listen({ port, host, ipv6Only: false }, () => {
+		const { port } = server.address() as AddressInfo;
+		const wildcard = isWildcardAddress(host);
+		const callbackHost = wildcard ? '127.0.0.1' : urlHost(host);
+		setCallbackAddress(`${scheme}://${callbackHost}:${port}`, tls?.cert);
+		const networkHost = urlHost(wildcard ? getLocalIP() : host);
 		console.log(`\n${'='.repeat(50)}`);
 		console.log('🚀 Claudet API server running!');
 		console.log('='.repeat(50));
-		console.log(`\n📍 Local:   http://localhost:${port}`);
-		console.log(`📱 Network: http://${localIP}:${port}`);
+		console.log(wildcard ? `\n📍 Local:   ${scheme}://localhost:${port}` : '');
+		console.log(`📱 Network: ${scheme}://${networkHost}:${port}`);
+		console.log(`🗂️  Home:    ${home === IN_MEMORY_HOME ? 'in memory' : home}`);
+		if (tls) console.log(`🔒 TLS:     SHA-256 ${formatFingerprint(tls.fingerprint)}`);
+		if (allowlist) console.log(`🛡️  Allowed: ${allow.join(', ')} (and loopback)`);
+		// Nobody else could connect to a loopback-only server, so there's nothing to tell the LAN
+		if (advertise !== undefined && !isLoopbackAddress(host)) {
+			server.on('close', advertiseServer({ name: advertise, port, auth, tls: tls !== undefined }));
+			console.log(`📡 mDNS:    "${advertise}" (_${SERVICE_TYPE}._tcp)`);
+		}
 		console.log('\n📲 Start the Expo app in mobile/ and point it to the above URL');
 		console.log(`${'='.repeat(50)}\n`);
+		if (auth) {
+			networkUrl = `${scheme}://${networkHost}:${port}`;
+			showPairingCode();
+		} else {
+			console.log('⚠️  Authentication is off: anyone who can reach this port can run Claude\n');
+		}
 	});
 
 	return server;
 }
+
+/**
+ * Start from an entry point: `--home`/`CLAUDET_HOME` and `--port`/`PORT` pick the profile,
+ * `--host`/`CLAUDET_HOST` the address to bind, `--allow`/`CLAUDET_ALLOW` (comma-separated IPs and
+ * CIDR ranges) who may connect, `--no-auth` turns off pairing, `--tls` serves HTTPS with the
+ * home's self-signed certificate, `--name`/CLAUDET_NAME is what the LAN sees over mDNS (off with
+ * `--no-mdns`), and a startup failure (e.g. a migration) exits with its message rather than a
+ * stack trace.
+ */
+export async function runServer(argv: string[], env: NodeJS.ProcessEnv, defaultHome?: string) {
+	try {
+		const rawPort = readFlag(argv, '--port') ?? env.PORT;
+		const port = rawPort === undefined ? undefined : Number(rawPort);
+		if (port !== undefined && !(Number.isInteger(port) && port >= 0 && port <= 65535)) {
+			throw new Error(`Invalid port: ${rawPort}`);
+		}
+		const host = readFlag(argv, '--host') ?? env.CLAUDET_HOST;
+		if (host !== undefined && isIP(host) === 0) {
+			throw new Error(`Invalid bind address: ${host}`);
+		}
+		const allow = splitAllowlist(readFlag(argv, '--allow') ?? env.CLAUDET_ALLOW ?? '');
+		const home = resolveHome(argv, env, defaultHome);
+		const addresses = host && !isWildcardAddress(host) ? [host] : [getLocalIP()];
+		const tls = argv.includes('--tls') ? await loadTlsCredentials(home, addresses) : undefined;
+		const advertise = argv.includes('--no-mdns')
+			? undefined
+			: serviceName(readFlag(argv, '--name') ?? env.CLAUDET_NAME);
+		const auth = !argv.includes('--no-auth');
+		return startServer({ home, port, host, allow, auth, tls, advertise });
+	} catch (error) {
+		console.error(`\n❌ ${error instanceof Error ? error.message : String(error)}`);
+		if (error instanceof MigrationError) console.error('   The database was left unchanged.');
+		process.exit(1);
+	}
+}
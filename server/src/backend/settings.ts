@@ -1,37 +1,93 @@
 import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
 import { homedir } from 'node:os';
-import { join } from 'node:path';
+import { dirname, join } from 'node:path';
+import { DEFAULT_TRANSCRIPTION_SETTINGS, type TranscriptionSettings } from './audio/transcription';
+import { IN_MEMORY_HOME } from './home';
+import type { ProjectProfile } from './profiles';
 
-export type Settings = { baseDir: string | null; excludedProjects: string[] };
+export type Settings = {
+	baseDir: string | null;
+	excludedProjects: string[];
+	/** New-session defaults keyed by project path */
+	projectProfiles: Record<string, ProjectProfile>;
+	transcription: TranscriptionSettings;
+};
 
-const CONFIG_DIR = join(homedir(), '.claudet');
-const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
+function defaultSettings(): Settings {
+	return {
+		baseDir: null,
+		excludedProjects: [],
+		projectProfiles: {},
+		transcription: { ...DEFAULT_TRANSCRIPTION_SETTINGS },
+	};
+}
+
+// config.json in the claudet home; null when the home is in memory
+let configFile: string | null | undefined;
+let inMemory = defaultSettings();
+
+/** Read and write settings in `home`'s config.json, or in memory for IN_MEMORY_HOME */
+export function initSettings(home: string): void {
+	configFile = home === IN_MEMORY_HOME ? null : join(home, 'config.json');
+	inMemory = defaultSettings();
+}
+
+function settingsFile(): string | null {
+	if (configFile === undefined) {
+		throw new Error('Settings are not initialised; call initSettings() first');
+	}
+	return configFile;
+}
 
 export function loadSettings(): Settings {
+	const file = settingsFile();
+	if (file === null) return structuredClone(inMemory);
 	try {
-		const raw = readFileSync(CONFIG_FILE, 'utf8');
+		const raw = readFileSync(file, 'utf8');
 		const parsed = JSON.parse(raw) as unknown;
 		if (parsed && typeof parsed === 'object' && 'baseDir' in parsed) {
-			const { baseDir, excludedProjects } = parsed as {
+			const { baseDir, excludedProjects, projectProfiles, transcription } = parsed as {
 				baseDir: unknown;
 				excludedProjects: unknown;
+				projectProfiles: unknown;
+				transcription: unknown;
 			};
 			return {
 				baseDir: typeof baseDir === 'string' ? baseDir : null,
 				excludedProjects: Array.isArray(excludedProjects)
 					? excludedProjects.filter((p): p is string => typeof p === 'string')
 					: [],
+				// Written only after validation, so entries are trusted as long as they are objects
+				projectProfiles:
+					projectProfiles && typeof projectProfiles === 'object' && !Array.isArray(projectProfiles)
+						? Object.fromEntries(
+								Object.entries(projectProfiles).filter(
+									(entry): entry is [string, ProjectProfile] =>
+										!!entry[1] && typeof entry[1] === 'object',
+								),
+							)
+						: {},
+				// Also validated before writing; fields added later fall back to their defaults
+				transcription: {
+					...DEFAULT_TRANSCRIPTION_SETTINGS,
+					...(transcription && typeof transcription === 'object' ? transcription : {}),
+				},
 			};
 		}
 	} catch {
 		// File missing or unreadable — return defaults
 	}
-	return { baseDir: null, excludedProjects: [] };
+	return defaultSettings();
 }
 
 export function saveSettings(s: Settings): void {
-	mkdirSync(CONFIG_DIR, { recursive: true });
-	writeFileSync(CONFIG_FILE, JSON.stringify(s, null, 2), 'utf8');
+	const file = settingsFile();
+	if (file === null) {
+		inMemory = structuredClone(s);
+		return;
+	}
+	mkdirSync(dirname(file), { recursive: true });
+	writeFileSync(file, JSON.stringify(s, null, 2), 'utf8');
 }
 
 export function excludeProject(projectPath: string): void {
@@ -42,6 +98,14 @@ export function excludeProject(projectPath: string): void {
 	}
 }
 
+/** Store a project's profile; an empty profile removes it */
+export function saveProjectProfile(projectPath: string, profile: ProjectProfile): void {
+	const settings = loadSettings();
+	if (Object.keys(profile).length === 0) delete settings.projectProfiles[projectPath];
+	else settings.projectProfiles[projectPath] = profile;
+	saveSettings(settings);
+}
+
 export function validateBaseDir(raw: unknown): string {
 	if (typeof raw !== 'string' || raw.trim() === '') {
 		throw new Error('baseDir must be a non-empty string');
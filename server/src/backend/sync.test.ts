@@ -0,0 +1,95 @@
+import { describe, test, expect } from 'vitest';
+import type { SessionMessage } from './claude';
+import { reconcileHistory } from './sync';
+
+const prompt = (content: string): SessionMessage => ({ role: 'user', content });
+const reply = (content: string, cliMessageUuid?: string, extra: Partial<SessionMessage> = {}) =>
+	({ role: 'assistant', content, cliMessageUuid, ...extra }) as SessionMessage;
+
+const HISTORY = [
+	prompt('Hi'),
+	reply('Hello', 'a-1'),
+	prompt('List files'),
+	reply('README.md', 'a-2'),
+];
+
+describe('reconcileHistory', () => {
+	test('is in sync when the transcript matches', () => {
+		expect(reconcileHistory(HISTORY, HISTORY)).toEqual({ status: 'in_sync' });
+	});
+
+	test('appends turns that happened outside claudet, with their tool events', () => {
+		const desktop = [
+			prompt('Run the tests'),
+			reply('All green', 'a-3', {
+				events: [{ kind: 'tool_use', toolUseId: 't', name: 'Bash', input: {} }],
+			}),
+		];
+		expect(reconcileHistory(HISTORY, [...HISTORY, ...desktop])).toEqual({
+			status: 'behind',
+			keep: 4,
+			messages: desktop,
+		});
+	});
+
+	test('refreshes the last reply when the transcript has moved past it', () => {
+		const partial = [prompt('Hi'), reply('Let me check', 'a-1')];
+		const finished = [prompt('Hi'), reply('Let me check', 'a-1'), reply('Done', 'a-2')];
+		expect(reconcileHistory(partial, finished)).toEqual({
+			status: 'behind',
+			keep: 1,
+			messages: finished.slice(1),
+		});
+	});
+
+	test('fills in the reply to a prompt that has none yet', () => {
+		expect(reconcileHistory([prompt('Hi')], [prompt('Hi'), reply('Hello', 'a-1')])).toEqual({
+			status: 'behind',
+			keep: 1,
+			messages: [reply('Hello', 'a-1')],
+		});
+	});
+
+	test('keeps interrupted replies the CLI did not record', () => {
+		const stored = [prompt('Hi'), reply('Hel', undefined, { interrupted: true }), prompt('Again')];
+		const transcript = [prompt('Hi'), prompt('Again'), reply('Hello', 'a-1')];
+		expect(reconcileHistory(stored, transcript)).toEqual({
+			status: 'behind',
+			keep: 3,
+			messages: [reply('Hello', 'a-1')],
+		});
+	});
+
+	test('skips stored prompts whose run never reached the CLI', () => {
+		const stored = [prompt('Hi'), reply('Hello', 'a-1'), prompt('Failed')];
+		expect(reconcileHistory(stored, HISTORY)).toEqual({
+			status: 'behind',
+			keep: 3,
+			messages: HISTORY.slice(2),
+		});
+	});
+
+	test('ignores failure entries, which only claudet records', () => {
+		const failure = reply('', undefined, {
+			failure: { kind: 'crash', exitCode: 1, stderr: 'boom', failedAt: '2026-05-04T09:30:00.000Z' },
+		});
+		const stored = [...HISTORY, prompt('Deploy'), failure];
+		expect(reconcileHistory(stored, HISTORY)).toEqual({ status: 'in_sync' });
+	});
+
+	test('reports prompts that differ from the transcript', () => {
+		const transcript = [prompt('Hi'), reply('Hello', 'a-1'), prompt('Something else'), reply('Ok')];
+		expect(reconcileHistory(HISTORY, transcript)).toMatchObject({
+			status: 'diverged',
+			messageIndex: 2,
+		});
+	});
+
+	test('reports answered turns missing from the transcript', () => {
+		expect(reconcileHistory(HISTORY, HISTORY.slice(0, 2))).toMatchObject({
+			status: 'diverged',
+			messageIndex: 2,
+			reason: expect.stringMatching(/no record/),
+		});
+	});
+});
@@ -0,0 +1,108 @@
+/**
+ * Reconciles claudet's stored history with the CLI transcript of the same session. The transcript
+ * is the source of truth — it's what `--resume` gives Claude — so turns that happened outside
+ * claudet (e.g. the session was resumed in a terminal) are pulled in, and disagreements that
+ * can't be explained are reported rather than papered over.
+ */
+import type { SessionMessage } from './claude';
+
+export type SyncResult =
+	| { status: 'in_sync' }
+	| { status: 'synced'; added: number }
+	| { status: 'diverged'; messageIndex: number; reason: string }
+	/** Nothing to compare against yet (no transcript), or a run is writing to it right now */
+	| { status: 'skipped'; reason: string };
+
+export type Reconciliation<T extends SessionMessage> =
+	| { status: 'in_sync' }
+	/** Keep the first `keep` stored messages, then append `messages` from the transcript */
+	| { status: 'behind'; keep: number; messages: T[] }
+	| { status: 'diverged'; messageIndex: number; reason: string };
+
+interface Turn<T extends SessionMessage> {
+	/** Index of the turn's first message in the history */
+	start: number;
+	prompt?: T;
+	replies: T[];
+}
+
+// A prompt and the assistant messages answering it; replies before any prompt form a turn of their own.
+// Failure entries are claudet's own record and never in the transcript, so they don't count as replies
+function toTurns<T extends SessionMessage>(messages: T[]): Turn<T>[] {
+	const turns: Turn<T>[] = [];
+	messages.forEach((message, index) => {
+		const current = turns[turns.length - 1];
+		if (message.failure) return;
+		if (message.role === 'user') {
+			turns.push({ start: index, prompt: message, replies: [] });
+		} else if (current) {
+			current.replies.push(message);
+		} else {
+			turns.push({ start: index, replies: [message] });
+		}
+	});
+	return turns;
+}
+
+function samePrompt(a: SessionMessage | undefined, b: SessionMessage | undefined): boolean {
+	return a?.content.trim() === b?.content.trim();
+}
+
+function lastUuid(replies: SessionMessage[]): string | undefined {
+	return replies[replies.length - 1]?.cliMessageUuid;
+}
+
+/**
+ * Compare stored messages with the transcript's, turn by turn on the prompts. Replies are not
+ * compared — claudet records interrupted partial replies the CLI may not keep — except that the
+ * last turn is refreshed when the transcript's reply has moved on (it was still being written
+ * when last synced). Stored prompts that never got a reply are skipped: their run failed before
+ * the CLI recorded anything.
+ */
+export function reconcileHistory<T extends SessionMessage>(
+	stored: SessionMessage[],
+	transcript: T[],
+): Reconciliation<T> {
+	const ours = toTurns(stored);
+	const theirs = toTurns(transcript);
+
+	let j = 0;
+	let lastMatch: { ours: number; theirs: number } | undefined;
+	for (let i = 0; i < ours.length; i++) {
+		const turn = ours[i] as Turn<SessionMessage>;
+		const counterpart = theirs[j];
+		if (counterpart && samePrompt(turn.prompt, counterpart.prompt)) {
+			lastMatch = { ours: i, theirs: j };
+			j++;
+			continue;
+		}
+		if (turn.replies.length === 0) continue;
+		return {
+			status: 'diverged',
+			messageIndex: turn.start,
+			reason: counterpart
+				? 'The CLI transcript has a different message here'
+				: 'The CLI transcript has no record of this message',
+		};
+	}
+
+	const messages: T[] = [];
+	let keep = stored.length;
+	if (lastMatch && lastMatch.ours === ours.length - 1) {
+		const ourTurn = ours[lastMatch.ours] as Turn<SessionMessage>;
+		const theirTurn = theirs[lastMatch.theirs] as Turn<T>;
+		const ourUuid = lastUuid(ourTurn.replies);
+		const stale =
+			ourTurn.replies.length === 0 || (ourUuid && ourUuid !== lastUuid(theirTurn.replies));
+		if (stale && theirTurn.replies.length > 0) {
+			keep = ourTurn.start + (ourTurn.prompt ? 1 : 0);
+			messages.push(...theirTurn.replies);
+		}
+	}
+	for (const turn of theirs.slice(j)) {
+		if (turn.prompt) messages.push(turn.prompt);
+		messages.push(...turn.replies);
+	}
+
+	return messages.length > 0 ? { status: 'behind', keep, messages } : { status: 'in_sync' };
+}
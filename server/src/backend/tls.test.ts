@@ -0,0 +1,48 @@
+import { X509Certificate } from 'node:crypto';
+import { mkdtempSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, test } from 'vitest';
+import { IN_MEMORY_HOME } from './home';
+import { certificateFingerprint, formatFingerprint, loadTlsCredentials } from './tls';
+
+let home: string | undefined;
+
+afterEach(() => {
+	if (home) rmSync(home, { recursive: true, force: true });
+	home = undefined;
+});
+
+describe('loadTlsCredentials', () => {
+	test('creates the certificate once and reuses it', async () => {
+		home = mkdtempSync(join(tmpdir(), 'claudet-tls-'));
+		const created = await loadTlsCredentials(home, ['192.168.1.5']);
+		expect(created.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+		expect(statSync(join(home, 'tls', 'key.pem')).mode & 0o777).toBe(0o600);
+
+		const loaded = await loadTlsCredentials(home);
+		expect(loaded).toEqual(created);
+	});
+
+	test('names localhost and the given addresses', async () => {
+		const { cert } = await loadTlsCredentials(IN_MEMORY_HOME, ['192.168.1.5']);
+		const names = new X509Certificate(cert).subjectAltName;
+		expect(names).toContain('DNS:localhost');
+		expect(names).toContain('IP Address:127.0.0.1');
+		expect(names).toContain('IP Address:192.168.1.5');
+	});
+
+	test('gives an in-memory home a new certificate each time', async () => {
+		const first = await loadTlsCredentials(IN_MEMORY_HOME);
+		const second = await loadTlsCredentials(IN_MEMORY_HOME);
+		expect(first.fingerprint).not.toBe(second.fingerprint);
+	});
+});
+
+describe('certificate fingerprints', () => {
+	test('match what Node reports, in the pinned form', async () => {
+		const { cert } = await loadTlsCredentials(IN_MEMORY_HOME);
+		const reported = new X509Certificate(cert).fingerprint256;
+		expect(formatFingerprint(certificateFingerprint(cert))).toBe(reported);
+	});
+});
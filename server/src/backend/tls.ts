@@ -0,0 +1,76 @@
+/**
+ * Optional HTTPS (`--tls`) with a self-signed certificate kept in the data home. Phones don't trust
+ * it through a CA: the pairing QR carries its SHA-256 fingerprint and the app pins that, so the
+ * certificate never needs to be renewed or installed anywhere.
+ */
+import { X509Certificate } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { hostname } from 'node:os';
+import { isIP } from 'node:net';
+import { join } from 'node:path';
+import { generate } from 'selfsigned';
+import { IN_MEMORY_HOME } from './home';
+
+export interface TlsCredentials {
+	key: string;
+	cert: string;
+	/** Lowercase hex SHA-256 of the certificate (DER), as pinned by the app */
+	fingerprint: string;
+}
+
+// Pinning ignores expiry, so there's no point in making anyone regenerate it
+const VALIDITY_YEARS = 20;
+
+export function certificateFingerprint(cert: string): string {
+	return new X509Certificate(cert).fingerprint256.replaceAll(':', '').toLowerCase();
+}
+
+/** `ab12cd…` as `AB:12:CD:…`, for comparing by eye */
+export function formatFingerprint(fingerprint: string): string {
+	return (fingerprint.toUpperCase().match(/../g) ?? []).join(':');
+}
+
+/**
+ * The home's certificate, created on first use under `<home>/tls/`. An in-memory home gets a new
+ * one each start. `addresses` (hostnames or IPs) go into the certificate's subject alt names
+ * alongside localhost; only clients that check names rather than the pin care about them.
+ */
+export async function loadTlsCredentials(
+	home: string,
+	addresses: string[] = [],
+): Promise<TlsCredentials> {
+	const dir = home === IN_MEMORY_HOME ? null : join(home, 'tls');
+	const keyFile = dir && join(dir, 'key.pem');
+	const certFile = dir && join(dir, 'cert.pem');
+	if (keyFile && certFile && existsSync(keyFile) && existsSync(certFile)) {
+		const cert = readFileSync(certFile, 'utf8');
+		return { key: readFileSync(keyFile, 'utf8'), cert, fingerprint: certificateFingerprint(cert) };
+	}
+
+	const names = [...new Set(['localhost', '127.0.0.1', '::1', hostname(), ...addresses])];
+	const notAfterDate = new Date();
+	notAfterDate.setFullYear(notAfterDate.getFullYear() + VALIDITY_YEARS);
+	const pems = await generate([{ name: 'commonName', value: 'claudet' }], {
+		keyType: 'ec',
+		curve: 'P-256',
+		algorithm: 'sha256',
+		notAfterDate,
+		extensions: [
+			{ name: 'basicConstraints', cA: false },
+			{ name: 'extKeyUsage', serverAuth: true },
+			{
+				name: 'subjectAltName',
+				altNames: names.map((name) =>
+					isIP(name) ? { type: 7, ip: name } : { type: 2, value: name },
+				),
+			},
+		],
+	});
+
+	if (dir && keyFile && certFile) {
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(keyFile, pems.private, { mode: 0o600 });
+		writeFileSync(certFile, pems.cert);
+	}
+	return { key: pems.private, cert: pems.cert, fingerprint: certificateFingerprint(pems.cert) };
+}
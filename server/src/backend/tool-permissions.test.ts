@@ -0,0 +1,89 @@
+import { describe, test, expect } from 'vitest';
+import { permissionArgs, validatePermissionMode, validateToolPatterns } from './tool-permissions';
+
+const NO_RULES = { allowedTools: [], disallowedTools: [] };
+
+describe('validatePermissionMode', () => {
+	test('accepts the CLI modes and the claudet modes', () => {
+		expect(validatePermissionMode('plan')).toBe('plan');
+		expect(validatePermissionMode('acceptEdits')).toBe('acceptEdits');
+		expect(validatePermissionMode('askApproval')).toBe('askApproval');
+	});
+
+	test('rejects unknown modes', () => {
+		expect(() => validatePermissionMode('yolo')).toThrow(/permissionMode must be one of/);
+		expect(() => validatePermissionMode(undefined)).toThrow();
+	});
+});
+
+describe('validateToolPatterns', () => {
+	test('trims and de-duplicates patterns', () => {
+		expect(validateToolPatterns([' Bash(git:*) ', 'Read', 'Bash(git:*)'], 'allowedTools')).toEqual([
+			'Bash(git:*)',
+			'Read',
+		]);
+	});
+
+	test('accepts MCP tool names and free-form specifiers', () => {
+		expect(
+			validateToolPatterns(['mcp__github__create_issue', 'Bash(npm run test:*)'], 'allowedTools'),
+		).toEqual(['mcp__github__create_issue', 'Bash(npm run test:*)']);
+	});
+
+	test('rejects non-arrays, non-strings and malformed patterns', () => {
+		expect(() => validateToolPatterns('Bash', 'allowedTools')).toThrow(/must be an array/);
+		expect(() => validateToolPatterns([42], 'allowedTools')).toThrow(/only contain strings/);
+		expect(() => validateToolPatterns([''], 'disallowedTools')).toThrow(/disallowedTools/);
+		expect(() => validateToolPatterns(['Bash()'], 'allowedTools')).toThrow();
+		expect(() => validateToolPatterns(['rm -rf /'], 'allowedTools')).toThrow();
+	});
+
+	test('caps the number of patterns', () => {
+		const many = Array.from({ length: 51 }, (_, i) => `Tool${i}`);
+		expect(() => validateToolPatterns(many, 'allowedTools')).toThrow(/at most 50/);
+	});
+});
+
+describe('permissionArgs', () => {
+	test('passes CLI modes through as --permission-mode', () => {
+		expect(permissionArgs('plan', NO_RULES)).toEqual(['--permission-mode', 'plan']);
+		expect(permissionArgs('default', NO_RULES)).toEqual(['--permission-mode', 'default']);
+	});
+
+	test('keeps the allowEdits allowlist and appends custom rules', () => {
+		const args = permissionArgs('allowEdits', {
+			allowedTools: ['WebFetch', 'Read'],
+			disallowedTools: ['Bash(rm:*)'],
+		});
+		expect(args).toEqual([
+			'--allowedTools',
+			'Bash',
+			'Edit',
+			'Write',
+			'MultiEdit',
+			'Read',
+			'Glob',
+			'Grep',
+			'WebFetch',
+			'--disallowedTools',
+			'Bash(rm:*)',
+		]);
+	});
+
+	test('wires up the approval tool in askApproval mode', () => {
+		expect(permissionArgs('askApproval', NO_RULES, ['--permission-prompt-tool', 'x'])).toEqual([
+			'--permission-prompt-tool',
+			'x',
+			'--allowedTools',
+			'Read',
+			'Glob',
+			'Grep',
+		]);
+	});
+
+	test('still applies disallowed tools when skipping permissions', () => {
+		expect(
+			permissionArgs('dangerouslySkipPermissions', { allowedTools: [], disallowedTools: ['Bash'] }),
+		).toEqual(['--dangerously-skip-permissions', '--disallowedTools', 'Bash']);
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * Per-session permission mode and tool rules, and how they map onto Claude CLI flags.
+ */
+
+/**
+ * default / acceptEdits / plan: the CLI's own `--permission-mode` values.
+ * allowEdits: a fixed allowlist of edit and shell tools; anything else fails.
+ * askApproval: read-only tools run freely; everything else waits for the user's approval.
+ * dangerouslySkipPermissions: no checks at all.
+ */
+export type PermissionMode =
+	| 'default'
+	| 'acceptEdits'
+	| 'plan'
+	| 'allowEdits'
+	| 'askApproval'
+	| 'dangerouslySkipPermissions';
+
+export const PERMISSION_MODES: readonly PermissionMode[] = [
+	'default',
+	'acceptEdits',
+	'plan',
+	'allowEdits',
+	'askApproval',
+	'dangerouslySkipPermissions',
+];
+
+/** Extra rules on top of the mode, in CLI rule syntax: `Tool` or `Tool(specifier)`, e.g. `Bash(git:*)` */
+export interface ToolRules {
+	allowedTools: string[];
+	disallowedTools: string[];
+}
+
+// Tools the allowEdits mode has always passed to --allowedTools
+const EDIT_MODE_TOOLS = ['Bash', 'Edit', 'Write', 'MultiEdit', 'Read', 'Glob', 'Grep'];
+
+// Pre-approved in askApproval mode so the user is only asked about changes
+const READ_ONLY_TOOLS = ['Read', 'Glob', 'Grep'];
+
+const MAX_PATTERNS = 50;
+const MAX_PATTERN_LENGTH = 200;
+// Tool names are identifiers (including mcp__server__tool); the specifier is free-form
+const TOOL_PATTERN = /^[A-Za-z][\w-]*(\(.+\))?$/;
+
+export function validatePermissionMode(raw: unknown): PermissionMode {
+	if (!PERMISSION_MODES.includes(raw as PermissionMode)) {
+		throw new Error(`permissionMode must be one of ${PERMISSION_MODES.join(', ')}`);
+	}
+	return raw as PermissionMode;
+}
+
+/** Trims, de-duplicates and checks a list of tool patterns; throws with a client-facing message */
+export function validateToolPatterns(raw: unknown, field: string): string[] {
+	if (!Array.isArray(raw)) throw new Error(`${field} must be an array of tool patterns`);
+	if (raw.length > MAX_PATTERNS)
+		throw new Error(`${field} can hold at most ${MAX_PATTERNS} patterns`);
+	const patterns: string[] = [];
+	for (const item of raw) {
+		if (typeof item !== 'string') throw new Error(`${field} must only contain strings`);
+		const pattern = item.trim();
+		if (pattern.length > MAX_PATTERN_LENGTH) {
+			throw new Error(`${field}: "${pattern.slice(0, 40)}…" is too long`);
+		}
+		if (!TOOL_PATTERN.test(pattern)) {
+			throw new Error(`${field}: "${pattern}" is not a tool pattern like Bash or Bash(git:*)`);
+		}
+		if (!patterns.includes(pattern)) patterns.push(pattern);
+	}
+	return patterns;
+}
+
+/** CLI flags for a session's mode and rules; `approvalArgs` wire up the approval tool in askApproval mode */
+export function permissionArgs(
+	mode: PermissionMode,
+	rules: ToolRules,
+	approvalArgs: string[] = [],
+): string[] {
+	const base =
+		mode === 'allowEdits' ? EDIT_MODE_TOOLS : mode === 'askApproval' ? READ_ONLY_TOOLS : [];
+	const allowed = [...new Set([...base, ...rules.allowedTools])];
+
+	const args: string[] = [];
+	if (mode === 'dangerouslySkipPermissions') args.push('--dangerously-skip-permissions');
+	else if (mode === 'askApproval') args.push(...approvalArgs);
+	else if (mode !== 'allowEdits') args.push('--permission-mode', mode);
+
+	if (allowed.length > 0) args.push('--allowedTools', ...allowed);
+	if (rules.disallowedTools.length > 0) args.push('--disallowedTools', ...rules.disallowedTools);
+	return args;
+}
@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { listTranscripts, parseTranscript, projectSlug, readTranscript } from './transcripts';
+
+const ROOT = join(tmpdir(), `claudet-transcripts-test-${Date.now()}`);
+const PROJECT = '/home/me/dev/my.app';
+const ID_A = '11111111-2222-3333-4444-555555555555';
+const ID_B = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+
+const jsonl = (...lines: unknown[]) => lines.map((l) => JSON.stringify(l)).join('\n');
+
+const user = (content: unknown, timestamp: string, extra: object = {}) => ({
+	type: 'user',
+	timestamp,
+	message: { role: 'user', content },
+	...extra,
+});
+
+const assistant = (uuid: string, content: unknown[], timestamp: string, extra: object = {}) => ({
+	type: 'assistant',
+	uuid,
+	timestamp,
+	message: { role: 'assistant', model: 'claude-sonnet-4-5-20250929', content },
+	...extra,
+});
+
+const TOOL_SESSION = jsonl(
+	user('List the files', '2026-03-01T10:00:00.000Z'),
+	assistant('a-1', [{ type: 'text', text: 'Let me look.' }], '2026-03-01T10:00:01.000Z'),
+	assistant(
+		'a-2',
+		[{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } }],
+		'2026-03-01T10:00:02.000Z',
+	),
+	user(
+		[{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'README.md' }],
+		'2026-03-01T10:00:03.000Z',
+	),
+	assistant('a-3', [{ type: 'text', text: 'Just a README.' }], '2026-03-01T10:00:04.000Z'),
+	user('Thanks', '2026-03-01T10:05:00.000Z'),
+	assistant('a-4', [{ type: 'text', text: 'Anytime.' }], '2026-03-01T10:05:01.000Z'),
+);
+
+describe('projectSlug', () => {
+	test('replaces every non-alphanumeric character with a dash', () => {
+		expect(projectSlug('/home/me/dev/my.app')).toBe('-home-me-dev-my-app');
+	});
+});
+
+describe('parseTranscript', () => {
+	test('groups tool calls and results into one assistant turn per prompt', () => {
+		const transcript = parseTranscript(ID_A, TOOL_SESSION);
+		expect(transcript.messages.map((m) => [m.role, m.content])).toEqual([
+			['user', 'List the files'],
+			['assistant', 'Let me look.\n\nJust a README.'],
+			['user', 'Thanks'],
+			['assistant', 'Anytime.'],
+		]);
+		expect(transcript.messages[1]?.events?.map((e) => e.kind)).toEqual([
+			'text',
+			'tool_use',
+			'tool_result',
+			'text',
+		]);
+		expect(transcript.messages[1]?.cliMessageUuid).toBe('a-3');
+		expect(transcript.model).toBe('claude-sonnet-4-5-20250929');
+		expect(transcript.createdAt).toBe('2026-03-01T10:00:00.000Z');
+		expect(transcript.updatedAt).toBe('2026-03-01T10:05:01.000Z');
+	});
+
+	test('titles the session with the summary line, else the first prompt', () => {
+		expect(parseTranscript(ID_A, TOOL_SESSION).title).toBe('List the files');
+		const summarized = `${jsonl({ type: 'summary', summary: 'File listing' })}\n${TOOL_SESSION}`;
+		expect(parseTranscript(ID_A, summarized).title).toBe('File listing');
+	});
+
+	test('skips sidechain and meta lines, and marks interrupted turns', () => {
+		const transcript = parseTranscript(
+			ID_A,
+			jsonl(
+				user('caveat', '2026-03-01T10:00:00.000Z', { isMeta: true }),
+				user('Go', '2026-03-01T10:00:01.000Z'),
+				assistant('sub', [{ type: 'text', text: 'subagent' }], '2026-03-01T10:00:02.000Z', {
+					isSidechain: true,
+				}),
+				assistant('a-1', [{ type: 'text', text: 'Star' }], '2026-03-01T10:00:03.000Z'),
+				user([{ type: 'text', text: '[Request interrupted by user]' }], '2026-03-01T10:00:04.000Z'),
+			),
+		);
+		expect(transcript.messages).toHaveLength(2);
+		expect(transcript.messages[1]).toMatchObject({ content: 'Star', interrupted: true });
+	});
+
+	test('tolerates a truncated last line', () => {
+		const transcript = parseTranscript(ID_A, `${TOOL_SESSION}\n{"type":"assis`);
+		expect(transcript.messages).toHaveLength(4);
+	});
+});
+
+describe('listTranscripts', () => {
+	beforeAll(() => {
+		const dir = join(ROOT, projectSlug(PROJECT));
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(join(dir, `${ID_A}.jsonl`), TOOL_SESSION);
+		writeFileSync(
+			join(dir, `${ID_B}.jsonl`),
+			jsonl(
+				user('Later session', '2026-04-01T09:00:00.000Z'),
+				assistant('b-1', [{ type: 'text', text: 'Hi' }], '2026-04-01T09:00:01.000Z'),
+			),
+		);
+		// Not session transcripts
+		writeFileSync(join(dir, 'agent-1234.jsonl'), TOOL_SESSION);
+		writeFileSync(join(dir, 'notes.txt'), 'hello');
+	});
+
+	afterAll(() => {
+		rmSync(ROOT, { recursive: true, force: true });
+	});
+
+	test('lists a project’s transcripts, most recent first', () => {
+		expect(listTranscripts(PROJECT, ROOT).map((t) => t.sessionId)).toEqual([ID_B, ID_A]);
+	});
+
+	test('returns nothing for a project without transcripts', () => {
+		expect(listTranscripts('/home/me/other', ROOT)).toEqual([]);
+	});
+
+	test('reads one transcript and rejects ids that are not session ids', () => {
+		expect(readTranscript(PROJECT, ID_A, ROOT)?.messages).toHaveLength(4);
+		expect(readTranscript(PROJECT, '../../etc/passwd', ROOT)).toBeUndefined();
+	});
+});
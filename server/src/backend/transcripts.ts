@@ -0,0 +1,218 @@
+/**
+ * Reader for the Claude CLI's on-disk transcripts (`~/.claude/projects/<slug>/<session id>.jsonl`),
+ * so sessions started in a terminal can be imported and resumed from the phone.
+ * Only the fields claudet uses are modelled; unknown line types are skipped.
+ */
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { SessionMessage } from './claude';
+import { type TurnEvent, toolOutput } from './claude-stream';
+
+/** A transcript message with the time the CLI recorded it */
+export interface TranscriptMessage extends SessionMessage {
+	createdAt: string;
+}
+
+export interface Transcript {
+	sessionId: string;
+	/** The CLI's summary line if present, else the start of the first prompt */
+	title: string;
+	/** Model of the last assistant reply, as the CLI reports it (e.g. claude-sonnet-4-5-20250929) */
+	model?: string;
+	messages: TranscriptMessage[];
+	createdAt: string;
+	updatedAt: string;
+}
+
+// CLI session ids are UUIDs; also keeps request-supplied ids from escaping the transcript directory
+export const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TITLE_LENGTH = 80;
+
+interface ContentBlock {
+	type?: string;
+	text?: string;
+	id?: string;
+	name?: string;
+	input?: unknown;
+	tool_use_id?: string;
+	content?: unknown;
+	is_error?: boolean;
+}
+
+interface TranscriptLine {
+	type?: string;
+	uuid?: string;
+	timestamp?: string;
+	isSidechain?: boolean;
+	isMeta?: boolean;
+	isCompactSummary?: boolean;
+	summary?: string;
+	message?: { model?: string; content?: string | ContentBlock[] };
+}
+
+/** Where the CLI keeps transcripts: `$CLAUDE_CONFIG_DIR/projects`, defaulting to `~/.claude/projects` */
+export function transcriptsRoot(): string {
+	return join(process.env.CLAUDE_CONFIG_DIR ?? join(homedir(), '.claude'), 'projects');
+}
+
+/** The CLI names a project's transcript directory after its path with every non-alphanumeric as `-` */
+export function projectSlug(projectPath: string): string {
+	return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+/** Turn a transcript's JSONL into claudet messages: one user entry per prompt, one assistant entry per turn */
+export function parseTranscript(sessionId: string, content: string): Transcript {
+	const messages: TranscriptMessage[] = [];
+	let summary: string | undefined;
+	let model: string | undefined;
+	let firstTimestamp: string | undefined;
+	let lastTimestamp: string | undefined;
+
+	// The assistant turn being assembled; tool calls and their results span several lines
+	let turn: { text: string[]; events: TurnEvent[]; uuid?: string; createdAt: string } | undefined;
+	const flush = () => {
+		if (!turn) return;
+		messages.push({
+			role: 'assistant',
+			content: turn.text.join('\n\n'),
+			events: turn.events,
+			cliMessageUuid: turn.uuid,
+			createdAt: turn.createdAt,
+		});
+		turn = undefined;
+	};
+
+	for (const raw of content.split('\n')) {
+		if (!raw.trim()) continue;
+		let line: TranscriptLine;
+		try {
+			line = JSON.parse(raw) as TranscriptLine;
+		} catch {
+			// A line cut off by a CLI that is still writing — skip it
+			continue;
+		}
+		if (line.type === 'summary') {
+			summary ??= line.summary;
+			continue;
+		}
+		if (line.type !== 'user' && line.type !== 'assistant') continue;
+		if (line.isSidechain || line.isMeta || line.isCompactSummary) continue;
+
+		const timestamp = line.timestamp ?? lastTimestamp ?? new Date(0).toISOString();
+		firstTimestamp ??= timestamp;
+		lastTimestamp = timestamp;
+		const body = line.message?.content;
+		const blocks: ContentBlock[] =
+			typeof body === 'string' ? [{ type: 'text', text: body }] : (body ?? []);
+
+		if (line.type === 'assistant') {
+			if (line.message?.model && line.message.model !== '<synthetic>') model = line.message.model;
+			turn ??= { text: [], events: [], createdAt: timestamp };
+			if (line.uuid) turn.uuid = line.uuid;
+			for (const block of blocks) {
+				if (block.type === 'text' && block.text) {
+					turn.text.push(block.text);
+					turn.events.push({ kind: 'text', text: block.text });
+				} else if (block.type === 'tool_use' && block.name) {
+					turn.events.push({
+						kind: 'tool_use',
+						toolUseId: block.id ?? '',
+						name: block.name,
+						input: block.input ?? {},
+					});
+				}
+			}
+			continue;
+		}
+
+		// User lines carry either tool results (part of the current turn) or a new prompt
+		const results = blocks.filter((b) => b.type === 'tool_result');
+		if (results.length > 0) {
+			turn ??= { text: [], events: [], createdAt: timestamp };
+			for (const block of results) {
+				turn.events.push({
+					kind: 'tool_result',
+					toolUseId: block.tool_use_id ?? '',
+					output: toolOutput(block.content),
+					isError: block.is_error === true,
+				});
+			}
+			continue;
+		}
+		const text = blocks
+			.filter((b) => b.type === 'text' && b.text)
+			.map((b) => b.text)
+			.join('\n')
+			.trim();
+		if (!text) continue;
+		if (text.startsWith('[Request interrupted by user')) {
+			flush();
+			const last = messages[messages.length - 1];
+			if (last?.role === 'assistant') last.interrupted = true;
+			continue;
+		}
+		flush();
+		messages.push({ role: 'user', content: text, createdAt: timestamp });
+	}
+	flush();
+
+	const firstPrompt = messages.find((m) => m.role === 'user')?.content.replace(/\s+/g, ' ') ?? '';
+	const title =
+		summary ??
+		(firstPrompt.length > TITLE_LENGTH
+			? `${firstPrompt.slice(0, TITLE_LENGTH - 1)}…`
+			: firstPrompt);
+	const epoch = new Date(0).toISOString();
+	return {
+		sessionId,
+		title,
+		model,
+		messages,
+		createdAt: firstTimestamp ?? epoch,
+		updatedAt: lastTimestamp ?? epoch,
+	};
+}
+
+/** Parse one transcript of a project; undefined if it doesn't exist */
+export function readTranscript(
+	projectPath: string,
+	sessionId: string,
+	root = transcriptsRoot(),
+): Transcript | undefined {
+	if (!SESSION_ID_PATTERN.test(sessionId)) return undefined;
+	try {
+		const content = readFileSync(
+			join(root, projectSlug(projectPath), `${sessionId}.jsonl`),
+			'utf8',
+		);
+		return parseTranscript(sessionId, content);
+	} catch {
+		return undefined;
+	}
+}
+
+/** Every transcript of a project with at least one prompt, most recently active first */
+export function listTranscripts(projectPath: string, root = transcriptsRoot()): Transcript[] {
+	const dir = join(root, projectSlug(projectPath));
+	let entries: string[];
+	try {
+		entries = readdirSync(dir);
+	} catch {
+		return [];
+	}
+	const transcripts: Transcript[] = [];
+	for (const entry of entries) {
+		const sessionId = entry.replace(/\.jsonl$/, '');
+		if (sessionId === entry || !SESSION_ID_PATTERN.test(sessionId)) continue;
+		try {
+			if (!statSync(join(dir, entry)).isFile()) continue;
+		} catch {
+			continue;
+		}
+		const transcript = readTranscript(projectPath, sessionId, root);
+		if (transcript?.messages.some((m) => m.role === 'user')) transcripts.push(transcript);
+	}
+	return transcripts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
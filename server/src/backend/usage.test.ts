@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'vitest';
+import { parseUsageQuery, summarizeUsage } from './usage';
+
+describe('parseUsageQuery', () => {
+	test('defaults to grouping by project with no date bounds', () => {
+		expect(parseUsageQuery({})).toEqual({ groupBy: 'project', from: undefined, to: undefined });
+	});
+
+	test('accepts model and day groupings', () => {
+		expect(parseUsageQuery({ groupBy: 'model' }).groupBy).toBe('model');
+		expect(parseUsageQuery({ groupBy: 'day' }).groupBy).toBe('day');
+	});
+
+	test('rejects unknown groupings', () => {
+		expect(() => parseUsageQuery({ groupBy: 'session' })).toThrow();
+	});
+
+	test('treats a bare "to" day as inclusive', () => {
+		expect(parseUsageQuery({ from: '2026-03-01', to: '2026-03-31' })).toEqual({
+			groupBy: 'project',
+			from: '2026-03-01T00:00:00.000Z',
+			to: '2026-04-01T00:00:00.000Z',
+		});
+	});
+
+	test('keeps full timestamps as given', () => {
+		expect(parseUsageQuery({ to: '2026-03-31T12:00:00Z' }).to).toBe('2026-03-31T12:00:00.000Z');
+	});
+
+	test('rejects invalid dates', () => {
+		expect(() => parseUsageQuery({ from: 'yesterday' })).toThrow();
+	});
+
+	test('rejects an empty range', () => {
+		expect(() => parseUsageQuery({ from: '2026-03-02', to: '2026-03-01' })).toThrow();
+	});
+});
+
+describe('summarizeUsage', () => {
+	test('adds up every group', () => {
+		const group = {
+			turns: 2,
+			inputTokens: 10,
+			outputTokens: 20,
+			cacheReadTokens: 30,
+			cacheCreationTokens: 40,
+			costUsd: 0.5,
+		};
+		const { totals } = summarizeUsage([
+			{ key: 'a', ...group },
+			{ key: 'b', ...group },
+		]);
+		expect(totals).toEqual({
+			turns: 4,
+			inputTokens: 20,
+			outputTokens: 40,
+			cacheReadTokens: 60,
+			cacheCreationTokens: 80,
+			costUsd: 1,
+		});
+	});
+});
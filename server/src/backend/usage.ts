@@ -0,0 +1,67 @@
+import type { TokenUsage } from './claude-stream';
+
+export const USAGE_GROUPS = ['project', 'model', 'day'] as const;
+export type UsageGroupBy = (typeof USAGE_GROUPS)[number];
+
+/** Filter for usage aggregation: `from` is inclusive, `to` exclusive, both ISO timestamps */
+export interface UsageQuery {
+	groupBy: UsageGroupBy;
+	from?: string;
+	to?: string;
+}
+
+export interface UsageGroup extends TokenUsage {
+	/** Project path, model name or UTC day (YYYY-MM-DD), depending on groupBy */
+	key: string;
+	turns: number;
+}
+
+export interface UsageSummary {
+	totals: TokenUsage & { turns: number };
+	groups: UsageGroup[];
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseBound(raw: unknown, name: string, endOfDay: boolean): string | undefined {
+	if (raw === undefined || raw === '') return undefined;
+	if (typeof raw !== 'string') throw new Error(`${name} must be a date`);
+	const date = new Date(raw);
+	if (Number.isNaN(date.getTime()))
+		throw new Error(`${name} must be a date (YYYY-MM-DD or ISO 8601)`);
+	// A bare day as the upper bound means "through the end of that day"
+	if (endOfDay && DATE_ONLY.test(raw)) date.setUTCDate(date.getUTCDate() + 1);
+	return date.toISOString();
+}
+
+/** Validate `GET /api/usage` query params; throws with a client-facing message */
+export function parseUsageQuery(query: Record<string, unknown>): UsageQuery {
+	const groupBy = query.groupBy ?? 'project';
+	if (!USAGE_GROUPS.includes(groupBy as UsageGroupBy)) {
+		throw new Error(`groupBy must be one of ${USAGE_GROUPS.join(', ')}`);
+	}
+	const from = parseBound(query.from, 'from', false);
+	const to = parseBound(query.to, 'to', true);
+	if (from && to && from >= to) throw new Error('from must be before to');
+	return { groupBy: groupBy as UsageGroupBy, from, to };
+}
+
+export function summarizeUsage(groups: UsageGroup[]): UsageSummary {
+	const totals = {
+		turns: 0,
+		inputTokens: 0,
+		outputTokens: 0,
+		cacheReadTokens: 0,
+		cacheCreationTokens: 0,
+		costUsd: 0,
+	};
+	for (const g of groups) {
+		totals.turns += g.turns;
+		totals.inputTokens += g.inputTokens;
+		totals.outputTokens += g.outputTokens;
+		totals.cacheReadTokens += g.cacheReadTokens;
+		totals.cacheCreationTokens += g.cacheCreationTokens;
+		totals.costUsd += g.costUsd;
+	}
+	return { totals, groups };
+}
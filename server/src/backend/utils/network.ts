@@ -1,3 +1,4 @@
+import { isIP } from 'node:net';
 import { networkInterfaces } from 'node:os';
 
 /**
@@ -22,3 +23,18 @@ export function getLocalIP(): string {
 
 	return 'localhost';
 }
+
+/** Whether binding to this address listens on every interface */
+export function isWildcardAddress(address: string): boolean {
+	return address === '::' || address === '0.0.0.0';
+}
+
+/** Whether an address is only reachable from this machine */
+export function isLoopbackAddress(address: string): boolean {
+	return address === '::1' || address.startsWith('127.');
+}
+
+/** An address as the host part of a URL: IPv6 goes in brackets */
+export function urlHost(address: string): string {
+	return isIP(address) === 6 ? `[${address}]` : address;
+}